@@ -1,14 +1,22 @@
 /* eslint-disable no-restricted-globals */
 
-const CACHE_NAME = 'horizon-search-v1';
-const OFFLINE_CACHE = 'horizon-search-offline-v1';
+const CACHE_NAME = 'horizon-search-v2';
+const OFFLINE_CACHE = 'horizon-search-offline-v2';
 
-// Assets to cache for offline use
+// Personal API data is never cached - on a shared device the next user could be served it.
+// Neither is any request sent with the user's token
+const PRIVATE_API_PATH = /\/(auth|users|bookmarks|chats|searches|wellbeing|analytics|moderation)(\/|$)/;
+
+// Writes made offline are queued here by src/services/offlineService.ts
+const QUEUE_DB_NAME = 'horizon-offline';
+const QUEUE_DB_VERSION = 1;
+const QUEUE_STORE = 'requests';
+const SYNC_TAG = 'sync-writes';
+
+// Assets to cache for offline use - the hashed bundles are cached as they load
 const STATIC_ASSETS = [
   '/',
   '/index.html',
-  '/static/css/main.css',
-  '/static/js/main.js',
   '/logo192.png',
   '/logo512.png',
   '/manifest.json',
@@ -25,10 +33,7 @@ self.addEventListener('install', (event) => {
         console.log('[Service Worker] Caching static assets');
         return cache.addAll(STATIC_ASSETS);
       })
-      .then(() => {
-        console.log('[Service Worker] Skip waiting');
-        return self.skipWaiting();
-      })
+      // No skipWaiting here - a new version waits until the app asks for it (SKIP_WAITING)
       .catch((error) => {
         console.error('[Service Worker] Cache failed:', error);
       })
@@ -76,6 +81,10 @@ self.addEventListener('fetch', (event) => {
 
   // Handle API requests
   if (url.pathname.startsWith('/api/') || url.hostname.includes('search-api.horizon')) {
+    if (request.headers.has('Authorization') || PRIVATE_API_PATH.test(url.pathname)) {
+      return;
+    }
+
     event.respondWith(
       fetch(request)
         .then((response) => {
@@ -98,7 +107,7 @@ self.addEventListener('fetch', (event) => {
               return cachedResponse;
             }
 
-            // Return offline response for API calls
+            // Return offline response for API calls - an error status, so callers fall back to their saved copies
             return new Response(
               JSON.stringify({
                 error: 'offline',
@@ -106,6 +115,7 @@ self.addEventListener('fetch', (event) => {
                 cached: true,
               }),
               {
+                status: 503,
                 headers: { 'Content-Type': 'application/json' },
               }
             );
@@ -115,7 +125,30 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
-  // Handle static assets and pages
+  // Search providers, OpenAI and other services are never cached
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages - network first so a new deployment is picked up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.status === 200) {
+            const responseToCache = response.clone();
+            caches.open(CACHE_NAME).then((cache) => {
+              cache.put('/index.html', responseToCache);
+            });
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Handle static assets
   event.respondWith(
     caches.match(request).then((cachedResponse) => {
       if (cachedResponse) {
@@ -148,31 +181,96 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
-// Background sync for queued searches
+// Background sync for writes queued while offline
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'sync-searches') {
-    event.waitUntil(syncSearches());
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(syncQueuedWrites());
   }
 });
 
-async function syncSearches() {
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB_NAME, QUEUE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Take the oldest write that needs no sign-in off the queue, so the app never sends it as well.
+// The queue holds no tokens - the app sends signed-in writes with the user's current one
+function takeNextWrite(db) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    const request = transaction.objectStore(QUEUE_STORE).openCursor();
+    let taken = null;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      if (cursor.value.requireAuth) {
+        cursor.continue();
+        return;
+      }
+      taken = cursor.value;
+      cursor.delete();
+    };
+    transaction.oncomplete = () => resolve(taken);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function putBackWrite(db, write) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(QUEUE_STORE, 'readwrite');
+    transaction.objectStore(QUEUE_STORE).put(write);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function syncQueuedWrites() {
+  const db = await openQueue();
+  let sent = 0;
+
   try {
-    const cache = await caches.open(OFFLINE_CACHE);
-    const requests = await cache.keys();
-
-    // Process queued requests
-    for (const request of requests) {
-      if (request.url.includes('/api/searches/track')) {
-        try {
-          await fetch(request.clone());
-          await cache.delete(request);
-        } catch (error) {
-          console.error('[Service Worker] Sync failed:', error);
-        }
+    let write = await takeNextWrite(db);
+    while (write) {
+      let response;
+      try {
+        response = await fetch(write.url, {
+          method: write.method,
+          headers: write.headers,
+          body: write.body,
+          credentials: 'include',
+        });
+      } catch (error) {
+        // Still offline - put it back and let the browser retry the sync later
+        await putBackWrite(db, write);
+        throw error;
       }
+
+      if (response.ok) {
+        sent++;
+      } else if (response.status >= 500) {
+        // The app sends what is left when it next opens
+        await putBackWrite(db, write);
+        break;
+      } else {
+        console.warn('[Service Worker] Dropped queued write the server rejected:', write.endpoint, response.status);
+      }
+
+      write = await takeNextWrite(db);
     }
-  } catch (error) {
-    console.error('[Service Worker] Background sync error:', error);
+  } finally {
+    db.close();
+    console.log('[Service Worker] Synced queued writes:', sent);
+
+    const clients = await self.clients.matchAll();
+    clients.forEach((client) => client.postMessage({ type: 'WRITES_SYNCED', sent }));
   }
 }
 
@@ -1,40 +1,60 @@
 import { MsalProvider } from '@azure/msal-react';
+import createCache from '@emotion/cache';
+import { CacheProvider } from '@emotion/react';
 import CssBaseline from '@mui/material/CssBaseline';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import React from 'react';
 import { Provider } from 'react-redux';
 import { Navigate, Route, BrowserRouter as Router, Routes } from 'react-router-dom';
+import { prefixer } from 'stylis';
+import rtlPlugin from 'stylis-plugin-rtl';
 import RedirectHandler from './components/Auth/RedirectHandler';
 import MainLayout from './components/Layout/MainLayout';
+import UpdatePrompt from './components/Offline/UpdatePrompt';
+import ConfigErrorScreen from './components/Startup/ConfigErrorScreen';
+import { getConfig } from './config/app-config';
+import { ConfigValidationError } from './config/configSchema';
 import { getMsalInstance, initializeMSAL } from './config/msalConfig';
 import { useAppDispatch, useAppSelector } from './hooks/redux';
+import { useTranslation } from './hooks/useTranslation';
 import AdminPage from './pages/AdminPage';
 import { AuthService } from './services/authService';
+import i18nService from './services/i18nService';
+import readingLevelService from './services/readingLevelService';
+import wellbeingService from './services/wellbeingService';
 import { store } from './store';
 import { setLoading, setRememberMe, setUser } from './store/slices/authSlice';
 // Add this button component to your app to test Sentry's error tracking
 
-const theme = createTheme({
-  palette: {
-    primary: {
-      main: '#1976d2',
+// The theme's direction only flips MUI's own logic; the rtl style cache mirrors
+// margins, paddings and positions in the generated CSS
+const ltrCache = createCache({ key: 'mui' });
+const rtlCache = createCache({ key: 'muirtl', stylisPlugins: [prefixer, rtlPlugin] });
+
+// Built per text direction so Arabic can flip the layout to right-to-left
+const buildTheme = (direction: 'ltr' | 'rtl') =>
+  createTheme({
+    direction,
+    palette: {
+      primary: {
+        main: '#1976d2',
+      },
+      secondary: {
+        main: '#ffc107',
+      },
     },
-    secondary: {
-      main: '#ffc107',
+    typography: {
+      fontFamily: [
+        '-apple-system',
+        'BlinkMacSystemFont',
+        '"Segoe UI"',
+        'Roboto',
+        '"Helvetica Neue"',
+        'Arial',
+        'sans-serif',
+      ].join(','),
     },
-  },
-  typography: {
-    fontFamily: [
-      '-apple-system',
-      'BlinkMacSystemFont',
-      '"Segoe UI"',
-      'Roboto',
-      '"Helvetica Neue"',
-      'Arial',
-      'sans-serif',
-    ].join(','),
-  },
-});
+  });
 
 // Staff-only route wrapper
 const StaffRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
@@ -42,7 +62,7 @@ const StaffRoute: React.FC<{ children: React.ReactElement }> = ({ children }) =>
 
   // Wait for authentication to finish loading
   if (isLoading) {
-    return <div>Loading...</div>;
+    return <div>{i18nService.t('common.loading')}</div>;
   }
 
   if (!user) {
@@ -62,7 +82,7 @@ const AdminRoute: React.FC<{ children: React.ReactElement }> = ({ children }) =>
 
   // Wait for authentication to finish loading
   if (isLoading) {
-    return <div>Loading...</div>;
+    return <div>{i18nService.t('common.loading')}</div>;
   }
 
   if (!isAuthenticated || !user) {
@@ -93,8 +113,47 @@ const AdminRoute: React.FC<{ children: React.ReactElement }> = ({ children }) =>
   return children;
 };
 
+// Wellbeing staff route wrapper - the alert queue is confidential, so other staff are turned away too
+const WellbeingRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
+  const { user, isLoading } = useAppSelector((state) => state.auth);
+
+  // Wait for authentication to finish loading
+  if (isLoading) {
+    return <div>{i18nService.t('common.loading')}</div>;
+  }
+
+  if (!wellbeingService.isWellbeingStaff(user)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return children;
+};
+
 const AppContent: React.FC = () => {
   const dispatch = useAppDispatch();
+  const savedLanguage = useAppSelector((state) => state.auth.user?.settings?.language);
+  const savedGradeLevel = useAppSelector((state) => state.auth.user?.settings?.gradeLevel);
+  const userRole = useAppSelector((state) => state.auth.user?.role);
+
+  // Apply the language saved in the user's backend settings once they sign in
+  React.useEffect(() => {
+    if (savedLanguage && i18nService.isSupported(savedLanguage) && savedLanguage !== i18nService.getLanguage()) {
+      i18nService.setLanguage(savedLanguage);
+    }
+  }, [savedLanguage]);
+
+  // Apply the saved reading level; staff without one get full-length answers.
+  // College and adult levels are staff-only, so anyone else is moved back to a school grade.
+  React.useEffect(() => {
+    const isStaff = userRole === 'staff';
+    if (savedGradeLevel && (isStaff || typeof savedGradeLevel === 'number')) {
+      readingLevelService.setGradeLevel(savedGradeLevel);
+    } else if (isStaff) {
+      readingLevelService.setGradeLevel('adult', false);
+    } else if (typeof readingLevelService.getGradeSetting() !== 'number') {
+      readingLevelService.reset();
+    }
+  }, [savedGradeLevel, userRole]);
 
   React.useEffect(() => {
     const initializeAuth = async () => {
@@ -188,6 +247,14 @@ const AppContent: React.FC = () => {
             </StaffRoute>
           }
         />
+        <Route
+          path="/wellbeing"
+          element={
+            <WellbeingRoute>
+              <MainLayout page="wellbeing" />
+            </WellbeingRoute>
+          }
+        />
         <Route
           path="/admin"
           element={
@@ -205,15 +272,26 @@ const AppContent: React.FC = () => {
 function App() {
   const [isInitialized, setIsInitialized] = React.useState(false);
   const [msalInstance, setMsalInstance] = React.useState<any>(null);
+  const [configError, setConfigError] = React.useState<ConfigValidationError | null>(null);
+  const { isRTL } = useTranslation();
+
+  // Rebuild the theme when switching to/from a right-to-left language
+  const theme = React.useMemo(() => buildTheme(isRTL ? 'rtl' : 'ltr'), [isRTL]);
 
   React.useEffect(() => {
     const initializeMsal = async () => {
       try {
+        // Nothing can start on a configuration the schema rejects
+        await getConfig();
         await initializeMSAL();
         const instance = await getMsalInstance();
         setMsalInstance(instance);
         setIsInitialized(true);
       } catch (error) {
+        if (error instanceof ConfigValidationError) {
+          setConfigError(error);
+          return;
+        }
         console.error('Failed to initialize MSAL:', error);
         setIsInitialized(true); // Continue with fallback
       }
@@ -222,6 +300,17 @@ function App() {
     initializeMsal();
   }, []);
 
+  if (configError) {
+    return (
+      <CacheProvider value={isRTL ? rtlCache : ltrCache}>
+        <ThemeProvider theme={theme}>
+          <CssBaseline />
+          <ConfigErrorScreen error={configError} />
+        </ThemeProvider>
+      </CacheProvider>
+    );
+  }
+
   if (!isInitialized || !msalInstance) {
     return <div>Loading authentication...</div>;
   }
@@ -229,10 +318,13 @@ function App() {
   return (
     <Provider store={store}>
       <MsalProvider instance={msalInstance}>
-        <ThemeProvider theme={theme}>
-          <CssBaseline />
-          <AppContent />
-        </ThemeProvider>
+        <CacheProvider value={isRTL ? rtlCache : ltrCache}>
+          <ThemeProvider theme={theme}>
+            <CssBaseline />
+            <AppContent />
+            <UpdatePrompt />
+          </ThemeProvider>
+        </CacheProvider>
       </MsalProvider>
     </Provider>
   );
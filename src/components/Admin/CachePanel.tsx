@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Grid,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { DeleteSweep as ClearIcon } from '@mui/icons-material';
+import { CACHE_NAMESPACES, cacheService, type CacheNamespace, type CacheStats } from '../../services/cacheService';
+import { useTranslation } from '../../hooks/useTranslation';
+
+const NAMESPACE_LABEL_KEYS: Record<CacheNamespace, string> = {
+  search: 'cache.namespaceSearch',
+  answers: 'cache.namespaceAnswers',
+  chat: 'cache.namespaceChat',
+  suggestions: 'cache.namespaceSuggestions',
+  offline: 'cache.namespaceOffline',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const CachePanel: React.FC = () => {
+  const { t } = useTranslation();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [clearing, setClearing] = useState<CacheNamespace | 'all' | null>(null);
+
+  const refresh = useCallback(() => {
+    cacheService.getStats().then(setStats);
+  }, []);
+
+  // Refresh periodically so counters move while searches run in other tabs of the app
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, 5000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const handleClear = async (namespace?: CacheNamespace) => {
+    setClearing(namespace || 'all');
+    try {
+      await cacheService.clear(namespace);
+    } finally {
+      setClearing(null);
+      refresh();
+    }
+  };
+
+  const summary = stats
+    ? [
+        {
+          label: t('cache.hitRate'),
+          value: stats.hitRate === null ? '—' : `${Math.round(stats.hitRate * 100)}%`,
+        },
+        { label: t('cache.hits'), value: `${stats.hits} (+${stats.staleHits} ${t('cache.stale')})` },
+        { label: t('cache.misses'), value: stats.misses },
+        { label: t('cache.evictions'), value: stats.evictions },
+        {
+          label: t('cache.memory'),
+          value: `${stats.memoryEntries}/${stats.maxMemoryEntries} · ${formatBytes(stats.memoryBytes)}`,
+        },
+        {
+          label: t('cache.persistent'),
+          value: stats.persistentAvailable
+            ? `${stats.persistentEntries} · ${formatBytes(stats.persistentBytes)} / ${formatBytes(stats.maxPersistentBytes)}`
+            : t('cache.unavailable'),
+        },
+      ]
+    : [];
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h5" component="h2">
+          {t('cache.title')}
+        </Typography>
+        <Button
+          variant="outlined"
+          color="error"
+          startIcon={clearing === 'all' ? <CircularProgress size={16} /> : <ClearIcon />}
+          onClick={() => handleClear()}
+          disabled={!stats || clearing !== null}
+        >
+          {t('cache.clearAll')}
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        {t('cache.description')}
+      </Typography>
+
+      {!stats ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          {!stats.persistentAvailable && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              {t('cache.persistentUnavailable')}
+            </Alert>
+          )}
+
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {summary.map((item) => (
+              <Grid key={item.label} size={{ xs: 6, md: 2 }}>
+                <Typography variant="caption" color="text.secondary">
+                  {item.label}
+                </Typography>
+                <Typography variant="h6">{item.value}</Typography>
+              </Grid>
+            ))}
+          </Grid>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('cache.namespace')}</TableCell>
+                  <TableCell align="right">{t('cache.entries')}</TableCell>
+                  <TableCell align="right">{t('cache.size')}</TableCell>
+                  <TableCell align="right" />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {CACHE_NAMESPACES.map((namespace) => (
+                  <TableRow key={namespace}>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="bold">
+                        {t(NAMESPACE_LABEL_KEYS[namespace])}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{stats.namespaces[namespace].entries}</TableCell>
+                    <TableCell align="right">{formatBytes(stats.namespaces[namespace].bytes)}</TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        onClick={() => handleClear(namespace)}
+                        disabled={clearing !== null || stats.namespaces[namespace].entries === 0}
+                      >
+                        {clearing === namespace ? <CircularProgress size={16} /> : t('cache.clear')}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { RestartAlt as ResetIcon } from '@mui/icons-material';
+import { WebSearchService } from '../../services/webSearchService';
+import type { ProviderHealth, SearchFallbackManager } from '../../services/searchProviders';
+import { useTranslation } from '../../hooks/useTranslation';
+
+const formatLatency = (ms: number | null) => (ms === null ? '—' : `${ms} ms`);
+
+const ProviderStatusPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const [manager, setManager] = useState<SearchFallbackManager | null>(null);
+  const [health, setHealth] = useState<ProviderHealth[]>([]);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    WebSearchService.getFallbackManager().then((loaded) => {
+      if (cancelled) return;
+      setManager(loaded);
+      setHealth(loaded.getHealth());
+      unsubscribe = loaded.subscribe(setHealth);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, []);
+
+  // Refresh periodically so cool-down countdowns move without new searches
+  useEffect(() => {
+    if (!manager) return;
+    const interval = setInterval(() => setHealth(manager.getHealth()), 5000);
+    return () => clearInterval(interval);
+  }, [manager]);
+
+  const getStatusChip = (provider: ProviderHealth) => {
+    if (!provider.available) {
+      return <Chip size="small" label={t('providers.unavailable')} />;
+    }
+
+    if (provider.circuit === 'open') {
+      const seconds = Math.max(0, Math.ceil(((provider.openUntil || 0) - Date.now()) / 1000));
+      return (
+        <Tooltip title={t('providers.openHint', { seconds })}>
+          <Chip size="small" color="error" label={t('providers.open')} />
+        </Tooltip>
+      );
+    }
+
+    if (provider.circuit === 'half-open') {
+      return <Chip size="small" color="warning" label={t('providers.halfOpen')} />;
+    }
+
+    if (provider.totalRequests === 0) {
+      return <Chip size="small" variant="outlined" label={t('providers.noData')} />;
+    }
+
+    return provider.consecutiveFailures > 0
+      ? <Chip size="small" color="warning" label={t('providers.degraded')} />
+      : <Chip size="small" color="success" label={t('providers.healthy')} />;
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h5" component="h2">
+          {t('providers.title')}
+        </Typography>
+        <Button
+          variant="outlined"
+          startIcon={<ResetIcon />}
+          onClick={() => manager?.resetCircuits()}
+          disabled={!manager}
+        >
+          {t('providers.resetCircuits')}
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        {t('providers.description')}
+      </Typography>
+
+      {!manager ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : health.length === 0 ? (
+        <Alert severity="warning">{t('providers.noneConfigured')}</Alert>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('providers.provider')}</TableCell>
+                <TableCell>{t('providers.status')}</TableCell>
+                <TableCell align="right">{t('providers.successRate')}</TableCell>
+                <TableCell align="right">p50</TableCell>
+                <TableCell align="right">p95</TableCell>
+                <TableCell align="right">p99</TableCell>
+                <TableCell align="right">{t('providers.requests')}</TableCell>
+                <TableCell align="right">{t('providers.consecutiveFailures')}</TableCell>
+                <TableCell>{t('providers.lastError')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {health.map((provider, index) => (
+                <TableRow key={`${provider.name}-${index}`}>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight="bold">
+                      {index + 1}. {provider.name}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{getStatusChip(provider)}</TableCell>
+                  <TableCell align="right">
+                    {provider.successRate === null ? '—' : `${Math.round(provider.successRate * 100)}%`}
+                  </TableCell>
+                  <TableCell align="right">{formatLatency(provider.latency.p50)}</TableCell>
+                  <TableCell align="right">{formatLatency(provider.latency.p95)}</TableCell>
+                  <TableCell align="right">{formatLatency(provider.latency.p99)}</TableCell>
+                  <TableCell align="right">{provider.totalRequests}</TableCell>
+                  <TableCell align="right">{provider.consecutiveFailures}</TableCell>
+                  <TableCell sx={{ maxWidth: 280 }}>
+                    {provider.lastError ? (
+                      <Tooltip title={provider.lastError}>
+                        <Typography variant="caption" color="error" noWrap component="div">
+                          {provider.lastFailureAt && `${new Date(provider.lastFailureAt).toLocaleTimeString()} · `}
+                          {provider.lastError}
+                        </Typography>
+                      </Tooltip>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+};
+
+export default ProviderStatusPanel;
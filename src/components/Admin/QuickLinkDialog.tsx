@@ -19,6 +19,7 @@ import {
   Alert,
   Stack,
 } from '@mui/material';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface QuickLink {
   linkId: string;
@@ -40,6 +41,7 @@ interface QuickLinkDialogProps {
 }
 
 const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose, onSave }) => {
+  const { t } = useTranslation();
   const [formData, setFormData] = useState({
     title: '',
     url: '',
@@ -102,21 +104,21 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
     const newErrors: Record<string, string> = {};
 
     if (!formData.title.trim()) {
-      newErrors.title = 'Title is required';
+      newErrors.title = t('links.titleRequired');
     }
 
     if (!formData.url.trim()) {
-      newErrors.url = 'URL is required';
+      newErrors.url = t('links.urlRequired');
     } else {
       try {
         new URL(formData.url);
       } catch {
-        newErrors.url = 'Invalid URL format';
+        newErrors.url = t('links.urlInvalid');
       }
     }
 
     if (formData.roles.length === 0) {
-      newErrors.roles = 'At least one role must be selected';
+      newErrors.roles = t('links.rolesRequired');
     }
 
     setErrors(newErrors);
@@ -136,7 +138,7 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
       onClose();
     } catch (err: any) {
       console.error('Save error:', err);
-      setSaveError(err.message || 'Failed to save link');
+      setSaveError(err.message || t('links.saveFailed'));
     } finally {
       setSaving(false);
     }
@@ -152,7 +154,7 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
-      <DialogTitle>{link ? 'Edit Quick Link' : 'Create Quick Link'}</DialogTitle>
+      <DialogTitle>{link ? t('links.editTitle') : t('links.createTitle')}</DialogTitle>
       <DialogContent>
         {saveError && (
           <Alert severity="error" sx={{ mb: 2 }}>
@@ -164,7 +166,7 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
           {/* Title */}
           <TextField
             fullWidth
-            label="Title"
+            label={t('links.columnTitle')}
             value={formData.title}
             onChange={(e) => setFormData({ ...formData, title: e.target.value })}
             error={!!errors.title}
@@ -175,7 +177,7 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
           {/* URL */}
           <TextField
             fullWidth
-            label="URL"
+            label={t('links.columnUrl')}
             value={formData.url}
             onChange={(e) => setFormData({ ...formData, url: e.target.value })}
             error={!!errors.url}
@@ -187,22 +189,22 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
           {/* Description */}
           <TextField
             fullWidth
-            label="Description"
+            label={t('links.description')}
             value={formData.description}
             onChange={(e) => setFormData({ ...formData, description: e.target.value })}
             multiline
             rows={2}
-            placeholder="Brief description of this link"
+            placeholder={t('links.descriptionPlaceholder')}
           />
 
           <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
             {/* Category */}
             <Box sx={{ flex: '1 1 200px' }}>
               <FormControl fullWidth>
-                <InputLabel>Category</InputLabel>
+                <InputLabel>{t('links.category')}</InputLabel>
                 <Select
                   value={formData.category}
-                  label="Category"
+                  label={t('links.category')}
                   onChange={(e) => setFormData({ ...formData, category: e.target.value })}
                 >
                   {categories.map((cat) => (
@@ -217,10 +219,10 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
             {/* Icon */}
             <Box sx={{ flex: '1 1 200px' }}>
               <FormControl fullWidth>
-                <InputLabel>Icon</InputLabel>
+                <InputLabel>{t('links.icon')}</InputLabel>
                 <Select
                   value={formData.icon}
-                  label="Icon"
+                  label={t('links.icon')}
                   onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
                 >
                   {iconOptions.map((icon) => (
@@ -237,12 +239,12 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
             {/* Roles */}
             <Box sx={{ flex: '1 1 200px' }}>
               <FormControl fullWidth error={!!errors.roles}>
-                <InputLabel>Roles</InputLabel>
+                <InputLabel>{t('links.columnRoles')}</InputLabel>
                 <Select
                   multiple
                   value={formData.roles}
                   onChange={handleRoleChange}
-                  input={<OutlinedInput label="Roles" />}
+                  input={<OutlinedInput label={t('links.columnRoles')} />}
                   renderValue={(selected) => (
                     <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
                       {selected.map((value) => (
@@ -253,7 +255,7 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
                 >
                   {roleOptions.map((role) => (
                     <MenuItem key={role} value={role}>
-                      {role.charAt(0).toUpperCase() + role.slice(1)}
+                      {t(`auth.${role}`)}
                     </MenuItem>
                   ))}
                 </Select>
@@ -270,10 +272,10 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
               <TextField
                 fullWidth
                 type="number"
-                label="Order"
+                label={t('links.columnOrder')}
                 value={formData.order}
                 onChange={(e) => setFormData({ ...formData, order: parseInt(e.target.value) || 0 })}
-                helperText="Lower numbers appear first"
+                helperText={t('links.orderHelp')}
               />
             </Box>
           </Box>
@@ -286,16 +288,16 @@ const QuickLinkDialog: React.FC<QuickLinkDialogProps> = ({ open, link, onClose,
                 onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
               />
             }
-            label="Active"
+            label={t('common.active')}
           />
         </Stack>
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose} disabled={saving}>
-          Cancel
+          {t('common.cancel')}
         </Button>
         <Button onClick={handleSubmit} variant="contained" disabled={saving}>
-          {saving ? 'Saving...' : link ? 'Update' : 'Create'}
+          {saving ? t('common.saving') : link ? t('common.update') : t('common.create')}
         </Button>
       </DialogActions>
     </Dialog>
@@ -32,6 +32,7 @@ import {
 } from '@mui/icons-material';
 import backendService from '../../services/backendService';
 import QuickLinkDialog from './QuickLinkDialog';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface QuickLink {
   linkId: string;
@@ -49,6 +50,7 @@ interface QuickLink {
 }
 
 const QuickLinksManager: React.FC = () => {
+  const { t } = useTranslation();
   const [links, setLinks] = useState<QuickLink[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -82,7 +84,7 @@ const QuickLinksManager: React.FC = () => {
       setLinks(data);
     } catch (err: any) {
       console.error('Failed to load links:', err);
-      setError(err.message || 'Failed to load quick links');
+      setError(err.message || t('links.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -99,19 +101,19 @@ const QuickLinksManager: React.FC = () => {
   };
 
   const handleDelete = async (linkId: string) => {
-    if (!window.confirm('Are you sure you want to delete this link?')) {
+    if (!window.confirm(t('links.confirmDelete'))) {
       return;
     }
 
     try {
       setError(null);
       await backendService.deleteQuickLink(linkId);
-      setSuccess('Link deleted successfully');
+      setSuccess(t('links.deleted'));
       loadLinks();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err: any) {
       console.error('Failed to delete link:', err);
-      setError(err.message || 'Failed to delete link');
+      setError(err.message || t('links.deleteFailed'));
     }
   };
 
@@ -119,12 +121,12 @@ const QuickLinksManager: React.FC = () => {
     try {
       setError(null);
       await backendService.toggleQuickLink(link.linkId);
-      setSuccess(`Link ${link.isActive ? 'deactivated' : 'activated'} successfully`);
+      setSuccess(link.isActive ? t('links.deactivated') : t('links.activated'));
       loadLinks();
       setTimeout(() => setSuccess(null), 3000);
     } catch (err: any) {
       console.error('Failed to toggle link:', err);
-      setError(err.message || 'Failed to toggle link');
+      setError(err.message || t('links.toggleFailed'));
     }
   };
 
@@ -134,11 +136,11 @@ const QuickLinksManager: React.FC = () => {
       if (editingLink) {
         // Update existing link
         await backendService.updateQuickLink(editingLink.linkId, linkData);
-        setSuccess('Link updated successfully');
+        setSuccess(t('links.updated'));
       } else {
         // Create new link
         await backendService.createQuickLink(linkData as any);
-        setSuccess('Link created successfully');
+        setSuccess(t('links.created'));
       }
       setDialogOpen(false);
       setEditingLink(null);
@@ -146,7 +148,7 @@ const QuickLinksManager: React.FC = () => {
       setTimeout(() => setSuccess(null), 3000);
     } catch (err: any) {
       console.error('Failed to save link:', err);
-      setError(err.message || 'Failed to save link');
+      setError(err.message || t('links.saveFailed'));
       throw err; // Re-throw to keep dialog open
     }
   };
@@ -181,7 +183,7 @@ const QuickLinksManager: React.FC = () => {
       {/* Header */}
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h5" component="h2">
-          Quick Links Management
+          {t('links.title')}
         </Typography>
         <Stack direction="row" spacing={2}>
           <Button
@@ -190,7 +192,7 @@ const QuickLinksManager: React.FC = () => {
             onClick={loadLinks}
             disabled={loading}
           >
-            Refresh
+            {t('common.refresh')}
           </Button>
           <Button
             variant="contained"
@@ -198,7 +200,7 @@ const QuickLinksManager: React.FC = () => {
             onClick={handleCreate}
             disabled={loading}
           >
-            Add Link
+            {t('links.add')}
           </Button>
         </Stack>
       </Box>
@@ -218,13 +220,13 @@ const QuickLinksManager: React.FC = () => {
       {/* Filters */}
       <Stack direction="row" spacing={2} sx={{ mb: 3 }}>
         <FormControl sx={{ minWidth: 150 }}>
-          <InputLabel>Category</InputLabel>
+          <InputLabel>{t('links.category')}</InputLabel>
           <Select
             value={categoryFilter}
-            label="Category"
+            label={t('links.category')}
             onChange={(e) => setCategoryFilter(e.target.value)}
           >
-            <MenuItem value="">All</MenuItem>
+            <MenuItem value="">{t('common.all')}</MenuItem>
             {categories.map((cat) => (
               <MenuItem key={cat} value={cat}>
                 {cat}
@@ -234,29 +236,29 @@ const QuickLinksManager: React.FC = () => {
         </FormControl>
 
         <FormControl sx={{ minWidth: 150 }}>
-          <InputLabel>Status</InputLabel>
+          <InputLabel>{t('links.status')}</InputLabel>
           <Select
             value={activeFilter}
-            label="Status"
+            label={t('links.status')}
             onChange={(e) => setActiveFilter(e.target.value)}
           >
-            <MenuItem value="">All</MenuItem>
-            <MenuItem value="true">Active</MenuItem>
-            <MenuItem value="false">Inactive</MenuItem>
+            <MenuItem value="">{t('common.all')}</MenuItem>
+            <MenuItem value="true">{t('common.active')}</MenuItem>
+            <MenuItem value="false">{t('common.inactive')}</MenuItem>
           </Select>
         </FormControl>
 
         <FormControl sx={{ minWidth: 150 }}>
-          <InputLabel>Role</InputLabel>
+          <InputLabel>{t('links.role')}</InputLabel>
           <Select
             value={roleFilter}
-            label="Role"
+            label={t('links.role')}
             onChange={(e) => setRoleFilter(e.target.value)}
           >
-            <MenuItem value="">All</MenuItem>
+            <MenuItem value="">{t('common.all')}</MenuItem>
             {roles.map((role) => (
               <MenuItem key={role} value={role}>
-                {role.charAt(0).toUpperCase() + role.slice(1)}
+                {t(`auth.${role}`)}
               </MenuItem>
             ))}
           </Select>
@@ -271,7 +273,7 @@ const QuickLinksManager: React.FC = () => {
               setRoleFilter('');
             }}
           >
-            Clear Filters
+            {t('links.clearFilters')}
           </Button>
         )}
       </Stack>
@@ -283,21 +285,21 @@ const QuickLinksManager: React.FC = () => {
         </Box>
       ) : links.length === 0 ? (
         <Alert severity="info">
-          No quick links found. {categoryFilter || activeFilter || roleFilter ? 'Try adjusting your filters.' : 'Create your first link to get started.'}
+          {t('links.empty')} {categoryFilter || activeFilter || roleFilter ? t('links.emptyFiltered') : t('links.emptyStart')}
         </Alert>
       ) : (
         <TableContainer>
           <Table>
             <TableHead>
               <TableRow>
-                <TableCell>Title</TableCell>
-                <TableCell>URL</TableCell>
-                <TableCell>Category</TableCell>
-                <TableCell>Roles</TableCell>
-                <TableCell align="center">Order</TableCell>
-                <TableCell align="center">Clicks</TableCell>
-                <TableCell align="center">Status</TableCell>
-                <TableCell align="right">Actions</TableCell>
+                <TableCell>{t('links.columnTitle')}</TableCell>
+                <TableCell>{t('links.columnUrl')}</TableCell>
+                <TableCell>{t('links.category')}</TableCell>
+                <TableCell>{t('links.columnRoles')}</TableCell>
+                <TableCell align="center">{t('links.columnOrder')}</TableCell>
+                <TableCell align="center">{t('links.columnClicks')}</TableCell>
+                <TableCell align="center">{t('links.status')}</TableCell>
+                <TableCell align="right">{t('common.actions')}</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
@@ -365,13 +367,13 @@ const QuickLinksManager: React.FC = () => {
                   <TableCell align="center">{link.clickCount || 0}</TableCell>
                   <TableCell align="center">
                     <Chip
-                      label={link.isActive ? 'Active' : 'Inactive'}
+                      label={link.isActive ? t('common.active') : t('common.inactive')}
                       color={link.isActive ? 'success' : 'default'}
                       size="small"
                     />
                   </TableCell>
                   <TableCell align="right">
-                    <Tooltip title={link.isActive ? 'Deactivate' : 'Activate'}>
+                    <Tooltip title={link.isActive ? t('links.deactivate') : t('links.activate')}>
                       <IconButton
                         size="small"
                         onClick={() => handleToggle(link)}
@@ -380,12 +382,12 @@ const QuickLinksManager: React.FC = () => {
                         {link.isActive ? <ToggleOnIcon /> : <ToggleOffIcon />}
                       </IconButton>
                     </Tooltip>
-                    <Tooltip title="Edit">
+                    <Tooltip title={t('common.edit')}>
                       <IconButton size="small" onClick={() => handleEdit(link)} color="primary">
                         <EditIcon />
                       </IconButton>
                     </Tooltip>
-                    <Tooltip title="Delete">
+                    <Tooltip title={t('common.delete')}>
                       <IconButton
                         size="small"
                         onClick={() => handleDelete(link.linkId)}
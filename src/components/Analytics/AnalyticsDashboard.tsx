@@ -42,12 +42,14 @@ import backendService, {
   SearchHistoryItem,
   ModerationStats,
 } from '../../services/backendService';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface AnalyticsDashboardProps {
   userRole: 'guest' | 'student' | 'staff';
 }
 
 const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) => {
+  const { t } = useTranslation();
   const [loading, setLoading] = useState(true);
   const [searches, setSearches] = useState<SearchHistoryItem[]>([]);
   const [stats, setStats] = useState<ModerationStats | null>(null);
@@ -123,7 +125,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
   if (userRole !== 'staff') {
     return (
       <Alert severity="error">
-        Access Denied - Staff Only
+        {t('common.accessDenied')}
       </Alert>
     );
   }
@@ -150,11 +152,11 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
         setViewDialogOpen(false);
         setSelectedSearch(null);
       } else {
-        alert('Failed to moderate search');
+        alert(t('analytics.moderateFailed'));
       }
     } catch (error) {
       console.error('Moderation failed:', error);
-      alert('Failed to moderate search');
+      alert(t('analytics.moderateFailed'));
     } finally {
       setModerating(false);
     }
@@ -186,6 +188,19 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
     }
   };
 
+  const getModerationLabel = (action?: string | null) => {
+    switch (action) {
+      case 'approved':
+        return t('analytics.statusApproved');
+      case 'blocked':
+        return t('analytics.statusBlocked');
+      case 'flagged':
+        return t('analytics.statusFlagged');
+      default:
+        return action || '';
+    }
+  };
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -197,7 +212,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h4" gutterBottom>
-        Search Analytics & Moderation
+        {t('analytics.title')}
       </Typography>
 
       {/* Statistics Cards */}
@@ -207,13 +222,13 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             <Card>
               <CardContent>
                 <Typography color="textSecondary" gutterBottom>
-                  Needs Attention
+                  {t('analytics.needsAttention')}
                 </Typography>
                 <Typography variant="h4" color="error">
                   {stats.moderation.needsAttention}
                 </Typography>
                 <Typography variant="caption">
-                  Unmoderated "bad" searches
+                  {t('analytics.needsAttentionHint')}
                 </Typography>
               </CardContent>
             </Card>
@@ -223,13 +238,13 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             <Card>
               <CardContent>
                 <Typography color="textSecondary" gutterBottom>
-                  Bad Triggers
+                  {t('analytics.badTriggers')}
                 </Typography>
                 <Typography variant="h4">
                   {stats.triggers.bad || 0}
                 </Typography>
                 <Typography variant="caption">
-                  Flagged as inappropriate
+                  {t('analytics.badTriggersHint')}
                 </Typography>
               </CardContent>
             </Card>
@@ -239,13 +254,13 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             <Card>
               <CardContent>
                 <Typography color="textSecondary" gutterBottom>
-                  Questionable
+                  {t('analytics.questionable')}
                 </Typography>
                 <Typography variant="h4" color="warning.main">
                   {stats.triggers.questionable || 0}
                 </Typography>
                 <Typography variant="caption">
-                  Needs review
+                  {t('analytics.questionableHint')}
                 </Typography>
               </CardContent>
             </Card>
@@ -255,13 +270,13 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             <Card>
               <CardContent>
                 <Typography color="textSecondary" gutterBottom>
-                  Safe Searches
+                  {t('analytics.safeSearches')}
                 </Typography>
                 <Typography variant="h4" color="success.main">
                   {stats.triggers.safe || 0}
                 </Typography>
                 <Typography variant="caption">
-                  Approved content
+                  {t('analytics.safeSearchesHint')}
                 </Typography>
               </CardContent>
             </Card>
@@ -272,10 +287,10 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
       {/* Tabs */}
       <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
         <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)}>
-          <Tab label="Needs Review" icon={<Warning />} iconPosition="start" />
-          <Tab label="Flagged" icon={<Flag />} iconPosition="start" />
-          <Tab label="Blocked" icon={<Block />} iconPosition="start" />
-          <Tab label="Approved" icon={<CheckCircle />} iconPosition="start" />
+          <Tab label={t('analytics.tabNeedsReview')} icon={<Warning />} iconPosition="start" />
+          <Tab label={t('analytics.tabFlagged')} icon={<Flag />} iconPosition="start" />
+          <Tab label={t('analytics.tabBlocked')} icon={<Block />} iconPosition="start" />
+          <Tab label={t('analytics.tabApproved')} icon={<CheckCircle />} iconPosition="start" />
         </Tabs>
       </Box>
 
@@ -285,15 +300,15 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
           <FilterList />
           <TextField
             select
-            label="Filter by Trigger"
+            label={t('analytics.filterByTrigger')}
             value={filterTrigger}
             onChange={(e) => setFilterTrigger(e.target.value)}
             sx={{ minWidth: 200 }}
           >
-            <MenuItem value="all">All Triggers</MenuItem>
-            <MenuItem value="bad">Bad</MenuItem>
-            <MenuItem value="questionable">Questionable</MenuItem>
-            <MenuItem value="safe">Safe</MenuItem>
+            <MenuItem value="all">{t('analytics.allTriggers')}</MenuItem>
+            <MenuItem value="bad">{t('analytics.triggerBad')}</MenuItem>
+            <MenuItem value="questionable">{t('analytics.triggerQuestionable')}</MenuItem>
+            <MenuItem value="safe">{t('analytics.triggerSafe')}</MenuItem>
           </TextField>
 
           <Button
@@ -301,7 +316,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             startIcon={<Refresh />}
             onClick={loadData}
           >
-            Refresh
+            {t('common.refresh')}
           </Button>
         </Box>
       )}
@@ -313,7 +328,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             startIcon={<Refresh />}
             onClick={loadData}
           >
-            Refresh
+            {t('common.refresh')}
           </Button>
         </Box>
       )}
@@ -323,21 +338,21 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
         <Table>
           <TableHead>
             <TableRow>
-              <TableCell>Trigger</TableCell>
-              <TableCell>Query</TableCell>
-              <TableCell>User</TableCell>
-              <TableCell>Date</TableCell>
-              <TableCell>Rating</TableCell>
-              <TableCell>Results</TableCell>
-              <TableCell>AI Answer</TableCell>
-              <TableCell>Actions</TableCell>
+              <TableCell>{t('analytics.columnTrigger')}</TableCell>
+              <TableCell>{t('analytics.columnQuery')}</TableCell>
+              <TableCell>{t('analytics.columnUser')}</TableCell>
+              <TableCell>{t('analytics.columnDate')}</TableCell>
+              <TableCell>{t('analytics.columnRating')}</TableCell>
+              <TableCell>{t('analytics.columnResults')}</TableCell>
+              <TableCell>{t('analytics.columnAiAnswer')}</TableCell>
+              <TableCell>{t('common.actions')}</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {searches.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={8} align="center">
-                  No searches found
+                  {t('analytics.noSearches')}
                 </TableCell>
               </TableRow>
             ) : (
@@ -346,7 +361,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
                   <TableCell>
                     <Chip
                       icon={getTriggerIcon(search.trigger)}
-                      label={search.trigger || 'None'}
+                      label={search.trigger || t('analytics.none')}
                       color={getTriggerColor(search.trigger)}
                       size="small"
                     />
@@ -366,7 +381,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
                   </TableCell>
                   <TableCell>
                     {search.contentRating !== null && search.contentRating !== undefined ? (
-                      <Tooltip title={`Content Rating: ${search.contentRating}/100`}>
+                      <Tooltip title={t('analytics.contentRatingTooltip', { rating: search.contentRating })}>
                         <Box
                           sx={{
                             width: 60,
@@ -428,10 +443,10 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
         {selectedSearch && (
           <>
             <DialogTitle>
-              Search Details
+              {t('analytics.details')}
               <Chip
                 icon={getTriggerIcon(selectedSearch.trigger)}
-                label={selectedSearch.trigger || 'No Trigger'}
+                label={selectedSearch.trigger || t('analytics.noTrigger')}
                 color={getTriggerColor(selectedSearch.trigger)}
                 size="small"
                 sx={{ ml: 2 }}
@@ -440,7 +455,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
             <DialogContent>
               <Box sx={{ mb: 2 }}>
                 <Typography variant="subtitle2" color="textSecondary">
-                  Query
+                  {t('analytics.columnQuery')}
                 </Typography>
                 <Typography variant="body1">{selectedSearch.query}</Typography>
               </Box>
@@ -448,7 +463,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
               {selectedSearch.contentRating !== null && selectedSearch.contentRating !== undefined && (
                 <Box sx={{ mb: 2 }}>
                   <Typography variant="subtitle2" color="textSecondary">
-                    Content Rating
+                    {t('analytics.contentRating')}
                   </Typography>
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
                     <Box
@@ -481,7 +496,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
               {selectedSearch.triggerReason && (
                 <Box sx={{ mb: 2 }}>
                   <Typography variant="subtitle2" color="textSecondary">
-                    Trigger Reason
+                    {t('analytics.triggerReason')}
                   </Typography>
                   <Alert severity="warning">{selectedSearch.triggerReason}</Alert>
                 </Box>
@@ -489,36 +504,36 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
 
               <Box sx={{ mb: 2 }}>
                 <Typography variant="subtitle2" color="textSecondary">
-                  Details
+                  {t('analytics.detailsHeading')}
                 </Typography>
                 <Typography variant="body2">
-                  Date: {new Date(selectedSearch.searchedAt).toLocaleString()}
+                  {t('analytics.detailDate', { date: new Date(selectedSearch.searchedAt).toLocaleString() })}
                 </Typography>
                 <Typography variant="body2">
-                  Category: {selectedSearch.category}
+                  {t('analytics.detailCategory', { category: selectedSearch.category })}
                 </Typography>
                 <Typography variant="body2">
-                  Results: {selectedSearch.resultCount}
+                  {t('analytics.detailResults', { count: selectedSearch.resultCount })}
                 </Typography>
                 <Typography variant="body2">
-                  AI Answer: {selectedSearch.hasAiAnswer ? 'Yes' : 'No'}
+                  {t('analytics.detailAiAnswer', { value: selectedSearch.hasAiAnswer ? t('common.yes') : t('common.no') })}
                 </Typography>
               </Box>
 
               {!selectedSearch.isModerated && (
                 <Alert severity="info" sx={{ mt: 2 }}>
-                  This search has not been moderated yet. Take action below.
+                  {t('analytics.notModerated')}
                 </Alert>
               )}
 
               {selectedSearch.isModerated && (
                 <Alert severity="success" sx={{ mt: 2 }}>
-                  This search was {selectedSearch.moderationAction} by a moderator.
+                  {t('analytics.moderatedAs', { action: getModerationLabel(selectedSearch.moderationAction) })}
                 </Alert>
               )}
             </DialogContent>
             <DialogActions>
-              <Button onClick={() => setViewDialogOpen(false)}>Close</Button>
+              <Button onClick={() => setViewDialogOpen(false)}>{t('common.close')}</Button>
               {!selectedSearch.isModerated && (
                 <>
                   <Button
@@ -528,7 +543,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
                     onClick={() => handleModerate('approved')}
                     disabled={moderating}
                   >
-                    Approve
+                    {t('analytics.approve')}
                   </Button>
                   <Button
                     variant="outlined"
@@ -537,7 +552,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
                     onClick={() => handleModerate('flagged', 'Flagged for review')}
                     disabled={moderating}
                   >
-                    Flag
+                    {t('analytics.flag')}
                   </Button>
                   <Button
                     variant="contained"
@@ -546,7 +561,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ userRole }) =>
                     onClick={() => handleModerate('blocked', 'Blocked inappropriate content')}
                     disabled={moderating}
                   >
-                    Block
+                    {t('analytics.block')}
                   </Button>
                 </>
               )}
@@ -17,6 +17,7 @@ import {
   School as SchoolIcon,
 } from '@mui/icons-material';
 import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
 import { setUser, setLoading, setRememberMe } from '../../store/slices/authSlice';
 import { AuthService } from '../../services/authService';
 
@@ -28,6 +29,7 @@ interface LoginDialogProps {
 const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose }) => {
   const { isLoading, rememberMe } = useAppSelector((state) => state.auth);
   const dispatch = useAppDispatch();
+  const { t } = useTranslation();
   const [error, setError] = React.useState<string | null>(null);
 
   const handleLogin = async () => {
@@ -40,10 +42,10 @@ const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose }) => {
         dispatch(setUser(user));
         onClose();
       } else {
-        setError('Login failed. Please try again.');
+        setError(t('auth.loginFailed'));
       }
     } catch (err: any) {
-      setError(err.message || 'Login failed. Please try again.');
+      setError(err.message || t('auth.loginFailed'));
     }
 
     dispatch(setLoading(false));
@@ -74,14 +76,14 @@ const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose }) => {
         <Box className="flex items-center space-x-2">
           <SchoolIcon className="text-blue-600" />
           <Typography variant="h6" className="font-bold">
-            Sign in to Horizon Christian School
+            {t('auth.dialogTitle')}
           </Typography>
         </Box>
       </DialogTitle>
 
       <DialogContent className="pb-2">
         <Typography variant="body1" className="text-gray-600 mb-4">
-          Access your personalized dashboard with assignments, resources, and tools.
+          {t('auth.dialogIntro')}
         </Typography>
 
         {error && (
@@ -100,7 +102,7 @@ const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose }) => {
             disabled={isLoading}
             className="bg-blue-600 hover:bg-blue-700 text-white py-3"
           >
-            {isLoading ? 'Signing in...' : 'Sign in with Microsoft'}
+            {isLoading ? t('auth.signingIn') : t('auth.signInWithMicrosoft')}
           </Button>
 
           <FormControlLabel
@@ -114,20 +116,20 @@ const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose }) => {
             }
             label={
               <Typography variant="body2" className="text-gray-600">
-                Remember me for 30 days
+                {t('auth.rememberMe')}
               </Typography>
             }
           />
 
           <Box className="bg-gray-50 rounded-lg p-4">
             <Typography variant="body2" className="text-gray-700 mb-2 font-medium">
-              What you'll get:
+              {t('auth.benefitsTitle')}
             </Typography>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>• Personalized search results</li>
-              <li>• Access to assignments and grades</li>
-              <li>• Role-specific quick links</li>
-              <li>• AI-powered learning assistance</li>
+              <li>• {t('auth.benefitSearch')}</li>
+              <li>• {t('auth.benefitAssignments')}</li>
+              <li>• {t('auth.benefitLinks')}</li>
+              <li>• {t('auth.benefitAssistance')}</li>
             </ul>
           </Box>
         </Box>
@@ -139,7 +141,7 @@ const LoginDialog: React.FC<LoginDialogProps> = ({ open, onClose }) => {
           disabled={isLoading}
           className="text-gray-600"
         >
-          Cancel
+          {t('common.cancel')}
         </Button>
       </DialogActions>
     </Dialog>
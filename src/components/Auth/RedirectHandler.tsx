@@ -2,12 +2,14 @@ import { Box, CircularProgress, Typography } from '@mui/material';
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppDispatch } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
 import { AuthService } from '../../services/authService';
 import { setRememberMe, setUser } from '../../store/slices/authSlice';
 
 const RedirectHandler: React.FC = () => {
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const [isProcessing, setIsProcessing] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
 
@@ -77,7 +79,7 @@ const RedirectHandler: React.FC = () => {
         }
       } catch (error) {
         console.error('Authentication redirect error:', error);
-        setError('Authentication failed. Please try again.');
+        setError(t('auth.authFailed'));
 
         // Navigate to main page after a delay
         setTimeout(() => {
@@ -89,7 +91,7 @@ const RedirectHandler: React.FC = () => {
     };
 
     handleRedirect();
-  }, [dispatch, navigate]);
+  }, [dispatch, navigate, t]);
 
   return (
     <Box
@@ -114,31 +116,31 @@ const RedirectHandler: React.FC = () => {
             }}
           />
           <Typography variant="h5" sx={{ mb: 2, fontWeight: 'bold' }}>
-            Signing you in...
+            {t('auth.redirectSigningIn')}
           </Typography>
           <Typography variant="body1" sx={{ opacity: 0.8, textAlign: 'center' }}>
-            Please wait while we complete your authentication.
+            {t('auth.redirectWait')}
           </Typography>
         </>
       ) : error ? (
         <>
           <Typography variant="h5" sx={{ mb: 2, fontWeight: 'bold', color: '#ff6b6b' }}>
-            Authentication Error
+            {t('auth.redirectError')}
           </Typography>
           <Typography variant="body1" sx={{ opacity: 0.8, textAlign: 'center', mb: 2 }}>
             {error}
           </Typography>
           <Typography variant="body2" sx={{ opacity: 0.6, textAlign: 'center' }}>
-            Redirecting you back to the main page...
+            {t('auth.redirectErrorBack')}
           </Typography>
         </>
       ) : (
         <>
           <Typography variant="h5" sx={{ mb: 2, fontWeight: 'bold' }}>
-            Authentication Complete
+            {t('auth.redirectComplete')}
           </Typography>
           <Typography variant="body1" sx={{ opacity: 0.8, textAlign: 'center' }}>
-            Redirecting you to the main page...
+            {t('auth.redirectCompleteBack')}
           </Typography>
         </>
       )}
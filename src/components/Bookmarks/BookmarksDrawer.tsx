@@ -0,0 +1,558 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Divider,
+  Drawer,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Bookmarks as BookmarksIcon,
+  Close as CloseIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  EditNote as EditNoteIcon,
+  ExpandLess,
+  ExpandMore,
+  Folder as FolderIcon,
+  FolderOpen as FolderOpenIcon,
+  LocalOffer as TagIcon,
+  Star as StarIcon,
+  StarBorder as StarBorderIcon,
+} from '@mui/icons-material';
+import backendService, { Bookmark } from '../../services/backendService';
+import exportService from '../../services/exportService';
+import { useTranslation } from '../../hooks/useTranslation';
+import ExportResults from '../Search/ExportResults';
+
+interface BookmarksDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  onOpenBookmark: (bookmark: Bookmark) => void;
+}
+
+interface FolderNode {
+  name: string;
+  path: string;
+  children: FolderNode[];
+  count: number;
+}
+
+type FolderSelection = { kind: 'all' } | { kind: 'favorites' } | { kind: 'folder'; path: string };
+
+// Folders are stored as flat strings; "/" separates nesting levels
+const buildFolderTree = (paths: string[], bookmarks: Bookmark[]): FolderNode[] => {
+  const root: FolderNode[] = [];
+
+  paths.forEach((fullPath) => {
+    const segments = fullPath.split('/').map((s) => s.trim()).filter(Boolean);
+    let level = root;
+    let currentPath = '';
+
+    segments.forEach((segment) => {
+      currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+      let node = level.find((n) => n.name === segment);
+      if (!node) {
+        node = { name: segment, path: currentPath, children: [], count: 0 };
+        level.push(node);
+      }
+      level = node.children;
+    });
+  });
+
+  const countNode = (node: FolderNode): number => {
+    const direct = bookmarks.filter((b) => b.folder === node.path).length;
+    node.count = direct + node.children.reduce((sum, child) => sum + countNode(child), 0);
+    return node.count;
+  };
+
+  const sortNodes = (nodes: FolderNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach((n) => sortNodes(n.children));
+  };
+
+  root.forEach(countNode);
+  sortNodes(root);
+  return root;
+};
+
+const isInFolder = (bookmark: Bookmark, path: string) =>
+  bookmark.folder === path || bookmark.folder.startsWith(`${path}/`);
+
+const BookmarksDrawer: React.FC<BookmarksDrawerProps> = ({ open, onClose, onOpenBookmark }) => {
+  const { t } = useTranslation();
+  const [bookmarks, setBookmarks] = React.useState<Bookmark[]>([]);
+  const [folders, setFolders] = React.useState<string[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [selection, setSelection] = React.useState<FolderSelection>({ kind: 'all' });
+  const [expandedFolders, setExpandedFolders] = React.useState<Set<string>>(new Set());
+  const [activeTags, setActiveTags] = React.useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [editingNotesId, setEditingNotesId] = React.useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = React.useState('');
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const loadBookmarks = React.useCallback(async () => {
+    setIsLoading(true);
+
+    const [{ bookmarks: loaded }, folderList] = await Promise.all([
+      backendService.getBookmarks({ limit: 500 }),
+      backendService.getBookmarkFolders(),
+    ]);
+
+    setBookmarks(loaded);
+    setFolders(Array.from(new Set([...folderList, ...loaded.map((b) => b.folder)])).filter(Boolean));
+    setSelectedIds(new Set());
+    setIsLoading(false);
+  }, []);
+
+  React.useEffect(() => {
+    if (open) {
+      loadBookmarks();
+    }
+  }, [open, loadBookmarks]);
+
+  const folderTree = React.useMemo(() => buildFolderTree(folders, bookmarks), [folders, bookmarks]);
+
+  const allTags = React.useMemo(
+    () => Array.from(new Set(bookmarks.flatMap((b) => b.tags || []))).sort(),
+    [bookmarks]
+  );
+
+  const visibleBookmarks = React.useMemo(() => {
+    return bookmarks.filter((bookmark) => {
+      if (selection.kind === 'favorites' && !bookmark.isFavorite) return false;
+      if (selection.kind === 'folder' && !isInFolder(bookmark, selection.path)) return false;
+      return activeTags.every((tag) => bookmark.tags?.includes(tag));
+    });
+  }, [bookmarks, selection, activeTags]);
+
+  const allVisibleSelected =
+    visibleBookmarks.length > 0 && visibleBookmarks.every((b) => selectedIds.has(b.bookmarkId));
+
+  const toggleFolderExpanded = (path: string) => {
+    setExpandedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const toggleTag = (tag: string) => {
+    setActiveTags((prev) => (prev.includes(tag) ? prev.filter((existing) => existing !== tag) : [...prev, tag]));
+  };
+
+  const toggleSelected = (bookmarkId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(bookmarkId)) {
+        next.delete(bookmarkId);
+      } else {
+        next.add(bookmarkId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    if (allVisibleSelected) {
+      setSelectedIds(new Set());
+    } else {
+      setSelectedIds(new Set(visibleBookmarks.map((b) => b.bookmarkId)));
+    }
+  };
+
+  const handleToggleFavorite = async (bookmark: Bookmark) => {
+    const isFavorite = !bookmark.isFavorite;
+    setBookmarks((prev) =>
+      prev.map((b) => (b.bookmarkId === bookmark.bookmarkId ? { ...b, isFavorite } : b))
+    );
+
+    const success = await backendService.updateBookmark(bookmark.bookmarkId, { isFavorite });
+    if (!success) {
+      // Roll back the optimistic update
+      setBookmarks((prev) =>
+        prev.map((b) => (b.bookmarkId === bookmark.bookmarkId ? { ...b, isFavorite: !isFavorite } : b))
+      );
+    }
+  };
+
+  const handleEditNotes = (bookmark: Bookmark) => {
+    setEditingNotesId(bookmark.bookmarkId);
+    setNotesDraft(bookmark.notes || '');
+  };
+
+  const handleSaveNotes = async (bookmark: Bookmark) => {
+    const notes = notesDraft.trim();
+    const success = await backendService.updateBookmark(bookmark.bookmarkId, { notes });
+
+    if (success) {
+      setBookmarks((prev) =>
+        prev.map((b) => (b.bookmarkId === bookmark.bookmarkId ? { ...b, notes } : b))
+      );
+      setEditingNotesId(null);
+    }
+  };
+
+  const handleDelete = async (bookmark: Bookmark) => {
+    const success = await backendService.deleteBookmark(bookmark.bookmarkId);
+    if (success) {
+      setBookmarks((prev) => prev.filter((b) => b.bookmarkId !== bookmark.bookmarkId));
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(bookmark.bookmarkId);
+        return next;
+      });
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+
+    const deletedCount = await backendService.bulkDeleteBookmarks(ids);
+    console.log(`🗑️ Deleted ${deletedCount} bookmarks`);
+    await loadBookmarks();
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await backendService.exportBookmarks();
+      if (!blob) return;
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `bookmarks-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Exports the checked bookmarks, or everything in the current folder when none are checked
+  const getFolderDocument = () => {
+    const folderName =
+      selection.kind === 'folder'
+        ? selection.path
+        : selection.kind === 'favorites'
+          ? t('export.favourites')
+          : t('export.allBookmarks');
+    const items = selectedIds.size > 0
+      ? visibleBookmarks.filter((b) => selectedIds.has(b.bookmarkId))
+      : visibleBookmarks;
+
+    return exportService.fromBookmarks(folderName, items);
+  };
+
+  const handleOpen = (bookmark: Bookmark) => {
+    backendService.updateBookmark(bookmark.bookmarkId, {
+      lastAccessedAt: new Date().toISOString(),
+      accessCount: (bookmark.accessCount || 0) + 1,
+    });
+    onOpenBookmark(bookmark);
+  };
+
+  const renderFolderNode = (node: FolderNode, depth: number): React.ReactNode => {
+    const isSelected = selection.kind === 'folder' && selection.path === node.path;
+    const isExpanded = expandedFolders.has(node.path);
+
+    return (
+      <React.Fragment key={node.path}>
+        <ListItemButton
+          selected={isSelected}
+          onClick={() => setSelection({ kind: 'folder', path: node.path })}
+          sx={{ pl: 2 + depth * 2, py: 0.5, borderRadius: '8px' }}
+        >
+          <ListItemIcon sx={{ minWidth: 32 }}>
+            {isSelected ? (
+              <FolderOpenIcon fontSize="small" sx={{ color: '#EAAA00' }} />
+            ) : (
+              <FolderIcon fontSize="small" sx={{ color: '#EAAA00' }} />
+            )}
+          </ListItemIcon>
+          <ListItemText
+            primary={node.name}
+            secondary={node.count}
+            primaryTypographyProps={{ fontSize: '0.875rem' }}
+            secondaryTypographyProps={{ fontSize: '0.75rem', component: 'span', sx: { ml: 1 } }}
+            sx={{ display: 'flex', alignItems: 'center', my: 0 }}
+          />
+          {node.children.length > 0 && (
+            <IconButton
+              size="small"
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleFolderExpanded(node.path);
+              }}
+            >
+              {isExpanded ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+            </IconButton>
+          )}
+        </ListItemButton>
+        {node.children.length > 0 && (
+          <Collapse in={isExpanded} timeout="auto" unmountOnExit>
+            {node.children.map((child) => renderFolderNode(child, depth + 1))}
+          </Collapse>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      sx={{
+        '& .MuiDrawer-paper': {
+          width: { xs: '100%', sm: 480 },
+          display: 'flex',
+          flexDirection: 'column',
+        },
+      }}
+    >
+      {/* Header */}
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          px: 2,
+          py: 1.5,
+          background: 'linear-gradient(135deg, #115740 0%, #1a7a5a 50%, #22a06b 100%)',
+          color: 'white',
+        }}
+      >
+        <BookmarksIcon />
+        <Typography variant="h6" sx={{ fontWeight: 'bold', flexGrow: 1 }}>
+          {t('bookmarks.title')}
+        </Typography>
+        <Tooltip title={t('bookmarks.exportAll')}>
+          <span>
+            <IconButton onClick={handleExport} disabled={isExporting} sx={{ color: 'white' }}>
+              {isExporting ? <CircularProgress size={20} sx={{ color: 'white' }} /> : <DownloadIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <IconButton onClick={onClose} sx={{ color: 'white' }}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ flexGrow: 1, overflow: 'auto' }}>
+        {/* Folder tree */}
+        <List dense sx={{ px: 1 }}>
+          <ListItemButton
+            selected={selection.kind === 'all'}
+            onClick={() => setSelection({ kind: 'all' })}
+            sx={{ py: 0.5, borderRadius: '8px' }}
+          >
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              <BookmarksIcon fontSize="small" sx={{ color: '#115740' }} />
+            </ListItemIcon>
+            <ListItemText primary={t('bookmarks.allBookmarks', { count: bookmarks.length })} primaryTypographyProps={{ fontSize: '0.875rem' }} />
+          </ListItemButton>
+          <ListItemButton
+            selected={selection.kind === 'favorites'}
+            onClick={() => setSelection({ kind: 'favorites' })}
+            sx={{ py: 0.5, borderRadius: '8px' }}
+          >
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              <StarIcon fontSize="small" sx={{ color: '#FFC72C' }} />
+            </ListItemIcon>
+            <ListItemText
+              primary={t('bookmarks.favourites', { count: bookmarks.filter((b) => b.isFavorite).length })}
+              primaryTypographyProps={{ fontSize: '0.875rem' }}
+            />
+          </ListItemButton>
+          {folderTree.map((node) => renderFolderNode(node, 0))}
+        </List>
+
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <Box sx={{ px: 2, pb: 1 }}>
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+              <TagIcon sx={{ fontSize: 14 }} />
+              {t('bookmarks.filterByTag')}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {allTags.map((tag) => (
+                <Chip
+                  key={tag}
+                  label={tag}
+                  size="small"
+                  onClick={() => toggleTag(tag)}
+                  color={activeTags.includes(tag) ? 'primary' : 'default'}
+                  variant={activeTags.includes(tag) ? 'filled' : 'outlined'}
+                />
+              ))}
+            </Box>
+          </Box>
+        )}
+
+        <Divider />
+
+        {/* Bulk actions */}
+        <Box sx={{ display: 'flex', alignItems: 'center', px: 1, py: 0.5 }}>
+          <Checkbox
+            size="small"
+            checked={allVisibleSelected}
+            indeterminate={selectedIds.size > 0 && !allVisibleSelected}
+            onChange={toggleSelectAll}
+            disabled={visibleBookmarks.length === 0}
+          />
+          <Typography variant="body2" sx={{ flexGrow: 1, color: 'text.secondary' }}>
+            {selectedIds.size > 0
+              ? t('bookmarks.selectedCount', { count: selectedIds.size })
+              : t('bookmarks.bookmarkCount', { count: visibleBookmarks.length })}
+          </Typography>
+          <ExportResults
+            size="small"
+            tooltip={selectedIds.size > 0 ? t('export.exportSelected') : t('export.exportFolder')}
+            disabled={visibleBookmarks.length === 0}
+            getDocument={getFolderDocument}
+          />
+          <Button
+            size="small"
+            color="error"
+            startIcon={<DeleteIcon />}
+            onClick={handleBulkDelete}
+            disabled={selectedIds.size === 0}
+          >
+            {t('bookmarks.deleteSelected')}
+          </Button>
+        </Box>
+
+        <Divider />
+
+        {/* Bookmark list */}
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#115740' }} />
+          </Box>
+        ) : visibleBookmarks.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 6, px: 2 }}>
+            <BookmarksIcon sx={{ fontSize: 48, color: 'text.disabled', mb: 1 }} />
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              {bookmarks.length === 0
+                ? t('bookmarks.empty')
+                : t('bookmarks.noMatches')}
+            </Typography>
+          </Box>
+        ) : (
+          <List disablePadding>
+            {visibleBookmarks.map((bookmark) => (
+              <Box
+                key={bookmark.bookmarkId}
+                sx={{ borderBottom: '1px solid rgba(0,0,0,0.06)', px: 1, py: 1 }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'flex-start' }}>
+                  <Checkbox
+                    size="small"
+                    checked={selectedIds.has(bookmark.bookmarkId)}
+                    onChange={() => toggleSelected(bookmark.bookmarkId)}
+                  />
+                  <Box
+                    sx={{ flexGrow: 1, minWidth: 0, cursor: 'pointer', pt: 0.5 }}
+                    onClick={() => handleOpen(bookmark)}
+                  >
+                    <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }} noWrap>
+                      {bookmark.title}
+                    </Typography>
+                    <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }} noWrap>
+                      {bookmark.folder} · "{bookmark.query}"
+                    </Typography>
+                    {bookmark.tags?.length > 0 && (
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+                        {bookmark.tags.map((tag) => (
+                          <Chip key={tag} label={tag} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+                        ))}
+                      </Box>
+                    )}
+                    {bookmark.notes && editingNotesId !== bookmark.bookmarkId && (
+                      <Typography
+                        variant="body2"
+                        sx={{ mt: 0.5, color: 'text.secondary', fontStyle: 'italic', whiteSpace: 'pre-wrap' }}
+                      >
+                        {bookmark.notes}
+                      </Typography>
+                    )}
+                  </Box>
+                  <Tooltip title={bookmark.isFavorite ? t('bookmarks.removeFavourite') : t('bookmarks.addFavourite')}>
+                    <IconButton size="small" onClick={() => handleToggleFavorite(bookmark)}>
+                      {bookmark.isFavorite ? (
+                        <StarIcon fontSize="small" sx={{ color: '#FFC72C' }} />
+                      ) : (
+                        <StarBorderIcon fontSize="small" />
+                      )}
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('bookmarks.editNotes')}>
+                    <IconButton size="small" onClick={() => handleEditNotes(bookmark)}>
+                      <EditNoteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={t('common.delete')}>
+                    <IconButton size="small" onClick={() => handleDelete(bookmark)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+
+                {editingNotesId === bookmark.bookmarkId && (
+                  <Box sx={{ pl: 5, pr: 1, pt: 1 }}>
+                    <TextField
+                      fullWidth
+                      multiline
+                      minRows={2}
+                      size="small"
+                      value={notesDraft}
+                      onChange={(e) => setNotesDraft(e.target.value)}
+                      placeholder={t('bookmarks.notesPlaceholder')}
+                      autoFocus
+                    />
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+                      <Button size="small" onClick={() => setEditingNotesId(null)}>
+                        {t('common.cancel')}
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="contained"
+                        onClick={() => handleSaveNotes(bookmark)}
+                        sx={{ background: '#115740', '&:hover': { background: '#0d4a37' } }}
+                      >
+                        {t('bookmarks.saveNotes')}
+                      </Button>
+                    </Box>
+                  </Box>
+                )}
+              </Box>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default BookmarksDrawer;
@@ -0,0 +1,172 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Chip,
+  Box,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { BookmarkAdd as BookmarkAddIcon } from '@mui/icons-material';
+import backendService, { Bookmark } from '../../services/backendService';
+import { useTranslation } from '../../hooks/useTranslation';
+
+export interface BookmarkDraft {
+  title: string;
+  query: string;
+  category?: string;
+  searchType: Bookmark['searchType'];
+  resultSnapshot?: Bookmark['resultSnapshot'];
+}
+
+interface SaveBookmarkDialogProps {
+  open: boolean;
+  draft: BookmarkDraft | null;
+  onClose: () => void;
+  onSaved?: (bookmark: Bookmark) => void;
+}
+
+const DEFAULT_FOLDER = 'General';
+
+const SaveBookmarkDialog: React.FC<SaveBookmarkDialogProps> = ({ open, draft, onClose, onSaved }) => {
+  const { t } = useTranslation();
+  const [title, setTitle] = React.useState('');
+  const [folder, setFolder] = React.useState(DEFAULT_FOLDER);
+  const [tags, setTags] = React.useState<string[]>([]);
+  const [notes, setNotes] = React.useState('');
+  const [folders, setFolders] = React.useState<string[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [saveError, setSaveError] = React.useState<string | null>(null);
+
+  // Reset the form and refresh folder suggestions every time the dialog opens
+  React.useEffect(() => {
+    if (!open || !draft) return;
+
+    setTitle(draft.title);
+    setFolder(DEFAULT_FOLDER);
+    setTags([]);
+    setNotes('');
+    setSaveError(null);
+
+    backendService.getBookmarkFolders().then((existing) => {
+      setFolders(existing.includes(DEFAULT_FOLDER) ? existing : [DEFAULT_FOLDER, ...existing]);
+    });
+  }, [open, draft]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+
+    const bookmark = await backendService.createBookmark({
+      title: title.trim(),
+      query: draft.query,
+      category: draft.category,
+      searchType: draft.searchType,
+      resultSnapshot: draft.resultSnapshot,
+      tags,
+      notes: notes.trim() || undefined,
+      folder: folder.trim() || DEFAULT_FOLDER,
+    });
+
+    setIsSaving(false);
+
+    if (bookmark) {
+      console.log('🔖 Bookmark saved:', bookmark.bookmarkId);
+      onSaved?.(bookmark);
+      onClose();
+    } else {
+      setSaveError(t('bookmarks.saveFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <BookmarkAddIcon sx={{ color: '#115740' }} />
+          <Typography variant="h6" component="span" sx={{ fontWeight: 'bold' }}>
+            {t('bookmarks.saveTitle')}
+          </Typography>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {saveError && <Alert severity="error">{saveError}</Alert>}
+
+          <TextField
+            fullWidth
+            label={t('chat.title')}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+
+          <Autocomplete
+            freeSolo
+            options={folders}
+            value={folder}
+            onInputChange={(_, value) => setFolder(value)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label={t('bookmarks.folder')}
+                helperText={t('bookmarks.folderHelp')}
+              />
+            )}
+          />
+
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[] as string[]}
+            value={tags}
+            onChange={(_, value) => setTags(value.map((tag) => tag.trim()).filter(Boolean))}
+            renderTags={(value, getTagProps) =>
+              value.map((tag, index) => (
+                <Chip label={tag} size="small" {...getTagProps({ index })} key={tag} />
+              ))
+            }
+            renderInput={(params) => (
+              <TextField {...params} label={t('chat.tags')} placeholder={t('chat.tagPlaceholder')} />
+            )}
+          />
+
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label={t('bookmarks.notes')}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={t('bookmarks.notesPrompt')}
+          />
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} disabled={isSaving}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!title.trim() || isSaving}
+          startIcon={isSaving ? <CircularProgress size={18} color="inherit" /> : undefined}
+          sx={{ background: '#115740', '&:hover': { background: '#0d4a37' } }}
+        >
+          {isSaving ? t('common.saving') : t('common.save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SaveBookmarkDialog;
@@ -19,6 +19,7 @@ import React, { useCallback, useEffect, useState } from 'react';
 import { useSelector } from 'react-redux';
 import breadcrumbService, { BreadcrumbItem } from '../../services/breadcrumbService';
 import { RootState } from '../../store';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface CompactBreadcrumbsProps {
   onSearchClick?: (query: string) => void;
@@ -34,6 +35,7 @@ const CompactBreadcrumbs: React.FC<CompactBreadcrumbsProps> = ({
   maxQueryLength = 25
 }) => {
   const theme = useTheme();
+  const { t } = useTranslation();
   const [items, setItems] = useState<BreadcrumbItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -165,14 +167,14 @@ const CompactBreadcrumbs: React.FC<CompactBreadcrumbsProps> = ({
             fontWeight: 500
           }}
         >
-          Recent:
+          {t('search.recent')}
         </Typography>
 
         {/* Breadcrumb items */}
         {items.map((item) => (
           <Tooltip
             key={item.id}
-            title={`${item.type === 'search' ? 'Search' : 'Chat'}: ${item.title}${item.subtitle ? ` (${item.subtitle})` : ''}`}
+            title={`${item.type === 'search' ? t('common.search') : t('chat.mode')}: ${item.title}${item.subtitle ? ` (${item.subtitle})` : ''}`}
             arrow
           >
             <Chip
@@ -210,7 +212,7 @@ const CompactBreadcrumbs: React.FC<CompactBreadcrumbsProps> = ({
         ))}
 
         {/* Refresh button */}
-        <Tooltip title="Refresh recent items" arrow>
+        <Tooltip title={t('search.refreshRecent')} arrow>
           <IconButton
             size="small"
             onClick={fetchItems}
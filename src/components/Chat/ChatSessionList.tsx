@@ -0,0 +1,219 @@
+import React from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Chat as ChatIcon,
+  Close as CloseIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+import backendService, { ChatSession } from '../../services/backendService';
+import breadcrumbService from '../../services/breadcrumbService';
+import exportService from '../../services/exportService';
+import { useTranslation } from '../../hooks/useTranslation';
+import ExportResults from '../Search/ExportResults';
+
+interface ChatSessionListProps {
+  open: boolean;
+  onClose: () => void;
+  activeSessionId: string | null;
+  onResume: (sessionId: string) => void;
+  onDeleted: (sessionId: string) => void;
+}
+
+const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  open,
+  onClose,
+  activeSessionId,
+  onResume,
+  onDeleted,
+}) => {
+  const { t } = useTranslation();
+  const [sessions, setSessions] = React.useState<ChatSession[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [titleDraft, setTitleDraft] = React.useState('');
+  const [tagsDraft, setTagsDraft] = React.useState<string[]>([]);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    backendService.getRecentChats(50).then((recent) => {
+      setSessions(recent);
+      setIsLoading(false);
+    });
+  }, [open]);
+
+  const startEditing = (session: ChatSession) => {
+    setEditingId(session.sessionId);
+    setTitleDraft(session.title);
+    setTagsDraft(session.tags);
+  };
+
+  const handleSaveEdit = async (session: ChatSession) => {
+    const title = titleDraft.trim() || session.title;
+    const success = await backendService.updateChatSession(session.sessionId, { title, tags: tagsDraft });
+
+    if (success) {
+      setSessions((prev) =>
+        prev.map((s) => (s.sessionId === session.sessionId ? { ...s, title, tags: tagsDraft } : s))
+      );
+      setEditingId(null);
+      breadcrumbService.clearCache();
+    }
+  };
+
+  // The recent list omits messages, so fetch the full transcript before exporting
+  const getSessionDocument = async (session: ChatSession) => {
+    const fullSession = await backendService.getChatSession(session.sessionId);
+    return fullSession ? exportService.fromChatSession(fullSession) : null;
+  };
+
+  const handleDelete = async (session: ChatSession) => {
+    const success = await backendService.deleteChatSession(session.sessionId);
+
+    if (success) {
+      setSessions((prev) => prev.filter((s) => s.sessionId !== session.sessionId));
+      breadcrumbService.clearCache();
+      onDeleted(session.sessionId);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ChatIcon sx={{ color: '#115740' }} />
+        <Typography variant="h6" component="span" sx={{ fontWeight: 'bold', flexGrow: 1 }}>
+          {t('chat.conversations')}
+        </Typography>
+        <IconButton onClick={onClose}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers sx={{ p: 0 }}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress sx={{ color: '#115740' }} />
+          </Box>
+        ) : sessions.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 6, px: 2 }}>
+            <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+              {t('chat.noConversations')}
+            </Typography>
+          </Box>
+        ) : (
+          <List disablePadding>
+            {sessions.map((session) =>
+              editingId === session.sessionId ? (
+                <ListItem key={session.sessionId} sx={{ flexDirection: 'column', alignItems: 'stretch', gap: 1.5, py: 2 }}>
+                  <TextField
+                    size="small"
+                    label={t('chat.title')}
+                    value={titleDraft}
+                    onChange={(e) => setTitleDraft(e.target.value)}
+                    autoFocus
+                  />
+                  <Autocomplete
+                    multiple
+                    freeSolo
+                    size="small"
+                    options={[] as string[]}
+                    value={tagsDraft}
+                    onChange={(_, value) => setTagsDraft(value.map((tag) => tag.trim()).filter(Boolean))}
+                    renderTags={(value, getTagProps) =>
+                      value.map((tag, index) => (
+                        <Chip label={tag} size="small" {...getTagProps({ index })} key={tag} />
+                      ))
+                    }
+                    renderInput={(params) => (
+                      <TextField {...params} label={t('chat.tags')} placeholder={t('chat.tagPlaceholder')} />
+                    )}
+                  />
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                    <Button size="small" onClick={() => setEditingId(null)}>
+                      {t('common.cancel')}
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={() => handleSaveEdit(session)}
+                      sx={{ background: '#115740', '&:hover': { background: '#0d4a37' } }}
+                    >
+                      {t('common.save')}
+                    </Button>
+                  </Box>
+                </ListItem>
+              ) : (
+                <ListItem
+                  key={session.sessionId}
+                  disablePadding
+                  secondaryAction={
+                    <Box>
+                      <ExportResults
+                        size="small"
+                        tooltip={t('export.exportChat')}
+                        getDocument={() => getSessionDocument(session)}
+                      />
+                      <Tooltip title={t('chat.renameTag')}>
+                        <IconButton size="small" onClick={() => startEditing(session)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title={t('common.delete')}>
+                        <IconButton size="small" onClick={() => handleDelete(session)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  }
+                >
+                  <ListItemButton
+                    selected={session.sessionId === activeSessionId}
+                    onClick={() => onResume(session.sessionId)}
+                    sx={{ pr: 16 }}
+                  >
+                    <ListItemText
+                      primary={session.title}
+                      secondary={
+                        <Box component="span" sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5 }}>
+                          <Box component="span">
+                            {t('chat.messageCount', { count: session.messageCount })} · {breadcrumbService.formatTimeAgo(session.lastMessageAt)}
+                          </Box>
+                          {session.tags.map((tag) => (
+                            <Chip key={tag} label={tag} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+                          ))}
+                        </Box>
+                      }
+                      primaryTypographyProps={{ fontWeight: 'bold', noWrap: true }}
+                      secondaryTypographyProps={{ component: 'div' }}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              )
+            )}
+          </List>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChatSessionList;
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Check as CheckIcon,
+  ContentCopy as CopyIcon,
+  Delete as DeleteIcon,
+  MenuBook as MenuBookIcon,
+} from '@mui/icons-material';
+import citationService from '../../services/citationService';
+import { useCitations } from '../../hooks/useCitations';
+import { useTranslation } from '../../hooks/useTranslation';
+import CitationStyleToggle from './CitationStyleToggle';
+
+interface BibliographyDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const BibliographyDialog: React.FC<BibliographyDialogProps> = ({ open, onClose }) => {
+  const { t } = useTranslation();
+  const { bibliography, style } = useCitations();
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    setCopied(false);
+  }, [open, bibliography, style]);
+
+  const entries = citationService.formatBibliography(style);
+
+  const handleCopyAll = async () => {
+    const text = entries.map((entry) => entry.citation).join('\n\n');
+    setCopied(await citationService.copyToClipboard(text));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <MenuBookIcon sx={{ color: '#115740' }} />
+          <Typography variant="h6" component="span" sx={{ fontWeight: 'bold', flexGrow: 1 }}>
+            {t('citations.bibliography')}
+          </Typography>
+          <CitationStyleToggle />
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {entries.length === 0 ? (
+          <Typography variant="body2" sx={{ color: 'text.secondary', textAlign: 'center', py: 4 }}>
+            {t('citations.emptyBibliography')}
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {entries.map(({ source, citation }) => (
+              <ListItem
+                key={source.url}
+                divider
+                secondaryAction={
+                  <Tooltip title={t('citations.remove')}>
+                    <IconButton
+                      edge="end"
+                      size="small"
+                      onClick={() => citationService.removeFromBibliography(source.url)}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                <ListItemText
+                  primary={citation}
+                  primaryTypographyProps={{
+                    variant: 'body2',
+                    sx: { userSelect: 'text', wordBreak: 'break-word', pl: 2, textIndent: -16 },
+                  }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button
+          color="error"
+          onClick={() => citationService.clearBibliography()}
+          disabled={entries.length === 0}
+          sx={{ mr: 'auto' }}
+        >
+          {t('citations.clearAll')}
+        </Button>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+        <Button
+          variant="contained"
+          onClick={handleCopyAll}
+          disabled={entries.length === 0}
+          startIcon={copied ? <CheckIcon /> : <CopyIcon />}
+          sx={{ background: '#115740', '&:hover': { background: '#0d4a37' } }}
+        >
+          {copied ? t('citations.copied') : t('citations.copyBibliography')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BibliographyDialog;
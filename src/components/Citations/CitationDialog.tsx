@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Check as CheckIcon,
+  ContentCopy as CopyIcon,
+  FormatQuote as QuoteIcon,
+  LibraryAdd as LibraryAddIcon,
+  LibraryAddCheck as LibraryAddCheckIcon,
+} from '@mui/icons-material';
+import citationService, { type CitationSource } from '../../services/citationService';
+import { useCitations } from '../../hooks/useCitations';
+import { useTranslation } from '../../hooks/useTranslation';
+import CitationStyleToggle from './CitationStyleToggle';
+
+interface CitationDialogProps {
+  open: boolean;
+  sources: CitationSource[];
+  onClose: () => void;
+  onOpenBibliography: () => void;
+}
+
+const CitationDialog: React.FC<CitationDialogProps> = ({ open, sources, onClose, onOpenBibliography }) => {
+  const { t } = useTranslation();
+  const { bibliography, style } = useCitations();
+  const [copiedUrl, setCopiedUrl] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) setCopiedUrl(null);
+  }, [open]);
+
+  const handleCopy = async (source: CitationSource) => {
+    if (await citationService.copyToClipboard(citationService.format(source, style))) {
+      setCopiedUrl(source.url);
+    }
+  };
+
+  const isAdded = (source: CitationSource) => bibliography.some((entry) => entry.url === source.url);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <QuoteIcon sx={{ color: '#115740' }} />
+          <Typography variant="h6" component="span" sx={{ fontWeight: 'bold', flexGrow: 1 }}>
+            {sources.length === 1 ? t('citations.citeSource') : t('citations.citeSources')}
+          </Typography>
+          <CitationStyleToggle />
+        </Box>
+      </DialogTitle>
+
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mt: 1 }}>
+          {sources.map((source) => (
+            <Paper
+              key={source.url}
+              variant="outlined"
+              sx={{ p: 1.5, borderRadius: '8px', display: 'flex', alignItems: 'flex-start', gap: 1 }}
+            >
+              <Typography variant="body2" sx={{ flexGrow: 1, userSelect: 'text', wordBreak: 'break-word' }}>
+                {citationService.format(source, style)}
+              </Typography>
+              <Tooltip title={copiedUrl === source.url ? t('citations.copied') : t('citations.copy')}>
+                <IconButton size="small" onClick={() => handleCopy(source)} sx={{ color: '#115740' }}>
+                  {copiedUrl === source.url ? <CheckIcon fontSize="small" /> : <CopyIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={isAdded(source) ? t('citations.inBibliography') : t('citations.addToBibliography')}>
+                <span>
+                  <IconButton
+                    size="small"
+                    onClick={() => citationService.addToBibliography(source)}
+                    disabled={isAdded(source)}
+                    sx={{ color: '#115740' }}
+                  >
+                    {isAdded(source) ? <LibraryAddCheckIcon fontSize="small" /> : <LibraryAddIcon fontSize="small" />}
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Paper>
+          ))}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        {sources.length > 1 && (
+          <Button
+            onClick={() => sources.forEach((source) => citationService.addToBibliography(source))}
+            disabled={sources.every(isAdded)}
+            sx={{ color: '#115740' }}
+          >
+            {t('citations.addAll')}
+          </Button>
+        )}
+        <Button onClick={onOpenBibliography} sx={{ color: '#115740', mr: 'auto' }}>
+          {t('citations.viewBibliography', { count: bibliography.length })}
+        </Button>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CitationDialog;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { CITATION_STYLES } from '../../services/citationService';
+import { useCitations } from '../../hooks/useCitations';
+import { useTranslation } from '../../hooks/useTranslation';
+
+const CitationStyleToggle: React.FC = () => {
+  const { t } = useTranslation();
+  const { style, setStyle } = useCitations();
+
+  return (
+    <ToggleButtonGroup
+      value={style}
+      exclusive
+      size="small"
+      onChange={(_, next) => next && setStyle(next)}
+      aria-label={t('citations.style')}
+    >
+      {CITATION_STYLES.map(({ style: value, label }) => (
+        <ToggleButton
+          key={value}
+          value={value}
+          sx={{
+            px: 1.25,
+            py: 0.25,
+            textTransform: 'none',
+            '&.Mui-selected': { color: '#115740', background: 'rgba(17, 87, 64, 0.1)' },
+          }}
+        >
+          {label}
+        </ToggleButton>
+      ))}
+    </ToggleButtonGroup>
+  );
+};
+
+export default CitationStyleToggle;
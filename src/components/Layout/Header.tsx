@@ -1,38 +1,52 @@
 import {
+  Bookmarks as BookmarksIcon,
   Login as LoginIcon,
   Logout as LogoutIcon,
   Support as SupportIcon,
   Analytics as AnalyticsIcon,
   Shield as ShieldIcon,
   Home as HomeIcon,
+  MenuBook as MenuBookIcon,
+  Favorite as FavoriteIcon,
 } from '@mui/icons-material';
 import {
   AppBar,
   Avatar,
+  Badge,
   Box,
   Button,
   IconButton,
   Menu,
   MenuItem,
   Toolbar,
+  Tooltip,
   Typography,
 } from '@mui/material';
 import React from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { useCitations } from '../../hooks/useCitations';
+import { useTranslation } from '../../hooks/useTranslation';
 import { AuthService } from '../../services/authService';
+import wellbeingService from '../../services/wellbeingService';
+import readingLevelService from '../../services/readingLevelService';
 import { clearUser, setLoading } from '../../store/slices/authSlice';
+import LanguageSwitcher from './LanguageSwitcher';
 
 interface HeaderProps {
   onLogin: () => void;
   onSupport: () => void;
+  onBookmarks: () => void;
+  onBibliography: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
+const Header: React.FC<HeaderProps> = ({ onLogin, onSupport, onBookmarks, onBibliography }) => {
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
   const location = useLocation();
+  const { t } = useTranslation();
+  const { bibliography } = useCitations();
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
 
   const handleProfileClick = (event: React.MouseEvent<HTMLElement>) => {
@@ -47,6 +61,8 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
     dispatch(setLoading(true));
     try {
       await AuthService.logout();
+      wellbeingService.clearAlertHistory();
+      readingLevelService.reset();
       dispatch(clearUser());
     } catch (error) {
       console.error('Logout failed:', error);
@@ -56,6 +72,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
   };
 
   const isStaff = user?.role === 'staff';
+  const isWellbeingStaff = wellbeingService.isWellbeingStaff(user);
   const currentPage = location.pathname;
 
   return (
@@ -79,7 +96,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
           >
             <img
               src="/horizon.png"
-              alt="Horizon Christian School"
+              alt={t('header.schoolName')}
               style={{
                 height: 40,
                 width: 'auto',
@@ -98,7 +115,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                 lineHeight: 1.2,
               }}
             >
-              Horizon Christian School
+              {t('header.schoolName')}
             </Typography>
             <Typography
               variant="caption"
@@ -108,7 +125,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                 fontSize: '0.7rem',
               }}
             >
-              A Transforming Christian Education for All
+              {t('header.tagline')}
             </Typography>
           </Box>
         </Box>
@@ -136,7 +153,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                   transition: 'all 0.3s ease',
                 }}
               >
-                Search
+                {t('common.search')}
               </Button>
               <Button
                 color="inherit"
@@ -157,7 +174,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                   transition: 'all 0.3s ease',
                 }}
               >
-                Analytics
+                {t('header.analytics')}
               </Button>
               <Button
                 color="inherit"
@@ -178,11 +195,57 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                   transition: 'all 0.3s ease',
                 }}
               >
-                Moderation
+                {t('header.moderation')}
               </Button>
+              {isWellbeingStaff && (
+                <Button
+                  color="inherit"
+                  startIcon={<FavoriteIcon />}
+                  onClick={() => navigate('/wellbeing')}
+                  sx={{
+                    color: 'white',
+                    borderRadius: '12px',
+                    padding: '8px 16px',
+                    textTransform: 'none',
+                    fontWeight: currentPage === '/wellbeing' ? 'bold' : 'normal',
+                    background: currentPage === '/wellbeing' ? 'rgba(255,255,255,0.15)' : 'transparent',
+                    '&:hover': {
+                      background: 'rgba(255,255,255,0.15)',
+                      transform: 'translateY(-2px)',
+                      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+                    },
+                    transition: 'all 0.3s ease',
+                  }}
+                >
+                  {t('header.wellbeing')}
+                </Button>
+              )}
             </>
           )}
 
+          {isAuthenticated && (
+            <Button
+              color="inherit"
+              startIcon={<BookmarksIcon />}
+              onClick={onBookmarks}
+              sx={{
+                color: 'white',
+                borderRadius: '12px',
+                padding: '8px 16px',
+                textTransform: 'none',
+                fontWeight: 'bold',
+                '&:hover': {
+                  background: 'rgba(255,255,255,0.15)',
+                  transform: 'translateY(-2px)',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+                },
+                transition: 'all 0.3s ease',
+              }}
+            >
+              {t('header.bookmarks')}
+            </Button>
+          )}
+
           <Button
             color="inherit"
             startIcon={<SupportIcon />}
@@ -201,9 +264,31 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
               transition: 'all 0.3s ease',
             }}
           >
-            Support
+            {t('header.support')}
           </Button>
 
+          <Tooltip title={t('header.bibliography')}>
+            <IconButton
+              onClick={onBibliography}
+              aria-label={t('header.bibliography')}
+              sx={{
+                color: 'white',
+                '&:hover': {
+                  background: 'rgba(255,255,255,0.15)',
+                },
+              }}
+            >
+              <Badge
+                badgeContent={bibliography.length}
+                sx={{ '& .MuiBadge-badge': { background: '#FFC72C', color: '#115740', fontWeight: 'bold' } }}
+              >
+                <MenuBookIcon />
+              </Badge>
+            </IconButton>
+          </Tooltip>
+
+          <LanguageSwitcher />
+
           {isAuthenticated && user ? (
             <>
               <IconButton
@@ -304,7 +389,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                       textTransform: 'capitalize'
                     }}
                   >
-                    Role: {user.role}
+                    {t('auth.role', { role: t(`auth.${user.role}`) })}
                   </Typography>
                 </MenuItem>
                 <MenuItem
@@ -321,7 +406,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                   }}
                 >
                   <LogoutIcon sx={{ mr: 2 }} fontSize="small" />
-                  Logout
+                  {t('header.logout')}
                 </MenuItem>
               </Menu>
             </>
@@ -346,7 +431,7 @@ const Header: React.FC<HeaderProps> = ({ onLogin, onSupport }) => {
                 transition: 'all 0.3s ease',
               }}
             >
-              Login
+              {t('header.login')}
             </Button>
           )}
         </Box>
@@ -0,0 +1,76 @@
+import React from 'react';
+import { IconButton, ListItemText, Menu, MenuItem, Tooltip } from '@mui/material';
+import { Translate as TranslateIcon } from '@mui/icons-material';
+import { useAppSelector } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { SupportedLanguage } from '../../services/i18nService';
+
+const LanguageSwitcher: React.FC = () => {
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+  const { t, language, setLanguage, languages } = useTranslation();
+  const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+
+  const handleSelect = async (lang: SupportedLanguage) => {
+    setAnchorEl(null);
+    if (lang === language) return;
+
+    setLanguage(lang);
+
+    // Sync language preference to backend
+    if (isAuthenticated) {
+      try {
+        const backendService = (await import('../../services/backendService')).default;
+        await backendService.updateUserSettings({ language: lang });
+        console.log('✅ Language synced to backend:', lang);
+      } catch (error) {
+        console.error('❌ Failed to sync language to backend:', error);
+        // Don't show error to user - local setting still works
+      }
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={t('header.language')}>
+        <IconButton
+          onClick={(event) => setAnchorEl(event.currentTarget)}
+          aria-label={t('header.language')}
+          sx={{
+            color: 'white',
+            '&:hover': {
+              background: 'rgba(255,255,255,0.15)',
+            },
+          }}
+        >
+          <TranslateIcon />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+        sx={{
+          '& .MuiPaper-root': {
+            borderRadius: '12px',
+            marginTop: '8px',
+            minWidth: '180px',
+          },
+        }}
+      >
+        {languages.map((lang) => (
+          <MenuItem
+            key={lang.code}
+            selected={lang.code === language}
+            onClick={() => handleSelect(lang.code)}
+          >
+            <ListItemText primary={lang.nativeName} secondary={lang.name} />
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default LanguageSwitcher;
@@ -7,26 +7,39 @@ import {
   useTheme
 } from '@mui/material';
 import React from 'react';
-import { useAppSelector } from '../../hooks/redux';
+import { useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import type { Bookmark } from '../../services/backendService';
+import { setQuery } from '../../store/slices/searchSlice';
 import AnalyticsDashboard from '../Analytics/AnalyticsDashboard';
 import LoginDialog from '../Auth/LoginDialog';
+import BookmarksDrawer from '../Bookmarks/BookmarksDrawer';
+import BibliographyDialog from '../Citations/BibliographyDialog';
 import ModerationPanel from '../Moderation/ModerationPanel';
+import OfflineBanner from '../Offline/OfflineBanner';
+import OfflineLibraryDialog from '../Offline/OfflineLibraryDialog';
 import SearchSection from '../Search/SearchSection';
 import SupportDialog from '../Support/SupportDialog';
+import WellbeingQueue from '../Wellbeing/WellbeingQueue';
 import Header from './Header';
 import SidePanel from './SidePanel';
 
 interface MainLayoutProps {
-  page?: 'search' | 'analytics' | 'moderation';
+  page?: 'search' | 'analytics' | 'moderation' | 'wellbeing';
 }
 
 const MainLayout: React.FC<MainLayoutProps> = ({ page = 'search' }) => {
   const { user } = useAppSelector((state) => state.auth);
   const [loginOpen, setLoginOpen] = React.useState(false);
   const [supportOpen, setSupportOpen] = React.useState(false);
+  const [bookmarksOpen, setBookmarksOpen] = React.useState(false);
+  const [bibliographyOpen, setBibliographyOpen] = React.useState(false);
+  const [offlineLibraryOpen, setOfflineLibraryOpen] = React.useState(false);
   const [sidebarOpen, setSidebarOpen] = React.useState(false);
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
 
   const handleLogin = () => {
     setLoginOpen(true);
@@ -36,6 +49,31 @@ const MainLayout: React.FC<MainLayoutProps> = ({ page = 'search' }) => {
     setSupportOpen(true);
   };
 
+  const openQuery = (query: string, category?: string) => {
+    if (page === 'search') {
+      // Re-run the saved query through the same path as breadcrumb clicks
+      window.dispatchEvent(new CustomEvent('breadcrumb-search', {
+        detail: { query, category }
+      }));
+    } else {
+      // SearchSection searches the stored query when it mounts
+      dispatch(setQuery(query));
+      navigate('/');
+    }
+  };
+
+  const handleOpenBookmark = (bookmark: Bookmark) => {
+    setBookmarksOpen(false);
+    setOfflineLibraryOpen(false);
+    openQuery(bookmark.query, bookmark.category);
+  };
+
+  // Offline, searching a saved query shows the copy kept of its results
+  const handleOpenSavedSearch = (query: string) => {
+    setOfflineLibraryOpen(false);
+    openQuery(query);
+  };
+
   const handleSidebarToggle = () => {
     setSidebarOpen(!sidebarOpen);
   };
@@ -54,7 +92,14 @@ const MainLayout: React.FC<MainLayoutProps> = ({ page = 'search' }) => {
         background: 'linear-gradient(135deg, #f0f4f8 0%, #e2e8f0 100%)',
       }}
     >
-      <Header onLogin={handleLogin} onSupport={handleSupport} />
+      <Header
+        onLogin={handleLogin}
+        onSupport={handleSupport}
+        onBookmarks={() => setBookmarksOpen(true)}
+        onBibliography={() => setBibliographyOpen(true)}
+      />
+
+      <OfflineBanner onBrowseSaved={() => setOfflineLibraryOpen(true)} />
 
       {/* Mobile Menu Button */}
       {isMobile && (
@@ -140,9 +185,10 @@ const MainLayout: React.FC<MainLayoutProps> = ({ page = 'search' }) => {
               overflow: 'auto',
             }}
           >
-            {page === 'search' && <SearchSection />}
+            {page === 'search' && <SearchSection onOpenBibliography={() => setBibliographyOpen(true)} />}
             {page === 'analytics' && <AnalyticsDashboard userRole={user?.role || 'guest'} />}
             {page === 'moderation' && <ModerationPanel userRole={user?.role || 'guest'} />}
+            {page === 'wellbeing' && <WellbeingQueue />}
           </Box>
         </Box>
       </Box>
@@ -156,6 +202,26 @@ const MainLayout: React.FC<MainLayoutProps> = ({ page = 'search' }) => {
         open={supportOpen}
         onClose={() => setSupportOpen(false)}
       />
+
+      <BibliographyDialog
+        open={bibliographyOpen}
+        onClose={() => setBibliographyOpen(false)}
+      />
+
+      <OfflineLibraryDialog
+        open={offlineLibraryOpen}
+        onClose={() => setOfflineLibraryOpen(false)}
+        onOpenSearch={handleOpenSavedSearch}
+        onOpenBookmark={handleOpenBookmark}
+      />
+
+      {user && (
+        <BookmarksDrawer
+          open={bookmarksOpen}
+          onClose={() => setBookmarksOpen(false)}
+          onOpenBookmark={handleOpenBookmark}
+        />
+      )}
     </Box>
   );
 };
@@ -14,6 +14,8 @@ import {
   Fade,
   Grow,
   Switch,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   School,
@@ -32,10 +34,16 @@ import {
   Settings as SettingsIcon,
   Chat as ChatIcon,
   Search as SearchIcon,
+  MenuBook as MenuBookIcon,
 } from '@mui/icons-material';
 import { useAppSelector, useAppDispatch } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
 import { filterLinksByRole } from '../../store/slices/linksSlice';
 import { AISearchService } from '../../services/aiSearchService';
+import readingLevelService, { type GradeLevel } from '../../services/readingLevelService';
+
+const GRADE_OPTIONS: GradeLevel[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 'college', 'adult'];
+const SCHOOL_GRADE_OPTIONS = GRADE_OPTIONS.filter((grade) => typeof grade === 'number');
 
 interface SidePanelProps {
   onLinkClick: () => void;
@@ -45,7 +53,10 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
   const { filteredLinks } = useAppSelector((state) => state.links);
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
   const dispatch = useAppDispatch();
+  const { t } = useTranslation();
   const [aiMode, setAiMode] = React.useState<'search' | 'chat'>('search');
+  const [gradeLevel, setGradeLevel] = React.useState<GradeLevel>(readingLevelService.getGradeSetting());
+  const gradeOptions = user?.role === 'staff' ? GRADE_OPTIONS : SCHOOL_GRADE_OPTIONS;
 
   React.useEffect(() => {
     const role = isAuthenticated && user ? user.role : 'guest';
@@ -76,6 +87,40 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
     }
   };
 
+  // Keep the selector in step with grades applied from backend settings
+  React.useEffect(() => {
+    setGradeLevel(readingLevelService.getGradeSetting());
+    return readingLevelService.subscribe(setGradeLevel);
+  }, []);
+
+  const handleGradeChange = async (value: string) => {
+    const grade = gradeOptions.find((option) => String(option) === value) ?? 7;
+    readingLevelService.setGradeLevel(grade);
+
+    // Sync reading level preference to backend
+    if (isAuthenticated) {
+      try {
+        const backendService = (await import('../../services/backendService')).default;
+        await backendService.updateUserSettings({ gradeLevel: grade });
+        console.log('✅ Reading level synced to backend:', grade);
+      } catch (error) {
+        console.error('❌ Failed to sync reading level to backend:', error);
+        // Don't show error to user - local setting still works
+      }
+    }
+  };
+
+  const getGradeLabel = (grade: GradeLevel) => {
+    switch (grade) {
+      case 'college':
+        return t('sidePanel.gradeCollege');
+      case 'adult':
+        return t('sidePanel.gradeAdult');
+      default:
+        return t('sidePanel.grade', { grade });
+    }
+  };
+
   const getIcon = (iconName: string) => {
     switch (iconName) {
       case 'School':
@@ -144,7 +189,7 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
           <Box sx={{ display: 'flex', alignItems: 'center', mb: 1.5 }}>
             <Grow in timeout={1000}>
               <Avatar
-                alt={user?.name || 'Guest'}
+                alt={user?.name || t('auth.guest')}
                 src={user?.profileImage}
                 sx={{
                   width: 48,
@@ -175,10 +220,10 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
                     textOverflow: 'ellipsis',
                   }}
                 >
-                  {user?.name || 'Guest'}
+                  {user?.name || t('auth.guest')}
                 </Typography>
                 <Chip
-                  label={user?.role ? user.role.charAt(0).toUpperCase() + user.role.slice(1) : 'Guest'}
+                  label={t(`auth.${user?.role || 'guest'}`)}
                   size="small"
                   sx={{
                     height: '20px',
@@ -219,7 +264,7 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
                   }}
                 >
                   <StarIcon sx={{ fontSize: '0.85rem', color: '#fde047' }} />
-                  {user?.role === 'staff' ? 'Enhanced' : 'Standard'}
+                  {user?.role === 'staff' ? t('sidePanel.enhanced') : t('sidePanel.standard')}
                 </Typography>
                 <Typography
                   variant="caption"
@@ -232,7 +277,7 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
                   }}
                 >
                   <TrendingUpIcon sx={{ fontSize: '0.85rem', color: '#86efac' }} />
-                  Active
+                  {t('sidePanel.active')}
                 </Typography>
               </Box>
             </Box>
@@ -273,7 +318,7 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
                         fontSize: '0.8rem',
                       }}
                     >
-                      {aiMode === 'search' ? 'Search' : 'Chat'}
+                      {aiMode === 'search' ? t('common.search') : t('chat.mode')}
                     </Typography>
                   </Box>
 
@@ -299,6 +344,57 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
               </Paper>
             </Fade>
           )}
+
+          {/* Reading Level Section - Compact */}
+          <Paper
+            elevation={0}
+            sx={{
+              background: 'rgba(255,255,255,0.1)',
+              backdropFilter: 'blur(10px)',
+              border: '1px solid rgba(255,255,255,0.2)',
+              borderRadius: '8px',
+              padding: '6px 12px',
+              mt: 1.5,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+            }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <MenuBookIcon sx={{ color: '#FFC72C', fontSize: '1rem' }} />
+              <Typography
+                variant="caption"
+                sx={{
+                  color: 'white',
+                  fontWeight: 600,
+                  fontSize: '0.8rem',
+                }}
+              >
+                {t('sidePanel.readingLevel')}
+              </Typography>
+            </Box>
+
+            <Select
+              value={String(gradeLevel)}
+              onChange={(event) => handleGradeChange(event.target.value)}
+              variant="standard"
+              disableUnderline
+              size="small"
+              sx={{
+                color: 'white',
+                fontSize: '0.8rem',
+                '& .MuiSelect-icon': {
+                  color: 'white',
+                },
+              }}
+            >
+              {gradeOptions.map((grade) => (
+                <MenuItem key={grade} value={String(grade)} sx={{ fontSize: '0.85rem' }}>
+                  {getGradeLabel(grade)}
+                </MenuItem>
+              ))}
+            </Select>
+          </Paper>
         </Box>
       </Fade>
 
@@ -317,7 +413,7 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
             fontSize: '0.9rem'
           }}
         >
-          Quick Links
+          {t('sidePanel.quickLinks')}
         </Typography>
 
         <Box sx={{ overflowY: 'auto', height: '100%', pb: 2 }}>
@@ -423,7 +519,7 @@ const SidePanel: React.FC<SidePanelProps> = ({ onLinkClick }) => {
                     opacity: 0.7
                   }}
                 >
-                  No links available for your role.
+                  {t('sidePanel.noLinks')}
                 </Typography>
               </Box>
             </Fade>
@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Delete, Sync, UploadFile } from '@mui/icons-material';
+import backendService, { type BlocklistSubscription } from '../../services/backendService';
+import moderationImportService from '../../services/moderationImportService';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface BlocklistSubscriptionsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onChanged: () => void; // the subscribed rules were added, replaced or removed
+}
+
+interface SubscriptionForm {
+  name: string;
+  sourceType: BlocklistSubscription['sourceType'];
+  url: string;
+  action: BlocklistSubscription['action'];
+  severity: BlocklistSubscription['severity'];
+}
+
+const EMPTY_FORM: SubscriptionForm = {
+  name: '',
+  sourceType: 'url',
+  url: '',
+  action: 'block',
+  severity: 'high',
+};
+
+const BlocklistSubscriptionsDialog: React.FC<BlocklistSubscriptionsDialogProps> = ({ open, onClose, onChanged }) => {
+  const { t } = useTranslation();
+  const [subscriptions, setSubscriptions] = useState<BlocklistSubscription[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<SubscriptionForm>(EMPTY_FORM);
+  const [file, setFile] = useState<{ name: string; domains: string[] } | null>(null);
+  const newFileRef = useRef<HTMLInputElement>(null);
+  const resyncFileRef = useRef<HTMLInputElement>(null);
+  const resyncTarget = useRef<BlocklistSubscription | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSubscriptions(await backendService.getBlocklistSubscriptions());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadSubscriptions();
+    }
+  }, [open, loadSubscriptions]);
+
+  const readBlocklist = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return null;
+    return { name: selected.name, domains: moderationImportService.parseBlocklist(await selected.text()) };
+  };
+
+  const handleNewFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const blocklist = await readBlocklist(event);
+    if (!blocklist) return;
+    setFile(blocklist);
+    setForm((current) => ({ ...current, name: current.name || blocklist.name.replace(/\.[^.]+$/, '') }));
+  };
+
+  const handleSubscribe = async () => {
+    setError(null);
+    setBusyId('new');
+    const created = await backendService.createBlocklistSubscription({
+      name: form.name.trim(),
+      sourceType: form.sourceType,
+      action: form.action,
+      severity: form.severity,
+      ...(form.sourceType === 'url'
+        ? { url: form.url.trim() }
+        : { fileName: file?.name, domains: file?.domains || [] }),
+    });
+    setBusyId(null);
+
+    if (created) {
+      setForm(EMPTY_FORM);
+      setFile(null);
+      await loadSubscriptions();
+      onChanged();
+    } else {
+      setError(t('moderation.subscribeFailed'));
+    }
+  };
+
+  const sync = async (subscription: BlocklistSubscription, domains?: string[]) => {
+    setError(null);
+    setBusyId(subscription._id);
+    const synced = await backendService.syncBlocklistSubscription(subscription._id, domains);
+    setBusyId(null);
+
+    if (synced) {
+      await loadSubscriptions();
+      onChanged();
+    } else {
+      setError(t('moderation.syncFailed', { name: subscription.name }));
+    }
+  };
+
+  // File subscriptions are re-synced from a new copy of the file
+  const handleSync = (subscription: BlocklistSubscription) => {
+    if (subscription.sourceType === 'url') {
+      sync(subscription);
+      return;
+    }
+    resyncTarget.current = subscription;
+    resyncFileRef.current?.click();
+  };
+
+  const handleResyncFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const blocklist = await readBlocklist(event);
+    const subscription = resyncTarget.current;
+    resyncTarget.current = null;
+    if (blocklist && subscription) {
+      sync(subscription, blocklist.domains);
+    }
+  };
+
+  const handleDelete = async (subscription: BlocklistSubscription) => {
+    if (!window.confirm(t('moderation.confirmUnsubscribe', { name: subscription.name, count: subscription.ruleCount }))) return;
+
+    setError(null);
+    setBusyId(subscription._id);
+    const deleted = await backendService.deleteBlocklistSubscription(subscription._id);
+    setBusyId(null);
+
+    if (deleted) {
+      await loadSubscriptions();
+      onChanged();
+    } else {
+      setError(t('moderation.unsubscribeFailed', { name: subscription.name }));
+    }
+  };
+
+  const canSubscribe =
+    form.name.trim() !== '' &&
+    busyId === null &&
+    (form.sourceType === 'url' ? /^https?:\/\/\S+$/i.test(form.url.trim()) : !!file && file.domains.length > 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('moderation.subscriptionsTitle')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          {t('moderation.subscriptionsDescription')}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <input ref={resyncFileRef} type="file" accept=".txt,.hosts,.list,text/plain" hidden onChange={handleResyncFile} />
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : subscriptions.length === 0 ? (
+          <Alert severity="info">{t('moderation.subscriptionsEmpty')}</Alert>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('moderation.subscriptionName')}</TableCell>
+                  <TableCell>{t('moderation.columnAction')}</TableCell>
+                  <TableCell>{t('moderation.subscriptionRules')}</TableCell>
+                  <TableCell>{t('moderation.subscriptionLastSync')}</TableCell>
+                  <TableCell>{t('common.actions')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {subscriptions.map((subscription) => (
+                  <TableRow key={subscription._id}>
+                    <TableCell>
+                      <Typography variant="body2">{subscription.name}</Typography>
+                      <Typography variant="caption" color="textSecondary" noWrap sx={{ display: 'block', maxWidth: 260 }}>
+                        {subscription.url || subscription.fileName}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={subscription.action}
+                        color={subscription.action === 'block' ? 'error' : 'warning'}
+                      />
+                    </TableCell>
+                    <TableCell>{subscription.ruleCount}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">
+                        {subscription.lastSyncedAt ? new Date(subscription.lastSyncedAt).toLocaleString() : '-'}
+                      </Typography>
+                      {subscription.lastSyncError && (
+                        <Typography variant="caption" color="error" sx={{ display: 'block' }}>
+                          {subscription.lastSyncError}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {busyId === subscription._id ? (
+                        <CircularProgress size={20} />
+                      ) : (
+                        <>
+                          <Tooltip
+                            title={t(subscription.sourceType === 'url' ? 'moderation.syncUrl' : 'moderation.syncFile')}
+                          >
+                            <span>
+                              <IconButton size="small" onClick={() => handleSync(subscription)} disabled={busyId !== null}>
+                                <Sync />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleDelete(subscription)}
+                            disabled={busyId !== null}
+                          >
+                            <Delete />
+                          </IconButton>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        <Divider sx={{ my: 3 }} />
+
+        <Typography variant="subtitle1" sx={{ mb: 2 }}>
+          {t('moderation.subscriptionAdd')}
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            fullWidth
+            label={t('moderation.subscriptionName')}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+
+          <FormControl fullWidth>
+            <InputLabel>{t('moderation.subscriptionSource')}</InputLabel>
+            <Select
+              value={form.sourceType}
+              onChange={(e) => setForm({ ...form, sourceType: e.target.value as SubscriptionForm['sourceType'] })}
+              label={t('moderation.subscriptionSource')}
+            >
+              <MenuItem value="url">{t('moderation.subscriptionSourceUrl')}</MenuItem>
+              <MenuItem value="file">{t('moderation.subscriptionSourceFile')}</MenuItem>
+            </Select>
+          </FormControl>
+
+          {form.sourceType === 'url' ? (
+            <TextField
+              fullWidth
+              label={t('moderation.subscriptionUrl')}
+              helperText={t('moderation.subscriptionUrlHelp')}
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder="https://example.org/blocklist.txt"
+            />
+          ) : (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <input ref={newFileRef} type="file" accept=".txt,.hosts,.list,text/plain" hidden onChange={handleNewFile} />
+              <Button variant="outlined" startIcon={<UploadFile />} onClick={() => newFileRef.current?.click()}>
+                {t('moderation.importChooseFile')}
+              </Button>
+              {file && (
+                <Typography variant="body2" color={file.domains.length > 0 ? 'textPrimary' : 'error'}>
+                  {t('moderation.subscriptionDomainsFound', { name: file.name, count: file.domains.length })}
+                </Typography>
+              )}
+            </Box>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <FormControl fullWidth>
+              <InputLabel>{t('moderation.columnAction')}</InputLabel>
+              <Select
+                value={form.action}
+                onChange={(e) => setForm({ ...form, action: e.target.value as SubscriptionForm['action'] })}
+                label={t('moderation.columnAction')}
+              >
+                <MenuItem value="block">{t('moderation.actionBlock')}</MenuItem>
+                <MenuItem value="flag">{t('moderation.actionFlag')}</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>{t('moderation.columnSeverity')}</InputLabel>
+              <Select
+                value={form.severity}
+                onChange={(e) => setForm({ ...form, severity: e.target.value as SubscriptionForm['severity'] })}
+                label={t('moderation.columnSeverity')}
+              >
+                <MenuItem value="low">{t('moderation.severityLow')}</MenuItem>
+                <MenuItem value="medium">{t('moderation.severityMedium')}</MenuItem>
+                <MenuItem value="high">{t('moderation.severityHigh')}</MenuItem>
+                <MenuItem value="critical">{t('moderation.severityCritical')}</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+        <Button
+          variant="contained"
+          onClick={handleSubscribe}
+          disabled={!canSubscribe}
+          startIcon={busyId === 'new' ? <CircularProgress size={16} /> : undefined}
+        >
+          {t('moderation.subscribe')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BlocklistSubscriptionsDialog;
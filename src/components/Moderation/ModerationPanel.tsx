@@ -30,6 +30,8 @@ import {
   Tabs,
   Tab,
   Grid,
+  Menu,
+  Tooltip,
 } from '@mui/material';
 import {
   Add,
@@ -41,19 +43,33 @@ import {
   Refresh,
   PlayArrow,
   Pause,
+  UploadFile,
+  Download,
+  Subscriptions,
 } from '@mui/icons-material';
 import backendService, { ModerationRule } from '../../services/backendService';
+import moderationImportService, { type RuleFileFormat } from '../../services/moderationImportService';
+import moderationRulesService from '../../services/moderationRulesService';
+import { useTranslation } from '../../hooks/useTranslation';
+import BlocklistSubscriptionsDialog from './BlocklistSubscriptionsDialog';
+import RuleImportDialog from './RuleImportDialog';
 
 interface ModerationPanelProps {
   userRole: 'guest' | 'student' | 'staff';
 }
 
 const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
+  const { t } = useTranslation();
   const [loading, setLoading] = useState(true);
   const [rules, setRules] = useState<ModerationRule[]>([]);
   const [tabValue, setTabValue] = useState(0);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<ModerationRule | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [subscriptionsOpen, setSubscriptionsOpen] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
+  // Blocklist subscriptions add thousands of rules - they are managed as groups, so hidden by default
+  const [showSubscribed, setShowSubscribed] = useState(false);
 
   // Form state
   const [formData, setFormData] = useState<Partial<ModerationRule>>({
@@ -109,22 +125,23 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
 
   // Staff-only access
   if (userRole !== 'staff') {
-    return <Alert severity="error">Access Denied - Staff Only</Alert>;
+    return <Alert severity="error">{t('common.accessDenied')}</Alert>;
   }
 
   const handleCreateRule = async () => {
     try {
       const newRule = await backendService.createModerationRule(formData as any);
       if (newRule) {
+        moderationRulesService.invalidate();
         await loadRules();
         setCreateDialogOpen(false);
         resetForm();
       } else {
-        alert('Failed to create rule');
+        alert(t('moderation.createFailed'));
       }
     } catch (error) {
       console.error('Failed to create rule:', error);
-      alert('Failed to create rule');
+      alert(t('moderation.createFailed'));
     }
   };
 
@@ -134,31 +151,33 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
     try {
       const success = await backendService.updateModerationRule(editingRule._id, formData);
       if (success) {
+        moderationRulesService.invalidate();
         await loadRules();
         setEditingRule(null);
         resetForm();
       } else {
-        alert('Failed to update rule');
+        alert(t('moderation.updateFailed'));
       }
     } catch (error) {
       console.error('Failed to update rule:', error);
-      alert('Failed to update rule');
+      alert(t('moderation.updateFailed'));
     }
   };
 
   const handleDeleteRule = async (ruleId: string) => {
-    if (!window.confirm('Are you sure you want to delete this rule?')) return;
+    if (!window.confirm(t('moderation.confirmDelete'))) return;
 
     try {
       const success = await backendService.deleteModerationRule(ruleId);
       if (success) {
+        moderationRulesService.invalidate();
         await loadRules();
       } else {
-        alert('Failed to delete rule');
+        alert(t('moderation.deleteFailed'));
       }
     } catch (error) {
       console.error('Failed to delete rule:', error);
-      alert('Failed to delete rule');
+      alert(t('moderation.deleteFailed'));
     }
   };
 
@@ -166,6 +185,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
     try {
       const success = await backendService.toggleModerationRule(ruleId);
       if (success) {
+        moderationRulesService.invalidate();
         await loadRules();
       }
     } catch (error) {
@@ -173,6 +193,17 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
     }
   };
 
+  // Imports and subscription syncs change rules in bulk
+  const handleRulesChanged = async () => {
+    moderationRulesService.invalidate();
+    await loadRules();
+  };
+
+  const handleExport = (format: RuleFileFormat) => {
+    setExportAnchor(null);
+    moderationImportService.download(rules, format);
+  };
+
   const resetForm = () => {
     setFormData({
       ruleType: 'keyword',
@@ -199,6 +230,8 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
     });
   };
 
+  const subscribedCount = rules.filter((rule) => rule.source).length;
+
   const filterRules = (ruleType?: string, action?: string) => {
     return rules.filter((rule) => {
       if (ruleType && rule.ruleType !== ruleType) return false;
@@ -250,7 +283,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
   return (
     <Box sx={{ p: 3 }}>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
-        <Typography variant="h4">Content Moderation</Typography>
+        <Typography variant="h4">{t('moderation.title')}</Typography>
         <Box>
           <Button
             variant="outlined"
@@ -258,8 +291,37 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
             onClick={loadRules}
             sx={{ mr: 2 }}
           >
-            Refresh
+            {t('common.refresh')}
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Subscriptions />}
+            onClick={() => setSubscriptionsOpen(true)}
+            sx={{ mr: 2 }}
+          >
+            {t('moderation.subscriptions')}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFile />}
+            onClick={() => setImportOpen(true)}
+            sx={{ mr: 2 }}
+          >
+            {t('moderation.import')}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={(e) => setExportAnchor(e.currentTarget)}
+            disabled={rules.length === 0}
+            sx={{ mr: 2 }}
+          >
+            {t('moderation.export')}
+          </Button>
+          <Menu anchorEl={exportAnchor} open={Boolean(exportAnchor)} onClose={() => setExportAnchor(null)}>
+            <MenuItem onClick={() => handleExport('csv')}>{t('moderation.exportCsv')}</MenuItem>
+            <MenuItem onClick={() => handleExport('json')}>{t('moderation.exportJson')}</MenuItem>
+          </Menu>
           <Button
             variant="contained"
             startIcon={<Add />}
@@ -268,7 +330,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
               setCreateDialogOpen(true);
             }}
           >
-            Add Rule
+            {t('moderation.addRule')}
           </Button>
         </Box>
       </Box>
@@ -279,11 +341,11 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
           <Card>
             <CardContent>
               <Typography color="textSecondary" gutterBottom>
-                Total Rules
+                {t('moderation.totalRules')}
               </Typography>
               <Typography variant="h4">{rules.length}</Typography>
               <Typography variant="caption">
-                {rules.filter((r) => r.isActive).length} active
+                {t('moderation.activeCount', { count: rules.filter((r) => r.isActive).length })}
               </Typography>
             </CardContent>
           </Card>
@@ -292,7 +354,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
           <Card>
             <CardContent>
               <Typography color="textSecondary" gutterBottom>
-                Blocked Domains
+                {t('moderation.blockedDomains')}
               </Typography>
               <Typography variant="h4">{blockedDomains.length}</Typography>
             </CardContent>
@@ -302,7 +364,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
           <Card>
             <CardContent>
               <Typography color="textSecondary" gutterBottom>
-                Blocked Keywords
+                {t('moderation.blockedKeywords')}
               </Typography>
               <Typography variant="h4">{blockedKeywords.length}</Typography>
             </CardContent>
@@ -312,7 +374,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
           <Card>
             <CardContent>
               <Typography color="textSecondary" gutterBottom>
-                Allowed Domains
+                {t('moderation.allowedDomains')}
               </Typography>
               <Typography variant="h4" color="success.main">
                 {allowedDomains.length}
@@ -323,13 +385,19 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
       </Grid>
 
       {/* Tabs */}
-      <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', borderBottom: 1, borderColor: 'divider', mb: 3 }}>
         <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)}>
-          <Tab label="All Rules" />
-          <Tab label="Blocked Domains" />
-          <Tab label="Allowed Domains" />
-          <Tab label="Blocked Keywords" />
+          <Tab label={t('moderation.allRules')} />
+          <Tab label={t('moderation.blockedDomains')} />
+          <Tab label={t('moderation.allowedDomains')} />
+          <Tab label={t('moderation.blockedKeywords')} />
         </Tabs>
+        {subscribedCount > 0 && (
+          <FormControlLabel
+            control={<Switch checked={showSubscribed} onChange={(e) => setShowSubscribed(e.target.checked)} />}
+            label={t('moderation.showSubscribed', { count: subscribedCount })}
+          />
+        )}
       </Box>
 
       {/* Rules Table */}
@@ -337,14 +405,14 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
         <Table>
           <TableHead>
             <TableRow>
-              <TableCell>Active</TableCell>
-              <TableCell>Type</TableCell>
-              <TableCell>Action</TableCell>
-              <TableCell>Value</TableCell>
-              <TableCell>Reason</TableCell>
-              <TableCell>Severity</TableCell>
-              <TableCell>Hits</TableCell>
-              <TableCell>Actions</TableCell>
+              <TableCell>{t('common.active')}</TableCell>
+              <TableCell>{t('moderation.columnType')}</TableCell>
+              <TableCell>{t('moderation.columnAction')}</TableCell>
+              <TableCell>{t('moderation.columnValue')}</TableCell>
+              <TableCell>{t('moderation.columnReason')}</TableCell>
+              <TableCell>{t('moderation.columnSeverity')}</TableCell>
+              <TableCell>{t('moderation.columnHits')}</TableCell>
+              <TableCell>{t('common.actions')}</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -355,65 +423,76 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
               : tabValue === 2
               ? allowedDomains
               : blockedKeywords
-            ).map((rule) => (
-              <TableRow key={rule._id}>
-                <TableCell>
-                  <IconButton
-                    size="small"
-                    onClick={() => rule._id && handleToggleRule(rule._id)}
-                  >
-                    {rule.isActive ? <PlayArrow color="success" /> : <Pause />}
-                  </IconButton>
-                </TableCell>
-                <TableCell>
-                  <Chip label={rule.ruleType} size="small" variant="outlined" />
-                </TableCell>
-                <TableCell>
-                  <Chip
-                    icon={getRuleIcon(rule.action)}
-                    label={rule.action}
-                    size="small"
-                    color={
-                      rule.action === 'block'
-                        ? 'error'
-                        : rule.action === 'allow'
-                        ? 'success'
-                        : 'warning'
-                    }
-                  />
-                </TableCell>
-                <TableCell>
-                  <Typography noWrap sx={{ maxWidth: 200 }}>
-                    {rule.value}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Typography variant="caption" color="textSecondary" noWrap sx={{ maxWidth: 150 }}>
-                    {rule.reason || '-'}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Chip
-                    label={rule.severity || 'medium'}
-                    size="small"
-                    color={getSeverityColor(rule.severity)}
-                  />
-                </TableCell>
-                <TableCell>{rule.hitCount || 0}</TableCell>
-                <TableCell>
-                  <IconButton size="small" onClick={() => openEditDialog(rule)}>
-                    <Edit />
-                  </IconButton>
-                  <IconButton
-                    size="small"
-                    onClick={() => rule._id && handleDeleteRule(rule._id)}
-                    color="error"
-                  >
-                    <Delete />
-                  </IconButton>
-                </TableCell>
-              </TableRow>
-            ))}
+            )
+              .filter((rule) => showSubscribed || !rule.source)
+              .map((rule) => (
+                <TableRow key={rule._id}>
+                  <TableCell>
+                    <IconButton
+                      size="small"
+                      onClick={() => rule._id && handleToggleRule(rule._id)}
+                    >
+                      {rule.isActive ? <PlayArrow color="success" /> : <Pause />}
+                    </IconButton>
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={rule.ruleType} size="small" variant="outlined" />
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      icon={getRuleIcon(rule.action)}
+                      label={rule.action}
+                      size="small"
+                      color={
+                        rule.action === 'block'
+                          ? 'error'
+                          : rule.action === 'allow'
+                          ? 'success'
+                          : 'warning'
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography noWrap sx={{ maxWidth: 200 }}>
+                      {rule.value}
+                    </Typography>
+                    {rule.source && (
+                      <Chip label={t('moderation.subscribedRule')} size="small" variant="outlined" sx={{ mt: 0.5 }} />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color="textSecondary" noWrap sx={{ maxWidth: 150 }}>
+                      {rule.reason || '-'}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={rule.severity || 'medium'}
+                      size="small"
+                      color={getSeverityColor(rule.severity)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip
+                      title={rule.lastHitAt ? t('moderation.lastHit', { date: new Date(rule.lastHitAt).toLocaleString() }) : ''}
+                    >
+                      <span>{rule.hitCount || 0}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <IconButton size="small" onClick={() => openEditDialog(rule)}>
+                      <Edit />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      onClick={() => rule._id && handleDeleteRule(rule._id)}
+                      color="error"
+                    >
+                      <Delete />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
           </TableBody>
         </Table>
       </TableContainer>
@@ -429,46 +508,46 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
         maxWidth="sm"
         fullWidth
       >
-        <DialogTitle>{editingRule ? 'Edit Rule' : 'Create New Rule'}</DialogTitle>
+        <DialogTitle>{editingRule ? t('moderation.editRule') : t('moderation.createRule')}</DialogTitle>
         <DialogContent>
           <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 2 }}>
             <FormControl fullWidth>
-              <InputLabel>Rule Type</InputLabel>
+              <InputLabel>{t('moderation.ruleType')}</InputLabel>
               <Select
                 value={formData.ruleType}
                 onChange={(e) => setFormData({ ...formData, ruleType: e.target.value as any })}
-                label="Rule Type"
+                label={t('moderation.ruleType')}
               >
-                <MenuItem value="keyword">Keyword</MenuItem>
-                <MenuItem value="domain">Domain</MenuItem>
-                <MenuItem value="url">URL</MenuItem>
-                <MenuItem value="pattern">Pattern (Regex)</MenuItem>
+                <MenuItem value="keyword">{t('moderation.typeKeyword')}</MenuItem>
+                <MenuItem value="domain">{t('moderation.typeDomain')}</MenuItem>
+                <MenuItem value="url">{t('moderation.typeUrl')}</MenuItem>
+                <MenuItem value="pattern">{t('moderation.typePattern')}</MenuItem>
               </Select>
             </FormControl>
 
             <FormControl fullWidth>
-              <InputLabel>Action</InputLabel>
+              <InputLabel>{t('moderation.columnAction')}</InputLabel>
               <Select
                 value={formData.action}
                 onChange={(e) => setFormData({ ...formData, action: e.target.value as any })}
-                label="Action"
+                label={t('moderation.columnAction')}
               >
-                <MenuItem value="block">Block</MenuItem>
-                <MenuItem value="allow">Allow</MenuItem>
-                <MenuItem value="flag">Flag for Review</MenuItem>
+                <MenuItem value="block">{t('moderation.actionBlock')}</MenuItem>
+                <MenuItem value="allow">{t('moderation.actionAllow')}</MenuItem>
+                <MenuItem value="flag">{t('moderation.actionFlag')}</MenuItem>
               </Select>
             </FormControl>
 
             <TextField
               fullWidth
-              label="Value"
+              label={t('moderation.columnValue')}
               value={formData.value}
               onChange={(e) => setFormData({ ...formData, value: e.target.value })}
               placeholder={
                 formData.ruleType === 'domain'
                   ? 'example.com'
                   : formData.ruleType === 'keyword'
-                  ? 'inappropriate word'
+                  ? t('moderation.keywordPlaceholder')
                   : 'https://example.com/path'
               }
             />
@@ -476,7 +555,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
             {formData.ruleType === 'pattern' && (
               <TextField
                 fullWidth
-                label="Regex Pattern"
+                label={t('moderation.regexPattern')}
                 value={formData.pattern || ''}
                 onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
                 placeholder="\\b(bad|word)\\b"
@@ -485,25 +564,25 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
 
             <TextField
               fullWidth
-              label="Reason"
+              label={t('moderation.columnReason')}
               value={formData.reason || ''}
               onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
               multiline
               rows={2}
-              placeholder="Why is this rule needed?"
+              placeholder={t('moderation.reasonPlaceholder')}
             />
 
             <FormControl fullWidth>
-              <InputLabel>Severity</InputLabel>
+              <InputLabel>{t('moderation.columnSeverity')}</InputLabel>
               <Select
                 value={formData.severity}
                 onChange={(e) => setFormData({ ...formData, severity: e.target.value as any })}
-                label="Severity"
+                label={t('moderation.columnSeverity')}
               >
-                <MenuItem value="low">Low</MenuItem>
-                <MenuItem value="medium">Medium</MenuItem>
-                <MenuItem value="high">High</MenuItem>
-                <MenuItem value="critical">Critical</MenuItem>
+                <MenuItem value="low">{t('moderation.severityLow')}</MenuItem>
+                <MenuItem value="medium">{t('moderation.severityMedium')}</MenuItem>
+                <MenuItem value="high">{t('moderation.severityHigh')}</MenuItem>
+                <MenuItem value="critical">{t('moderation.severityCritical')}</MenuItem>
               </Select>
             </FormControl>
 
@@ -516,7 +595,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
                   }
                 />
               }
-              label="Case Sensitive"
+              label={t('moderation.caseSensitive')}
             />
 
             <FormControlLabel
@@ -526,7 +605,7 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
                   onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
                 />
               }
-              label="Active"
+              label={t('common.active')}
             />
           </Box>
         </DialogContent>
@@ -538,17 +617,30 @@ const ModerationPanel: React.FC<ModerationPanelProps> = ({ userRole }) => {
               resetForm();
             }}
           >
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button
             variant="contained"
             onClick={editingRule ? handleUpdateRule : handleCreateRule}
             disabled={!formData.value}
           >
-            {editingRule ? 'Update' : 'Create'}
+            {editingRule ? t('common.update') : t('common.create')}
           </Button>
         </DialogActions>
       </Dialog>
+
+      <RuleImportDialog
+        open={importOpen}
+        existingRules={rules}
+        onClose={() => setImportOpen(false)}
+        onImported={handleRulesChanged}
+      />
+
+      <BlocklistSubscriptionsDialog
+        open={subscriptionsOpen}
+        onClose={() => setSubscriptionsOpen(false)}
+        onChanged={handleRulesChanged}
+      />
     </Box>
   );
 };
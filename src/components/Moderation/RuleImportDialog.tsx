@@ -0,0 +1,209 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import backendService, { type ModerationRule } from '../../services/backendService';
+import moderationImportService, {
+  type RuleImportPreview,
+  type RuleImportRow,
+  type RuleIssue,
+} from '../../services/moderationImportService';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface RuleImportDialogProps {
+  open: boolean;
+  existingRules: ModerationRule[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const ISSUE_KEYS: Record<RuleIssue['kind'], string> = {
+  missing: 'moderation.importIssueMissing',
+  invalidValue: 'moderation.importIssueValue',
+  invalidPattern: 'moderation.importIssuePattern',
+};
+
+const STATUS_COLORS: Record<RuleImportRow['status'], 'success' | 'default' | 'error'> = {
+  new: 'success',
+  duplicate: 'default',
+  invalid: 'error',
+};
+
+const STATUS_KEYS: Record<RuleImportRow['status'], string> = {
+  new: 'moderation.importStatusNew',
+  duplicate: 'moderation.importStatusDuplicate',
+  invalid: 'moderation.importStatusInvalid',
+};
+
+const PREVIEW_ROWS = 100; // a large file's summary counts every row; the table shows the first few
+
+const RuleImportDialog: React.FC<RuleImportDialogProps> = ({ open, existingRules, onClose, onImported }) => {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<RuleImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<{ created: number; skipped: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setPreview(null);
+    setResult(null);
+    setFailed(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+    setPreview(moderationImportService.preview(await file.text(), file.name, existingRules));
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.rules.length === 0) return;
+
+    setImporting(true);
+    setFailed(false);
+    const imported = await backendService.importModerationRules(preview.rules);
+    setImporting(false);
+
+    if (imported) {
+      setResult(imported);
+      setPreview(null);
+      onImported();
+    } else {
+      setFailed(true);
+    }
+  };
+
+  const describeIssues = (row: RuleImportRow) =>
+    row.issues
+      .map((issue) => `${issue.field}: ${t(ISSUE_KEYS[issue.kind], { value: issue.value || '' })}`)
+      .join('; ');
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('moderation.importTitle')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          {t('moderation.importDescription')}
+        </Typography>
+
+        <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" hidden onChange={handleFile} />
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Button variant="outlined" startIcon={<UploadFile />} onClick={() => fileInputRef.current?.click()}>
+            {t('moderation.importChooseFile')}
+          </Button>
+          {fileName && <Typography variant="body2">{fileName}</Typography>}
+        </Box>
+
+        {result && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {t('moderation.importDone', { created: result.created, skipped: result.skipped })}
+          </Alert>
+        )}
+        {failed && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {t('moderation.importFailed')}
+          </Alert>
+        )}
+
+        {preview?.fileError && (
+          <Alert severity="error">
+            {t(preview.fileError === 'empty' ? 'moderation.importEmpty' : 'moderation.importUnreadable')}
+          </Alert>
+        )}
+
+        {preview && !preview.fileError && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+              <Chip color="success" label={t('moderation.importCountNew', { count: preview.rules.length })} />
+              <Chip label={t('moderation.importCountDuplicate', { count: preview.duplicates })} />
+              <Chip color={preview.invalid > 0 ? 'error' : 'default'} label={t('moderation.importCountInvalid', { count: preview.invalid })} />
+            </Box>
+
+            <TableContainer component={Paper} sx={{ maxHeight: 360 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('moderation.importColumnRow')}</TableCell>
+                    <TableCell>{t('moderation.columnType')}</TableCell>
+                    <TableCell>{t('moderation.columnAction')}</TableCell>
+                    <TableCell>{t('moderation.columnValue')}</TableCell>
+                    <TableCell>{t('moderation.importColumnStatus')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.rule?.ruleType || '-'}</TableCell>
+                      <TableCell>{row.rule?.action || '-'}</TableCell>
+                      <TableCell>
+                        <Typography noWrap variant="body2" sx={{ maxWidth: 240 }}>
+                          {row.rule?.value || '-'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip size="small" color={STATUS_COLORS[row.status]} label={t(STATUS_KEYS[row.status])} />
+                        {row.issues.length > 0 && (
+                          <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+                            {describeIssues(row)}
+                          </Typography>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {preview.rows.length > PREVIEW_ROWS && (
+              <Typography variant="caption" color="textSecondary" sx={{ display: 'block', mt: 1 }}>
+                {t('moderation.importMoreRows', { count: preview.rows.length - PREVIEW_ROWS })}
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{result ? t('common.close') : t('common.cancel')}</Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={!preview || preview.rules.length === 0 || importing}
+          startIcon={importing ? <CircularProgress size={16} /> : undefined}
+        >
+          {t('moderation.importConfirm', { count: preview?.rules.length || 0 })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RuleImportDialog;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Alert, Button } from '@mui/material';
+import { CloudOff as CloudOffIcon, CloudSync as CloudSyncIcon } from '@mui/icons-material';
+import { useOfflineStatus } from '../../hooks/useOfflineStatus';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface OfflineBannerProps {
+  onBrowseSaved: () => void;
+}
+
+/**
+ * Shown while offline, and after reconnecting until queued writes have synced
+ */
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ onBrowseSaved }) => {
+  const { t } = useTranslation();
+  const { isOnline, queuedWrites } = useOfflineStatus();
+
+  if (isOnline && queuedWrites === 0) {
+    return null;
+  }
+
+  if (isOnline) {
+    return (
+      <Alert severity="info" icon={<CloudSyncIcon />} sx={{ borderRadius: 0 }}>
+        {t('offline.syncing', { count: queuedWrites })}
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<CloudOffIcon />}
+      sx={{ borderRadius: 0 }}
+      action={
+        <Button color="inherit" size="small" onClick={onBrowseSaved}>
+          {t('offline.browseSaved')}
+        </Button>
+      }
+    >
+      {t('offline.banner')}
+      {queuedWrites > 0 && ` ${t('offline.queued', { count: queuedWrites })}`}
+    </Alert>
+  );
+};
+
+export default OfflineBanner;
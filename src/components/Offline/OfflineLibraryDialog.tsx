@@ -0,0 +1,142 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import {
+  Bookmark as BookmarkIcon,
+  CloudOff as CloudOffIcon,
+  History as HistoryIcon,
+} from '@mui/icons-material';
+import { useAppSelector } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { Bookmark } from '../../services/backendService';
+import offlineService, { type SavedSearch } from '../../services/offlineService';
+
+interface OfflineLibraryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onOpenSearch: (query: string) => void;
+  onOpenBookmark: (bookmark: Bookmark) => void;
+}
+
+/**
+ * What can be opened without a connection: recent searches with results and
+ * the bookmarks loaded last time the drawer was opened online
+ */
+const OfflineLibraryDialog: React.FC<OfflineLibraryDialogProps> = ({ open, onClose, onOpenSearch, onOpenBookmark }) => {
+  const { t } = useTranslation();
+  const { user } = useAppSelector((state) => state.auth);
+  const [searches, setSearches] = React.useState<SavedSearch[]>([]);
+  const [bookmarks, setBookmarks] = React.useState<Bookmark[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    let active = true;
+    setIsLoading(true);
+    Promise.all([
+      offlineService.getSavedSearches(user?.role || 'guest'),
+      user ? offlineService.getSavedBookmarks() : Promise.resolve([]),
+    ]).then(([savedSearches, savedBookmarks]) => {
+      if (!active) return;
+      setSearches(savedSearches);
+      setBookmarks(savedBookmarks);
+      setIsLoading(false);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [open, user]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CloudOffIcon sx={{ color: '#115740' }} />
+          <Typography variant="h6" component="span" sx={{ fontWeight: 'bold' }}>
+            {t('offline.libraryTitle')}
+          </Typography>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('offline.savedSearches')}
+            </Typography>
+            {searches.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                {t('offline.noSavedSearches')}
+              </Typography>
+            ) : (
+              <List dense sx={{ mb: 2 }}>
+                {searches.map((search) => (
+                  <ListItemButton key={search.query} onClick={() => onOpenSearch(search.query)}>
+                    <ListItemIcon sx={{ minWidth: 36 }}>
+                      <HistoryIcon fontSize="small" />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={search.query}
+                      secondary={t('offline.savedSearchDetails', {
+                        count: search.results.length,
+                        date: new Date(search.savedAt).toLocaleDateString(),
+                      })}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+
+            {user && (
+              <>
+                <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+                  {t('offline.savedBookmarks')}
+                </Typography>
+                {bookmarks.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    {t('offline.noSavedBookmarks')}
+                  </Typography>
+                ) : (
+                  <List dense>
+                    {bookmarks.map((bookmark) => (
+                      <ListItemButton key={bookmark.bookmarkId} onClick={() => onOpenBookmark(bookmark)}>
+                        <ListItemIcon sx={{ minWidth: 36 }}>
+                          <BookmarkIcon fontSize="small" />
+                        </ListItemIcon>
+                        <ListItemText primary={bookmark.title} secondary={bookmark.query} />
+                      </ListItemButton>
+                    ))}
+                  </List>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>{t('common.close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OfflineLibraryDialog;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Button, Snackbar } from '@mui/material';
+import { useTranslation } from '../../hooks/useTranslation';
+import { applyUpdate, SERVICE_WORKER_UPDATE_EVENT } from '../../serviceWorkerRegistration';
+
+/**
+ * Offers a reload once a new version of the app has installed in the background
+ */
+const UpdatePrompt: React.FC = () => {
+  const { t } = useTranslation();
+  const [registration, setRegistration] = React.useState<ServiceWorkerRegistration | null>(null);
+
+  React.useEffect(() => {
+    const handleUpdate = (event: CustomEvent<ServiceWorkerRegistration>) => {
+      setRegistration(event.detail);
+    };
+
+    window.addEventListener(SERVICE_WORKER_UPDATE_EVENT, handleUpdate as EventListener);
+    return () => {
+      window.removeEventListener(SERVICE_WORKER_UPDATE_EVENT, handleUpdate as EventListener);
+    };
+  }, []);
+
+  return (
+    <Snackbar
+      open={registration !== null}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      message={t('offline.updateAvailable')}
+      action={
+        <>
+          <Button color="inherit" size="small" onClick={() => setRegistration(null)}>
+            {t('offline.later')}
+          </Button>
+          <Button
+            size="small"
+            sx={{ color: '#4ade80', fontWeight: 'bold' }}
+            onClick={() => registration && applyUpdate(registration)}
+          >
+            {t('offline.reload')}
+          </Button>
+        </>
+      }
+    />
+  );
+};
+
+export default UpdatePrompt;
@@ -6,22 +6,72 @@ import {
   Typography,
   Chip,
   Fade,
+  IconButton,
   Tooltip,
 } from '@mui/material';
 import {
   AutoAwesome as AIIcon,
+  BookmarkBorder as BookmarkIcon,
+  FormatQuote as QuoteIcon,
   Psychology as BrainIcon,
   Info as InfoIcon,
   OpenInNew as OpenIcon,
+  VolumeUp as VolumeUpIcon,
+  StopCircle as StopCircleIcon,
 } from '@mui/icons-material';
 import type { AIInstantAnswer } from '../../services/webSearchService';
+import { useTranslation } from '../../hooks/useTranslation';
+import i18nService from '../../services/i18nService';
 
 interface AIInstantAnswerProps {
   answer: AIInstantAnswer;
   query: string;
+  onSave?: () => void;
+  isStreaming?: boolean;
+  // Offer a read-aloud button (younger students)
+  readAloud?: boolean;
+  onCite?: () => void;
 }
 
-const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, query }) => {
+const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, query, onSave, isStreaming = false, readAloud = false, onCite }) => {
+  const { t } = useTranslation();
+  const [isSpeaking, setIsSpeaking] = React.useState(false);
+  const utteranceRef = React.useRef<SpeechSynthesisUtterance | null>(null);
+  const canReadAloud = readAloud && !isStreaming && 'speechSynthesis' in window;
+
+  // Stop reading when the answer changes or the card goes away
+  React.useEffect(() => {
+    return () => {
+      if (utteranceRef.current) {
+        window.speechSynthesis.cancel();
+        utteranceRef.current = null;
+      }
+    };
+  }, [answer.answer]);
+
+  const handleReadAloud = () => {
+    window.speechSynthesis.cancel();
+
+    if (isSpeaking) {
+      utteranceRef.current = null;
+      setIsSpeaking(false);
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(answer.answer);
+    utterance.lang = i18nService.getSpeechLocale();
+    utterance.rate = 0.9; // A little slower for younger listeners
+    utterance.onend = () => {
+      utteranceRef.current = null;
+      setIsSpeaking(false);
+    };
+    utterance.onerror = utterance.onend;
+
+    utteranceRef.current = utterance;
+    window.speechSynthesis.speak(utterance);
+    setIsSpeaking(true);
+  };
+
   const getConfidenceColor = (confidence: string) => {
     switch (confidence) {
       case 'high': return '#10b981'; // green
@@ -33,10 +83,10 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
 
   const getConfidenceLabel = (confidence: string) => {
     switch (confidence) {
-      case 'high': return 'High Confidence';
-      case 'medium': return 'Medium Confidence';
-      case 'low': return 'Low Confidence';
-      default: return 'Unknown';
+      case 'high': return t('answer.confidenceHigh');
+      case 'medium': return t('answer.confidenceMedium');
+      case 'low': return t('answer.confidenceLow');
+      default: return t('common.unknown');
     }
   };
 
@@ -78,7 +128,7 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
               fontSize: '0.75rem',
             }}
           >
-            AI ANSWER
+            {t('answer.label')}
           </Typography>
         </Box>
 
@@ -110,27 +160,43 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
                   fontSize: '1.1rem',
                 }}
               >
-                Quick Answer for "{query}"
+                {t('answer.quickAnswerFor', { query })}
               </Typography>
 
               {/* Confidence Indicator */}
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <Chip
                   size="small"
-                  label={getConfidenceLabel(answer.confidence)}
+                  label={isStreaming ? t('answer.writing') : getConfidenceLabel(answer.confidence)}
                   sx={{
-                    backgroundColor: getConfidenceColor(answer.confidence),
+                    backgroundColor: isStreaming ? '#6b7280' : getConfidenceColor(answer.confidence),
                     color: 'white',
                     fontWeight: 'bold',
                     fontSize: '0.7rem',
                     height: 24,
                   }}
                 />
-                <Tooltip title="This answer is generated by AI based on search results. Always verify important information.">
+                <Tooltip title={t('answer.aiInfo')}>
                   <InfoIcon sx={{ fontSize: 16, color: 'text.secondary' }} />
                 </Tooltip>
               </Box>
             </Box>
+
+            {canReadAloud && (
+              <Tooltip title={isSpeaking ? t('answer.stopReading') : t('answer.readAloud')}>
+                <IconButton onClick={handleReadAloud} sx={{ color: '#115740' }}>
+                  {isSpeaking ? <StopCircleIcon /> : <VolumeUpIcon />}
+                </IconButton>
+              </Tooltip>
+            )}
+
+            {onSave && (
+              <Tooltip title={t('search.saveToBookmarks')}>
+                <IconButton onClick={onSave} sx={{ color: '#115740' }}>
+                  <BookmarkIcon />
+                </IconButton>
+              </Tooltip>
+            )}
           </Box>
 
           {/* AI Answer */}
@@ -147,6 +213,23 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
             }}
           >
             {answer.answer}
+            {isStreaming && (
+              <Box
+                component="span"
+                sx={{
+                  display: 'inline-block',
+                  width: '2px',
+                  height: '1em',
+                  ml: 0.5,
+                  verticalAlign: 'text-bottom',
+                  backgroundColor: '#115740',
+                  animation: 'blink 1s step-end infinite',
+                  '@keyframes blink': {
+                    '50%': { opacity: 0 },
+                  },
+                }}
+              />
+            )}
           </Typography>
 
           {/* Sources */}
@@ -161,7 +244,7 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
                   fontSize: '0.85rem',
                 }}
               >
-                Sources used for this answer:
+                {t('answer.sourcesUsed')}
               </Typography>
               <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
                 {answer.sources.slice(0, 3).map((source, index) => {
@@ -190,7 +273,7 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
                 {answer.sources.length > 3 && (
                   <Chip
                     size="small"
-                    label={`+${answer.sources.length - 3} more`}
+                    label={t('answer.moreSources', { count: answer.sources.length - 3 })}
                     sx={{
                       backgroundColor: 'rgba(107, 114, 128, 0.1)',
                       color: 'text.secondary',
@@ -199,6 +282,24 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
                     }}
                   />
                 )}
+                {onCite && !isStreaming && (
+                  <Chip
+                    size="small"
+                    label={t('citations.citeSourcesShort')}
+                    icon={<QuoteIcon sx={{ fontSize: 14 }} />}
+                    onClick={onCite}
+                    sx={{
+                      backgroundColor: 'rgba(17, 87, 64, 0.1)',
+                      color: '#115740',
+                      fontWeight: 'bold',
+                      '&:hover': {
+                        backgroundColor: 'rgba(17, 87, 64, 0.2)',
+                      },
+                      fontSize: '0.7rem',
+                      height: 28,
+                    }}
+                  />
+                )}
               </Box>
             </Box>
           )}
@@ -224,7 +325,7 @@ const AIInstantAnswerComponent: React.FC<AIInstantAnswerProps> = ({ answer, quer
               }}
             >
               <InfoIcon sx={{ fontSize: 12 }} />
-              This answer was generated by AI. Please verify important information and check the sources below for more details.
+              {t('answer.disclaimer')}
             </Typography>
           </Box>
         </CardContent>
@@ -8,6 +8,7 @@ import {
     Typography,
 } from '@mui/material';
 import React from 'react';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface LoadingSkeletonProps {
   count?: number;
@@ -20,6 +21,8 @@ const LoadingSkeleton: React.FC<LoadingSkeletonProps> = ({
   showAIIndicator = true,
   isTyping = false 
 }) => {
+  const { t } = useTranslation();
+
   return (
     <Box sx={{ p: 2.5 }}>
       {(showAIIndicator || isTyping) && (
@@ -58,8 +61,8 @@ const LoadingSkeleton: React.FC<LoadingSkeletonProps> = ({
               />
               <Typography variant="body2" sx={{ fontWeight: 500 }}>
                 {isTyping
-                  ? 'Continue typing to search...'
-                  : 'AI is analyzing your search...'}
+                  ? t('search.continueTyping')
+                  : t('search.analyzing')}
               </Typography>
             </Box>
           </Box>
@@ -0,0 +1,230 @@
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Collapse,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+} from '@mui/material';
+import { FilterList as FilterIcon, RestartAlt as ResetIcon } from '@mui/icons-material';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { SearchFileType, SearchFilters, SearchFreshness } from '../../services/searchProviders';
+import { RESULT_CATEGORIES } from '../../services/webSearchService';
+
+interface SearchFilterBarProps {
+  filters: SearchFilters;
+  onChange: (filters: Partial<SearchFilters>) => void;
+  onReset: () => void;
+  disabled?: boolean;
+}
+
+const FRESHNESS_OPTIONS: Record<SearchFreshness, string> = {
+  any: 'filters.anyTime',
+  day: 'filters.pastDay',
+  week: 'filters.pastWeek',
+  month: 'filters.pastMonth',
+  year: 'filters.pastYear',
+};
+
+const FILE_TYPE_OPTIONS: Record<SearchFileType, string> = {
+  any: 'filters.anyFileType',
+  pdf: 'filters.filePdf',
+  doc: 'filters.fileDoc',
+  ppt: 'filters.filePpt',
+  xls: 'filters.fileXls',
+};
+
+// Result categories come from WebSearchService in English; these keys translate them
+const CATEGORY_KEYS: Record<string, string> = {
+  Reference: 'filters.reference',
+  Educational: 'filters.educational',
+  News: 'filters.news',
+  Tutorial: 'filters.tutorial',
+  'General Information': 'filters.general',
+};
+
+// Accepts "bbc.co.uk, https://www.khanacademy.org/math" and keeps just the hosts
+const parseSites = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\s,]+/)
+        .map((site) => site.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split('/')[0])
+        .filter((site) => site.includes('.'))
+    )
+  );
+
+const countActive = (filters: SearchFilters) =>
+  [
+    filters.freshness !== 'any',
+    filters.includeSites.length > 0,
+    filters.excludeSites.length > 0,
+    filters.fileType !== 'any',
+    filters.category !== 'any',
+  ].filter(Boolean).length;
+
+const SearchFilterBar: React.FC<SearchFilterBarProps> = ({ filters, onChange, onReset, disabled = false }) => {
+  const { t } = useTranslation();
+  const activeCount = countActive(filters);
+  const [open, setOpen] = React.useState(activeCount > 0);
+  const [includeText, setIncludeText] = React.useState(filters.includeSites.join(', '));
+  const [excludeText, setExcludeText] = React.useState(filters.excludeSites.join(', '));
+
+  // Keep the text fields in step when the filters are reset from outside
+  React.useEffect(() => {
+    setIncludeText(filters.includeSites.join(', '));
+  }, [filters.includeSites]);
+
+  React.useEffect(() => {
+    setExcludeText(filters.excludeSites.join(', '));
+  }, [filters.excludeSites]);
+
+  const commitSites = (key: 'includeSites' | 'excludeSites', value: string) => {
+    const sites = parseSites(value);
+    if (sites.join(',') !== filters[key].join(',')) {
+      onChange({ [key]: sites });
+    } else {
+      // Normalise what was typed even when nothing changed
+      (key === 'includeSites' ? setIncludeText : setExcludeText)(sites.join(', '));
+    }
+  };
+
+  const handleSitesKeyDown = (key: 'includeSites' | 'excludeSites') => (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commitSites(key, (event.target as HTMLInputElement).value);
+    }
+  };
+
+  const selectSx = { minWidth: 150, flex: '1 1 150px' };
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Badge badgeContent={activeCount} color="warning">
+          <Button
+            size="small"
+            startIcon={<FilterIcon />}
+            onClick={() => setOpen(!open)}
+            aria-expanded={open}
+            sx={{
+              color: 'white',
+              textTransform: 'none',
+              borderRadius: '20px',
+              background: open ? 'rgba(255,255,255,0.2)' : 'transparent',
+              '&:hover': { background: 'rgba(255,255,255,0.25)' },
+            }}
+          >
+            {t('filters.title')}
+          </Button>
+        </Badge>
+        {activeCount > 0 && (
+          <Button
+            size="small"
+            startIcon={<ResetIcon />}
+            onClick={onReset}
+            disabled={disabled}
+            sx={{ color: 'rgba(255,255,255,0.85)', textTransform: 'none' }}
+          >
+            {t('filters.reset')}
+          </Button>
+        )}
+      </Box>
+
+      <Collapse in={open}>
+        <Paper
+          elevation={0}
+          sx={{
+            mt: 1,
+            p: 1.5,
+            borderRadius: '10px',
+            background: 'rgba(255,255,255,0.95)',
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: 1.5,
+          }}
+        >
+          <FormControl size="small" sx={selectSx} disabled={disabled}>
+            <InputLabel id="filter-freshness-label">{t('filters.dateRange')}</InputLabel>
+            <Select
+              labelId="filter-freshness-label"
+              label={t('filters.dateRange')}
+              value={filters.freshness}
+              onChange={(event) => onChange({ freshness: event.target.value as SearchFreshness })}
+            >
+              {Object.entries(FRESHNESS_OPTIONS).map(([option, labelKey]) => (
+                <MenuItem key={option} value={option}>
+                  {t(labelKey)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={selectSx} disabled={disabled}>
+            <InputLabel id="filter-filetype-label">{t('filters.contentType')}</InputLabel>
+            <Select
+              labelId="filter-filetype-label"
+              label={t('filters.contentType')}
+              value={filters.fileType}
+              onChange={(event) => onChange({ fileType: event.target.value as SearchFileType })}
+            >
+              {Object.entries(FILE_TYPE_OPTIONS).map(([option, labelKey]) => (
+                <MenuItem key={option} value={option}>
+                  {t(labelKey)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={selectSx} disabled={disabled}>
+            <InputLabel id="filter-category-label">{t('filters.category')}</InputLabel>
+            <Select
+              labelId="filter-category-label"
+              label={t('filters.category')}
+              value={filters.category}
+              onChange={(event) => onChange({ category: event.target.value })}
+            >
+              <MenuItem value="any">{t('filters.categoryAny')}</MenuItem>
+              {RESULT_CATEGORIES.map((category) => (
+                <MenuItem key={category} value={category}>
+                  {t(CATEGORY_KEYS[category])}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            size="small"
+            label={t('filters.includeSites')}
+            placeholder={t('filters.sitesPlaceholder')}
+            value={includeText}
+            onChange={(event) => setIncludeText(event.target.value)}
+            onBlur={(event) => commitSites('includeSites', event.target.value)}
+            onKeyDown={handleSitesKeyDown('includeSites')}
+            disabled={disabled}
+            sx={{ flex: '2 1 220px' }}
+          />
+
+          <TextField
+            size="small"
+            label={t('filters.excludeSites')}
+            placeholder={t('filters.sitesPlaceholder')}
+            value={excludeText}
+            onChange={(event) => setExcludeText(event.target.value)}
+            onBlur={(event) => commitSites('excludeSites', event.target.value)}
+            onKeyDown={handleSitesKeyDown('excludeSites')}
+            disabled={disabled}
+            sx={{ flex: '2 1 220px' }}
+          />
+        </Paper>
+      </Collapse>
+    </Box>
+  );
+};
+
+export default SearchFilterBar;
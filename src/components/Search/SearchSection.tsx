@@ -1,18 +1,30 @@
 import {
     Analytics,
     Assignment,
+    Forum as ForumIcon,
+    BookmarkBorder as BookmarkIcon,
+    FormatQuote as QuoteIcon,
+    Add as AddIcon,
     Chat as ChatIcon,
+    ExpandMore as ExpandMoreIcon,
     History,
     Lightbulb as IdeaIcon,
     LibraryBooks,
+    Link as LinkIcon,
     AutoAwesome as MagicIcon,
     School,
     Search as SearchIcon,
+    Spellcheck as SpellcheckIcon,
+    Stop as StopIcon,
     TrendingUp as TrendingIcon,
+    WarningAmber as WarningIcon,
+    type SvgIconComponent,
 } from '@mui/icons-material';
 import {
     Alert,
+    Autocomplete,
     Box,
+    Button,
     Card,
     CardContent,
     Chip,
@@ -20,40 +32,154 @@ import {
     Fade,
     Grid,
     Grow,
+    IconButton,
     InputAdornment,
+    Link,
     List,
     ListItemButton,
     ListItemIcon,
     ListItemText,
     Slide,
     TextField,
+    Tooltip,
     Typography,
 } from '@mui/material';
 import React from 'react';
 import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { useChatSession } from '../../hooks/useChatSession';
 import { useDebounce, useRequestDeduplication } from '../../hooks/useDebounce';
-import type { ChatMessage } from '../../services/aiSearchService';
+import { useTranslation } from '../../hooks/useTranslation';
 import { AISearchService } from '../../services/aiSearchService';
-import { WebSearchService } from '../../services/webSearchService';
-import { addToHistory, setAIAnswer, setError, setGeneratingAnswer, setLoading, setQuery, setResults } from '../../store/slices/searchSlice';
+import type { WellbeingCategory } from '../../services/backendService';
+import citationService, { type CitationSource } from '../../services/citationService';
+import exportService from '../../services/exportService';
+import readingLevelService from '../../services/readingLevelService';
+import spellingService from '../../services/spellingService';
+import suggestionService, { type QuerySuggestion, type SuggestionSource } from '../../services/suggestionService';
+import { DEFAULT_SEARCH_FILTERS, serializeFilters, type SearchFilters } from '../../services/searchProviders';
+import { RESULTS_PER_PAGE, WebSearchService } from '../../services/webSearchService';
+import wellbeingService from '../../services/wellbeingService';
+import type { SearchResult } from '../../store/slices/searchSlice';
+import { getModerationText, getOperatorTokens, parseSearchQuery, removeQueryToken, type QueryToken } from '../../utils/queryParser';
+import {
+  addToHistory,
+  clearResults,
+  resetFilters,
+  setAIAnswer,
+  setError,
+  setFilters,
+  setGeneratingAnswer,
+  setLoading,
+  setLoadingMore,
+  setQuery,
+  setResults,
+  setResultsPage,
+  setStreamingAnswer,
+} from '../../store/slices/searchSlice';
+import SaveBookmarkDialog, { BookmarkDraft } from '../Bookmarks/SaveBookmarkDialog';
 import CompactBreadcrumbs from '../Breadcrumbs/CompactBreadcrumbs';
+import CitationDialog from '../Citations/CitationDialog';
+import ChatSessionList from '../Chat/ChatSessionList';
+import WellbeingSupport from '../Wellbeing/WellbeingSupport';
 import AIInstantAnswerComponent from './AIInstantAnswer';
+import ExportResults from './ExportResults';
 import LoadingSkeleton from './LoadingSkeleton';
+import SearchFilterBar from './SearchFilterBar';
+import VoiceSearch from './VoiceSearch';
+
+// Tooltip for each kind of query operator chip
+const OPERATOR_LABEL_KEYS: Record<QueryToken['type'], string> = {
+  term: 'search.operatorPhrase',
+  phrase: 'search.operatorPhrase',
+  exclude: 'search.operatorExclude',
+  site: 'search.operatorSite',
+  excludeSite: 'search.operatorExcludeSite',
+  fileType: 'search.operatorFileType',
+};
+
+const SUGGESTION_ICONS: Record<SuggestionSource, SvgIconComponent> = {
+  history: History,
+  popular: TrendingIcon,
+  quickLink: LinkIcon,
+  correction: SpellcheckIcon,
+};
+
+const SUGGESTION_LABEL_KEYS: Record<SuggestionSource, string> = {
+  history: 'suggestions.history',
+  popular: 'suggestions.popular',
+  quickLink: 'suggestions.quickLink',
+  correction: 'suggestions.correction',
+};
+
+interface SearchSectionProps {
+  onOpenBibliography?: () => void;
+}
 
-const SearchSection: React.FC = () => {
-  const { query, results, aiAnswer, isLoading, isGeneratingAnswer, error, searchHistory } = useAppSelector((state) => state.search);
+const SearchSection: React.FC<SearchSectionProps> = ({ onOpenBibliography }) => {
+  const {
+    query,
+    results,
+    currentPage,
+    hasMore,
+    isLoadingMore,
+    filters,
+    correction,
+    aiAnswer,
+    streamingAnswer,
+    isLoading,
+    isGeneratingAnswer,
+    error,
+    searchHistory,
+  } = useAppSelector((state) => state.search);
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
   const dispatch = useAppDispatch();
+  const { t } = useTranslation();
 
   // Debouncing and request deduplication
   const debouncedQuery = useDebounce(query, 1500); // 1.5 second debounce for search
+  const suggestionQuery = useDebounce(query, 200);
   const { executeRequest, isRequestPending } = useRequestDeduplication();
   const [isTyping, setIsTyping] = React.useState(false);
   const [aiMode, setAiMode] = React.useState<'search' | 'chat'>('search');
-  const [chatMessages, setChatMessages] = React.useState<ChatMessage[]>([]);
-  const [chatResponse, setChatResponse] = React.useState<string>('');
-  const [isSearching, setIsSearching] = React.useState(false);
-  const [isChatLoading, setIsChatLoading] = React.useState(false);
+  const chatSession = useChatSession();
+  const { reset: resetChatSession, loadSession: loadChatSession } = chatSession;
+  const isChatLoading = chatSession.isSending || chatSession.isRestoring;
+  const [chatListOpen, setChatListOpen] = React.useState(false);
+  // Controller for the instant answer currently streaming, so a new query can cancel it
+  const answerAbortRef = React.useRef<AbortController | null>(null);
+
+  const cancelInstantAnswer = React.useCallback(() => {
+    answerAbortRef.current?.abort();
+    answerAbortRef.current = null;
+  }, []);
+
+  // Stop any in-flight answer when leaving the page
+  React.useEffect(() => cancelInstantAnswer, [cancelInstantAnswer]);
+  const [bookmarkDraft, setBookmarkDraft] = React.useState<BookmarkDraft | null>(null);
+  const [citationSources, setCitationSources] = React.useState<CitationSource[] | null>(null);
+  const [suggestions, setSuggestions] = React.useState<QuerySuggestion[]>([]);
+  const [suggestionsOpen, setSuggestionsOpen] = React.useState(false);
+  const suggestionsEnabled = !(user?.role === 'staff' && aiMode === 'chat');
+  const parsedQuery = React.useMemo(() => parseSearchQuery(query), [query]);
+  const operatorTokens = getOperatorTokens(parsedQuery);
+  // "Did you mean" for the query as typed - not needed when the results already use the correction
+  const spellingSuggestion = React.useMemo(
+    () => (aiMode === 'search' && !correction ? spellingService.suggestCorrection(query) : null),
+    [aiMode, correction, query]
+  );
+  // Help shown in place of results when a student's search suggests they need support
+  const [wellbeing, setWellbeing] = React.useState<{
+    category: WellbeingCategory;
+    query: string;
+    canContinue: boolean;
+    alertFailed?: boolean;
+  } | null>(null);
+  // The query the student chose to see results for after being shown help
+  const wellbeingBypassRef = React.useRef<string | null>(null);
+  // Latest query, so a "load more" that finishes after the user moved on can be dropped
+  // The search whose results are on screen - the box may have been edited since. A new
+  // object per search, so "load more" can tell its page is for a search since replaced
+  const shownSearchRef = React.useRef<{ query: string } | null>(null);
 
   // Sync AI mode with user settings
   React.useEffect(() => {
@@ -65,14 +191,38 @@ const SearchSection: React.FC = () => {
         setAiMode(newMode);
         // Clear any existing content when switching modes
         dispatch(setResults([]));
-        setChatResponse('');
-        setChatMessages([]);
+        resetChatSession();
       });
 
       // Clean up subscription on unmount
       return unsubscribe;
     }
-  }, [user, dispatch]);
+  }, [user, dispatch, resetChatSession]);
+
+  // Restore a saved conversation when a chat breadcrumb is clicked
+  React.useEffect(() => {
+    const handleBreadcrumbChat = (event: CustomEvent) => {
+      const { sessionId, title } = event.detail;
+      console.log('💬 Breadcrumb chat triggered:', { sessionId, title });
+
+      if (user?.role !== 'staff') return;
+
+      if (AISearchService.getCurrentAIMode() !== 'chat') {
+        AISearchService.setAIMode('chat');
+      }
+      loadChatSession(sessionId).then((restored) => {
+        if (!restored) {
+          dispatch(setError(t('chat.openFailed')));
+        }
+      });
+    };
+
+    window.addEventListener('breadcrumb-chat', handleBreadcrumbChat as EventListener);
+
+    return () => {
+      window.removeEventListener('breadcrumb-chat', handleBreadcrumbChat as EventListener);
+    };
+  }, [user, dispatch, loadChatSession, t]);
 
   // Create a ref to store the latest performSearch function
   const performSearchRef = React.useRef<((query: string) => Promise<void>) | null>(null);
@@ -104,6 +254,27 @@ const SearchSection: React.FC = () => {
     performSearchRef.current = performSearch;
   });
 
+  // Suggestions follow the input closely - sources are cached, so this is cheap after the first load
+  React.useEffect(() => {
+    if (!suggestionsEnabled) return;
+
+    let cancelled = false;
+    suggestionService
+      .getSuggestions(suggestionQuery, {
+        userRole: isAuthenticated && user ? user.role : 'guest',
+        userId: user?.id,
+        isAuthenticated,
+        localHistory: searchHistory,
+      })
+      .then((next) => {
+        if (!cancelled) setSuggestions(next);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [suggestionQuery, suggestionsEnabled, isAuthenticated, user, searchHistory]);
+
   // Debounced search effect - triggers search when user stops typing
   React.useEffect(() => {
     if (aiMode === 'search' && debouncedQuery && debouncedQuery.trim().length >= 3 && !isRequestPending(debouncedQuery.trim())) {
@@ -112,8 +283,7 @@ const SearchSection: React.FC = () => {
     }
   }, [debouncedQuery, aiMode]);
 
-  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newQuery = event.target.value;
+  const handleSearchChange = (newQuery: string) => {
     dispatch(setQuery(newQuery));
 
     // Only perform real-time search in search mode, not in chat mode
@@ -121,6 +291,7 @@ const SearchSection: React.FC = () => {
       const trimmedQuery = newQuery.trim();
 
       // Clear results and AI answer immediately when typing
+      cancelInstantAnswer();
       dispatch(setResults([]));
       dispatch(setAIAnswer(null));
 
@@ -130,17 +301,31 @@ const SearchSection: React.FC = () => {
       } else {
         setIsTyping(false);
       }
-    } else {
-      // In chat mode, clear results when typing but don't search
-      if (!newQuery.trim()) {
-        setChatResponse('');
-      }
     }
   };
 
+  // A suggestion is searched straight away, like pressing Enter; quick links just open
+  const handleSelectSuggestion = (suggestion: QuerySuggestion) => {
+    setSuggestionsOpen(false);
+
+    if (suggestion.source === 'quickLink' && suggestion.url) {
+      window.open(suggestion.url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+
+    if (isLoading || isChatLoading) return;
+
+    dispatch(setQuery(suggestion.text));
+    cancelInstantAnswer();
+    dispatch(setAIAnswer(null));
+    setIsTyping(false);
+    performSearch(suggestion.text);
+  };
+
   const handleKeyPress = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter' && query.trim()) {
       event.preventDefault();
+      setSuggestionsOpen(false);
 
       const trimmedQuery = query.trim();
 
@@ -158,21 +343,151 @@ const SearchSection: React.FC = () => {
     }
   };
 
-  const performSearch = async (searchQuery: string) => {
-    const requestKey = `search:${searchQuery}`;
+  // Spoken queries go through the same path as pressing Enter - performSearch runs moderation
+  const handleVoiceTranscript = (transcript: string) => {
+    const spokenQuery = transcript.trim();
+    if (!spokenQuery || isLoading || isChatLoading) return;
+
+    dispatch(setQuery(spokenQuery));
+    if (aiMode === 'chat' && user?.role === 'staff') {
+      handleChatMessage(spokenQuery);
+    } else {
+      cancelInstantAnswer();
+      performSearch(spokenQuery);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    const shownSearch = shownSearchRef.current;
+    if (!shownSearch || !hasMore || isLoadingMore || isLoading) return;
+
+    // An auto-corrected search keeps paging through the corrected query
+    const searchQuery = correction ? correction.corrected : shownSearch.query;
+
+    dispatch(setLoadingMore(true));
+    try {
+      const userRole = isAuthenticated && user ? user.role : 'guest';
+      const nextPage = await AISearchService.performSearch(searchQuery, userRole, currentPage + 1, filters);
+
+      if (shownSearchRef.current !== shownSearch) {
+        console.log('🚫 Dropping more results for a previous query:', shownSearch.query);
+        return;
+      }
+
+      dispatch(setResultsPage(nextPage));
+    } catch (error) {
+      console.error('❌ Load more error:', error);
+      if (shownSearchRef.current === shownSearch) {
+        dispatch(setError(t('search.failed')));
+      }
+    } finally {
+      // Also reached for a dropped page, which would otherwise leave the button spinning
+      dispatch(setLoadingMore(false));
+    }
+  };
+
+  // Changing a filter re-runs the current search with it; the filters are passed along
+  // because the store update hasn't reached this render's closure yet
+  const rerunWithFilters = (nextFilters: SearchFilters) => {
+    const searchQuery = query.trim();
+    if (searchQuery.length < 3 || isLoading) return;
+
+    cancelInstantAnswer();
+    dispatch(setAIAnswer(null));
+    performSearch(searchQuery, nextFilters);
+  };
+
+  // Removing an operator chip edits the query text, then searches again without it
+  const handleRemoveOperator = (token: QueryToken) => {
+    const nextQuery = removeQueryToken(parsedQuery, token);
+    dispatch(setQuery(nextQuery));
+
+    cancelInstantAnswer();
+    dispatch(setAIAnswer(null));
+    if (nextQuery.trim().length >= 3 && !isLoading) {
+      performSearch(nextQuery.trim());
+    } else {
+      dispatch(setResults([]));
+    }
+  };
+
+  // "Did you mean" searches the correction; "search instead for" searches exactly what was typed
+  const handleSpellingSearch = (nextQuery: string, autoCorrect: boolean) => {
+    if (isLoading) return;
+
+    dispatch(setQuery(nextQuery));
+    cancelInstantAnswer();
+    dispatch(setAIAnswer(null));
+    setIsTyping(false);
+    performSearch(nextQuery, filters, autoCorrect);
+  };
+
+  const handleFiltersChange = (changes: Partial<SearchFilters>) => {
+    dispatch(setFilters(changes));
+    rerunWithFilters({ ...filters, ...changes });
+  };
+
+  const handleFiltersReset = () => {
+    dispatch(resetFilters());
+    rerunWithFilters(DEFAULT_SEARCH_FILTERS);
+  };
+
+  // Show help instead of results and let the wellbeing team know. Nothing about
+  // the search is recorded in history, analytics or content ratings
+  const showWellbeingSupport = (searchQuery: string, category: WellbeingCategory, canContinue: boolean) => {
+    cancelInstantAnswer();
+    dispatch(clearResults());
+    dispatch(setLoading(false));
+    setIsTyping(false);
+    setWellbeing({ category, query: searchQuery, canContinue });
+    if (isAuthenticated && user) {
+      wellbeingService
+        .raiseAlert(searchQuery, category, user.id, String(readingLevelService.getGradeSetting()))
+        .then((outcome) => {
+          if (outcome === 'failed') {
+            setWellbeing((current) => (current?.query === searchQuery ? { ...current, alertFailed: true } : current));
+          }
+        });
+    }
+  };
+
+  const handleWellbeingContinue = () => {
+    if (!wellbeing) return;
+    wellbeingBypassRef.current = wellbeing.query;
+    performSearch(wellbeing.query);
+  };
+
+  const performSearch = async (searchQuery: string, searchFilters: SearchFilters = filters, autoCorrect: boolean = true) => {
+    const requestKey = `search:${searchQuery}:${serializeFilters(searchFilters)}`;
+    // The instant answer should explain what the results are about, which may be the corrected query
+    let answerQuery = searchQuery;
+
+    // Whatever "load more" is still fetching belongs to the results this search replaces
+    shownSearchRef.current = null;
+
+    // Staff research these topics for their work - only students and guests are offered help
+    setWellbeing(null);
+    const wellbeingCategory =
+      user?.role !== 'staff' ? wellbeingService.classifyQuery(getModerationText(parseSearchQuery(searchQuery))) : null;
 
     // Check content moderation BEFORE performing search
     if (isAuthenticated) {
       try {
         const backendService = (await import('../../services/backendService')).default;
-        const moderationCheck = await backendService.checkContentModeration(searchQuery);
+        // Only judge what is being searched for - not excluded words or site: operators
+        const moderationCheck = await backendService.checkContentModeration(getModerationText(parseSearchQuery(searchQuery)));
 
         if (moderationCheck && moderationCheck.blocked) {
+          if (wellbeingCategory) {
+            // A student reaching out for help gets help, not a rejection
+            showWellbeingSupport(searchQuery, wellbeingCategory, false);
+            return;
+          }
+
           // Content is blocked - show error and don't perform search
-          const reasons = moderationCheck.matches?.map((m: any) => m.reason).filter(Boolean).join(', ') || 'Inappropriate content detected';
-          dispatch(setError(`Search blocked: ${reasons}. Please modify your search query.`));
+          const reasons = moderationCheck.matches?.map((m: any) => m.reason).filter(Boolean).join(', ') || t('search.inappropriateContent');
+          dispatch(setError(t('search.blocked', { reasons })));
           dispatch(setLoading(false));
-          setIsSearching(false);
           return;
         }
       } catch (moderationError) {
@@ -181,28 +496,35 @@ const SearchSection: React.FC = () => {
       }
     }
 
+    // Self-harm searches never lead on to web results - guests skip the moderation
+    // check above, so this can't be left to the backend to block
+    const canContinue = wellbeingCategory !== 'selfHarm';
+    if (wellbeingCategory && !(canContinue && wellbeingBypassRef.current === searchQuery)) {
+      showWellbeingSupport(searchQuery, wellbeingCategory, canContinue);
+      return;
+    }
+
     // Use request deduplication to prevent duplicate searches
     const result = await executeRequest(requestKey, async () => {
       // Clear typing state immediately when search starts
       setIsTyping(false);
-      setIsSearching(true);
       dispatch(setLoading(true));
       dispatch(addToHistory(searchQuery));
-      setChatResponse('');
 
       try {
         const userRole = isAuthenticated && user ? user.role : 'guest';
-        const results = await AISearchService.performSearch(searchQuery, userRole);
-        dispatch(setResults(results));
+        const resultsPage = await AISearchService.performSearch(searchQuery, userRole, 1, searchFilters, autoCorrect);
+        dispatch(setResultsPage(resultsPage));
+        shownSearchRef.current = { query: searchQuery };
+        answerQuery = resultsPage.correction?.corrected || searchQuery;
 
-        return results;
+        return resultsPage.results;
       } catch (error) {
         console.error('❌ Search error:', error);
-        dispatch(setError('Search failed. Please try again.'));
+        dispatch(setError(t('search.failed')));
         throw error;
       } finally {
         dispatch(setLoading(false));
-        setIsSearching(false);
       }
     });
 
@@ -214,10 +536,22 @@ const SearchSection: React.FC = () => {
     // Generate AI instant answer after getting results
     let generatedAnswer: any = null;
     if (result && result.length > 0) {
+      cancelInstantAnswer();
+      const controller = new AbortController();
+      answerAbortRef.current = controller;
+
+      dispatch(setStreamingAnswer(''));
       dispatch(setGeneratingAnswer(true));
       try {
         const userRole = isAuthenticated && user ? user.role : 'guest';
-        const aiAnswer = await WebSearchService.generateInstantAnswer(searchQuery, result, userRole);
+        const aiAnswer = await WebSearchService.generateInstantAnswer(answerQuery, result, userRole, {
+          signal: controller.signal,
+          onToken: (_token, fullText) => dispatch(setStreamingAnswer(fullText)),
+        });
+        if (controller.signal.aborted) {
+          // The user started a new query - it owns the answer state now
+          return;
+        }
         if (aiAnswer) {
           generatedAnswer = aiAnswer;
           dispatch(setAIAnswer(aiAnswer));
@@ -226,7 +560,11 @@ const SearchSection: React.FC = () => {
         console.warn('⚠️ AI instant answer generation failed:', aiErr);
         // Don't show error to user, just skip the AI answer
       } finally {
-        dispatch(setGeneratingAnswer(false));
+        if (answerAbortRef.current === controller) {
+          answerAbortRef.current = null;
+          dispatch(setStreamingAnswer(''));
+          dispatch(setGeneratingAnswer(false));
+        }
       }
     }
 
@@ -268,41 +606,66 @@ const SearchSection: React.FC = () => {
   };
 
   const handleChatMessage = async (message: string) => {
-    setIsChatLoading(true);
     dispatch(addToHistory(message));
     dispatch(setResults([]));
     dispatch(setQuery('')); // Clear the input after sending chat message
 
     try {
-      const newMessages: ChatMessage[] = [
-        ...chatMessages,
-        { role: 'user', content: message }
-      ];
-      setChatMessages(newMessages);
-
-      const response = await AISearchService.chatWithAI(newMessages);
-      setChatResponse(response);
-
-      setChatMessages([
-        ...newMessages,
-        { role: 'assistant', content: response }
-      ]);
+      await chatSession.sendMessage(message);
     } catch (err) {
-      dispatch(setError('Chat failed. Please try again.'));
-    } finally {
-      setIsChatLoading(false);
+      dispatch(setError(t('chat.failed')));
+    }
+  };
+
+  const handleResumeChat = async (sessionId: string) => {
+    setChatListOpen(false);
+    const restored = await loadChatSession(sessionId);
+    if (!restored) {
+      dispatch(setError(t('chat.openFailed')));
+    }
+  };
+
+  const handleChatDeleted = (sessionId: string) => {
+    if (chatSession.sessionId === sessionId) {
+      resetChatSession();
     }
   };
 
+  const handleSaveAnswer = () => {
+    if (!aiAnswer) return;
+
+    setBookmarkDraft({
+      title: query,
+      query,
+      searchType: 'hybrid',
+      resultSnapshot: {
+        aiAnswer: aiAnswer.answer,
+        topResults: results.slice(0, 5).map((r) => ({ title: r.title, url: r.url, snippet: r.description })),
+      },
+    });
+  };
+
+  const handleSaveResult = (result: SearchResult) => {
+    setBookmarkDraft({
+      title: result.title,
+      query,
+      category: result.category,
+      searchType: 'web',
+      resultSnapshot: {
+        topResults: [{ title: result.title, url: result.url, snippet: result.description }],
+      },
+    });
+  };
+
   const getSearchPlaceholder = () => {
     if (user?.role === 'staff' && aiMode === 'chat') {
-      return 'Type your question and press Enter to chat with AI assistant...';
+      return t('search.placeholderChat');
     } else if (!isAuthenticated) {
-      return 'Search school information...';
+      return t('search.placeholderGuest');
     } else if (user?.role === 'staff') {
-      return 'Search teaching resources, create rubrics, lesson plans...';
+      return t('search.placeholderStaff');
     } else {
-      return 'Search assignments, study materials, resources...';
+      return t('search.placeholderStudent');
     }
   };
 
@@ -373,12 +736,12 @@ const SearchSection: React.FC = () => {
                     fontSize: '1.5rem',
                   }}
                 >
-                  {user?.role === 'staff' && aiMode === 'chat' ? 'Horizon AI Assistant' : 'Horizon AI Search'}
+                  {user?.role === 'staff' && aiMode === 'chat' ? t('search.titleChat') : t('search.titleSearch')}
                 </Typography>
 
                 {user?.role === 'staff' && (
                   <Chip
-                    label={aiMode === 'chat' ? 'Chat Mode - Press Enter to Send' : 'Search Mode - Real-time Results'}
+                    label={aiMode === 'chat' ? t('search.modeChat') : t('search.modeSearch')}
                     size="small"
                     sx={{
                       backgroundColor: 'rgba(255, 255, 255, 0.2)',
@@ -404,12 +767,12 @@ const SearchSection: React.FC = () => {
                   }}
                 >
                   {isAuthenticated
-                    ? `Welcome back, ${user?.name}! ${user?.role === 'staff' && aiMode === 'chat'
-                        ? 'Chat with your AI teaching assistant for personalized support.'
+                    ? `${t('search.welcomeBack', { name: user?.name || '' })} ${user?.role === 'staff' && aiMode === 'chat'
+                        ? t('search.introChat')
                         : user?.role === 'staff'
-                          ? 'Access AI-powered teaching tools and educational resources.'
-                          : 'Discover your assignments, study materials, and academic resources.'}`
-                    : 'Discover everything about Horizon Christian School with our intelligent search.'}
+                          ? t('search.introStaff')
+                          : t('search.introStudent')}`
+                    : t('search.introGuest')}
                 </Typography>
               </Box>
             </Grow>
@@ -417,51 +780,134 @@ const SearchSection: React.FC = () => {
             <Slide direction="up" in timeout={1400}>
               <Grid container justifyContent="center">
                 <Grid size={{ xs: 12, md: 8, lg: 6 }}>
-                  <TextField
+                  <Autocomplete<QuerySuggestion, false, false, true>
+                    freeSolo
                     fullWidth
-                    variant="outlined"
-                    placeholder={getSearchPlaceholder()}
-                    value={query}
-                    onChange={handleSearchChange}
-                    onKeyPress={handleKeyPress}
-                    size="small"
-                    sx={{
-                      '& .MuiOutlinedInput-root': {
-                        background: 'rgba(255,255,255,0.95)',
-                        backdropFilter: 'blur(10px)',
-                        borderRadius: '10px',
-                        fontSize: '0.95rem',
-                        padding: '2px 8px',
-                        '&:hover': {
-                          background: 'rgba(255,255,255,1)',
-                        },
-                        '&.Mui-focused': {
-                          background: 'rgba(255,255,255,1)',
-                          boxShadow: '0 4px 20px rgba(0,0,0,0.15)',
-                        },
-                      },
-                      '& .MuiOutlinedInput-notchedOutline': {
-                        border: 'none',
-                      },
+                    open={suggestionsOpen && suggestionsEnabled && suggestions.length > 0}
+                    onOpen={() => setSuggestionsOpen(true)}
+                    onClose={() => setSuggestionsOpen(false)}
+                    options={suggestionsEnabled ? suggestions : []}
+                    filterOptions={(options) => options}
+                    getOptionLabel={(option) => (typeof option === 'string' ? option : option.text)}
+                    isOptionEqualToValue={(option, value) => option.text === value.text && option.source === value.source}
+                    value={null}
+                    inputValue={query}
+                    onInputChange={(_event, value, reason) => {
+                      if (reason === 'input' || reason === 'clear') handleSearchChange(value);
                     }}
-                    InputProps={{
-                      startAdornment: (
-                        <InputAdornment position="start">
-                          {user?.role === 'staff' && aiMode === 'chat' ? (
-                            <ChatIcon sx={{ color: '#115740', fontSize: 20 }} />
-                          ) : (
-                            <SearchIcon sx={{ color: '#115740', fontSize: 20 }} />
-                          )}
-                        </InputAdornment>
-                      ),
-                      endAdornment: (isLoading || isChatLoading) && (
-                        <InputAdornment position="end">
-                          <CircularProgress size={20} sx={{ color: '#115740' }} />
-                        </InputAdornment>
-                      ),
+                    onChange={(_event, value, reason) => {
+                      // Free text on Enter is handled by handleKeyPress
+                      if (reason === 'selectOption' && value && typeof value !== 'string') handleSelectSuggestion(value);
                     }}
+                    renderOption={(props, option) => {
+                      const { key, ...optionProps } = props;
+                      const SourceIcon = SUGGESTION_ICONS[option.source];
+                      return (
+                        <Box component="li" key={key} {...optionProps} sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                          <SourceIcon fontSize="small" sx={{ color: '#115740', opacity: 0.8 }} />
+                          <Typography variant="body2" sx={{ flexGrow: 1 }} noWrap>
+                            {option.source === 'correction'
+                              ? t('suggestions.didYouMean', { query: option.text })
+                              : option.text}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary" sx={{ flexShrink: 0 }}>
+                            {t(SUGGESTION_LABEL_KEYS[option.source])}
+                          </Typography>
+                        </Box>
+                      );
+                    }}
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        fullWidth
+                        variant="outlined"
+                        placeholder={getSearchPlaceholder()}
+                        onKeyPress={handleKeyPress}
+                        size="small"
+                        sx={{
+                          '& .MuiOutlinedInput-root': {
+                            background: 'rgba(255,255,255,0.95)',
+                            backdropFilter: 'blur(10px)',
+                            borderRadius: '10px',
+                            fontSize: '0.95rem',
+                            padding: '2px 8px',
+                            '&:hover': {
+                              background: 'rgba(255,255,255,1)',
+                            },
+                            '&.Mui-focused': {
+                              background: 'rgba(255,255,255,1)',
+                              boxShadow: '0 4px 20px rgba(0,0,0,0.15)',
+                            },
+                          },
+                          '& .MuiOutlinedInput-notchedOutline': {
+                            border: 'none',
+                          },
+                        }}
+                        InputProps={{
+                          ...params.InputProps,
+                          startAdornment: (
+                            <InputAdornment position="start">
+                              {user?.role === 'staff' && aiMode === 'chat' ? (
+                                <ChatIcon sx={{ color: '#115740', fontSize: 20 }} />
+                              ) : (
+                                <SearchIcon sx={{ color: '#115740', fontSize: 20 }} />
+                              )}
+                            </InputAdornment>
+                          ),
+                          endAdornment: (
+                            <InputAdornment position="end">
+                              {(isLoading || isChatLoading) && (
+                                <CircularProgress size={20} sx={{ color: '#115740', mr: 1 }} />
+                              )}
+                              <VoiceSearch
+                                onTranscript={handleVoiceTranscript}
+                                onError={(message) => dispatch(setError(message))}
+                                disabled={isLoading || isChatLoading}
+                              />
+                            </InputAdornment>
+                          ),
+                        }}
+                      />
+                    )}
                   />
 
+                  {/* Operators parsed from the query - removable chips */}
+                  {!(user?.role === 'staff' && aiMode === 'chat') && operatorTokens.length > 0 && (
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75, mt: 1 }}>
+                      {operatorTokens.map((token, index) => (
+                        <Tooltip key={`${token.raw}-${index}`} title={t(OPERATOR_LABEL_KEYS[token.type], { value: token.value })}>
+                          <Chip
+                            size="small"
+                            label={token.raw}
+                            onDelete={() => handleRemoveOperator(token)}
+                            sx={{
+                              background: token.type === 'exclude' || token.type === 'excludeSite'
+                                ? 'rgba(255,255,255,0.12)'
+                                : 'rgba(255,255,255,0.25)',
+                              color: 'white',
+                              border: '1px solid rgba(255,255,255,0.35)',
+                              fontFamily: 'monospace',
+                              textDecoration: token.type === 'exclude' || token.type === 'excludeSite' ? 'line-through' : 'none',
+                              '& .MuiChip-deleteIcon': {
+                                color: 'rgba(255,255,255,0.7)',
+                                '&:hover': { color: 'white' },
+                              },
+                            }}
+                          />
+                        </Tooltip>
+                      ))}
+                    </Box>
+                  )}
+
+                  {!(user?.role === 'staff' && aiMode === 'chat') && (
+                    <SearchFilterBar
+                      filters={filters}
+                      onChange={handleFiltersChange}
+                      onReset={handleFiltersReset}
+                      disabled={isLoading}
+                    />
+                  )}
+
                   {/* Compact Breadcrumbs for recent searches and chats */}
                   <CompactBreadcrumbs
                     onSearchClick={(searchQuery) => {
@@ -494,7 +940,7 @@ const SearchSection: React.FC = () => {
                     }}
                   >
                     <TrendingIcon sx={{ mr: 1, fontSize: 20 }} />
-                    Recent searches:
+                    {t('search.recentSearches')}
                   </Typography>
                   <Box
                     sx={{
@@ -587,8 +1033,123 @@ const SearchSection: React.FC = () => {
             </Fade>
           )}
 
+          {wellbeing && (
+            <WellbeingSupport
+              category={wellbeing.category}
+              readingLevel={readingLevelService.getReadingLevel()}
+              onContinue={wellbeing.canContinue ? handleWellbeingContinue : undefined}
+              alertFailed={wellbeing.alertFailed}
+            />
+          )}
+
+          {/* Chat conversation transcript */}
+          {user?.role === 'staff' && aiMode === 'chat' && (
+            <Box sx={{ p: 2.5, pb: chatSession.messages.length > 0 ? 0 : 2.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: chatSession.messages.length > 0 ? 2 : 0 }}>
+                <ChatIcon sx={{ color: '#10b981', fontSize: 22 }} />
+                <Typography
+                  variant="h6"
+                  noWrap
+                  sx={{ color: 'text.primary', fontSize: '1.1rem', flexGrow: 1 }}
+                >
+                  {chatSession.title || t('chat.newConversation')}
+                </Typography>
+                <Button
+                  size="small"
+                  startIcon={<ForumIcon />}
+                  onClick={() => setChatListOpen(true)}
+                  sx={{ color: '#115740', textTransform: 'none' }}
+                >
+                  {t('chat.conversations')}
+                </Button>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={resetChatSession}
+                  disabled={chatSession.messages.length === 0 || isChatLoading}
+                  sx={{ color: '#115740', textTransform: 'none' }}
+                >
+                  {t('chat.newChat')}
+                </Button>
+              </Box>
+
+              {chatSession.messages
+                .filter((message) => message.role !== 'system')
+                .map((message, index) => (
+                  <Fade key={`${message.timestamp}-${index}`} in timeout={300}>
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        justifyContent: message.role === 'user' ? 'flex-end' : 'flex-start',
+                        mb: 2,
+                      }}
+                    >
+                      <Card
+                        elevation={0}
+                        sx={{
+                          maxWidth: message.role === 'user' ? '80%' : '100%',
+                          borderRadius: '12px',
+                          background: message.role === 'user' ? 'rgba(17, 87, 64, 0.08)' : 'rgba(16, 185, 129, 0.05)',
+                          border: message.role === 'user' ? '1px solid rgba(17, 87, 64, 0.15)' : '1px solid rgba(16, 185, 129, 0.2)',
+                        }}
+                      >
+                        <CardContent sx={{ p: message.role === 'user' ? 2 : 3, '&:last-child': { pb: message.role === 'user' ? 2 : 3 } }}>
+                          <Typography
+                            variant="body1"
+                            sx={{
+                              color: 'text.primary',
+                              lineHeight: 1.6,
+                              whiteSpace: 'pre-wrap'
+                            }}
+                          >
+                            {message.content}
+                          </Typography>
+                        </CardContent>
+                      </Card>
+                    </Box>
+                  </Fade>
+                ))}
+
+              {/* Reply currently streaming in */}
+              {chatSession.streamingReply && (
+                <Card
+                  elevation={0}
+                  sx={{
+                    borderRadius: '12px',
+                    background: 'rgba(16, 185, 129, 0.05)',
+                    border: '1px solid rgba(16, 185, 129, 0.2)',
+                    mb: 2
+                  }}
+                >
+                  <CardContent sx={{ p: 3, '&:last-child': { pb: 2 } }}>
+                    <Typography
+                      variant="body1"
+                      sx={{
+                        color: 'text.primary',
+                        lineHeight: 1.6,
+                        whiteSpace: 'pre-wrap'
+                      }}
+                    >
+                      {chatSession.streamingReply}
+                    </Typography>
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+                      <Button
+                        size="small"
+                        startIcon={<StopIcon />}
+                        onClick={chatSession.cancel}
+                        sx={{ color: '#115740', textTransform: 'none' }}
+                      >
+                        {t('chat.stop')}
+                      </Button>
+                    </Box>
+                  </CardContent>
+                </Card>
+              )}
+            </Box>
+          )}
+
           {/* AI Thinking Indicator for Chat Mode */}
-          {isChatLoading && user?.role === 'staff' && aiMode === 'chat' && (
+          {isChatLoading && !chatSession.streamingReply && user?.role === 'staff' && aiMode === 'chat' && (
             <Fade in timeout={300}>
               <Box sx={{ p: 2.5 }}>
                 <Card
@@ -613,14 +1174,14 @@ const SearchSection: React.FC = () => {
                             mb: 0.5
                           }}
                         >
-                          AI Assistant is thinking...
+                          {t('chat.thinking')}
                         </Typography>
                         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                           <Typography
                             variant="body2"
                             sx={{ color: 'text.secondary', fontSize: '0.875rem' }}
                           >
-                            Processing your request
+                            {t('chat.processing')}
                           </Typography>
                           <Box sx={{ display: 'flex', gap: 0.5 }}>
                             {[0, 1, 2].map((i) => (
@@ -665,48 +1226,6 @@ const SearchSection: React.FC = () => {
             </Fade>
           )}
 
-          {chatResponse && user?.role === 'staff' && aiMode === 'chat' && !isChatLoading && (
-            <Fade in timeout={300}>
-              <Box sx={{ p: 2.5 }}>
-                <Typography
-                  variant="h6"
-                  sx={{
-                    mb: 2,
-                    color: 'text.primary',
-                    display: 'flex',
-                    alignItems: 'center',
-                    fontSize: '1.1rem'
-                  }}
-                >
-                  <ChatIcon sx={{ mr: 1, color: '#10b981', fontSize: 22 }} />
-                  AI Assistant Response
-                </Typography>
-                <Card
-                  elevation={0}
-                  sx={{
-                    borderRadius: '12px',
-                    background: 'rgba(16, 185, 129, 0.05)',
-                    border: '1px solid rgba(16, 185, 129, 0.2)',
-                    mb: 2
-                  }}
-                >
-                  <CardContent sx={{ p: 3 }}>
-                    <Typography
-                      variant="body1"
-                      sx={{
-                        color: 'text.primary',
-                        lineHeight: 1.6,
-                        whiteSpace: 'pre-wrap'
-                      }}
-                    >
-                      {chatResponse}
-                    </Typography>
-                  </CardContent>
-                </Card>
-              </Box>
-            </Fade>
-          )}
-
           {/* Loading skeleton when typing or AI is working */}
           {(isLoading || isTyping) && aiMode === 'search' && query.trim().length >= 3 && (
             <LoadingSkeleton 
@@ -716,45 +1235,107 @@ const SearchSection: React.FC = () => {
             />
           )}
 
+          {/* Spelling help - the correction these results use, or one worth trying */}
+          {aiMode === 'search' && !isLoading && !isTyping && (correction || spellingSuggestion) && (
+            <Fade in>
+              <Box sx={{ px: 2.5, pt: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+                <SpellcheckIcon sx={{ color: '#115740', fontSize: 20 }} />
+                {correction ? (
+                  <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                    {t('search.showingResultsFor')}{' '}
+                    <Box component="strong" sx={{ color: 'text.primary' }}>{correction.corrected}</Box>
+                    {' · '}
+                    {t('search.searchInsteadFor')}{' '}
+                    <Link
+                      component="button"
+                      variant="body2"
+                      onClick={() => handleSpellingSearch(correction.original, false)}
+                      sx={{ color: '#115740', verticalAlign: 'baseline' }}
+                    >
+                      {correction.original}
+                    </Link>
+                  </Typography>
+                ) : spellingSuggestion && (
+                  <Typography variant="body2" sx={{ color: 'text.secondary' }}>
+                    {t('search.didYouMean')}{' '}
+                    <Link
+                      component="button"
+                      variant="body2"
+                      onClick={() => handleSpellingSearch(spellingSuggestion, true)}
+                      sx={{ color: '#115740', fontWeight: 600, verticalAlign: 'baseline' }}
+                    >
+                      {spellingSuggestion}
+                    </Link>
+                  </Typography>
+                )}
+              </Box>
+            </Fade>
+          )}
+
           {/* AI Instant Answer */}
           {aiAnswer && aiMode === 'search' && (
             <Box sx={{ p: 2.5, pb: 0 }}>
-              <AIInstantAnswerComponent answer={aiAnswer} query={query} />
+              <AIInstantAnswerComponent
+                answer={aiAnswer}
+                query={query}
+                onSave={isAuthenticated ? handleSaveAnswer : undefined}
+                readAloud={user?.role !== 'staff' && ['elementary', 'middle'].includes(readingLevelService.getReadingLevel())}
+                onCite={() => setCitationSources(aiAnswer.sources.map((url) => citationService.fromUrl(url, results)))}
+              />
             </Box>
           )}
 
-          {/* AI Answer Loading */}
+          {/* AI Answer Loading - streams in once the first tokens arrive */}
           {isGeneratingAnswer && aiMode === 'search' && (
             <Box sx={{ p: 2.5, pb: 0 }}>
-              <LoadingSkeleton
-                count={1}
-                showAIIndicator={true}
-                isTyping={false}
-              />
+              {streamingAnswer ? (
+                <AIInstantAnswerComponent
+                  answer={{
+                    answer: streamingAnswer,
+                    sources: results.slice(0, 5).map((r) => r.url),
+                    confidence: 'medium',
+                  }}
+                  query={query}
+                  isStreaming
+                />
+              ) : (
+                <LoadingSkeleton
+                  count={1}
+                  showAIIndicator={true}
+                  isTyping={false}
+                />
+              )}
             </Box>
           )}
 
           {results.length > 0 && aiMode === 'search' && (
             <Box sx={{ p: 2.5 }}>
-              <Typography
-                variant="h6"
-                sx={{
-                  mb: 2,
-                  color: 'text.primary',
-                  display: 'flex',
-                  alignItems: 'center',
-                  fontSize: '1.1rem'
-                }}
-              >
-                <IdeaIcon sx={{ mr: 1, color: '#eab308', fontSize: 22 }} />
-                Search Results ({results.length})
-              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+                <Typography
+                  variant="h6"
+                  sx={{
+                    color: 'text.primary',
+                    display: 'flex',
+                    alignItems: 'center',
+                    fontSize: '1.1rem'
+                  }}
+                >
+                  <IdeaIcon sx={{ mr: 1, color: '#eab308', fontSize: 22 }} />
+                  {t('search.resultsHeading', { count: results.length })}
+                </Typography>
+                <ExportResults
+                  size="small"
+                  disabled={isGeneratingAnswer}
+                  getDocument={() => exportService.fromSearch(query, results, aiAnswer)}
+                />
+              </Box>
               <List>
                 {results.map((result, index) => (
-                  <Fade key={result.id} in timeout={300 + index * 100}>
+                  <Fade key={result.id} in timeout={300 + (index % RESULTS_PER_PAGE) * 100}>
                     <Card
                       elevation={0}
                       sx={{
+                        position: 'relative',
                         marginBottom: '12px',
                         borderRadius: '12px',
                         background: 'rgba(255,255,255,0.8)',
@@ -771,6 +1352,7 @@ const SearchSection: React.FC = () => {
                         onClick={() => window.open(result.url, '_blank')}
                         sx={{
                           padding: '16px',
+                          paddingRight: isAuthenticated ? '80px' : '48px',
                           borderRadius: '12px',
                         }}
                       >
@@ -810,6 +1392,50 @@ const SearchSection: React.FC = () => {
                                   borderRadius: '8px',
                                 }}
                               />
+                              {/* A staff moderation rule flagged this result */}
+                              {result.moderationFlag && (
+                                <Tooltip
+                                  title={result.moderationFlag.reason
+                                    ? t('search.flaggedReason', { reason: result.moderationFlag.reason })
+                                    : t('search.flaggedNoReason')}
+                                >
+                                  <Chip
+                                    icon={<WarningIcon />}
+                                    label={t('search.flagged')}
+                                    size="small"
+                                    color="warning"
+                                    sx={{ ml: 1, borderRadius: '8px', fontWeight: 'bold' }}
+                                  />
+                                </Tooltip>
+                              )}
+                              {/* The AI thought this needs supervision - shown to staff for review */}
+                              {user?.role === 'staff' && result.safety?.verdict === 'caution' && (
+                                <Tooltip
+                                  title={t('search.aiCautionReason', {
+                                    score: Math.round(result.safety.score * 100),
+                                    reason: result.safety.reason,
+                                  })}
+                                >
+                                  <Chip
+                                    label={t('search.aiCaution')}
+                                    size="small"
+                                    variant="outlined"
+                                    color="warning"
+                                    sx={{ ml: 1, borderRadius: '8px' }}
+                                  />
+                                </Tooltip>
+                              )}
+                              {/* Provenance - which search providers returned this result */}
+                              {user?.role === 'staff' && result.providers && result.providers.length > 0 && (
+                                <Tooltip title={t('search.foundBy', { providers: result.providers.join(', ') })}>
+                                  <Chip
+                                    label={t('search.viaProviders', { providers: result.providers.join(' + ') })}
+                                    size="small"
+                                    variant="outlined"
+                                    sx={{ ml: 1, borderRadius: '8px', borderColor: '#115740', color: '#115740' }}
+                                  />
+                                </Tooltip>
+                              )}
                             </Box>
                           }
                           primaryTypographyProps={{
@@ -826,14 +1452,55 @@ const SearchSection: React.FC = () => {
                           }}
                         />
                       </ListItemButton>
+                      <Box sx={{ position: 'absolute', top: 8, right: 8, display: 'flex' }}>
+                        <Tooltip title={t('citations.cite')}>
+                          <IconButton
+                            size="small"
+                            onClick={() => setCitationSources([citationService.fromSearchResult(result)])}
+                            sx={{ color: '#115740' }}
+                          >
+                            <QuoteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {isAuthenticated && (
+                          <Tooltip title={t('search.saveToBookmarks')}>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleSaveResult(result)}
+                              sx={{ color: '#115740' }}
+                            >
+                              <BookmarkIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Box>
                     </Card>
                   </Fade>
                 ))}
               </List>
+              {hasMore && (
+                <Box sx={{ display: 'flex', justifyContent: 'center', mt: 1 }}>
+                  <Button
+                    variant="outlined"
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    startIcon={isLoadingMore ? <CircularProgress size={16} /> : <ExpandMoreIcon />}
+                    sx={{
+                      borderRadius: '20px',
+                      textTransform: 'none',
+                      borderColor: '#115740',
+                      color: '#115740',
+                      '&:hover': { borderColor: '#0d4a37', background: 'rgba(17, 87, 64, 0.05)' },
+                    }}
+                  >
+                    {isLoadingMore ? t('search.loadingMore') : t('search.loadMore')}
+                  </Button>
+                </Box>
+              )}
             </Box>
           )}
 
-          {!isLoading && !error && results.length === 0 && !chatResponse && query && (
+          {!isLoading && !error && !wellbeing && results.length === 0 && chatSession.messages.length === 0 && query && (
             <Fade in>
               <Box sx={{ textAlign: 'center', py: 8 }}>
                 {user?.role === 'staff' && aiMode === 'chat' ? (
@@ -846,16 +1513,16 @@ const SearchSection: React.FC = () => {
                   sx={{ color: 'text.secondary', mb: 1 }}
                 >
                   {user?.role === 'staff' && aiMode === 'chat'
-                    ? `No response generated for "${query}"`
-                    : `No results found for "${query}"`}
+                    ? t('search.noResponseFor', { query })
+                    : t('search.noResultsFor', { query })}
                 </Typography>
                 <Typography
                   variant="body2"
                   sx={{ color: 'text.disabled' }}
                 >
                   {user?.role === 'staff' && aiMode === 'chat'
-                    ? 'Try rephrasing your question or ask something else.'
-                    : 'Try adjusting your search terms or browse the quick links.'}
+                    ? t('search.tryRephrasing')
+                    : t('search.tryAdjusting')}
                 </Typography>
               </Box>
             </Fade>
@@ -874,22 +1541,48 @@ const SearchSection: React.FC = () => {
                   sx={{ color: 'text.secondary', mb: 1 }}
                 >
                   {user?.role === 'staff' && aiMode === 'chat'
-                    ? 'Ready to chat?'
-                    : 'Ready to explore?'}
+                    ? t('search.readyToChat')
+                    : t('search.readyToExplore')}
                 </Typography>
                 <Typography
                   variant="body2"
                   sx={{ color: 'text.disabled' }}
                 >
                   {user?.role === 'staff' && aiMode === 'chat'
-                    ? 'Ask your AI assistant about teaching, lesson planning, or student support.'
-                    : 'Start typing to discover amazing resources and tools.'}
+                    ? t('search.chatPrompt')
+                    : t('search.explorePrompt')}
                 </Typography>
               </Box>
             </Fade>
           )}
         </Box>
       </Card>
+
+      {user?.role === 'staff' && (
+        <ChatSessionList
+          open={chatListOpen}
+          onClose={() => setChatListOpen(false)}
+          activeSessionId={chatSession.sessionId}
+          onResume={handleResumeChat}
+          onDeleted={handleChatDeleted}
+        />
+      )}
+
+      <SaveBookmarkDialog
+        open={bookmarkDraft !== null}
+        draft={bookmarkDraft}
+        onClose={() => setBookmarkDraft(null)}
+      />
+
+      <CitationDialog
+        open={citationSources !== null}
+        sources={citationSources || []}
+        onClose={() => setCitationSources(null)}
+        onOpenBibliography={() => {
+          setCitationSources(null);
+          onOpenBibliography?.();
+        }}
+      />
     </Box>
   );
 };
@@ -1,93 +1,107 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { IconButton, Tooltip, Box, Typography, Paper, CircularProgress } from '@mui/material';
 import MicIcon from '@mui/icons-material/Mic';
 import MicOffIcon from '@mui/icons-material/MicOff';
 import StopIcon from '@mui/icons-material/Stop';
+import { useTranslation } from '../../hooks/useTranslation';
+import i18nService from '../../services/i18nService';
 
 interface VoiceSearchProps {
+  // Called once per utterance with the final transcript
   onTranscript: (transcript: string) => void;
   onError?: (error: string) => void;
   disabled?: boolean;
 }
 
 const VoiceSearch: React.FC<VoiceSearchProps> = ({ onTranscript, onError, disabled = false }) => {
+  const { t, language } = useTranslation();
   const [isListening, setIsListening] = useState(false);
   const [isSupported, setIsSupported] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [recognition, setRecognition] = useState<any>(null);
   const [interimTranscript, setInterimTranscript] = useState('');
 
+  // Recognition handlers outlive renders, so read the latest callbacks through refs
+  const onTranscriptRef = useRef(onTranscript);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+    onErrorRef.current = onError;
+  });
+
+  const getErrorMessage = useCallback((error: string): string => {
+    const errorMessages: { [key: string]: string } = {
+      'no-speech': t('voice.errorNoSpeech'),
+      'audio-capture': t('voice.errorAudioCapture'),
+      'not-allowed': t('voice.errorNotAllowed'),
+      'network': t('voice.errorNetwork'),
+      'aborted': t('voice.errorAborted'),
+    };
+
+    return errorMessages[error] || t('voice.errorGeneric');
+  }, [t]);
+
+  // Recreate the recognizer whenever the interface language changes
   useEffect(() => {
     // Check if browser supports speech recognition
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 
-    if (SpeechRecognition) {
-      setIsSupported(true);
-
-      const recognitionInstance = new SpeechRecognition();
-      recognitionInstance.continuous = true;
-      recognitionInstance.interimResults = true;
-      recognitionInstance.lang = 'en-US';
-      recognitionInstance.maxAlternatives = 1;
+    if (!SpeechRecognition) {
+      return;
+    }
 
-      recognitionInstance.onresult = (event: any) => {
-        let interimText = '';
-        let finalText = '';
+    setIsSupported(true);
 
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcriptPart = event.results[i][0].transcript;
+    const recognitionInstance = new SpeechRecognition();
+    recognitionInstance.continuous = false;
+    recognitionInstance.interimResults = true;
+    recognitionInstance.lang = i18nService.getSpeechLocale();
+    recognitionInstance.maxAlternatives = 1;
 
-          if (event.results[i].isFinal) {
-            finalText += transcriptPart + ' ';
-          } else {
-            interimText += transcriptPart;
-          }
-        }
+    recognitionInstance.onresult = (event: any) => {
+      let interimText = '';
+      let finalText = '';
 
-        setInterimTranscript(interimText);
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcriptPart = event.results[i][0].transcript;
 
-        if (finalText) {
-          const newTranscript = (transcript + finalText).trim();
-          setTranscript(newTranscript);
-          onTranscript(newTranscript);
+        if (event.results[i].isFinal) {
+          finalText += transcriptPart + ' ';
+        } else {
+          interimText += transcriptPart;
         }
-      };
-
-      recognitionInstance.onerror = (event: any) => {
-        console.error('Speech recognition error:', event.error);
-        const errorMessage = getErrorMessage(event.error);
-        setIsListening(false);
-        if (onError) {
-          onError(errorMessage);
-        }
-      };
-
-      recognitionInstance.onend = () => {
-        setIsListening(false);
-        setInterimTranscript('');
-      };
+      }
 
-      setRecognition(recognitionInstance);
-    }
+      setInterimTranscript(interimText);
 
-    return () => {
-      if (recognition) {
-        recognition.stop();
+      if (finalText.trim()) {
+        setTranscript(finalText.trim());
+        onTranscriptRef.current(finalText.trim());
       }
     };
-  }, []);
 
-  const getErrorMessage = (error: string): string => {
-    const errorMessages: { [key: string]: string } = {
-      'no-speech': 'No speech detected. Please try again.',
-      'audio-capture': 'No microphone found. Please check your microphone.',
-      'not-allowed': 'Microphone permission denied. Please allow microphone access.',
-      'network': 'Network error occurred. Please check your connection.',
-      'aborted': 'Speech recognition was aborted.',
+    recognitionInstance.onerror = (event: any) => {
+      console.error('Speech recognition error:', event.error);
+      setIsListening(false);
+      onErrorRef.current?.(getErrorMessage(event.error));
     };
 
-    return errorMessages[error] || 'An error occurred with voice recognition.';
-  };
+    recognitionInstance.onend = () => {
+      setIsListening(false);
+      setInterimTranscript('');
+    };
+
+    setRecognition(recognitionInstance);
+
+    return () => {
+      // Detach handlers first so aborting doesn't surface an error
+      recognitionInstance.onresult = null;
+      recognitionInstance.onerror = null;
+      recognitionInstance.onend = null;
+      recognitionInstance.abort();
+      setIsListening(false);
+    };
+  }, [language, getErrorMessage]);
 
   const startListening = useCallback(() => {
     if (!recognition || disabled) return;
@@ -99,27 +113,21 @@ const VoiceSearch: React.FC<VoiceSearchProps> = ({ onTranscript, onError, disabl
       setIsListening(true);
     } catch (error) {
       console.error('Error starting recognition:', error);
-      if (onError) {
-        onError('Failed to start voice recognition');
-      }
+      onErrorRef.current?.(t('voice.startFailed'));
     }
-  }, [recognition, disabled, onError]);
+  }, [recognition, disabled, t]);
 
   const stopListening = useCallback(() => {
     if (!recognition) return;
 
     try {
+      // Stopping delivers any pending final result through onresult
       recognition.stop();
       setIsListening(false);
-
-      // Send final transcript
-      if (transcript) {
-        onTranscript(transcript);
-      }
     } catch (error) {
       console.error('Error stopping recognition:', error);
     }
-  }, [recognition, transcript, onTranscript]);
+  }, [recognition]);
 
   const toggleListening = () => {
     if (isListening) {
@@ -131,10 +139,10 @@ const VoiceSearch: React.FC<VoiceSearchProps> = ({ onTranscript, onError, disabl
 
   if (!isSupported) {
     return (
-      <Tooltip title="Voice search not supported in this browser">
+      <Tooltip title={t('voice.unsupported')}>
         <span>
-          <IconButton disabled>
-            <MicOffIcon />
+          <IconButton disabled size="small">
+            <MicOffIcon fontSize="small" />
           </IconButton>
         </span>
       </Tooltip>
@@ -143,22 +151,26 @@ const VoiceSearch: React.FC<VoiceSearchProps> = ({ onTranscript, onError, disabl
 
   return (
     <Box position="relative">
-      <Tooltip title={isListening ? 'Stop voice search' : 'Start voice search'}>
-        <IconButton
-          onClick={toggleListening}
-          disabled={disabled}
-          color={isListening ? 'error' : 'default'}
-          sx={{
-            animation: isListening ? 'pulse 1.5s infinite' : 'none',
-            '@keyframes pulse': {
-              '0%': { transform: 'scale(1)' },
-              '50%': { transform: 'scale(1.1)' },
-              '100%': { transform: 'scale(1)' },
-            },
-          }}
-        >
-          {isListening ? <StopIcon /> : <MicIcon />}
-        </IconButton>
+      <Tooltip title={isListening ? t('voice.stop') : t('voice.start')}>
+        <span>
+          <IconButton
+            onClick={toggleListening}
+            disabled={disabled}
+            size="small"
+            aria-label={isListening ? t('voice.stop') : t('voice.start')}
+            sx={{
+              color: isListening ? '#dc2626' : '#115740',
+              animation: isListening ? 'pulse 1.5s infinite' : 'none',
+              '@keyframes pulse': {
+                '0%': { transform: 'scale(1)' },
+                '50%': { transform: 'scale(1.1)' },
+                '100%': { transform: 'scale(1)' },
+              },
+            }}
+          >
+            {isListening ? <StopIcon fontSize="small" /> : <MicIcon fontSize="small" />}
+          </IconButton>
+        </span>
       </Tooltip>
 
       {isListening && (
@@ -178,7 +190,7 @@ const VoiceSearch: React.FC<VoiceSearchProps> = ({ onTranscript, onError, disabl
           <Box display="flex" alignItems="center" gap={1} mb={1}>
             <CircularProgress size={16} />
             <Typography variant="body2" color="text.secondary">
-              Listening...
+              {t('voice.listening')}
             </Typography>
           </Box>
 
@@ -192,7 +204,7 @@ const VoiceSearch: React.FC<VoiceSearchProps> = ({ onTranscript, onError, disabl
           )}
 
           <Typography variant="caption" color="text.secondary" display="block" mt={1}>
-            Click the microphone again to stop
+            {t('voice.clickToStop')}
           </Typography>
         </Paper>
       )}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Box, Button, List, ListItem, ListItemText, Paper, Typography } from '@mui/material';
+import { ErrorOutline as ErrorIcon, Refresh as RefreshIcon } from '@mui/icons-material';
+import type { ConfigIssue, ConfigValidationError } from '../../config/configSchema';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface ConfigErrorScreenProps {
+  error: ConfigValidationError;
+}
+
+const ISSUE_KEYS: Record<ConfigIssue['kind'], string> = {
+  missing: 'config.issueMissing',
+  type: 'config.issueType',
+  url: 'config.issueUrl',
+  enum: 'config.issueEnum',
+  range: 'config.issueRange',
+  unknown: 'config.issueUnknown',
+  json: 'config.issueJson',
+};
+
+/**
+ * Shown instead of the app when env.json (or the build-time settings) fail
+ * validation - written for whoever deploys the app, so it names each setting
+ */
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ error }) => {
+  const { t } = useTranslation();
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        p: 2,
+        background: 'linear-gradient(135deg, #f0f4f8 0%, #e2e8f0 100%)',
+      }}
+    >
+      <Paper sx={{ p: 4, maxWidth: 640, width: '100%', borderRadius: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 2 }}>
+          <ErrorIcon color="error" fontSize="large" />
+          <Typography variant="h5" component="h1" sx={{ fontWeight: 'bold' }}>
+            {t('config.title')}
+          </Typography>
+        </Box>
+
+        <Typography variant="body1" sx={{ mb: 2 }}>
+          {t(error.source === 'env.json' ? 'config.descriptionFile' : 'config.descriptionBuild')}
+        </Typography>
+
+        <List dense sx={{ bgcolor: 'grey.50', borderRadius: 2, mb: 3 }}>
+          {error.issues.map((issue) => (
+            <ListItem key={`${issue.field}-${issue.kind}`}>
+              <ListItemText
+                primary={
+                  <Box component="code" sx={{ fontFamily: 'monospace', fontWeight: 'bold' }}>
+                    {issue.field}
+                  </Box>
+                }
+                secondary={t(ISSUE_KEYS[issue.kind], { expected: issue.expected || '' })}
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+          <Typography variant="caption" color="text.secondary">
+            {t('config.help')}
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<RefreshIcon />}
+            onClick={() => window.location.reload()}
+            sx={{ bgcolor: '#115740', '&:hover': { bgcolor: '#0d4a37' }, flexShrink: 0 }}
+          >
+            {t('config.reload')}
+          </Button>
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default ConfigErrorScreen;
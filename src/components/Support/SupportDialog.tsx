@@ -22,6 +22,7 @@ import {
   Chat as ChatIcon,
 } from '@mui/icons-material';
 import { useAppSelector } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
 
 interface SupportDialogProps {
   open: boolean;
@@ -30,6 +31,7 @@ interface SupportDialogProps {
 
 const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
+  const { t } = useTranslation();
   const [requestType, setRequestType] = React.useState('');
   const [description, setDescription] = React.useState('');
   const [isSubmitting, setIsSubmitting] = React.useState(false);
@@ -67,7 +69,7 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
         <Box className="flex items-center space-x-2">
           <SupportIcon className="text-green-600" />
           <Typography variant="h6" className="font-bold">
-            Request Support
+            {t('support.title')}
           </Typography>
         </Box>
       </DialogTitle>
@@ -75,19 +77,19 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
       <DialogContent>
         {showSuccess ? (
           <Alert severity="success" className="mb-4">
-            Your support request has been submitted successfully! Our team will get back to you soon.
+            {t('support.success')}
           </Alert>
         ) : (
           <>
             <Typography variant="body1" className="text-gray-600 mb-4">
-              Need help? Our IT support team is here to assist you with technical issues and questions.
+              {t('support.intro')}
             </Typography>
 
             <Box className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
               <Box className="text-center p-4 bg-blue-50 rounded-lg">
                 <EmailIcon className="text-blue-600 mb-2" fontSize="large" />
                 <Typography variant="subtitle2" className="font-medium">
-                  Email Support
+                  {t('support.email')}
                 </Typography>
                 <Typography variant="body2" className="text-gray-600">
                   support@horizon.edu
@@ -97,7 +99,7 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
               <Box className="text-center p-4 bg-green-50 rounded-lg">
                 <PhoneIcon className="text-green-600 mb-2" fontSize="large" />
                 <Typography variant="subtitle2" className="font-medium">
-                  Phone Support
+                  {t('support.phone')}
                 </Typography>
                 <Typography variant="body2" className="text-gray-600">
                   (555) 123-4567
@@ -107,10 +109,10 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
               <Box className="text-center p-4 bg-purple-50 rounded-lg">
                 <ChatIcon className="text-purple-600 mb-2" fontSize="large" />
                 <Typography variant="subtitle2" className="font-medium">
-                  Live Chat
+                  {t('support.liveChat')}
                 </Typography>
                 <Typography variant="body2" className="text-gray-600">
-                  Mon-Fri 8AM-5PM
+                  {t('support.hours')}
                 </Typography>
               </Box>
             </Box>
@@ -119,27 +121,27 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
               {isAuthenticated && user && (
                 <Box className="bg-gray-50 rounded-lg p-3">
                   <Typography variant="body2" className="text-gray-700">
-                    <strong>User:</strong> {user.name} ({user.email})
+                    <strong>{t('support.user')}</strong> {user.name} ({user.email})
                   </Typography>
                   <Typography variant="body2" className="text-gray-700">
-                    <strong>Role:</strong> {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                    <strong>{t('support.role')}</strong> {t(`auth.${user.role}`)}
                   </Typography>
                 </Box>
               )}
 
               <FormControl fullWidth>
-                <InputLabel>Request Type</InputLabel>
+                <InputLabel>{t('support.requestType')}</InputLabel>
                 <Select
                   value={requestType}
-                  label="Request Type"
+                  label={t('support.requestType')}
                   onChange={(e) => setRequestType(e.target.value)}
                 >
-                  <MenuItem value="technical">Technical Issue</MenuItem>
-                  <MenuItem value="account">Account Access</MenuItem>
-                  <MenuItem value="password">Password Reset</MenuItem>
-                  <MenuItem value="application">Application Support</MenuItem>
-                  <MenuItem value="training">Training Request</MenuItem>
-                  <MenuItem value="other">Other</MenuItem>
+                  <MenuItem value="technical">{t('support.typeTechnical')}</MenuItem>
+                  <MenuItem value="account">{t('support.typeAccount')}</MenuItem>
+                  <MenuItem value="password">{t('support.typePassword')}</MenuItem>
+                  <MenuItem value="application">{t('support.typeApplication')}</MenuItem>
+                  <MenuItem value="training">{t('support.typeTraining')}</MenuItem>
+                  <MenuItem value="other">{t('support.typeOther')}</MenuItem>
                 </Select>
               </FormControl>
 
@@ -147,11 +149,11 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
                 fullWidth
                 multiline
                 rows={4}
-                label="Description"
-                placeholder="Please describe your issue or question in detail..."
+                label={t('support.description')}
+                placeholder={t('support.descriptionPlaceholder')}
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
-                helperText="Include any error messages, steps you've tried, or specific details"
+                helperText={t('support.descriptionHelp')}
               />
             </Box>
           </>
@@ -160,7 +162,7 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
 
       <DialogActions className="px-6 pb-6">
         <Button onClick={onClose} disabled={isSubmitting}>
-          {showSuccess ? 'Close' : 'Cancel'}
+          {showSuccess ? t('common.close') : t('common.cancel')}
         </Button>
         {!showSuccess && (
           <Button
@@ -170,7 +172,7 @@ const SupportDialog: React.FC<SupportDialogProps> = ({ open, onClose }) => {
             startIcon={isSubmitting ? <CircularProgress size={20} color="inherit" /> : undefined}
             className="bg-green-600 hover:bg-green-700"
           >
-            {isSubmitting ? 'Submitting...' : 'Submit Request'}
+            {isSubmitting ? t('support.submitting') : t('support.submit')}
           </Button>
         )}
       </DialogActions>
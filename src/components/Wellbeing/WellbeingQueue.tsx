@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Paper,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CheckCircle, Favorite, PlayArrow, Refresh } from '@mui/icons-material';
+import { useAppSelector } from '../../hooks/redux';
+import { useTranslation } from '../../hooks/useTranslation';
+import backendService, {
+  type WellbeingAlert,
+  type WellbeingAlertStatus,
+  type WellbeingCategory,
+} from '../../services/backendService';
+import wellbeingService from '../../services/wellbeingService';
+
+const STATUSES: WellbeingAlertStatus[] = ['new', 'inProgress', 'resolved'];
+
+const STATUS_KEYS: Record<WellbeingAlertStatus, string> = {
+  new: 'wellbeing.statusNew',
+  inProgress: 'wellbeing.statusInProgress',
+  resolved: 'wellbeing.statusResolved',
+};
+
+const CATEGORY_KEYS: Record<WellbeingCategory, string> = {
+  selfHarm: 'wellbeing.categorySelfHarm',
+  abuse: 'wellbeing.categoryAbuse',
+  bullying: 'wellbeing.categoryBullying',
+};
+
+const CATEGORY_COLORS: Record<WellbeingCategory, 'error' | 'warning' | 'info'> = {
+  selfHarm: 'error',
+  abuse: 'warning',
+  bullying: 'info',
+};
+
+// The confidential review queue for wellbeing alerts. Deliberately not part of
+// the moderation or analytics views - only designated wellbeing staff see it
+const WellbeingQueue: React.FC = () => {
+  const { t } = useTranslation();
+  const user = useAppSelector((state) => state.auth.user);
+  const canReview = wellbeingService.isWellbeingStaff(user);
+  const [loading, setLoading] = useState(true);
+  const [alerts, setAlerts] = useState<WellbeingAlert[]>([]);
+  const [tabValue, setTabValue] = useState(0);
+  const [resolving, setResolving] = useState<WellbeingAlert | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const status = STATUSES[tabValue];
+
+  const loadAlerts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAlerts(await backendService.getWellbeingAlerts(status));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (canReview) {
+      loadAlerts();
+    }
+  }, [canReview, loadAlerts]);
+
+  if (!canReview) {
+    return <Alert severity="error">{t('wellbeing.accessDenied')}</Alert>;
+  }
+
+  const updateAlert = async (alert: WellbeingAlert, updates: { status: WellbeingAlertStatus; notes?: string }) => {
+    const updated = await backendService.updateWellbeingAlert(alert._id, updates);
+    if (updated) {
+      await loadAlerts();
+      return true;
+    }
+    window.alert(t('wellbeing.updateFailed'));
+    return false;
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    if (await updateAlert(resolving, { status: 'resolved', notes: notes.trim() || undefined })) {
+      setResolving(null);
+      setNotes('');
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <Favorite sx={{ color: '#115740', fontSize: 32 }} />
+          <Typography variant="h4">{t('wellbeing.queueTitle')}</Typography>
+        </Box>
+        <Button variant="outlined" startIcon={<Refresh />} onClick={loadAlerts}>
+          {t('common.refresh')}
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        {t('wellbeing.queueDescription')}
+      </Typography>
+
+      <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
+        <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)}>
+          {STATUSES.map((value) => (
+            <Tab key={value} label={t(STATUS_KEYS[value])} />
+          ))}
+        </Tabs>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="300px">
+          <CircularProgress />
+        </Box>
+      ) : alerts.length === 0 ? (
+        <Alert severity="success">{t('wellbeing.queueEmpty')}</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('wellbeing.columnCategory')}</TableCell>
+                <TableCell>{t('wellbeing.columnStudent')}</TableCell>
+                <TableCell>{t('wellbeing.columnQuery')}</TableCell>
+                <TableCell>{t('wellbeing.columnRaised')}</TableCell>
+                {status === 'resolved' ? (
+                  <TableCell>{t('wellbeing.columnNotes')}</TableCell>
+                ) : (
+                  <TableCell>{t('common.actions')}</TableCell>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert._id}>
+                  <TableCell>
+                    <Chip
+                      label={t(CATEGORY_KEYS[alert.category])}
+                      size="small"
+                      color={CATEGORY_COLORS[alert.category]}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{alert.userName || t('wellbeing.unknownStudent')}</Typography>
+                    <Typography variant="caption" color="textSecondary" sx={{ display: 'block' }}>
+                      {[alert.userEmail, alert.gradeLevel && t('wellbeing.grade', { grade: alert.gradeLevel })]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography sx={{ maxWidth: 300, wordBreak: 'break-word' }}>{alert.query}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{new Date(alert.createdAt).toLocaleString()}</Typography>
+                    {alert.handledBy && (
+                      <Typography variant="caption" color="textSecondary" sx={{ display: 'block' }}>
+                        {t('wellbeing.handledBy', { name: alert.handledBy })}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  {status === 'resolved' ? (
+                    <TableCell>
+                      <Typography variant="caption" color="textSecondary">
+                        {alert.notes || '-'}
+                      </Typography>
+                    </TableCell>
+                  ) : (
+                    <TableCell>
+                      <Box sx={{ display: 'flex', gap: 1 }}>
+                        {status === 'new' && (
+                          <Button
+                            size="small"
+                            startIcon={<PlayArrow />}
+                            onClick={() => updateAlert(alert, { status: 'inProgress' })}
+                          >
+                            {t('wellbeing.acknowledge')}
+                          </Button>
+                        )}
+                        <Button
+                          size="small"
+                          color="success"
+                          startIcon={<CheckCircle />}
+                          onClick={() => {
+                            setNotes(alert.notes || '');
+                            setResolving(alert);
+                          }}
+                        >
+                          {t('wellbeing.resolve')}
+                        </Button>
+                      </Box>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Resolve Dialog */}
+      <Dialog open={resolving !== null} onClose={() => setResolving(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{t('wellbeing.resolveTitle')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label={t('wellbeing.notes')}
+            helperText={t('wellbeing.notesHelp')}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            multiline
+            rows={4}
+            fullWidth
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setResolving(null)}>{t('common.cancel')}</Button>
+          <Button variant="contained" color="success" onClick={handleResolve}>
+            {t('wellbeing.resolve')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WellbeingQueue;
@@ -0,0 +1,144 @@
+import { Email, Favorite, OpenInNew, Phone } from '@mui/icons-material';
+import { Alert, Box, Button, Card, CardContent, Fade, Grid, Paper, Typography } from '@mui/material';
+import React from 'react';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { WellbeingCategory } from '../../services/backendService';
+import type { ReadingLevel } from '../../services/readingLevelService';
+import wellbeingService, { type WellbeingResource } from '../../services/wellbeingService';
+
+interface WellbeingSupportProps {
+  category: WellbeingCategory;
+  readingLevel: ReadingLevel;
+  onContinue?: () => void; // omitted when the query itself was blocked
+  alertFailed?: boolean; // the wellbeing team couldn't be told, usually for want of a connection
+}
+
+// What to say about each concern, for older and younger students
+const MESSAGE_KEYS: Record<WellbeingCategory, { young: string; older: string }> = {
+  selfHarm: { young: 'wellbeing.selfHarmYoung', older: 'wellbeing.selfHarm' },
+  abuse: { young: 'wellbeing.abuseYoung', older: 'wellbeing.abuse' },
+  bullying: { young: 'wellbeing.bullyingYoung', older: 'wellbeing.bullying' },
+};
+
+// Younger students get shorter, simpler wording
+const isYoung = (level: ReadingLevel) => level === 'elementary' || level === 'middle';
+
+const WellbeingSupport: React.FC<WellbeingSupportProps> = ({ category, readingLevel, onContinue, alertFailed }) => {
+  const { t } = useTranslation();
+  const [resources, setResources] = React.useState<WellbeingResource[]>([]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    wellbeingService.getResources(category, readingLevel).then((loaded) => {
+      if (!cancelled) setResources(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [category, readingLevel]);
+
+  const young = isYoung(readingLevel);
+
+  return (
+    <Fade in>
+      <Paper
+        elevation={0}
+        sx={{
+          m: 2.5,
+          p: 3,
+          borderRadius: '16px',
+          border: '1px solid rgba(17, 87, 64, 0.2)',
+          background: 'linear-gradient(135deg, rgba(17, 87, 64, 0.04) 0%, rgba(34, 160, 107, 0.08) 100%)',
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 2 }}>
+          <Favorite sx={{ color: '#115740', fontSize: 32 }} />
+          <Typography variant="h5" sx={{ fontWeight: 600, color: '#115740' }}>
+            {t(young ? 'wellbeing.titleYoung' : 'wellbeing.title')}
+          </Typography>
+        </Box>
+
+        <Typography variant="body1" sx={{ mb: 3, lineHeight: 1.7 }}>
+          {t(young ? MESSAGE_KEYS[category].young : MESSAGE_KEYS[category].older)}
+        </Typography>
+
+        {alertFailed && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            {t('wellbeing.alertNotSent')}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1.5 }}>
+          {t('wellbeing.resourcesTitle')}
+        </Typography>
+
+        <Grid container spacing={2}>
+          {resources.map((resource) => (
+            <Grid key={resource.id} size={{ xs: 12, sm: 6 }}>
+              <Card variant="outlined" sx={{ height: '100%', borderRadius: '12px' }}>
+                <CardContent>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                    {resource.name || t(resource.nameKey)}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                    {t(resource.descriptionKey)}
+                  </Typography>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                    {resource.phone && (
+                      <Button
+                        size="small"
+                        variant="contained"
+                        startIcon={<Phone />}
+                        href={`tel:${resource.phone.replace(/\s/g, '')}`}
+                        sx={{ textTransform: 'none', background: '#115740', '&:hover': { background: '#0d4532' } }}
+                      >
+                        {t('wellbeing.call', { phone: resource.phone })}
+                      </Button>
+                    )}
+                    {resource.email && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={<Email />}
+                        href={`mailto:${resource.email}`}
+                        sx={{ textTransform: 'none' }}
+                      >
+                        {t('wellbeing.email')}
+                      </Button>
+                    )}
+                    {resource.url && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        endIcon={<OpenInNew />}
+                        href={resource.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        sx={{ textTransform: 'none' }}
+                      >
+                        {t('wellbeing.visit')}
+                      </Button>
+                    )}
+                  </Box>
+                </CardContent>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+
+        {onContinue && (
+          <Box sx={{ mt: 3, display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <Typography variant="body2" color="text.secondary">
+              {t('wellbeing.continueHint')}
+            </Typography>
+            <Button size="small" onClick={onContinue} sx={{ textTransform: 'none' }}>
+              {t('wellbeing.continue')}
+            </Button>
+          </Box>
+        )}
+      </Paper>
+    </Fade>
+  );
+};
+
+export default WellbeingSupport;
@@ -0,0 +1,98 @@
+import type * as AppConfigModule from './app-config';
+import type * as ConfigSchemaModule from './configSchema';
+
+const validEnv = {
+  BACKEND_URL: 'https://search-api.horizon.sa.edu.au',
+  AZURE_CLIENT_ID: '00000000-0000-0000-0000-000000000000',
+  AZURE_AUTHORITY: 'https://login.microsoftonline.com/horizon',
+  ENVIRONMENT: 'production',
+};
+
+const respond = (status: number, body: string) =>
+  Promise.resolve({ ok: status >= 200 && status < 300, status, text: () => Promise.resolve(body) });
+
+// Each test gets fresh modules, so the shared config promise starts empty
+const loadModules = () => ({
+  appConfig: require('./app-config') as typeof AppConfigModule,
+  schema: require('./configSchema') as typeof ConfigSchemaModule,
+});
+
+describe('getConfig', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.resetModules();
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('builds the config from a valid env.json', async () => {
+    fetchMock.mockReturnValue(respond(200, JSON.stringify({ ...validEnv, OPENAI_TEMPERATURE: '0.3' })));
+    const { appConfig } = loadModules();
+
+    const config = await appConfig.getConfig();
+    expect(config.api.backendUrl).toBe(validEnv.BACKEND_URL);
+    expect(config.azureAd.clientId).toBe(validEnv.AZURE_CLIENT_ID);
+    expect(config.app.environment).toBe('production');
+  });
+
+  test('shares one load between callers', async () => {
+    fetchMock.mockReturnValue(respond(200, JSON.stringify(validEnv)));
+    const { appConfig } = loadModules();
+
+    const [first, second] = await Promise.all([appConfig.getConfig(), appConfig.getConfig()]);
+    expect(first).toBe(second);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test.each([
+    ['the request fails', () => Promise.reject(new TypeError('Failed to fetch'))],
+    ['env.json is not found', () => respond(404, 'Not found')],
+    ['the dev server answers with index.html', () => respond(200, '<!DOCTYPE html><html></html>')],
+  ])('falls back to build-time settings when %s', async (_, response) => {
+    fetchMock.mockImplementation(response);
+    const { appConfig } = loadModules();
+
+    // Tests run outside production, so missing Azure settings only warn
+    const config = await appConfig.getConfig();
+    expect(config.app.environment).toBe('development');
+    expect(config.api.backendUrl).toMatch(/^http/);
+  });
+
+  test('rejects an env.json that is not valid JSON', async () => {
+    fetchMock.mockReturnValue(respond(200, '{ "BACKEND_URL": '));
+    const { appConfig, schema } = loadModules();
+
+    const error = await appConfig.getConfig().catch((e) => e);
+    expect(error).toBeInstanceOf(schema.ConfigValidationError);
+    expect(error.source).toBe('env.json');
+    expect(error.issues).toEqual([expect.objectContaining({ field: 'env.json', kind: 'json' })]);
+  });
+
+  test('rejects an env.json with invalid values, listing only the errors', async () => {
+    fetchMock.mockReturnValue(
+      respond(200, JSON.stringify({ ...validEnv, BACKEND_URL: 'not-a-url', EXTRA_SETTING: true }))
+    );
+    const { appConfig, schema } = loadModules();
+
+    const error = await appConfig.getConfig().catch((e) => e);
+    expect(error).toBeInstanceOf(schema.ConfigValidationError);
+    expect(error.issues).toEqual([expect.objectContaining({ field: 'BACKEND_URL', kind: 'url' })]);
+  });
+
+  test('rejects a production env.json missing required settings', async () => {
+    const { AZURE_AUTHORITY, ...env } = validEnv;
+    fetchMock.mockReturnValue(respond(200, JSON.stringify(env)));
+    const { appConfig, schema } = loadModules();
+
+    const error = await appConfig.getConfig().catch((e) => e);
+    expect(error).toBeInstanceOf(schema.ConfigValidationError);
+    expect(error.issues).toEqual([expect.objectContaining({ field: 'AZURE_AUTHORITY', kind: 'missing' })]);
+  });
+});
@@ -1,23 +1,60 @@
 // Application Configuration File
 // Runtime configuration loaded from public/env.json for production deployment
 
+import type { SafeSearchLevel } from '../services/searchProviders';
+import { ConfigValidationError, validateEnvConfig, type ConfigIssue } from './configSchema';
+
+export type Environment = 'development' | 'production';
+
+// The settings env.json may contain - see configSchema.ts for which are required and their formats
 export interface EnvConfig {
-  API_BASE_URL: string;
+  API_BASE_URL?: string;
   BACKEND_URL: string;
   AZURE_CLIENT_ID: string;
   AZURE_AUTHORITY: string;
-  AZURE_REDIRECT_URI: string;
-  OPENAI_API_KEY: string;
-  OPENAI_MODEL: string;
-  SEARCH_API_ENDPOINT: string;
-  SEARCH_API_KEY: string;
-  ENVIRONMENT: string;
+  AZURE_REDIRECT_URI?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_MODEL?: string;
+  OPENAI_TEMPERATURE?: number;
+  OPENAI_MAX_TOKENS?: number;
+  OPENAI_EMBEDDING_MODEL?: string;
+  ANSWER_SEMANTIC_CACHE?: boolean;
+  ANSWER_SIMILARITY_THRESHOLD?: number;
+  SEARCH_API_ENDPOINT?: string;
+  SEARCH_API_KEY?: string;
+  SEARCH_PROVIDERS?: SearchProviderConfig[];
+  SEARCH_MODE?: SearchMode;
+  SEARCH_FEDERATED_DEADLINE_MS?: number;
+  SEARCH_AUTOCORRECT?: boolean;
+  SEARCH_STAFF_SAFESEARCH?: SafeSearchLevel;
+  SEARCH_AI_CLASSIFICATION?: boolean;
+  SEARCH_AI_CLASSIFICATION_TIMEOUT_MS?: number;
+  WELLBEING_COUNSELLOR_NAME?: string;
+  WELLBEING_COUNSELLOR_EMAIL?: string;
+  WELLBEING_COUNSELLOR_PHONE?: string;
+  ENVIRONMENT: Environment;
+}
+
+// 'fallback' stops at the first provider with results; 'federated' queries them in parallel and merges
+export type SearchMode = 'fallback' | 'federated';
+
+// One entry of the SEARCH_PROVIDERS list in env.json
+export interface SearchProviderConfig {
+  type: string; // 'langsearch' | 'brave' | 'duckduckgo' | 'searxng' or any registered type
+  name?: string;
+  enabled?: boolean;
+  order?: number;
+  apiKey?: string;
+  endpoint?: string;
+  timeoutMs?: number;
+  instances?: string[]; // SearXNG base URLs, e.g. a school-hosted instance
 }
 
 export interface AppConfig {
   // API Configuration
   api: {
     baseUrl: string;
+    backendUrl: string;
   };
 
   // Azure AD Configuration
@@ -32,16 +69,42 @@ export interface AppConfig {
   openAi: {
     apiKey: string;
     model: string;
+    embeddingModel: string;
     systemPrompts: {
       search: string;
       chat: string;
     };
   };
 
-  // Search API Configuration (LangSearch)
+  // Instant answer caching - rewordings of a question always share an answer;
+  // semanticCache also reuses answers to questions whose embeddings are this similar
+  instantAnswers: {
+    semanticCache: boolean;
+    similarityThreshold: number; // cosine similarity, 0-1
+  };
+
+  // Who students are pointed to when a search suggests they need support
+  wellbeing: {
+    counsellor: {
+      name: string;
+      email?: string;
+      phone?: string;
+    };
+  };
+
+  // Search API Configuration (LangSearch plus fallback providers, in priority order)
   search: {
     apiEndpoint: string;
     apiKey: string;
+    providers: SearchProviderConfig[];
+    mode: SearchMode;
+    federatedDeadlineMs: number;
+    autoCorrect: boolean; // retry a zero-result search with its spelling corrected
+    staffSafeSearch: SafeSearchLevel; // guests and students always get 'strict'
+    aiClassification: {
+      enabled: boolean; // ask the AI whether each result suits the user's role and reading level
+      timeoutMs: number; // results are shown unclassified rather than wait longer
+    };
   };
 
   // Role Mapping Configuration
@@ -59,53 +122,107 @@ export interface AppConfig {
     name: string;
     schoolName: string;
     version: string;
-    environment: 'development' | 'production';
+    environment: Environment;
   };
 }
 
 // Runtime environment configuration loader
 let runtimeEnv: EnvConfig | null = null;
 
-const loadRuntimeConfig = async (): Promise<EnvConfig> => {
-  if (runtimeEnv) return runtimeEnv;
-
+// Build-time environment variables, used when the deployment has no env.json (local development)
+const getBuildTimeEnv = (): Record<string, unknown> => ({
+  API_BASE_URL: process.env.REACT_APP_API_BASE_URL || window.location.origin,
+  BACKEND_URL: process.env.REACT_APP_BACKEND_URL || `${window.location.protocol}//${window.location.hostname}:3005`,
+  AZURE_CLIENT_ID: process.env.REACT_APP_AZURE_CLIENT_ID,
+  AZURE_AUTHORITY: process.env.REACT_APP_AZURE_AUTHORITY,
+  AZURE_REDIRECT_URI: process.env.REACT_APP_AZURE_REDIRECT_URI || `${window.location.origin}/redirect`,
+  OPENAI_API_KEY: process.env.REACT_APP_OPENAI_API_KEY,
+  OPENAI_MODEL: process.env.REACT_APP_OPENAI_MODEL || 'gpt-4o-mini',
+  SEARCH_API_ENDPOINT: process.env.REACT_APP_SEARCH_API_ENDPOINT,
+  SEARCH_API_KEY: process.env.REACT_APP_SEARCH_API_KEY,
+  ENVIRONMENT: process.env.NODE_ENV === 'production' ? 'production' : 'development',
+});
+
+/**
+ * The parsed env.json, or null when the deployment doesn't have one. A missing
+ * file falls back to build-time variables; a file that isn't valid JSON is an error
+ */
+const fetchEnvJson = async (): Promise<unknown | null> => {
+  let response: Response;
   try {
-    const response = await fetch('/env.json');
-    if (!response.ok) {
-      throw new Error(`Failed to load env.json: ${response.status}`);
-    }
-    const configData = await response.json();
-    runtimeEnv = configData;
-    return configData;
+    response = await fetch('/env.json');
   } catch (error) {
     console.warn('Failed to load runtime config, falling back to build-time environment variables:', error);
-    // Fallback to build-time environment variables with better defaults
-    const fallbackConfig: EnvConfig = {
-      API_BASE_URL: process.env.REACT_APP_API_BASE_URL || window.location.origin,
-      BACKEND_URL: process.env.REACT_APP_BACKEND_URL || `${window.location.protocol}//${window.location.hostname}:3005`,
-      AZURE_CLIENT_ID: process.env.REACT_APP_AZURE_CLIENT_ID || '',
-      AZURE_AUTHORITY: process.env.REACT_APP_AZURE_AUTHORITY || '',
-      AZURE_REDIRECT_URI: process.env.REACT_APP_AZURE_REDIRECT_URI || `${window.location.origin}/redirect`,
-      OPENAI_API_KEY: process.env.REACT_APP_OPENAI_API_KEY || '',
-      OPENAI_MODEL: process.env.REACT_APP_OPENAI_MODEL || 'gpt-4o-mini',
-      SEARCH_API_ENDPOINT: process.env.REACT_APP_SEARCH_API_ENDPOINT || '',
-      SEARCH_API_KEY: process.env.REACT_APP_SEARCH_API_KEY || '',
-      ENVIRONMENT: process.env.NODE_ENV || 'development'
-    };
+    return null;
+  }
 
-    // Validate critical configuration values
-    const missingFields = [];
-    if (!fallbackConfig.AZURE_CLIENT_ID) missingFields.push('AZURE_CLIENT_ID');
-    if (!fallbackConfig.AZURE_AUTHORITY) missingFields.push('AZURE_AUTHORITY');
-    if (!fallbackConfig.OPENAI_API_KEY) missingFields.push('OPENAI_API_KEY');
+  const text = response.ok ? await response.text() : '';
+  // The development server answers unknown paths with index.html
+  if (!text.trim() || text.trim().startsWith('<')) {
+    console.warn(`No /env.json (${response.status}), falling back to build-time environment variables`);
+    return null;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ConfigValidationError(
+      [{ field: 'env.json', kind: 'json', severity: 'error', message: `env.json is not valid JSON: ${(error as Error).message}` }],
+      'env.json'
+    );
+  }
+};
 
-    if (missingFields.length > 0) {
-      console.warn('⚠️ Missing required configuration:', missingFields.join(', '));
-      console.warn('🔧 Please check your environment variables or /env.json file');
+const logIssues = (issues: ConfigIssue[]) => {
+  issues.forEach((issue) => {
+    if (issue.severity === 'error') {
+      console.error('❌ Config:', issue.message);
+    } else {
+      console.warn('⚠️ Config:', issue.message);
     }
-    runtimeEnv = fallbackConfig;
-    return fallbackConfig;
+  });
+};
+
+const loadRuntimeConfig = async (): Promise<EnvConfig> => {
+  if (runtimeEnv) return runtimeEnv;
+
+  const fromFile = await fetchEnvJson();
+  const source = fromFile === null ? 'build' : 'env.json';
+  const { config, issues, valid } = validateEnvConfig(fromFile === null ? getBuildTimeEnv() : fromFile);
+
+  logIssues(issues);
+  if (!valid) {
+    throw new ConfigValidationError(issues.filter((issue) => issue.severity === 'error'), source);
   }
+
+  runtimeEnv = config;
+  return config;
+};
+
+// Used when env.json has no SEARCH_PROVIDERS list - the original fallback chain
+const getDefaultSearchProviders = (env: EnvConfig): SearchProviderConfig[] => [
+  { type: 'langsearch', apiKey: env.SEARCH_API_KEY },
+  { type: 'brave', apiKey: process.env.REACT_APP_BRAVE_API_KEY || '' },
+  { type: 'duckduckgo' },
+  { type: 'searxng' },
+];
+
+// Apply defaults and sort so the list reads in the order providers are tried
+const resolveSearchProviders = (env: EnvConfig): SearchProviderConfig[] => {
+  const declared = Array.isArray(env.SEARCH_PROVIDERS) ? env.SEARCH_PROVIDERS : getDefaultSearchProviders(env);
+
+  return declared
+    .map((provider, index) => ({
+      ...provider,
+      enabled: provider.enabled !== false,
+      order: provider.order ?? index,
+      // LangSearch keeps using the top-level SEARCH_API_* values unless overridden
+      ...(provider.type === 'langsearch' && {
+        apiKey: provider.apiKey || env.SEARCH_API_KEY,
+        endpoint: provider.endpoint || env.SEARCH_API_ENDPOINT || undefined,
+      }),
+    }))
+    .sort((a, b) => a.order - b.order);
 };
 
 const createConfig = async (): Promise<AppConfig> => {
@@ -114,7 +231,8 @@ const createConfig = async (): Promise<AppConfig> => {
   return {
     // API Configuration
     api: {
-      baseUrl: env.API_BASE_URL,
+      baseUrl: env.API_BASE_URL || window.location.origin,
+      backendUrl: env.BACKEND_URL,
     },
 
     // Azure Active Directory Configuration
@@ -127,8 +245,9 @@ const createConfig = async (): Promise<AppConfig> => {
 
     // OpenAI Configuration
     openAi: {
-      apiKey: env.OPENAI_API_KEY,
-      model: env.OPENAI_MODEL,
+      apiKey: env.OPENAI_API_KEY || '',
+      model: env.OPENAI_MODEL || 'gpt-4o-mini',
+      embeddingModel: env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
       systemPrompts: {
         search: `You are a helpful search assistant. Generate educational search results for any query. Return results as JSON array format only. Focus on educational, family-friendly content from reputable sources like educational institutions, encyclopedias, and official organizations. Avoid social media and inappropriate content.`,
 
@@ -157,10 +276,34 @@ Be conversational, supportive, and always align with the school's mission of pro
       }
     },
 
+    // Instant answer caching
+    instantAnswers: {
+      semanticCache: env.ANSWER_SEMANTIC_CACHE === true,
+      similarityThreshold: env.ANSWER_SIMILARITY_THRESHOLD || 0.92,
+    },
+
+    // Wellbeing support
+    wellbeing: {
+      counsellor: {
+        name: env.WELLBEING_COUNSELLOR_NAME || 'the school counsellor',
+        email: env.WELLBEING_COUNSELLOR_EMAIL,
+        phone: env.WELLBEING_COUNSELLOR_PHONE,
+      },
+    },
+
     // Search API Configuration (LangSearch)
     search: {
-      apiEndpoint: env.SEARCH_API_ENDPOINT,
-      apiKey: env.SEARCH_API_KEY,
+      apiEndpoint: env.SEARCH_API_ENDPOINT || '',
+      apiKey: env.SEARCH_API_KEY || '',
+      providers: resolveSearchProviders(env),
+      mode: env.SEARCH_MODE === 'federated' ? 'federated' : 'fallback',
+      federatedDeadlineMs: env.SEARCH_FEDERATED_DEADLINE_MS || 4000,
+      autoCorrect: env.SEARCH_AUTOCORRECT !== false,
+      staffSafeSearch: env.SEARCH_STAFF_SAFESEARCH || 'moderate',
+      aiClassification: {
+        enabled: env.SEARCH_AI_CLASSIFICATION === true,
+        timeoutMs: env.SEARCH_AI_CLASSIFICATION_TIMEOUT_MS || 2500,
+      },
     },
 
     // Role Mapping Configuration
@@ -178,12 +321,14 @@ Be conversational, supportive, and always align with the school's mission of pro
       name: 'Horizon AI Search',
       schoolName: 'Horizon Christian School',
       version: '1.0.0',
-      environment: (env.ENVIRONMENT as 'development' | 'production') || 'development'
+      environment: env.ENVIRONMENT
     }
   };
 };
 
-// Create config instance - now async
+// Shared config promise - every service waits on the same validated load. Rejects
+// with a ConfigValidationError when the configuration can't be used, which App
+// shows as a startup error screen
 let configPromise: Promise<AppConfig> | null = null;
 
 export const getConfig = (): Promise<AppConfig> => {
@@ -197,6 +342,7 @@ export const getConfig = (): Promise<AppConfig> => {
 const config: AppConfig = {
   api: {
     baseUrl: window.location.origin,
+    backendUrl: 'https://search-api.horizon.sa.edu.au',
   },
   azureAd: {
     clientId: '',
@@ -207,14 +353,33 @@ const config: AppConfig = {
   openAi: {
     apiKey: '',
     model: 'gpt-4o-mini',
+    embeddingModel: 'text-embedding-3-small',
     systemPrompts: {
       search: 'You are a helpful search assistant for educational content.',
       chat: 'You are an AI assistant for educational purposes.'
     }
   },
+  instantAnswers: {
+    semanticCache: false,
+    similarityThreshold: 0.92,
+  },
+  wellbeing: {
+    counsellor: {
+      name: 'the school counsellor',
+    },
+  },
   search: {
     apiEndpoint: '',
     apiKey: '',
+    providers: [],
+    mode: 'fallback',
+    federatedDeadlineMs: 4000,
+    autoCorrect: true,
+    staffSafeSearch: 'moderate',
+    aiClassification: {
+      enabled: false,
+      timeoutMs: 2500,
+    },
   },
   roles: {
     mappings: {
@@ -302,28 +467,4 @@ export const detectUserRole = (userGroups: string[] = []): 'guest' | 'student' |
   return 'guest';
 };
 
-// Environment validation for runtime config
-export const validateRuntimeConfig = async (): Promise<boolean> => {
-  try {
-    const config = await getConfig();
-    const requiredFields = [
-      config.azureAd.clientId,
-      config.azureAd.authority,
-      config.openAi.apiKey
-    ];
-
-    const missing = requiredFields.filter(field => !field || field === 'loading...' || field === 'your-azure-client-id' || field === 'your-openai-api-key');
-
-    if (missing.length > 0 && config.app.environment === 'production') {
-      console.error('Missing required configuration values. Please update public/env.json');
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Configuration validation failed:', error);
-    return false;
-  }
-};
-
 export default config;
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { validateEnvConfig, type ConfigIssue } from './configSchema';
+
+const validEnv = {
+  BACKEND_URL: 'https://search-api.horizon.sa.edu.au',
+  AZURE_CLIENT_ID: '00000000-0000-0000-0000-000000000000',
+  AZURE_AUTHORITY: 'https://login.microsoftonline.com/horizon',
+  OPENAI_API_KEY: 'sk-test',
+  SEARCH_API_KEY: 'sk-search',
+  ENVIRONMENT: 'production',
+};
+
+const issueFor = (issues: ConfigIssue[], field: string) => issues.find((issue) => issue.field === field);
+
+describe('validateEnvConfig', () => {
+  test('accepts a complete configuration', () => {
+    const result = validateEnvConfig(validEnv);
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.config.BACKEND_URL).toBe(validEnv.BACKEND_URL);
+  });
+
+  test.each([null, 'production', 42, [validEnv]])('rejects %p as the whole file', (raw) => {
+    const result = validateEnvConfig(raw);
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ field: 'env.json', kind: 'type' })]);
+  });
+
+  test('reports missing required settings as errors in production', () => {
+    const { AZURE_CLIENT_ID, ...env } = validEnv;
+    const result = validateEnvConfig(env);
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'AZURE_CLIENT_ID')).toMatchObject({ kind: 'missing', severity: 'error' });
+  });
+
+  test('only warns about missing required settings in development', () => {
+    const { AZURE_CLIENT_ID, ...env } = validEnv;
+    const result = validateEnvConfig({ ...env, ENVIRONMENT: 'development' });
+    expect(result.valid).toBe(true);
+    expect(issueFor(result.issues, 'AZURE_CLIENT_ID')).toMatchObject({ kind: 'missing', severity: 'warning' });
+  });
+
+  test('treats values left from env.example.json as missing', () => {
+    const result = validateEnvConfig({ ...validEnv, AZURE_CLIENT_ID: 'your-azure-client-id-here' });
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'AZURE_CLIENT_ID')).toMatchObject({ kind: 'missing' });
+    expect(result.config.AZURE_CLIENT_ID).toBeUndefined();
+  });
+
+  test('warns, without failing, when recommended keys are missing', () => {
+    const result = validateEnvConfig({ ...validEnv, OPENAI_API_KEY: 'sk-your-openai-key-here' });
+    expect(result.valid).toBe(true);
+    expect(issueFor(result.issues, 'OPENAI_API_KEY')).toMatchObject({ kind: 'missing', severity: 'warning' });
+  });
+
+  test('rejects malformed URLs', () => {
+    const result = validateEnvConfig({ ...validEnv, BACKEND_URL: 'search-api.horizon.sa.edu.au' });
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'BACKEND_URL')).toMatchObject({ kind: 'url', severity: 'error' });
+  });
+
+  test('rejects non-http URLs', () => {
+    const result = validateEnvConfig({ ...validEnv, AZURE_AUTHORITY: 'ftp://login.microsoftonline.com' });
+    expect(issueFor(result.issues, 'AZURE_AUTHORITY')).toMatchObject({ kind: 'url' });
+  });
+
+  test('rejects values of the wrong type', () => {
+    const result = validateEnvConfig({ ...validEnv, AZURE_CLIENT_ID: 12345, SEARCH_AUTOCORRECT: 'yes' });
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'AZURE_CLIENT_ID')).toMatchObject({ kind: 'type', expected: 'string' });
+    expect(issueFor(result.issues, 'SEARCH_AUTOCORRECT')).toMatchObject({ kind: 'type', expected: 'boolean' });
+  });
+
+  test('rejects unknown ENVIRONMENT and SEARCH_MODE values', () => {
+    const result = validateEnvConfig({ ...validEnv, ENVIRONMENT: 'staging', SEARCH_MODE: 'parallel' });
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'ENVIRONMENT')).toMatchObject({ kind: 'enum', expected: 'development, production' });
+    expect(issueFor(result.issues, 'SEARCH_MODE')).toMatchObject({ kind: 'enum', expected: 'fallback, federated' });
+  });
+
+  test('rejects numbers outside their range', () => {
+    const result = validateEnvConfig({ ...validEnv, OPENAI_TEMPERATURE: 3, ANSWER_SIMILARITY_THRESHOLD: -0.1 });
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'OPENAI_TEMPERATURE')).toMatchObject({ kind: 'range' });
+    expect(issueFor(result.issues, 'ANSWER_SIMILARITY_THRESHOLD')).toMatchObject({ kind: 'range' });
+  });
+
+  test('converts numbers given as strings', () => {
+    const result = validateEnvConfig({ ...validEnv, OPENAI_TEMPERATURE: '0.7', OPENAI_MAX_TOKENS: '1500' });
+    expect(result.valid).toBe(true);
+    expect(result.config.OPENAI_TEMPERATURE).toBe(0.7);
+    expect(result.config.OPENAI_MAX_TOKENS).toBe(1500);
+  });
+
+  test('rejects strings that are not numbers', () => {
+    const result = validateEnvConfig({ ...validEnv, OPENAI_MAX_TOKENS: 'lots' });
+    expect(issueFor(result.issues, 'OPENAI_MAX_TOKENS')).toMatchObject({ kind: 'type', expected: 'number' });
+  });
+
+  test('checks each search provider', () => {
+    const result = validateEnvConfig({
+      ...validEnv,
+      SEARCH_PROVIDERS: [
+        { type: 'langsearch', order: 1 },
+        { order: 2, timeoutMs: 0 },
+        { type: 'searxng', instances: ['not a url'] },
+        'brave',
+      ],
+    });
+    expect(result.valid).toBe(false);
+    expect(issueFor(result.issues, 'SEARCH_PROVIDERS[0].type')).toBeUndefined();
+    expect(issueFor(result.issues, 'SEARCH_PROVIDERS[1].type')).toMatchObject({ kind: 'missing' });
+    expect(issueFor(result.issues, 'SEARCH_PROVIDERS[1].timeoutMs')).toMatchObject({ kind: 'range' });
+    expect(issueFor(result.issues, 'SEARCH_PROVIDERS[2].instances[0]')).toMatchObject({ kind: 'url' });
+    expect(issueFor(result.issues, 'SEARCH_PROVIDERS[3]')).toMatchObject({ kind: 'type', expected: 'object' });
+  });
+
+  test('rejects SEARCH_PROVIDERS that is not a list', () => {
+    const result = validateEnvConfig({ ...validEnv, SEARCH_PROVIDERS: { type: 'brave' } });
+    expect(issueFor(result.issues, 'SEARCH_PROVIDERS')).toMatchObject({ kind: 'type', expected: 'list' });
+  });
+
+  test('warns about misspelt settings without failing', () => {
+    const result = validateEnvConfig({ ...validEnv, OPENAI_MODLE: 'gpt-4' });
+    expect(result.valid).toBe(true);
+    expect(issueFor(result.issues, 'OPENAI_MODLE')).toMatchObject({ kind: 'unknown', severity: 'warning' });
+    expect(result.config).not.toHaveProperty('OPENAI_MODLE');
+  });
+});
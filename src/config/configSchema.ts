@@ -0,0 +1,259 @@
+// Runtime configuration schema
+// Describes every setting public/env.json may contain and checks a loaded file
+// against it, so a typo or a placeholder left in a deployment is reported at
+// startup instead of surfacing later as a confusing failure
+
+import type { EnvConfig } from './app-config';
+
+type FieldType = 'string' | 'url' | 'number' | 'boolean' | 'enum' | 'providers';
+
+interface FieldSchema {
+  type: FieldType;
+  // true: the app can't work without it; 'recommended': features are disabled without it
+  required?: boolean | 'recommended';
+  values?: readonly string[]; // for 'enum'
+  min?: number;
+  max?: number;
+}
+
+export type ConfigIssueKind = 'missing' | 'type' | 'url' | 'enum' | 'range' | 'unknown' | 'json';
+
+export interface ConfigIssue {
+  field: string;
+  kind: ConfigIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  expected?: string; // allowed values, type or range, for display
+}
+
+export interface ConfigValidationResult {
+  config: EnvConfig;
+  issues: ConfigIssue[];
+  valid: boolean; // no error-level issues
+}
+
+export const ENVIRONMENTS = ['development', 'production'] as const;
+export const SEARCH_MODES = ['fallback', 'federated'] as const;
+export const SAFE_SEARCH_LEVELS = ['strict', 'moderate', 'off'] as const;
+
+export const ENV_SCHEMA: Record<keyof EnvConfig, FieldSchema> = {
+  API_BASE_URL: { type: 'url' },
+  BACKEND_URL: { type: 'url', required: true },
+  AZURE_CLIENT_ID: { type: 'string', required: true },
+  AZURE_AUTHORITY: { type: 'url', required: true },
+  AZURE_REDIRECT_URI: { type: 'url' },
+  OPENAI_API_KEY: { type: 'string', required: 'recommended' },
+  OPENAI_MODEL: { type: 'string' },
+  OPENAI_TEMPERATURE: { type: 'number', min: 0, max: 2 },
+  OPENAI_MAX_TOKENS: { type: 'number', min: 1 },
+  OPENAI_EMBEDDING_MODEL: { type: 'string' },
+  ANSWER_SEMANTIC_CACHE: { type: 'boolean' },
+  ANSWER_SIMILARITY_THRESHOLD: { type: 'number', min: 0, max: 1 },
+  SEARCH_API_ENDPOINT: { type: 'url' },
+  SEARCH_API_KEY: { type: 'string', required: 'recommended' },
+  SEARCH_PROVIDERS: { type: 'providers' },
+  SEARCH_MODE: { type: 'enum', values: SEARCH_MODES },
+  SEARCH_FEDERATED_DEADLINE_MS: { type: 'number', min: 1 },
+  SEARCH_AUTOCORRECT: { type: 'boolean' },
+  SEARCH_STAFF_SAFESEARCH: { type: 'enum', values: SAFE_SEARCH_LEVELS },
+  SEARCH_AI_CLASSIFICATION: { type: 'boolean' },
+  SEARCH_AI_CLASSIFICATION_TIMEOUT_MS: { type: 'number', min: 1 },
+  WELLBEING_COUNSELLOR_NAME: { type: 'string' },
+  WELLBEING_COUNSELLOR_EMAIL: { type: 'string' },
+  WELLBEING_COUNSELLOR_PHONE: { type: 'string' },
+  ENVIRONMENT: { type: 'enum', values: ENVIRONMENTS, required: true },
+};
+
+/**
+ * Thrown by the config loader when env.json can't be used. The startup error
+ * screen lists the issues
+ */
+export class ConfigValidationError extends Error {
+  constructor(public issues: ConfigIssue[], public source: 'env.json' | 'build') {
+    super(`Invalid configuration (${source}): ${issues.map((issue) => issue.message).join('; ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+// The values env.example.json ships with, e.g. "your-azure-client-id-here"
+const isPlaceholder = (value: string) => /your-[\w-]*-here/i.test(value);
+
+const isUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+const describeType = (value: unknown) => (Array.isArray(value) ? 'list' : value === null ? 'null' : typeof value);
+
+const describeRange = (schema: FieldSchema) =>
+  schema.max === undefined ? `≥ ${schema.min}` : `${schema.min}–${schema.max}`;
+
+/**
+ * Check one value against its schema. Returns the value to use (numbers given
+ * as strings are converted, placeholders become empty) and any issues
+ */
+const checkField = (field: string, value: unknown, schema: FieldSchema): { value: unknown; issues: ConfigIssue[] } => {
+  const issue = (kind: ConfigIssueKind, message: string, expected?: string): ConfigIssue => ({
+    field,
+    kind,
+    severity: 'error',
+    message,
+    expected,
+  });
+
+  if (value === undefined || value === null || value === '' || (typeof value === 'string' && isPlaceholder(value))) {
+    if (schema.required === true) {
+      return { value: undefined, issues: [issue('missing', `${field} is required`)] };
+    }
+    if (schema.required === 'recommended') {
+      return { value: undefined, issues: [{ ...issue('missing', `${field} is not set - features that need it are disabled`), severity: 'warning' }] };
+    }
+    return { value: undefined, issues: [] };
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'url': {
+      if (typeof value !== 'string') {
+        return { value: undefined, issues: [issue('type', `${field} must be a string, not ${describeType(value)}`, 'string')] };
+      }
+      if (schema.type === 'url' && !isUrl(value)) {
+        return { value: undefined, issues: [issue('url', `${field} must be an http(s) URL, got "${value}"`)] };
+      }
+      return { value, issues: [] };
+    }
+
+    case 'number': {
+      // env.example.json has always quoted some numbers
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || Number.isNaN(number)) {
+        return { value: undefined, issues: [issue('type', `${field} must be a number, not ${describeType(value)}`, 'number')] };
+      }
+      if ((schema.min !== undefined && number < schema.min) || (schema.max !== undefined && number > schema.max)) {
+        return { value: undefined, issues: [issue('range', `${field} must be ${describeRange(schema)}, got ${number}`, describeRange(schema))] };
+      }
+      return { value: number, issues: [] };
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return { value: undefined, issues: [issue('type', `${field} must be true or false, not ${describeType(value)}`, 'boolean')] };
+      }
+      return { value, issues: [] };
+
+    case 'enum': {
+      const values = schema.values || [];
+      if (typeof value !== 'string' || !values.includes(value)) {
+        return { value: undefined, issues: [issue('enum', `${field} must be one of ${values.join(', ')}, got ${JSON.stringify(value)}`, values.join(', '))] };
+      }
+      return { value, issues: [] };
+    }
+
+    case 'providers':
+      return checkProviders(field, value);
+  }
+};
+
+const PROVIDER_SCHEMA: Record<string, FieldSchema> = {
+  type: { type: 'string', required: true },
+  name: { type: 'string' },
+  enabled: { type: 'boolean' },
+  order: { type: 'number' },
+  apiKey: { type: 'string' },
+  endpoint: { type: 'url' },
+  timeoutMs: { type: 'number', min: 1 },
+};
+
+const checkProviders = (field: string, value: unknown): { value: unknown; issues: ConfigIssue[] } => {
+  if (!Array.isArray(value)) {
+    return {
+      value: undefined,
+      issues: [{ field, kind: 'type', severity: 'error', message: `${field} must be a list, not ${describeType(value)}`, expected: 'list' }],
+    };
+  }
+
+  const issues: ConfigIssue[] = [];
+  const providers = value.map((provider, index) => {
+    const prefix = `${field}[${index}]`;
+    if (!provider || typeof provider !== 'object' || Array.isArray(provider)) {
+      issues.push({ field: prefix, kind: 'type', severity: 'error', message: `${prefix} must be an object`, expected: 'object' });
+      return provider;
+    }
+
+    const checked: Record<string, unknown> = { ...provider };
+    Object.entries(PROVIDER_SCHEMA).forEach(([key, schema]) => {
+      const result = checkField(`${prefix}.${key}`, (provider as Record<string, unknown>)[key], schema);
+      if (result.value === undefined) {
+        delete checked[key];
+      } else {
+        checked[key] = result.value;
+      }
+      issues.push(...result.issues);
+    });
+
+    const instances = (provider as Record<string, unknown>).instances;
+    if (instances !== undefined) {
+      if (!Array.isArray(instances)) {
+        issues.push({ field: `${prefix}.instances`, kind: 'type', severity: 'error', message: `${prefix}.instances must be a list of URLs`, expected: 'list' });
+      } else {
+        instances.forEach((instance, i) => {
+          issues.push(...checkField(`${prefix}.instances[${i}]`, instance, { type: 'url', required: true }).issues);
+        });
+      }
+    }
+
+    return checked;
+  });
+
+  return { value: providers, issues };
+};
+
+/**
+ * Validate a parsed env.json (or the build-time equivalent). Required settings
+ * that are missing only warn in development, so the app still starts locally
+ * with its fallbacks; values of the wrong type or format are always errors
+ */
+export const validateEnvConfig = (raw: unknown): ConfigValidationResult => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      config: {} as EnvConfig,
+      issues: [{ field: 'env.json', kind: 'type', severity: 'error', message: `env.json must contain an object, not ${describeType(raw)}`, expected: 'object' }],
+      valid: false,
+    };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const config: Record<string, unknown> = {};
+  const issues: ConfigIssue[] = [];
+
+  (Object.keys(ENV_SCHEMA) as Array<keyof EnvConfig>).forEach((field) => {
+    const result = checkField(field, input[field], ENV_SCHEMA[field]);
+    if (result.value !== undefined) {
+      config[field] = result.value;
+    }
+    issues.push(...result.issues);
+  });
+
+  // Usually a misspelt setting, which would otherwise be silently ignored
+  Object.keys(input)
+    .filter((field) => !(field in ENV_SCHEMA))
+    .forEach((field) => {
+      issues.push({ field, kind: 'unknown', severity: 'warning', message: `${field} is not a known setting and is ignored` });
+    });
+
+  if (config.ENVIRONMENT === 'development') {
+    issues.forEach((issue) => {
+      if (issue.kind === 'missing') issue.severity = 'warning';
+    });
+  }
+
+  return {
+    config: config as unknown as EnvConfig,
+    issues,
+    valid: issues.every((issue) => issue.severity !== 'error'),
+  };
+};
@@ -1,5 +1,6 @@
 import { Configuration, LogLevel, PublicClientApplication } from '@azure/msal-browser';
 import { getConfig } from './app-config';
+import { ConfigValidationError } from './configSchema';
 
 // Initialize with fallback values
 const fallbackConfig: Configuration = {
@@ -120,6 +121,11 @@ const initializeMSALInternal = async (): Promise<PublicClientApplication> => {
 
     return msalInstance;
   } catch (error) {
+    // A configuration the schema rejects is shown on the startup error screen, not papered over
+    if (error instanceof ConfigValidationError) {
+      throw error;
+    }
+
     console.error('❌ Failed to initialize MSAL with runtime config, using fallback:', error);
     // Create fallback instance if main config failed
     msalInstance = new PublicClientApplication(fallbackConfig);
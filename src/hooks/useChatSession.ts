@@ -0,0 +1,188 @@
+import { useCallback, useRef, useState } from 'react';
+import { AISearchService, type ChatCompletionResult } from '../services/aiSearchService';
+import backendService, { type ChatMessage } from '../services/backendService';
+import breadcrumbService from '../services/breadcrumbService';
+
+// Rough token estimate (~4 characters per token) for when the API doesn't report usage
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const buildTitle = (firstMessage: string): string =>
+  firstMessage.length > 60 ? `${firstMessage.substring(0, 57)}...` : firstMessage;
+
+/**
+ * Hook that keeps a staff chat conversation in sync with a backend ChatSession
+ * Creates the session on the first message and appends every turn with token counts
+ */
+export function useChatSession() {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [title, setTitle] = useState<string>('');
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Partial assistant reply while tokens are streaming in
+  const [streamingReply, setStreamingReply] = useState('');
+
+  // Refs so sendMessage always sees the latest conversation without re-creating callbacks
+  const sessionIdRef = useRef<string | null>(null);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped whenever the conversation is switched so late replies don't land in the wrong one
+  const conversationRef = useRef(0);
+
+  const updateMessages = useCallback((next: ChatMessage[]) => {
+    messagesRef.current = next;
+    setMessages(next);
+  }, []);
+
+  const updateSessionId = useCallback((next: string | null) => {
+    sessionIdRef.current = next;
+    setSessionId(next);
+  }, []);
+
+  // Stops the in-flight reply; any text streamed so far is kept
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  const switchConversation = useCallback(() => {
+    conversationRef.current += 1;
+    cancel();
+    setStreamingReply('');
+    setIsSending(false);
+  }, [cancel]);
+
+  const reset = useCallback(() => {
+    switchConversation();
+    updateSessionId(null);
+    updateMessages([]);
+    setTitle('');
+  }, [switchConversation, updateSessionId, updateMessages]);
+
+  const loadSession = useCallback(async (id: string): Promise<boolean> => {
+    switchConversation();
+    const conversation = conversationRef.current;
+    setIsRestoring(true);
+    try {
+      const session = await backendService.getChatSession(id);
+      if (conversation !== conversationRef.current) {
+        // Another conversation was opened while this one was loading
+        return false;
+      }
+      if (!session) {
+        return false;
+      }
+
+      updateSessionId(session.sessionId);
+      updateMessages(session.messages || []);
+      setTitle(session.title);
+      console.log('💬 Chat session restored:', session.sessionId, session.messages?.length || 0, 'messages');
+      return true;
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [switchConversation, updateSessionId, updateMessages]);
+
+  const sendMessage = useCallback(async (content: string): Promise<string> => {
+    const conversation = conversationRef.current;
+    const controller = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = controller;
+    setIsSending(true);
+    setStreamingReply('');
+
+    const userMessage: ChatMessage = {
+      role: 'user',
+      content,
+      timestamp: new Date().toISOString(),
+      tokens: { input: estimateTokens(content), output: 0 },
+    };
+    const history = [...messagesRef.current, userMessage];
+    updateMessages(history);
+
+    try {
+      // Create the backend session lazily on the first message
+      let activeSessionId = sessionIdRef.current;
+      if (!activeSessionId) {
+        const newTitle = buildTitle(content);
+        activeSessionId = await backendService.createChatSession(newTitle);
+        if (activeSessionId && conversation === conversationRef.current) {
+          updateSessionId(activeSessionId);
+          setTitle(newTitle);
+          breadcrumbService.addRecentChat({ sessionId: activeSessionId, title: newTitle });
+        }
+      }
+
+      if (activeSessionId) {
+        await backendService.addChatMessage(activeSessionId, 'user', content, userMessage.tokens);
+      }
+
+      let partial = '';
+      let reply: ChatCompletionResult;
+      try {
+        reply = await AISearchService.chatWithAI(
+          history.map(({ role, content: text }) => ({ role, content: text })),
+          {
+            signal: controller.signal,
+            onToken: (_token, fullText) => {
+              partial = fullText;
+              if (conversation === conversationRef.current) {
+                setStreamingReply(fullText);
+              }
+            },
+          }
+        );
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          throw error;
+        }
+        // Stopped by the user - keep whatever was generated so far
+        reply = { content: partial };
+      }
+
+      if (conversation !== conversationRef.current || !reply.content) {
+        return '';
+      }
+
+      const tokens = reply.tokens || {
+        input: history.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+        output: estimateTokens(reply.content),
+      };
+
+      const assistantMessage: ChatMessage = {
+        role: 'assistant',
+        content: reply.content,
+        timestamp: new Date().toISOString(),
+        tokens,
+      };
+      updateMessages([...history, assistantMessage]);
+
+      if (activeSessionId) {
+        await backendService.addChatMessage(activeSessionId, 'assistant', reply.content, tokens);
+      }
+
+      return reply.content;
+    } finally {
+      if (conversation === conversationRef.current) {
+        setIsSending(false);
+        setStreamingReply('');
+      }
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
+  }, [updateMessages, updateSessionId]);
+
+  return {
+    sessionId,
+    title,
+    messages,
+    isSending,
+    isRestoring,
+    streamingReply,
+    sendMessage,
+    cancel,
+    loadSession,
+    reset,
+  };
+}
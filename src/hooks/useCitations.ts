@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import citationService, { type CitationStyle } from '../services/citationService';
+
+/**
+ * Hook that exposes the shared bibliography and preferred citation style
+ * Every cite button, export menu and the bibliography dialog stay in sync through citationService
+ */
+export function useCitations() {
+  const [bibliography, setBibliography] = useState(citationService.getBibliography());
+  const [style, setStyleState] = useState<CitationStyle>(citationService.getPreferredStyle());
+
+  useEffect(() => {
+    const sync = () => {
+      setBibliography(citationService.getBibliography());
+      setStyleState(citationService.getPreferredStyle());
+    };
+
+    sync();
+    return citationService.subscribe(sync);
+  }, []);
+
+  const setStyle = useCallback((next: CitationStyle) => {
+    citationService.setPreferredStyle(next);
+  }, []);
+
+  return { bibliography, style, setStyle };
+}
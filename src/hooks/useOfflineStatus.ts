@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import offlineService from '../services/offlineService';
+
+/**
+ * Hook that tracks the connection and how many writes are waiting to sync
+ */
+export function useOfflineStatus() {
+  const [isOnline, setIsOnline] = useState(offlineService.isOnline());
+  const [queuedWrites, setQueuedWrites] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    const sync = () => {
+      setIsOnline(offlineService.isOnline());
+      offlineService.getQueueSize().then((size) => {
+        if (active) setQueuedWrites(size);
+      });
+    };
+
+    sync();
+    const unsubscribe = offlineService.subscribe(sync);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { isOnline, queuedWrites };
+}
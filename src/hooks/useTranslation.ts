@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react';
+import i18nService, { type SupportedLanguage } from '../services/i18nService';
+
+/**
+ * Hook that exposes i18nService to components
+ * Re-renders the component whenever the language changes so translated strings stay current
+ */
+export function useTranslation() {
+  const [language, setLanguageState] = useState<SupportedLanguage>(i18nService.getLanguage());
+
+  useEffect(() => {
+    // Pick up a change made between the first render and subscribing
+    setLanguageState(i18nService.getLanguage());
+    return i18nService.subscribe(setLanguageState);
+  }, []);
+
+  const setLanguage = useCallback((lang: SupportedLanguage) => {
+    i18nService.setLanguage(lang);
+  }, []);
+
+  return {
+    t: i18nService.t,
+    language,
+    setLanguage,
+    isRTL: language === 'ar',
+    languages: i18nService.getAllLanguages(),
+  };
+}
@@ -0,0 +1,617 @@
+import type { Translation } from '.';
+
+const ar: Translation = {
+  common: {
+    search: 'بحث',
+    loading: 'جاري التحميل...',
+    error: 'خطأ',
+    retry: 'إعادة المحاولة',
+    cancel: 'إلغاء',
+    save: 'حفظ',
+    delete: 'حذف',
+    edit: 'تعديل',
+    close: 'إغلاق',
+    yes: 'نعم',
+    no: 'لا',
+    create: 'إنشاء',
+    update: 'تحديث',
+    refresh: 'تحديث',
+    saving: 'جاري الحفظ...',
+    actions: 'الإجراءات',
+    active: 'نشط',
+    inactive: 'غير نشط',
+    all: 'الكل',
+    unknown: 'غير معروف',
+    accessDenied: 'تم رفض الوصول - للموظفين فقط',
+  },
+  search: {
+    placeholder: 'البحث عن محتوى تعليمي...',
+    voiceSearch: 'البحث الصوتي',
+    advancedFilters: 'فلاتر متقدمة',
+    results: 'نتائج',
+    noResults: 'لم يتم العثور على نتائج',
+    aiAnswer: 'إجابة الذكاء الاصطناعي',
+    webResults: 'نتائج الويب',
+    export: 'تصدير النتائج',
+    bookmark: 'إضافة إلى المفضلة',
+    titleSearch: 'بحث Horizon الذكي',
+    titleChat: 'مساعد Horizon الذكي',
+    modeSearch: 'وضع البحث - نتائج فورية',
+    modeChat: 'وضع المحادثة - اضغط Enter للإرسال',
+    welcomeBack: 'مرحباً بعودتك، {{name}}!',
+    introChat: 'تحدث مع مساعدك التعليمي الذكي للحصول على دعم مخصص.',
+    introStaff: 'استخدم أدوات التدريس المدعومة بالذكاء الاصطناعي والموارد التعليمية.',
+    introStudent: 'اكتشف واجباتك ومواد الدراسة والموارد الأكاديمية.',
+    introGuest: 'اكتشف كل شيء عن Horizon Christian School من خلال البحث الذكي.',
+    placeholderChat: 'اكتب سؤالك واضغط Enter للتحدث مع المساعد الذكي...',
+    placeholderGuest: 'ابحث في معلومات المدرسة...',
+    placeholderStaff: 'ابحث عن موارد التدريس، وأنشئ معايير التقييم وخطط الدروس...',
+    placeholderStudent: 'ابحث عن الواجبات ومواد الدراسة والموارد...',
+    recentSearches: 'عمليات البحث الأخيرة:',
+    resultsHeading: 'نتائج البحث ({{count}})',
+    saveToBookmarks: 'حفظ في الإشارات المرجعية',
+    noResultsFor: 'لم يتم العثور على نتائج لـ "{{query}}"',
+    noResponseFor: 'لم يتم إنشاء رد لـ "{{query}}"',
+    tryRephrasing: 'حاول إعادة صياغة سؤالك أو اسأل عن شيء آخر.',
+    tryAdjusting: 'حاول تعديل كلمات البحث أو تصفح الروابط السريعة.',
+    readyToChat: 'هل أنت مستعد للمحادثة؟',
+    readyToExplore: 'هل أنت مستعد للاستكشاف؟',
+    chatPrompt: 'اسأل مساعدك الذكي عن التدريس أو تخطيط الدروس أو دعم الطلاب.',
+    explorePrompt: 'ابدأ الكتابة لاكتشاف موارد وأدوات رائعة.',
+    blocked: 'تم حظر البحث: {{reasons}}. يرجى تعديل عبارة البحث.',
+    inappropriateContent: 'تم اكتشاف محتوى غير لائق',
+    failed: 'فشل البحث. يرجى المحاولة مرة أخرى.',
+    continueTyping: 'تابع الكتابة للبحث...',
+    analyzing: 'الذكاء الاصطناعي يحلل بحثك...',
+    recent: 'الأخيرة:',
+    refreshRecent: 'تحديث العناصر الأخيرة',
+    viaProviders: 'عبر {{providers}}',
+    foundBy: 'عُثر عليه بواسطة: {{providers}}',
+    flagged: 'مُعلَّم',
+    flaggedReason: 'علّمته إدارة المحتوى في المدرسة: {{reason}}',
+    flaggedNoReason: 'علّمته إدارة المحتوى في المدرسة - استخدمه بحذر',
+    aiCaution: 'الذكاء الاصطناعي: تنبيه',
+    aiCautionReason: 'ملاءمة الذكاء الاصطناعي {{score}}%: {{reason}}',
+    loadMore: 'تحميل المزيد من النتائج',
+    loadingMore: 'جارٍ تحميل المزيد...',
+    operatorPhrase: 'عبارة مطابقة: {{value}}',
+    operatorExclude: 'استبعاد النتائج التي تذكر "{{value}}"',
+    operatorSite: 'نتائج من {{value}} فقط',
+    operatorExcludeSite: 'لا نتائج من {{value}}',
+    operatorFileType: 'ملفات {{value}} فقط',
+    didYouMean: 'هل تقصد:',
+    showingResultsFor: 'عرض نتائج',
+    searchInsteadFor: 'البحث بدلاً من ذلك عن',
+  },
+  answer: {
+    label: 'إجابة الذكاء الاصطناعي',
+    quickAnswerFor: 'إجابة سريعة لـ "{{query}}"',
+    writing: 'جاري الكتابة...',
+    confidenceHigh: 'ثقة عالية',
+    confidenceMedium: 'ثقة متوسطة',
+    confidenceLow: 'ثقة منخفضة',
+    sourcesUsed: 'المصادر المستخدمة في هذه الإجابة:',
+    moreSources: '+{{count}} أخرى',
+    disclaimer: 'تم إنشاء هذه الإجابة بواسطة الذكاء الاصطناعي. يرجى التحقق من المعلومات المهمة ومراجعة المصادر أدناه لمزيد من التفاصيل.',
+    aiInfo: 'يتم إنشاء هذه الإجابة بواسطة الذكاء الاصطناعي بناءً على نتائج البحث. تحقق دائمًا من المعلومات المهمة.',
+    readAloud: 'القراءة بصوت عالٍ',
+    stopReading: 'إيقاف القراءة',
+  },
+  voice: {
+    start: 'بدء البحث الصوتي',
+    stop: 'إيقاف البحث الصوتي',
+    unsupported: 'البحث الصوتي غير مدعوم في هذا المتصفح',
+    listening: 'جارٍ الاستماع...',
+    clickToStop: 'انقر على الميكروفون مرة أخرى للإيقاف',
+    errorNoSpeech: 'لم يتم اكتشاف أي كلام. يرجى المحاولة مرة أخرى.',
+    errorAudioCapture: 'لم يتم العثور على ميكروفون. يرجى التحقق من الميكروفون.',
+    errorNotAllowed: 'تم رفض إذن الميكروفون. يرجى السماح بالوصول إلى الميكروفون.',
+    errorNetwork: 'حدث خطأ في الشبكة. يرجى التحقق من اتصالك.',
+    errorAborted: 'تم إلغاء التعرف على الكلام.',
+    errorGeneric: 'حدث خطأ في التعرف على الصوت.',
+    startFailed: 'تعذر بدء التعرف على الصوت',
+  },
+  chat: {
+    mode: 'محادثة',
+    failed: 'فشلت المحادثة. يرجى المحاولة مرة أخرى.',
+    openFailed: 'تعذر فتح هذه المحادثة. ربما تم حذفها.',
+    newConversation: 'محادثة جديدة',
+    conversations: 'المحادثات',
+    newChat: 'محادثة جديدة',
+    stop: 'إيقاف',
+    thinking: 'المساعد الذكي يفكر...',
+    processing: 'جاري معالجة طلبك',
+    noConversations: 'لا توجد محادثات محفوظة بعد. ابدأ المحادثة وستظهر محادثاتك هنا.',
+    title: 'العنوان',
+    tags: 'الوسوم',
+    tagPlaceholder: 'اكتب وسماً واضغط Enter',
+    renameTag: 'إعادة تسمية / وسم',
+    messageCount: '{{count}} رسائل',
+  },
+  filters: {
+    dateRange: 'نطاق التاريخ',
+    contentType: 'نوع المحتوى',
+    sources: 'المصادر',
+    category: 'الفئة',
+    all: 'الكل',
+    educational: 'تعليمي',
+    news: 'أخبار',
+    reference: 'مرجع',
+    title: 'عوامل التصفية',
+    reset: 'مسح عوامل التصفية',
+    anyTime: 'أي وقت',
+    pastDay: 'آخر 24 ساعة',
+    pastWeek: 'الأسبوع الماضي',
+    pastMonth: 'الشهر الماضي',
+    pastYear: 'العام الماضي',
+    anyFileType: 'أي نوع ملف',
+    filePdf: 'PDF',
+    fileDoc: 'مستندات Word',
+    filePpt: 'عروض تقديمية',
+    fileXls: 'جداول بيانات',
+    categoryAny: 'كل الفئات',
+    tutorial: 'شرح تعليمي',
+    general: 'معلومات عامة',
+    includeSites: 'هذه المواقع فقط',
+    excludeSites: 'استبعاد مواقع',
+    sitesPlaceholder: 'مثل bbc.co.uk, nasa.gov',
+  },
+  suggestions: {
+    history: 'حديث',
+    popular: 'شائع',
+    quickLink: 'رابط سريع',
+    correction: 'الإملاء',
+    didYouMean: 'هل تقصد: {{query}}',
+  },
+  auth: {
+    signIn: 'تسجيل الدخول',
+    signOut: 'تسجيل الخروج',
+    welcome: 'مرحباً',
+    student: 'طالب',
+    staff: 'موظف',
+    guest: 'ضيف',
+    role: 'الدور: {{role}}',
+    dialogTitle: 'تسجيل الدخول إلى Horizon Christian School',
+    dialogIntro: 'ادخل إلى لوحتك الشخصية التي تضم الواجبات والموارد والأدوات.',
+    signInWithMicrosoft: 'تسجيل الدخول باستخدام Microsoft',
+    signingIn: 'جاري تسجيل الدخول...',
+    rememberMe: 'تذكرني لمدة 30 يوماً',
+    benefitsTitle: 'ما ستحصل عليه:',
+    benefitSearch: 'نتائج بحث مخصصة',
+    benefitAssignments: 'الوصول إلى الواجبات والدرجات',
+    benefitLinks: 'روابط سريعة حسب الدور',
+    benefitAssistance: 'مساعدة تعليمية بالذكاء الاصطناعي',
+    loginFailed: 'فشل تسجيل الدخول. يرجى المحاولة مرة أخرى.',
+    redirectSigningIn: 'جاري تسجيل دخولك...',
+    redirectWait: 'يرجى الانتظار حتى نكمل عملية المصادقة.',
+    redirectError: 'خطأ في المصادقة',
+    redirectErrorBack: 'جاري إعادتك إلى الصفحة الرئيسية...',
+    redirectComplete: 'اكتملت المصادقة',
+    redirectCompleteBack: 'جاري توجيهك إلى الصفحة الرئيسية...',
+    authFailed: 'فشلت المصادقة. يرجى المحاولة مرة أخرى.',
+  },
+  header: {
+    schoolName: 'Horizon Christian School',
+    tagline: 'تعليم مسيحي تحويلي للجميع',
+    analytics: 'التحليلات',
+    moderation: 'الإشراف',
+    wellbeing: 'الرفاهية',
+    bookmarks: 'الإشارات المرجعية',
+    support: 'الدعم',
+    login: 'تسجيل الدخول',
+    logout: 'تسجيل الخروج',
+    language: 'اللغة',
+    bibliography: 'قائمة المراجع',
+  },
+  sidePanel: {
+    enhanced: 'محسّن',
+    standard: 'قياسي',
+    active: 'نشط',
+    quickLinks: 'روابط سريعة',
+    noLinks: 'لا توجد روابط متاحة لدورك.',
+    readingLevel: 'مستوى القراءة',
+    grade: 'الصف {{grade}}',
+    gradeCollege: 'الجامعة',
+    gradeAdult: 'البالغون',
+  },
+  bookmarks: {
+    title: 'إشاراتي المرجعية',
+    exportAll: 'تصدير كل الإشارات المرجعية',
+    allBookmarks: 'كل الإشارات المرجعية ({{count}})',
+    favourites: 'المفضلة ({{count}})',
+    filterByTag: 'تصفية حسب الوسم',
+    selectedCount: 'تم تحديد {{count}}',
+    bookmarkCount: '{{count}} إشارات مرجعية',
+    deleteSelected: 'حذف المحدد',
+    empty: 'لا توجد إشارات مرجعية بعد. استخدم زر الإشارة المرجعية على إجابة أو نتيجة لحفظها هنا.',
+    noMatches: 'لا توجد إشارات مرجعية تطابق عوامل التصفية الحالية.',
+    addFavourite: 'إضافة إلى المفضلة',
+    removeFavourite: 'إزالة من المفضلة',
+    editNotes: 'تعديل الملاحظات',
+    notesPlaceholder: 'أضف ملاحظاتك...',
+    saveNotes: 'حفظ الملاحظات',
+    saveTitle: 'حفظ في الإشارات المرجعية',
+    folder: 'المجلد',
+    folderHelp: 'استخدم / لإنشاء مجلدات فرعية، مثل العلوم/التمثيل الضوئي',
+    notes: 'ملاحظات',
+    notesPrompt: 'ما الذي كان مفيداً في هذا؟',
+    saveFailed: 'تعذر حفظ الإشارة المرجعية. يرجى المحاولة مرة أخرى.',
+  },
+  export: {
+    tooltip: 'تصدير',
+    pdf: 'تنزيل PDF',
+    print: 'طباعة',
+    html: 'تصدير بصيغة HTML',
+    text: 'تصدير كنص',
+    json: 'تصدير بصيغة JSON',
+    includeCitations: 'تضمين الاستشهادات',
+    includeCitationsHint: 'مراجع منسقة لكل مصدر',
+    exportSelected: 'تصدير الإشارات المرجعية المحددة',
+    exportFolder: 'تصدير هذا المجلد',
+    exportChat: 'تصدير المحادثة',
+    allBookmarks: 'كل الإشارات المرجعية',
+    favourites: 'المفضلة',
+    aiAnswer: 'إجابة الذكاء الاصطناعي',
+    resultCount: '{{count}} نتيجة',
+    query: 'البحث: {{query}}',
+    bookmarkFolderTitle: 'الإشارات المرجعية: {{folder}}',
+    bookmarkCount: '{{count}} إشارة مرجعية',
+    messageCount: '{{count}} رسالة · بدأت في {{date}}',
+    you: 'أنت',
+    assistant: 'المساعد',
+    exportedOn: 'تم التصدير في {{date}}',
+    references: 'المراجع',
+  },
+  citations: {
+    style: 'نمط الاستشهاد',
+    cite: 'استشهد بهذه النتيجة',
+    citeSource: 'استشهد بهذا المصدر',
+    citeSources: 'استشهد بهذه المصادر',
+    citeSourcesShort: 'استشهاد',
+    copy: 'نسخ الاستشهاد',
+    copied: 'تم النسخ!',
+    addToBibliography: 'إضافة إلى قائمة المراجع',
+    inBibliography: 'موجود في قائمة مراجعك',
+    addAll: 'إضافة الكل إلى قائمة المراجع',
+    viewBibliography: 'قائمة المراجع ({{count}})',
+    bibliography: 'قائمة المراجع',
+    emptyBibliography: 'قائمة مراجعك فارغة. استخدم زر الاستشهاد في أي نتيجة لإضافة مصادر.',
+    remove: 'إزالة',
+    clearAll: 'مسح الكل',
+    copyBibliography: 'نسخ قائمة المراجع',
+  },
+  support: {
+    title: 'طلب الدعم',
+    success: 'تم إرسال طلب الدعم بنجاح! سيتواصل معك فريقنا قريباً.',
+    intro: 'هل تحتاج إلى مساعدة؟ فريق الدعم التقني هنا لمساعدتك في المشكلات التقنية والأسئلة.',
+    email: 'الدعم عبر البريد الإلكتروني',
+    phone: 'الدعم الهاتفي',
+    liveChat: 'الدردشة المباشرة',
+    hours: 'الإثنين-الجمعة 8 ص - 5 م',
+    user: 'المستخدم:',
+    role: 'الدور:',
+    requestType: 'نوع الطلب',
+    typeTechnical: 'مشكلة تقنية',
+    typeAccount: 'الوصول إلى الحساب',
+    typePassword: 'إعادة تعيين كلمة المرور',
+    typeApplication: 'دعم التطبيقات',
+    typeTraining: 'طلب تدريب',
+    typeOther: 'أخرى',
+    description: 'الوصف',
+    descriptionPlaceholder: 'يرجى وصف مشكلتك أو سؤالك بالتفصيل...',
+    descriptionHelp: 'أضف أي رسائل خطأ أو خطوات جربتها أو تفاصيل محددة',
+    submit: 'إرسال الطلب',
+    submitting: 'جاري الإرسال...',
+  },
+  admin: {
+    verifying: 'جاري التحقق من صلاحيات المسؤول...',
+    title: 'لوحة تحكم المسؤول',
+    subtitle: 'بوابة إدارة Horizon School Search',
+    role: 'الدور: {{role}}',
+    itAdministrator: 'مسؤول تقنية المعلومات',
+    tabQuickLinks: 'روابط سريعة',
+    tabModeration: 'الإشراف على المحتوى',
+    tabAnalytics: 'التحليلات',
+    tabProviders: 'موفرو البحث',
+    tabCache: 'ذاكرة التخزين المؤقت',
+    tabSettings: 'إعدادات النظام',
+    settingsComingSoon: 'خيارات إعداد النظام المتقدمة قادمة قريباً...',
+    footer: 'بوابة إدارة Horizon School Search © {{year}}',
+  },
+  providers: {
+    title: 'موفرو البحث',
+    description: 'تتم تجربة الموفرين بالترتيب. بعد إخفاقات متكررة يتم تخطي الموفر لفترة تهدئة. تشمل الإحصاءات عمليات البحث في هذا المتصفح منذ فتحه.',
+    resetCircuits: 'إعادة تعيين الدوائر',
+    noneConfigured: 'لم يتم إعداد أي موفر بحث.',
+    provider: 'الموفر',
+    status: 'الحالة',
+    successRate: 'معدل النجاح',
+    requests: 'الطلبات',
+    consecutiveFailures: 'إخفاقات متتالية',
+    lastError: 'آخر خطأ',
+    healthy: 'سليم',
+    degraded: 'متراجع',
+    open: 'متخطى',
+    openHint: 'متخطى لمدة {{seconds}} ثانية أخرى بعد إخفاقات متكررة',
+    halfOpen: 'إعادة المحاولة',
+    unavailable: 'غير متاح',
+    noData: 'لا توجد بيانات بعد',
+  },
+  cache: {
+    title: 'ذاكرة التخزين المؤقت',
+    description: 'تُحفظ نتائج البحث وإجابات الذكاء الاصطناعي والمحادثات والاقتراحات في الذاكرة وفي تخزين المتصفح لتجنب تكرار الطلبات عبر الشبكة. تغطي الإحصاءات هذا المتصفح منذ فتحه.',
+    clearAll: 'مسح الكل',
+    clear: 'مسح',
+    hitRate: 'معدل الإصابة',
+    hits: 'الإصابات',
+    stale: 'قديمة',
+    misses: 'الإخفاقات',
+    evictions: 'عمليات الإزالة',
+    memory: 'الذاكرة',
+    persistent: 'تخزين المتصفح',
+    unavailable: 'غير متاح',
+    persistentUnavailable: 'تخزين المتصفح غير متاح هنا، لذا تبقى ذاكرة التخزين المؤقت في الذاكرة فقط وتُفرغ عند إعادة التحميل.',
+    namespace: 'النطاق',
+    entries: 'الإدخالات',
+    size: 'الحجم',
+    namespaceSearch: 'نتائج البحث',
+    namespaceAnswers: 'إجابات الذكاء الاصطناعي',
+    namespaceChat: 'المحادثات',
+    namespaceSuggestions: 'الاقتراحات',
+    namespaceOffline: 'نسخ دون اتصال',
+  },
+  offline: {
+    banner: 'أنت غير متصل. لا تزال عمليات البحث السابقة والإشارات المرجعية متاحة.',
+    queued: 'ستتم مزامنة {{count}} تغييرات عند عودتك إلى الاتصال.',
+    syncing: 'تمت استعادة الاتصال - جارٍ مزامنة {{count}} تغييرات...',
+    browseSaved: 'تصفح المحفوظات',
+    libraryTitle: 'متاح دون اتصال',
+    savedSearches: 'عمليات البحث الأخيرة',
+    savedSearchDetails: '{{count}} نتيجة · حُفظت في {{date}}',
+    noSavedSearches: 'لا توجد عمليات بحث محفوظة بعد. تُحفظ عمليات البحث التي تجريها متصلاً هنا لمدة أسبوع.',
+    savedBookmarks: 'الإشارات المرجعية',
+    noSavedBookmarks: 'لا توجد إشارات مرجعية محفوظة بعد. افتح إشاراتك المرجعية أثناء الاتصال للاحتفاظ بنسخة.',
+    updateAvailable: 'يتوفر إصدار جديد من Horizon Search.',
+    reload: 'إعادة التحميل',
+    later: 'لاحقاً',
+  },
+  config: {
+    title: 'لم يتم تكوين Horizon Search بشكل صحيح',
+    descriptionFile: 'تحتوي إعدادات env.json على مشكلات تمنع بدء التطبيق:',
+    descriptionBuild: 'تحتوي إعدادات البناء على مشكلات تمنع بدء التطبيق:',
+    issueMissing: 'إعداد مطلوب مفقود أو لا يزال قيمة مؤقتة',
+    issueType: 'نوع غير صحيح - المتوقع {{expected}}',
+    issueUrl: 'ليس عنوان URL صالحًا من نوع http(s)',
+    issueEnum: 'يجب أن يكون أحد: {{expected}}',
+    issueRange: 'يجب أن يكون ضمن النطاق {{expected}}',
+    issueUnknown: 'إعداد غير معروف - تحقق من الإملاء',
+    issueJson: 'الملف ليس JSON صالحًا',
+    help: 'صحّح الإعدادات وأعد التحميل، أو تواصل مع مسؤول الموقع.',
+    reload: 'إعادة التحميل',
+  },
+  links: {
+    title: 'إدارة الروابط السريعة',
+    add: 'إضافة رابط',
+    category: 'الفئة',
+    status: 'الحالة',
+    role: 'الدور',
+    clearFilters: 'مسح عوامل التصفية',
+    empty: 'لم يتم العثور على روابط سريعة.',
+    emptyFiltered: 'حاول تعديل عوامل التصفية.',
+    emptyStart: 'أنشئ أول رابط للبدء.',
+    columnTitle: 'العنوان',
+    columnUrl: 'الرابط',
+    columnRoles: 'الأدوار',
+    columnOrder: 'الترتيب',
+    columnClicks: 'النقرات',
+    activate: 'تفعيل',
+    deactivate: 'تعطيل',
+    confirmDelete: 'هل أنت متأكد من حذف هذا الرابط؟',
+    deleted: 'تم حذف الرابط بنجاح',
+    activated: 'تم تفعيل الرابط بنجاح',
+    deactivated: 'تم تعطيل الرابط بنجاح',
+    updated: 'تم تحديث الرابط بنجاح',
+    created: 'تم إنشاء الرابط بنجاح',
+    loadFailed: 'تعذر تحميل الروابط السريعة',
+    deleteFailed: 'تعذر حذف الرابط',
+    toggleFailed: 'تعذر تغيير حالة الرابط',
+    saveFailed: 'تعذر حفظ الرابط',
+    editTitle: 'تعديل رابط سريع',
+    createTitle: 'إنشاء رابط سريع',
+    description: 'الوصف',
+    descriptionPlaceholder: 'وصف مختصر لهذا الرابط',
+    icon: 'الأيقونة',
+    orderHelp: 'الأرقام الأصغر تظهر أولاً',
+    titleRequired: 'العنوان مطلوب',
+    urlRequired: 'الرابط مطلوب',
+    urlInvalid: 'تنسيق الرابط غير صالح',
+    rolesRequired: 'يجب اختيار دور واحد على الأقل',
+  },
+  moderation: {
+    title: 'الإشراف على المحتوى',
+    addRule: 'إضافة قاعدة',
+    totalRules: 'إجمالي القواعد',
+    activeCount: '{{count}} نشطة',
+    blockedDomains: 'النطاقات المحظورة',
+    blockedKeywords: 'الكلمات المحظورة',
+    allowedDomains: 'النطاقات المسموح بها',
+    allRules: 'كل القواعد',
+    columnType: 'النوع',
+    columnAction: 'الإجراء',
+    columnValue: 'القيمة',
+    columnReason: 'السبب',
+    columnSeverity: 'الخطورة',
+    columnHits: 'مرات التطابق',
+    lastHit: 'آخر تطابق: {{date}}',
+    editRule: 'تعديل القاعدة',
+    createRule: 'إنشاء قاعدة جديدة',
+    ruleType: 'نوع القاعدة',
+    typeKeyword: 'كلمة مفتاحية',
+    typeDomain: 'نطاق',
+    typeUrl: 'رابط',
+    typePattern: 'نمط (تعبير نمطي)',
+    actionBlock: 'حظر',
+    actionAllow: 'سماح',
+    actionFlag: 'تمييز للمراجعة',
+    keywordPlaceholder: 'كلمة غير لائقة',
+    regexPattern: 'التعبير النمطي',
+    reasonPlaceholder: 'لماذا هذه القاعدة ضرورية؟',
+    severityLow: 'منخفضة',
+    severityMedium: 'متوسطة',
+    severityHigh: 'عالية',
+    severityCritical: 'حرجة',
+    caseSensitive: 'حساس لحالة الأحرف',
+    createFailed: 'تعذر إنشاء القاعدة',
+    updateFailed: 'تعذر تحديث القاعدة',
+    deleteFailed: 'تعذر حذف القاعدة',
+    confirmDelete: 'هل أنت متأكد من حذف هذه القاعدة؟',
+    subscriptions: 'الاشتراكات',
+    import: 'استيراد',
+    export: 'تصدير',
+    exportCsv: 'تصدير بصيغة CSV',
+    exportJson: 'تصدير بصيغة JSON',
+    showSubscribed: 'إظهار القواعد المشترك بها ({{count}})',
+    subscribedRule: 'من اشتراك',
+    importTitle: 'استيراد القواعد',
+    importDescription: 'اختر ملف CSV يحتوي على صف عناوين، أو قائمة JSON بالقواعد مثل ملف تصدير. الأعمدة: ruleType وaction وvalue وpattern وreason وseverity وcaseSensitive وisActive.',
+    importChooseFile: 'اختيار ملف',
+    importDone: 'تم استيراد {{created}} قاعدة ({{skipped}} موجودة مسبقًا)',
+    importFailed: 'فشل استيراد القواعد',
+    importEmpty: 'لا يحتوي الملف على قواعد',
+    importUnreadable: 'تعذرت قراءة الملف - تأكد من أنه ملف CSV يحتوي على صف عناوين أو قائمة JSON بالقواعد',
+    importCountNew: '{{count}} جديدة',
+    importCountDuplicate: '{{count}} مكررة',
+    importCountInvalid: '{{count}} غير صالحة',
+    importColumnRow: 'الصف',
+    importColumnStatus: 'الحالة',
+    importStatusNew: 'جديدة',
+    importStatusDuplicate: 'مكررة',
+    importStatusInvalid: 'غير صالحة',
+    importIssueMissing: 'مطلوب',
+    importIssueValue: '{{value}} غير صالح',
+    importIssuePattern: 'ليس تعبيرًا نمطيًا صالحًا',
+    importMoreRows: '...و{{count}} صفوف أخرى',
+    importConfirm: 'استيراد {{count}} قاعدة',
+    subscriptionsTitle: 'اشتراكات قوائم الحظر',
+    subscriptionsDescription: 'اشترك في قائمة حظر عامة للاحتفاظ بنطاقاتها كقواعد. يجلب الخادم قوائم الروابط عند كل مزامنة؛ وتتم مزامنة الملفات المرفوعة باختيار نسخة أحدث. يؤدي إلغاء الاشتراك إلى حذف جميع قواعده.',
+    subscriptionsEmpty: 'لا توجد اشتراكات في قوائم حظر بعد',
+    subscriptionName: 'الاسم',
+    subscriptionRules: 'القواعد',
+    subscriptionLastSync: 'آخر مزامنة',
+    subscriptionAdd: 'إضافة اشتراك',
+    subscriptionSource: 'المصدر',
+    subscriptionSourceUrl: 'رابط (يجلبه الخادم)',
+    subscriptionSourceFile: 'ملف محلي',
+    subscriptionUrl: 'رابط قائمة الحظر',
+    subscriptionUrlHelp: 'ملفات hosts وقوائم نطاقات Adblock وقوائم النطاقات البسيطة مدعومة',
+    subscriptionDomainsFound: '{{name}}: تم العثور على {{count}} نطاق',
+    subscribe: 'اشتراك',
+    subscribeFailed: 'فشل إضافة الاشتراك',
+    syncUrl: 'مزامنة الآن',
+    syncFile: 'المزامنة من نسخة أحدث من الملف',
+    syncFailed: 'فشلت مزامنة {{name}}',
+    confirmUnsubscribe: 'إلغاء الاشتراك في {{name}} وحذف قواعده البالغ عددها {{count}}؟',
+    unsubscribeFailed: 'فشل حذف {{name}}',
+  },
+  wellbeing: {
+    title: 'الدعم متاح',
+    titleYoung: 'أنت لست وحدك',
+    selfHarm: 'يبدو أنك تمر بشيء صعب جدًا. لست مضطرًا لمواجهته وحدك - التحدث مع شخص تثق به قد يساعد، والجهات أدناه مستعدة للاستماع إليك في أي وقت.',
+    selfHarmYoung: 'يبدو أنك تشعر بحزن شديد أو بألم. أنت مهم، وهناك أشخاص لطفاء يريدون مساعدتك. تحدث مع شخص بالغ تثق به أو اتصل بإحدى الجهات أدناه.',
+    abuse: 'إذا كان أحد يؤذيك أو يجعلك تشعر بعدم الأمان، فهذا ليس ذنبك وأنت تستحق أن تكون آمنًا. يمكن للجهات أدناه مساعدتك، وما تخبرهم به يبقى سريًا.',
+    abuseYoung: 'إذا كان أحد يؤذيك أو يخيفك، فهذا ليس ذنبك. أخبر شخصًا بالغًا تثق به أو اتصل بإحدى الجهات أدناه.',
+    bullying: 'التعرض للتنمر، عبر الإنترنت أو وجهًا لوجه، ليس مقبولًا أبدًا وليس ذنبك. يمكنك الحصول على الدعم والإبلاغ عن التنمر الإلكتروني عبر الخدمات أدناه.',
+    bullyingYoung: 'لا يحق لأحد أن يكون قاسيًا معك أو أن يستبعدك. أخبر معلمًا أو شخصًا بالغًا تثق به، أو اتصل بإحدى الجهات أدناه.',
+    resourcesTitle: 'أشخاص يمكنك التحدث إليهم',
+    counsellor: 'المرشد المدرسي',
+    counsellorDescription: 'تحدث بسرية مع شخص في المدرسة.',
+    kidsHelpline: 'Kids Helpline',
+    kidsHelplineDescription: 'استشارة مجانية وسرية للشباب في أي وقت من الليل أو النهار.',
+    headspace: 'headspace',
+    headspaceDescription: 'دعم الصحة النفسية للشباب عبر الإنترنت أو الهاتف.',
+    eSafety: 'مفوض eSafety',
+    eSafetyDescription: 'أبلغ عن التنمر الإلكتروني واطلب إزالة المحتوى الضار.',
+    emergency: 'الطوارئ',
+    emergencyDescription: 'إذا كنت أنت أو شخص آخر في خطر الآن، اتصل بالرقم 000.',
+    call: 'اتصل بالرقم {{phone}}',
+    email: 'البريد الإلكتروني',
+    visit: 'زيارة الموقع',
+    continueHint: 'هل تبحث عن هذا لواجب مدرسي؟',
+    continue: 'عرض نتائج البحث',
+    alertNotSent: 'لم نتمكن من إبلاغ فريق الرعاية في المدرسة الآن. إذا كنت بحاجة إلى مساعدة، تحدّث إلى معلم تثق به أو استخدم إحدى جهات الاتصال أدناه.',
+    queueTitle: 'تنبيهات الرفاهية',
+    queueDescription: 'تنبيهات سرية تُنشأ عندما يشير بحث أحد الطلاب إلى أنه قد يحتاج إلى دعم. يمكن لفريق الرفاهية فقط رؤية هذه الصفحة.',
+    queueEmpty: 'لا توجد تنبيهات هنا.',
+    accessDenied: 'تم رفض الوصول - لفريق الرفاهية فقط',
+    statusNew: 'جديدة',
+    statusInProgress: 'قيد المعالجة',
+    statusResolved: 'تم حلها',
+    categorySelfHarm: 'إيذاء النفس',
+    categoryAbuse: 'إساءة',
+    categoryBullying: 'تنمر',
+    columnCategory: 'نوع القلق',
+    columnStudent: 'الطالب',
+    columnQuery: 'البحث',
+    columnRaised: 'وقت الإنشاء',
+    columnNotes: 'ملاحظات',
+    unknownStudent: 'طالب غير معروف',
+    grade: 'الصف {{grade}}',
+    handledBy: 'تمت المعالجة بواسطة {{name}}',
+    acknowledge: 'بدء المعالجة',
+    resolve: 'حل',
+    resolveTitle: 'حل التنبيه',
+    notes: 'ملاحظات المتابعة',
+    notesHelp: 'مرئية لفريق الرفاهية فقط.',
+    updateFailed: 'فشل تحديث التنبيه',
+  },
+  analytics: {
+    title: 'تحليلات البحث والإشراف',
+    needsAttention: 'يحتاج إلى اهتمام',
+    needsAttentionHint: 'عمليات بحث "سيئة" غير مراجعة',
+    badTriggers: 'تنبيهات سيئة',
+    badTriggersHint: 'مصنفة كغير لائقة',
+    questionable: 'مشكوك فيها',
+    questionableHint: 'تحتاج إلى مراجعة',
+    safeSearches: 'عمليات بحث آمنة',
+    safeSearchesHint: 'محتوى معتمد',
+    tabNeedsReview: 'بحاجة إلى مراجعة',
+    tabFlagged: 'مميزة',
+    tabBlocked: 'محظورة',
+    tabApproved: 'معتمدة',
+    filterByTrigger: 'تصفية حسب التنبيه',
+    allTriggers: 'كل التنبيهات',
+    triggerBad: 'سيئ',
+    triggerQuestionable: 'مشكوك فيه',
+    triggerSafe: 'آمن',
+    columnTrigger: 'التنبيه',
+    columnQuery: 'عبارة البحث',
+    columnUser: 'المستخدم',
+    columnDate: 'التاريخ',
+    columnRating: 'التقييم',
+    columnResults: 'النتائج',
+    columnAiAnswer: 'إجابة الذكاء الاصطناعي',
+    noSearches: 'لم يتم العثور على عمليات بحث',
+    none: 'لا يوجد',
+    noTrigger: 'بدون تنبيه',
+    contentRatingTooltip: 'تقييم المحتوى: {{rating}}/100',
+    details: 'تفاصيل البحث',
+    contentRating: 'تقييم المحتوى',
+    triggerReason: 'سبب التنبيه',
+    detailsHeading: 'التفاصيل',
+    detailDate: 'التاريخ: {{date}}',
+    detailCategory: 'الفئة: {{category}}',
+    detailResults: 'النتائج: {{count}}',
+    detailAiAnswer: 'إجابة الذكاء الاصطناعي: {{value}}',
+    notModerated: 'لم تتم مراجعة هذا البحث بعد. اختر إجراءً أدناه.',
+    moderatedAs: 'تم {{action}} هذا البحث بواسطة مشرف.',
+    statusApproved: 'اعتماد',
+    statusBlocked: 'حظر',
+    statusFlagged: 'تمييز',
+    approve: 'اعتماد',
+    flag: 'تمييز',
+    block: 'حظر',
+    moderateFailed: 'تعذرت مراجعة البحث',
+  },
+};
+
+export default ar;
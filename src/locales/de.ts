@@ -0,0 +1,617 @@
+import type { Translation } from '.';
+
+const de: Translation = {
+  common: {
+    search: 'Suchen',
+    loading: 'Laden...',
+    error: 'Fehler',
+    retry: 'Wiederholen',
+    cancel: 'Abbrechen',
+    save: 'Speichern',
+    delete: 'Löschen',
+    edit: 'Bearbeiten',
+    close: 'Schließen',
+    yes: 'Ja',
+    no: 'Nein',
+    create: 'Erstellen',
+    update: 'Aktualisieren',
+    refresh: 'Aktualisieren',
+    saving: 'Speichern...',
+    actions: 'Aktionen',
+    active: 'Aktiv',
+    inactive: 'Inaktiv',
+    all: 'Alle',
+    unknown: 'Unbekannt',
+    accessDenied: 'Zugriff verweigert - Nur für Personal',
+  },
+  search: {
+    placeholder: 'Suche nach Bildungsinhalten...',
+    voiceSearch: 'Sprachsuche',
+    advancedFilters: 'Erweiterte Filter',
+    results: 'Ergebnisse',
+    noResults: 'Keine Ergebnisse gefunden',
+    aiAnswer: 'KI-Antwort',
+    webResults: 'Web-Ergebnisse',
+    export: 'Ergebnisse Exportieren',
+    bookmark: 'Lesezeichen',
+    titleSearch: 'Horizon KI-Suche',
+    titleChat: 'Horizon KI-Assistent',
+    modeSearch: 'Suchmodus - Ergebnisse in Echtzeit',
+    modeChat: 'Chatmodus - Mit Enter senden',
+    welcomeBack: 'Willkommen zurück, {{name}}!',
+    introChat: 'Chatte mit deinem KI-Unterrichtsassistenten für persönliche Unterstützung.',
+    introStaff: 'Greife auf KI-gestützte Unterrichtswerkzeuge und Bildungsressourcen zu.',
+    introStudent: 'Entdecke deine Aufgaben, Lernmaterialien und schulischen Ressourcen.',
+    introGuest: 'Entdecke alles über die Horizon Christian School mit unserer intelligenten Suche.',
+    placeholderChat: 'Frage eingeben und Enter drücken, um mit dem KI-Assistenten zu chatten...',
+    placeholderGuest: 'Schulinformationen durchsuchen...',
+    placeholderStaff: 'Unterrichtsmaterialien suchen, Bewertungsraster und Stundenpläne erstellen...',
+    placeholderStudent: 'Aufgaben, Lernmaterialien und Ressourcen durchsuchen...',
+    recentSearches: 'Letzte Suchen:',
+    resultsHeading: 'Suchergebnisse ({{count}})',
+    saveToBookmarks: 'Als Lesezeichen speichern',
+    noResultsFor: 'Keine Ergebnisse für „{{query}}“ gefunden',
+    noResponseFor: 'Keine Antwort für „{{query}}“ erzeugt',
+    tryRephrasing: 'Formuliere deine Frage um oder frage etwas anderes.',
+    tryAdjusting: 'Passe deine Suchbegriffe an oder nutze die Schnellzugriffe.',
+    readyToChat: 'Bereit zum Chatten?',
+    readyToExplore: 'Bereit zum Entdecken?',
+    chatPrompt: 'Frage deinen KI-Assistenten zu Unterricht, Stundenplanung oder Schülerbetreuung.',
+    explorePrompt: 'Tippe los, um großartige Ressourcen und Werkzeuge zu entdecken.',
+    blocked: 'Suche blockiert: {{reasons}}. Bitte ändere deine Suchanfrage.',
+    inappropriateContent: 'Unangemessener Inhalt erkannt',
+    failed: 'Suche fehlgeschlagen. Bitte erneut versuchen.',
+    continueTyping: 'Weiter tippen, um zu suchen...',
+    analyzing: 'Die KI analysiert deine Suche...',
+    recent: 'Zuletzt:',
+    refreshRecent: 'Letzte Einträge aktualisieren',
+    viaProviders: 'über {{providers}}',
+    foundBy: 'Gefunden von: {{providers}}',
+    flagged: 'Markiert',
+    flaggedReason: 'Von der Schulmoderation markiert: {{reason}}',
+    flaggedNoReason: 'Von der Schulmoderation markiert - mit Vorsicht verwenden',
+    aiCaution: 'KI: Vorsicht',
+    aiCautionReason: 'KI-Eignung {{score}} %: {{reason}}',
+    loadMore: 'Weitere Ergebnisse laden',
+    loadingMore: 'Weitere werden geladen...',
+    operatorPhrase: 'Genaue Wortgruppe: {{value}}',
+    operatorExclude: 'Ohne Ergebnisse, die „{{value}}“ enthalten',
+    operatorSite: 'Nur Ergebnisse von {{value}}',
+    operatorExcludeSite: 'Keine Ergebnisse von {{value}}',
+    operatorFileType: 'Nur {{value}}-Dateien',
+    didYouMean: 'Meinten Sie:',
+    showingResultsFor: 'Ergebnisse für',
+    searchInsteadFor: 'Stattdessen suchen nach',
+  },
+  answer: {
+    label: 'KI-ANTWORT',
+    quickAnswerFor: 'Schnelle Antwort für „{{query}}“',
+    writing: 'Schreibt...',
+    confidenceHigh: 'Hohe Zuverlässigkeit',
+    confidenceMedium: 'Mittlere Zuverlässigkeit',
+    confidenceLow: 'Geringe Zuverlässigkeit',
+    sourcesUsed: 'Für diese Antwort verwendete Quellen:',
+    moreSources: '+{{count}} weitere',
+    disclaimer: 'Diese Antwort wurde von KI erstellt. Bitte überprüfe wichtige Informationen und sieh dir die Quellen unten für weitere Details an.',
+    aiInfo: 'Diese Antwort wird von KI anhand der Suchergebnisse erstellt. Überprüfe wichtige Informationen immer.',
+    readAloud: 'Vorlesen',
+    stopReading: 'Vorlesen beenden',
+  },
+  voice: {
+    start: 'Sprachsuche starten',
+    stop: 'Sprachsuche beenden',
+    unsupported: 'Die Sprachsuche wird in diesem Browser nicht unterstützt',
+    listening: 'Hört zu...',
+    clickToStop: 'Klicke erneut auf das Mikrofon, um zu beenden',
+    errorNoSpeech: 'Keine Sprache erkannt. Bitte versuche es erneut.',
+    errorAudioCapture: 'Kein Mikrofon gefunden. Bitte überprüfe dein Mikrofon.',
+    errorNotAllowed: 'Mikrofonzugriff verweigert. Bitte erlaube den Zugriff.',
+    errorNetwork: 'Netzwerkfehler. Bitte überprüfe deine Verbindung.',
+    errorAborted: 'Die Spracherkennung wurde abgebrochen.',
+    errorGeneric: 'Bei der Spracherkennung ist ein Fehler aufgetreten.',
+    startFailed: 'Spracherkennung konnte nicht gestartet werden',
+  },
+  chat: {
+    mode: 'Chat',
+    failed: 'Chat fehlgeschlagen. Bitte erneut versuchen.',
+    openFailed: 'Diese Unterhaltung konnte nicht geöffnet werden. Sie wurde möglicherweise gelöscht.',
+    newConversation: 'Neue Unterhaltung',
+    conversations: 'Unterhaltungen',
+    newChat: 'Neuer Chat',
+    stop: 'Stopp',
+    thinking: 'Der KI-Assistent denkt nach...',
+    processing: 'Deine Anfrage wird bearbeitet',
+    noConversations: 'Noch keine gespeicherten Unterhaltungen. Beginne einen Chat, dann erscheinen sie hier.',
+    title: 'Titel',
+    tags: 'Schlagwörter',
+    tagPlaceholder: 'Schlagwort eingeben und Enter drücken',
+    renameTag: 'Umbenennen / verschlagworten',
+    messageCount: '{{count}} Nachrichten',
+  },
+  filters: {
+    dateRange: 'Datumsbereich',
+    contentType: 'Inhaltstyp',
+    sources: 'Quellen',
+    category: 'Kategorie',
+    all: 'Alle',
+    educational: 'Bildung',
+    news: 'Nachrichten',
+    reference: 'Referenz',
+    title: 'Filter',
+    reset: 'Filter zurücksetzen',
+    anyTime: 'Beliebige Zeit',
+    pastDay: 'Letzte 24 Stunden',
+    pastWeek: 'Letzte Woche',
+    pastMonth: 'Letzter Monat',
+    pastYear: 'Letztes Jahr',
+    anyFileType: 'Alle Dateitypen',
+    filePdf: 'PDF',
+    fileDoc: 'Word-Dokumente',
+    filePpt: 'Präsentationen',
+    fileXls: 'Tabellen',
+    categoryAny: 'Alle Kategorien',
+    tutorial: 'Anleitung',
+    general: 'Allgemeine Informationen',
+    includeSites: 'Nur diese Websites',
+    excludeSites: 'Websites ausschließen',
+    sitesPlaceholder: 'z. B. bbc.co.uk, nasa.gov',
+  },
+  suggestions: {
+    history: 'Zuletzt',
+    popular: 'Beliebt',
+    quickLink: 'Schnelllink',
+    correction: 'Rechtschreibung',
+    didYouMean: 'Meinten Sie: {{query}}',
+  },
+  auth: {
+    signIn: 'Anmelden',
+    signOut: 'Abmelden',
+    welcome: 'Willkommen',
+    student: 'Student',
+    staff: 'Personal',
+    guest: 'Gast',
+    role: 'Rolle: {{role}}',
+    dialogTitle: 'Bei der Horizon Christian School anmelden',
+    dialogIntro: 'Greife auf dein persönliches Dashboard mit Aufgaben, Ressourcen und Werkzeugen zu.',
+    signInWithMicrosoft: 'Mit Microsoft anmelden',
+    signingIn: 'Anmeldung läuft...',
+    rememberMe: '30 Tage angemeldet bleiben',
+    benefitsTitle: 'Das erwartet dich:',
+    benefitSearch: 'Personalisierte Suchergebnisse',
+    benefitAssignments: 'Zugriff auf Aufgaben und Noten',
+    benefitLinks: 'Rollenspezifische Schnellzugriffe',
+    benefitAssistance: 'KI-gestützte Lernhilfe',
+    loginFailed: 'Anmeldung fehlgeschlagen. Bitte erneut versuchen.',
+    redirectSigningIn: 'Du wirst angemeldet...',
+    redirectWait: 'Bitte warte, während wir deine Authentifizierung abschließen.',
+    redirectError: 'Authentifizierungsfehler',
+    redirectErrorBack: 'Du wirst zur Hauptseite zurückgeleitet...',
+    redirectComplete: 'Authentifizierung abgeschlossen',
+    redirectCompleteBack: 'Du wirst zur Hauptseite weitergeleitet...',
+    authFailed: 'Authentifizierung fehlgeschlagen. Bitte erneut versuchen.',
+  },
+  header: {
+    schoolName: 'Horizon Christian School',
+    tagline: 'Eine verändernde christliche Bildung für alle',
+    analytics: 'Analysen',
+    moderation: 'Moderation',
+    wellbeing: 'Wohlbefinden',
+    bookmarks: 'Lesezeichen',
+    support: 'Support',
+    login: 'Anmelden',
+    logout: 'Abmelden',
+    language: 'Sprache',
+    bibliography: 'Literaturverzeichnis',
+  },
+  sidePanel: {
+    enhanced: 'Erweitert',
+    standard: 'Standard',
+    active: 'Aktiv',
+    quickLinks: 'Schnellzugriffe',
+    noLinks: 'Für deine Rolle sind keine Links verfügbar.',
+    readingLevel: 'Lesestufe',
+    grade: 'Klasse {{grade}}',
+    gradeCollege: 'Hochschule',
+    gradeAdult: 'Erwachsene',
+  },
+  bookmarks: {
+    title: 'Meine Lesezeichen',
+    exportAll: 'Alle Lesezeichen exportieren',
+    allBookmarks: 'Alle Lesezeichen ({{count}})',
+    favourites: 'Favoriten ({{count}})',
+    filterByTag: 'Nach Schlagwort filtern',
+    selectedCount: '{{count}} ausgewählt',
+    bookmarkCount: '{{count}} Lesezeichen',
+    deleteSelected: 'Auswahl löschen',
+    empty: 'Noch keine Lesezeichen. Nutze den Lesezeichen-Button bei einer Antwort oder einem Ergebnis, um es hier zu speichern.',
+    noMatches: 'Keine Lesezeichen entsprechen den aktuellen Filtern.',
+    addFavourite: 'Zu Favoriten hinzufügen',
+    removeFavourite: 'Aus Favoriten entfernen',
+    editNotes: 'Notizen bearbeiten',
+    notesPlaceholder: 'Notizen hinzufügen...',
+    saveNotes: 'Notizen speichern',
+    saveTitle: 'Als Lesezeichen speichern',
+    folder: 'Ordner',
+    folderHelp: 'Mit / Ordner verschachteln, z. B. Naturwissenschaften/Photosynthese',
+    notes: 'Notizen',
+    notesPrompt: 'Was war daran hilfreich?',
+    saveFailed: 'Lesezeichen konnte nicht gespeichert werden. Bitte erneut versuchen.',
+  },
+  export: {
+    tooltip: 'Exportieren',
+    pdf: 'PDF herunterladen',
+    print: 'Drucken',
+    html: 'Als HTML exportieren',
+    text: 'Als Text exportieren',
+    json: 'Als JSON exportieren',
+    includeCitations: 'Quellenangaben einfügen',
+    includeCitationsHint: 'Formatierte Literaturangaben für jede Quelle',
+    exportSelected: 'Ausgewählte Lesezeichen exportieren',
+    exportFolder: 'Diesen Ordner exportieren',
+    exportChat: 'Unterhaltung exportieren',
+    allBookmarks: 'Alle Lesezeichen',
+    favourites: 'Favoriten',
+    aiAnswer: 'KI-Antwort',
+    resultCount: '{{count}} Ergebnisse',
+    query: 'Suche: {{query}}',
+    bookmarkFolderTitle: 'Lesezeichen: {{folder}}',
+    bookmarkCount: '{{count}} Lesezeichen',
+    messageCount: '{{count}} Nachrichten · begonnen am {{date}}',
+    you: 'Du',
+    assistant: 'Assistent',
+    exportedOn: 'Exportiert am {{date}}',
+    references: 'Literaturverzeichnis',
+  },
+  citations: {
+    style: 'Zitierstil',
+    cite: 'Dieses Ergebnis zitieren',
+    citeSource: 'Diese Quelle zitieren',
+    citeSources: 'Diese Quellen zitieren',
+    citeSourcesShort: 'Zitieren',
+    copy: 'Zitat kopieren',
+    copied: 'Kopiert!',
+    addToBibliography: 'Zum Literaturverzeichnis hinzufügen',
+    inBibliography: 'In deinem Literaturverzeichnis',
+    addAll: 'Alle zum Literaturverzeichnis hinzufügen',
+    viewBibliography: 'Literaturverzeichnis ({{count}})',
+    bibliography: 'Literaturverzeichnis',
+    emptyBibliography: 'Dein Literaturverzeichnis ist leer. Nutze die Schaltfläche Zitieren bei einem Ergebnis, um Quellen hinzuzufügen.',
+    remove: 'Entfernen',
+    clearAll: 'Alle löschen',
+    copyBibliography: 'Literaturverzeichnis kopieren',
+  },
+  support: {
+    title: 'Support anfordern',
+    success: 'Deine Supportanfrage wurde erfolgreich gesendet! Unser Team meldet sich bald bei dir.',
+    intro: 'Brauchst du Hilfe? Unser IT-Supportteam hilft dir bei technischen Problemen und Fragen.',
+    email: 'E-Mail-Support',
+    phone: 'Telefon-Support',
+    liveChat: 'Live-Chat',
+    hours: 'Mo-Fr 8-17 Uhr',
+    user: 'Benutzer:',
+    role: 'Rolle:',
+    requestType: 'Art der Anfrage',
+    typeTechnical: 'Technisches Problem',
+    typeAccount: 'Kontozugriff',
+    typePassword: 'Passwort zurücksetzen',
+    typeApplication: 'Anwendungssupport',
+    typeTraining: 'Schulungsanfrage',
+    typeOther: 'Sonstiges',
+    description: 'Beschreibung',
+    descriptionPlaceholder: 'Beschreibe dein Problem oder deine Frage ausführlich...',
+    descriptionHelp: 'Gib Fehlermeldungen, bereits versuchte Schritte oder konkrete Details an',
+    submit: 'Anfrage senden',
+    submitting: 'Wird gesendet...',
+  },
+  admin: {
+    verifying: 'Administratorzugriff wird überprüft...',
+    title: 'Admin-Dashboard',
+    subtitle: 'Verwaltungsportal der Horizon School Search',
+    role: 'Rolle: {{role}}',
+    itAdministrator: 'IT-Administrator',
+    tabQuickLinks: 'Schnellzugriffe',
+    tabModeration: 'Inhaltsmoderation',
+    tabAnalytics: 'Analysen',
+    tabProviders: 'Suchanbieter',
+    tabCache: 'Cache',
+    tabSettings: 'Systemeinstellungen',
+    settingsComingSoon: 'Erweiterte Systemeinstellungen folgen in Kürze...',
+    footer: 'Horizon School Search Admin-Portal © {{year}}',
+  },
+  providers: {
+    title: 'Suchanbieter',
+    description: 'Anbieter werden der Reihe nach versucht. Nach wiederholten Fehlern wird ein Anbieter für eine Abkühlzeit übersprungen. Die Statistik umfasst Suchen in diesem Browser seit dem Öffnen.',
+    resetCircuits: 'Sperren zurücksetzen',
+    noneConfigured: 'Es sind keine Suchanbieter konfiguriert.',
+    provider: 'Anbieter',
+    status: 'Status',
+    successRate: 'Erfolgsquote',
+    requests: 'Anfragen',
+    consecutiveFailures: 'Aufeinanderfolgende Fehler',
+    lastError: 'Letzter Fehler',
+    healthy: 'In Ordnung',
+    degraded: 'Beeinträchtigt',
+    open: 'Übersprungen',
+    openHint: 'Nach wiederholten Fehlern noch {{seconds}} s übersprungen',
+    halfOpen: 'Neuer Versuch',
+    unavailable: 'Nicht verfügbar',
+    noData: 'Noch keine Daten',
+  },
+  cache: {
+    title: 'Cache',
+    description: 'Suchergebnisse, KI-Antworten, Chatverläufe und Vorschläge werden im Speicher und im Browser gespeichert, damit wiederholte Anfragen das Netzwerk sparen. Die Statistik umfasst diesen Browser seit dem Öffnen.',
+    clearAll: 'Alles leeren',
+    clear: 'Leeren',
+    hitRate: 'Trefferquote',
+    hits: 'Treffer',
+    stale: 'veraltet',
+    misses: 'Fehlschläge',
+    evictions: 'Verdrängungen',
+    memory: 'Arbeitsspeicher',
+    persistent: 'Browserspeicher',
+    unavailable: 'Nicht verfügbar',
+    persistentUnavailable: 'Der Browserspeicher ist hier nicht verfügbar, daher liegt der Cache nur im Arbeitsspeicher und wird beim Neuladen geleert.',
+    namespace: 'Bereich',
+    entries: 'Einträge',
+    size: 'Größe',
+    namespaceSearch: 'Suchergebnisse',
+    namespaceAnswers: 'KI-Antworten',
+    namespaceChat: 'Chatverläufe',
+    namespaceSuggestions: 'Vorschläge',
+    namespaceOffline: 'Offline-Kopien',
+  },
+  offline: {
+    banner: 'Sie sind offline. Bisherige Suchen und Ihre Lesezeichen sind weiterhin verfügbar.',
+    queued: '{{count}} Änderungen werden synchronisiert, sobald Sie wieder online sind.',
+    syncing: 'Wieder online - {{count}} Änderungen werden synchronisiert...',
+    browseSaved: 'Gespeichertes durchsuchen',
+    libraryTitle: 'Offline verfügbar',
+    savedSearches: 'Letzte Suchen',
+    savedSearchDetails: '{{count}} Ergebnisse · gespeichert am {{date}}',
+    noSavedSearches: 'Noch keine Suchen gespeichert. Online durchgeführte Suchen werden hier eine Woche lang aufbewahrt.',
+    savedBookmarks: 'Lesezeichen',
+    noSavedBookmarks: 'Noch keine Lesezeichen gespeichert. Öffnen Sie Ihre Lesezeichen online, um eine Kopie zu behalten.',
+    updateAvailable: 'Eine neue Version von Horizon Search ist verfügbar.',
+    reload: 'Neu laden',
+    later: 'Später',
+  },
+  config: {
+    title: 'Horizon Search ist nicht korrekt konfiguriert',
+    descriptionFile: 'Die Einstellungen in env.json enthalten Fehler, die den Start der App verhindern:',
+    descriptionBuild: 'Die Build-Einstellungen enthalten Fehler, die den Start der App verhindern:',
+    issueMissing: 'Pflichteinstellung fehlt oder ist noch ein Platzhalter',
+    issueType: 'Falscher Typ - erwartet {{expected}}',
+    issueUrl: 'Keine gültige http(s)-URL',
+    issueEnum: 'Muss einer der folgenden Werte sein: {{expected}}',
+    issueRange: 'Muss im Bereich {{expected}} liegen',
+    issueUnknown: 'Unbekannte Einstellung - bitte Schreibweise prüfen',
+    issueJson: 'Die Datei ist kein gültiges JSON',
+    help: 'Korrigieren Sie die Einstellungen und laden Sie neu, oder wenden Sie sich an den Administrator.',
+    reload: 'Neu laden',
+  },
+  links: {
+    title: 'Schnellzugriffe verwalten',
+    add: 'Link hinzufügen',
+    category: 'Kategorie',
+    status: 'Status',
+    role: 'Rolle',
+    clearFilters: 'Filter zurücksetzen',
+    empty: 'Keine Schnellzugriffe gefunden.',
+    emptyFiltered: 'Passe deine Filter an.',
+    emptyStart: 'Erstelle deinen ersten Link, um loszulegen.',
+    columnTitle: 'Titel',
+    columnUrl: 'URL',
+    columnRoles: 'Rollen',
+    columnOrder: 'Reihenfolge',
+    columnClicks: 'Klicks',
+    activate: 'Aktivieren',
+    deactivate: 'Deaktivieren',
+    confirmDelete: 'Möchtest du diesen Link wirklich löschen?',
+    deleted: 'Link erfolgreich gelöscht',
+    activated: 'Link erfolgreich aktiviert',
+    deactivated: 'Link erfolgreich deaktiviert',
+    updated: 'Link erfolgreich aktualisiert',
+    created: 'Link erfolgreich erstellt',
+    loadFailed: 'Schnellzugriffe konnten nicht geladen werden',
+    deleteFailed: 'Link konnte nicht gelöscht werden',
+    toggleFailed: 'Linkstatus konnte nicht geändert werden',
+    saveFailed: 'Link konnte nicht gespeichert werden',
+    editTitle: 'Schnellzugriff bearbeiten',
+    createTitle: 'Schnellzugriff erstellen',
+    description: 'Beschreibung',
+    descriptionPlaceholder: 'Kurze Beschreibung dieses Links',
+    icon: 'Symbol',
+    orderHelp: 'Niedrigere Zahlen erscheinen zuerst',
+    titleRequired: 'Titel ist erforderlich',
+    urlRequired: 'URL ist erforderlich',
+    urlInvalid: 'Ungültiges URL-Format',
+    rolesRequired: 'Mindestens eine Rolle muss ausgewählt sein',
+  },
+  moderation: {
+    title: 'Inhaltsmoderation',
+    addRule: 'Regel hinzufügen',
+    totalRules: 'Regeln gesamt',
+    activeCount: '{{count}} aktiv',
+    blockedDomains: 'Blockierte Domains',
+    blockedKeywords: 'Blockierte Schlüsselwörter',
+    allowedDomains: 'Erlaubte Domains',
+    allRules: 'Alle Regeln',
+    columnType: 'Typ',
+    columnAction: 'Aktion',
+    columnValue: 'Wert',
+    columnReason: 'Grund',
+    columnSeverity: 'Schweregrad',
+    columnHits: 'Treffer',
+    lastHit: 'Zuletzt zugetroffen: {{date}}',
+    editRule: 'Regel bearbeiten',
+    createRule: 'Neue Regel erstellen',
+    ruleType: 'Regeltyp',
+    typeKeyword: 'Schlüsselwort',
+    typeDomain: 'Domain',
+    typeUrl: 'URL',
+    typePattern: 'Muster (Regex)',
+    actionBlock: 'Blockieren',
+    actionAllow: 'Erlauben',
+    actionFlag: 'Zur Prüfung markieren',
+    keywordPlaceholder: 'unangemessenes Wort',
+    regexPattern: 'Regex-Muster',
+    reasonPlaceholder: 'Warum wird diese Regel benötigt?',
+    severityLow: 'Niedrig',
+    severityMedium: 'Mittel',
+    severityHigh: 'Hoch',
+    severityCritical: 'Kritisch',
+    caseSensitive: 'Groß-/Kleinschreibung beachten',
+    createFailed: 'Regel konnte nicht erstellt werden',
+    updateFailed: 'Regel konnte nicht aktualisiert werden',
+    deleteFailed: 'Regel konnte nicht gelöscht werden',
+    confirmDelete: 'Möchtest du diese Regel wirklich löschen?',
+    subscriptions: 'Abonnements',
+    import: 'Importieren',
+    export: 'Exportieren',
+    exportCsv: 'Als CSV exportieren',
+    exportJson: 'Als JSON exportieren',
+    showSubscribed: 'Abonnierte Regeln anzeigen ({{count}})',
+    subscribedRule: 'Aus Abonnement',
+    importTitle: 'Regeln importieren',
+    importDescription: 'Wählen Sie eine CSV-Datei mit Kopfzeile oder eine JSON-Liste von Regeln, etwa einen Export. Spalten: ruleType, action, value, pattern, reason, severity, caseSensitive, isActive.',
+    importChooseFile: 'Datei auswählen',
+    importDone: '{{created}} Regeln importiert ({{skipped}} waren bereits vorhanden)',
+    importFailed: 'Regeln konnten nicht importiert werden',
+    importEmpty: 'Die Datei enthält keine Regeln',
+    importUnreadable: 'Die Datei konnte nicht gelesen werden - prüfen Sie, ob es eine CSV-Datei mit Kopfzeile oder eine JSON-Liste von Regeln ist',
+    importCountNew: '{{count}} neu',
+    importCountDuplicate: '{{count}} doppelt',
+    importCountInvalid: '{{count}} ungültig',
+    importColumnRow: 'Zeile',
+    importColumnStatus: 'Status',
+    importStatusNew: 'Neu',
+    importStatusDuplicate: 'Doppelt',
+    importStatusInvalid: 'Ungültig',
+    importIssueMissing: 'erforderlich',
+    importIssueValue: '{{value}} ist ungültig',
+    importIssuePattern: 'kein gültiger regulärer Ausdruck',
+    importMoreRows: '...und {{count}} weitere Zeilen',
+    importConfirm: '{{count}} Regeln importieren',
+    subscriptionsTitle: 'Blocklisten-Abonnements',
+    subscriptionsDescription: 'Abonnieren Sie eine öffentliche Blockliste, um ihre Domains als Regeln zu übernehmen. URL-Listen lädt der Server bei jeder Synchronisierung; hochgeladene Dateien werden mit einer neueren Kopie synchronisiert. Beim Kündigen werden alle zugehörigen Regeln entfernt.',
+    subscriptionsEmpty: 'Noch keine Blocklisten-Abonnements',
+    subscriptionName: 'Name',
+    subscriptionRules: 'Regeln',
+    subscriptionLastSync: 'Zuletzt synchronisiert',
+    subscriptionAdd: 'Abonnement hinzufügen',
+    subscriptionSource: 'Quelle',
+    subscriptionSourceUrl: 'URL (vom Server geladen)',
+    subscriptionSourceFile: 'Lokale Datei',
+    subscriptionUrl: 'Blocklisten-URL',
+    subscriptionUrlHelp: 'Unterstützt werden Hosts-Dateien, Adblock-Domainlisten und einfache Domainlisten',
+    subscriptionDomainsFound: '{{name}}: {{count}} Domains gefunden',
+    subscribe: 'Abonnieren',
+    subscribeFailed: 'Abonnement konnte nicht hinzugefügt werden',
+    syncUrl: 'Jetzt synchronisieren',
+    syncFile: 'Aus einer neueren Kopie der Datei synchronisieren',
+    syncFailed: '{{name}} konnte nicht synchronisiert werden',
+    confirmUnsubscribe: '{{name}} kündigen und die {{count}} zugehörigen Regeln entfernen?',
+    unsubscribeFailed: '{{name}} konnte nicht entfernt werden',
+  },
+  wellbeing: {
+    title: 'Hilfe ist da',
+    titleYoung: 'Du bist nicht allein',
+    selfHarm: 'Es klingt, als ginge es dir gerade sehr schwer. Du musst das nicht allein schaffen - mit jemandem zu reden, dem du vertraust, kann helfen, und die Stellen unten hören dir jederzeit zu.',
+    selfHarmYoung: 'Es klingt, als wärst du sehr traurig oder als würde dir etwas wehtun. Du bist wichtig, und es gibt freundliche Menschen, die dir helfen wollen. Sprich mit einem Erwachsenen, dem du vertraust, oder ruf eine der Stellen unten an.',
+    abuse: 'Wenn dir jemand wehtut oder du dich nicht sicher fühlst, ist das nicht deine Schuld, und du verdienst es, sicher zu sein. Die Stellen unten können helfen, und was du ihnen erzählst, bleibt vertraulich.',
+    abuseYoung: 'Wenn dir jemand wehtut oder dir Angst macht, ist das nicht deine Schuld. Erzähl es einem Erwachsenen, dem du vertraust, oder ruf eine der Stellen unten an.',
+    bullying: 'Gemobbt zu werden, online oder persönlich, ist nie in Ordnung und nicht deine Schuld. Über die Stellen unten bekommst du Unterstützung und kannst Cybermobbing melden.',
+    bullyingYoung: 'Niemand sollte gemein zu dir sein oder dich ausschließen. Erzähl es einer Lehrkraft oder einem Erwachsenen, dem du vertraust, oder ruf eine der Stellen unten an.',
+    resourcesTitle: 'Hier kannst du reden',
+    counsellor: 'Schulberatung',
+    counsellorDescription: 'Sprich vertraulich mit jemandem an der Schule.',
+    kidsHelpline: 'Kids Helpline',
+    kidsHelplineDescription: 'Kostenlose, vertrauliche Beratung für junge Menschen, rund um die Uhr.',
+    headspace: 'headspace',
+    headspaceDescription: 'Unterstützung bei psychischen Problemen für junge Menschen, online oder telefonisch.',
+    eSafety: 'eSafety Commissioner',
+    eSafetyDescription: 'Cybermobbing melden und schädliche Inhalte entfernen lassen.',
+    emergency: 'Notruf',
+    emergencyDescription: 'Wenn du oder jemand anderes gerade in Gefahr ist, ruf 000 an.',
+    call: '{{phone}} anrufen',
+    email: 'E-Mail',
+    visit: 'Website besuchen',
+    continueHint: 'Suchst du das für die Schule?',
+    continue: 'Suchergebnisse anzeigen',
+    alertNotSent: 'Wir konnten das Wellbeing-Team der Schule gerade nicht benachrichtigen. Wenn du Hilfe brauchst, sprich mit einer Lehrkraft, der du vertraust, oder nutze einen der Kontakte unten.',
+    queueTitle: 'Wohlbefinden-Meldungen',
+    queueDescription: 'Vertrauliche Meldungen, die entstehen, wenn die Suche eines Schülers darauf hindeutet, dass er Unterstützung brauchen könnte. Nur das Wohlbefinden-Team kann diese Seite sehen.',
+    queueEmpty: 'Keine Meldungen vorhanden.',
+    accessDenied: 'Zugriff verweigert - Nur für das Wohlbefinden-Team',
+    statusNew: 'Neu',
+    statusInProgress: 'In Bearbeitung',
+    statusResolved: 'Erledigt',
+    categorySelfHarm: 'Selbstverletzung',
+    categoryAbuse: 'Missbrauch',
+    categoryBullying: 'Mobbing',
+    columnCategory: 'Anliegen',
+    columnStudent: 'Schüler',
+    columnQuery: 'Suche',
+    columnRaised: 'Gemeldet',
+    columnNotes: 'Notizen',
+    unknownStudent: 'Unbekannter Schüler',
+    grade: 'Klasse {{grade}}',
+    handledBy: 'Bearbeitet von {{name}}',
+    acknowledge: 'Übernehmen',
+    resolve: 'Erledigen',
+    resolveTitle: 'Meldung erledigen',
+    notes: 'Notizen zur Nachverfolgung',
+    notesHelp: 'Nur für das Wohlbefinden-Team sichtbar.',
+    updateFailed: 'Meldung konnte nicht aktualisiert werden',
+  },
+  analytics: {
+    title: 'Suchanalysen & Moderation',
+    needsAttention: 'Handlungsbedarf',
+    needsAttentionHint: 'Nicht moderierte „schlechte“ Suchen',
+    badTriggers: 'Kritische Treffer',
+    badTriggersHint: 'Als unangemessen markiert',
+    questionable: 'Fragwürdig',
+    questionableHint: 'Prüfung erforderlich',
+    safeSearches: 'Sichere Suchen',
+    safeSearchesHint: 'Freigegebene Inhalte',
+    tabNeedsReview: 'Zu prüfen',
+    tabFlagged: 'Markiert',
+    tabBlocked: 'Blockiert',
+    tabApproved: 'Freigegeben',
+    filterByTrigger: 'Nach Auslöser filtern',
+    allTriggers: 'Alle Auslöser',
+    triggerBad: 'Schlecht',
+    triggerQuestionable: 'Fragwürdig',
+    triggerSafe: 'Sicher',
+    columnTrigger: 'Auslöser',
+    columnQuery: 'Suchanfrage',
+    columnUser: 'Benutzer',
+    columnDate: 'Datum',
+    columnRating: 'Bewertung',
+    columnResults: 'Ergebnisse',
+    columnAiAnswer: 'KI-Antwort',
+    noSearches: 'Keine Suchen gefunden',
+    none: 'Keiner',
+    noTrigger: 'Kein Auslöser',
+    contentRatingTooltip: 'Inhaltsbewertung: {{rating}}/100',
+    details: 'Suchdetails',
+    contentRating: 'Inhaltsbewertung',
+    triggerReason: 'Auslösegrund',
+    detailsHeading: 'Details',
+    detailDate: 'Datum: {{date}}',
+    detailCategory: 'Kategorie: {{category}}',
+    detailResults: 'Ergebnisse: {{count}}',
+    detailAiAnswer: 'KI-Antwort: {{value}}',
+    notModerated: 'Diese Suche wurde noch nicht moderiert. Wähle unten eine Aktion.',
+    moderatedAs: 'Diese Suche wurde von einem Moderator {{action}}.',
+    statusApproved: 'freigegeben',
+    statusBlocked: 'blockiert',
+    statusFlagged: 'markiert',
+    approve: 'Freigeben',
+    flag: 'Markieren',
+    block: 'Blockieren',
+    moderateFailed: 'Suche konnte nicht moderiert werden',
+  },
+};
+
+export default de;
@@ -0,0 +1,617 @@
+import type { Translation } from '.';
+
+const en: Translation = {
+  common: {
+    search: 'Search',
+    loading: 'Loading...',
+    error: 'Error',
+    retry: 'Retry',
+    cancel: 'Cancel',
+    save: 'Save',
+    delete: 'Delete',
+    edit: 'Edit',
+    close: 'Close',
+    yes: 'Yes',
+    no: 'No',
+    create: 'Create',
+    update: 'Update',
+    refresh: 'Refresh',
+    saving: 'Saving...',
+    actions: 'Actions',
+    active: 'Active',
+    inactive: 'Inactive',
+    all: 'All',
+    unknown: 'Unknown',
+    accessDenied: 'Access Denied - Staff Only',
+  },
+  search: {
+    placeholder: 'Search for educational content...',
+    voiceSearch: 'Voice Search',
+    advancedFilters: 'Advanced Filters',
+    results: 'results',
+    noResults: 'No results found',
+    aiAnswer: 'AI Answer',
+    webResults: 'Web Results',
+    export: 'Export Results',
+    bookmark: 'Bookmark',
+    titleSearch: 'Horizon AI Search',
+    titleChat: 'Horizon AI Assistant',
+    modeSearch: 'Search Mode - Real-time Results',
+    modeChat: 'Chat Mode - Press Enter to Send',
+    welcomeBack: 'Welcome back, {{name}}!',
+    introChat: 'Chat with your AI teaching assistant for personalized support.',
+    introStaff: 'Access AI-powered teaching tools and educational resources.',
+    introStudent: 'Discover your assignments, study materials, and academic resources.',
+    introGuest: 'Discover everything about Horizon Christian School with our intelligent search.',
+    placeholderChat: 'Type your question and press Enter to chat with AI assistant...',
+    placeholderGuest: 'Search school information...',
+    placeholderStaff: 'Search teaching resources, create rubrics, lesson plans...',
+    placeholderStudent: 'Search assignments, study materials, resources...',
+    recentSearches: 'Recent searches:',
+    resultsHeading: 'Search Results ({{count}})',
+    saveToBookmarks: 'Save to bookmarks',
+    noResultsFor: 'No results found for "{{query}}"',
+    noResponseFor: 'No response generated for "{{query}}"',
+    tryRephrasing: 'Try rephrasing your question or ask something else.',
+    tryAdjusting: 'Try adjusting your search terms or browse the quick links.',
+    readyToChat: 'Ready to chat?',
+    readyToExplore: 'Ready to explore?',
+    chatPrompt: 'Ask your AI assistant about teaching, lesson planning, or student support.',
+    explorePrompt: 'Start typing to discover amazing resources and tools.',
+    blocked: 'Search blocked: {{reasons}}. Please modify your search query.',
+    inappropriateContent: 'Inappropriate content detected',
+    failed: 'Search failed. Please try again.',
+    continueTyping: 'Continue typing to search...',
+    analyzing: 'AI is analyzing your search...',
+    recent: 'Recent:',
+    refreshRecent: 'Refresh recent items',
+    viaProviders: 'via {{providers}}',
+    foundBy: 'Found by: {{providers}}',
+    flagged: 'Flagged',
+    flaggedReason: 'Flagged by school moderation: {{reason}}',
+    flaggedNoReason: 'Flagged by school moderation - use with care',
+    aiCaution: 'AI: caution',
+    aiCautionReason: 'AI suitability {{score}}%: {{reason}}',
+    loadMore: 'Load more results',
+    loadingMore: 'Loading more...',
+    operatorPhrase: 'Exact phrase: {{value}}',
+    operatorExclude: 'Excluding results that mention "{{value}}"',
+    operatorSite: 'Only results from {{value}}',
+    operatorExcludeSite: 'No results from {{value}}',
+    operatorFileType: 'Only {{value}} files',
+    didYouMean: 'Did you mean:',
+    showingResultsFor: 'Showing results for',
+    searchInsteadFor: 'Search instead for',
+  },
+  answer: {
+    label: 'AI ANSWER',
+    quickAnswerFor: 'Quick Answer for "{{query}}"',
+    writing: 'Writing...',
+    confidenceHigh: 'High Confidence',
+    confidenceMedium: 'Medium Confidence',
+    confidenceLow: 'Low Confidence',
+    sourcesUsed: 'Sources used for this answer:',
+    moreSources: '+{{count}} more',
+    disclaimer: 'This answer was generated by AI. Please verify important information and check the sources below for more details.',
+    aiInfo: 'This answer is generated by AI based on search results. Always verify important information.',
+    readAloud: 'Read aloud',
+    stopReading: 'Stop reading',
+  },
+  voice: {
+    start: 'Start voice search',
+    stop: 'Stop voice search',
+    unsupported: 'Voice search not supported in this browser',
+    listening: 'Listening...',
+    clickToStop: 'Click the microphone again to stop',
+    errorNoSpeech: 'No speech detected. Please try again.',
+    errorAudioCapture: 'No microphone found. Please check your microphone.',
+    errorNotAllowed: 'Microphone permission denied. Please allow microphone access.',
+    errorNetwork: 'Network error occurred. Please check your connection.',
+    errorAborted: 'Speech recognition was aborted.',
+    errorGeneric: 'An error occurred with voice recognition.',
+    startFailed: 'Failed to start voice recognition',
+  },
+  chat: {
+    mode: 'Chat',
+    failed: 'Chat failed. Please try again.',
+    openFailed: 'Could not open that conversation. It may have been deleted.',
+    newConversation: 'New conversation',
+    conversations: 'Conversations',
+    newChat: 'New chat',
+    stop: 'Stop',
+    thinking: 'AI Assistant is thinking...',
+    processing: 'Processing your request',
+    noConversations: 'No saved conversations yet. Start chatting and your conversations will appear here.',
+    title: 'Title',
+    tags: 'Tags',
+    tagPlaceholder: 'Type a tag and press Enter',
+    renameTag: 'Rename / tag',
+    messageCount: '{{count}} messages',
+  },
+  filters: {
+    dateRange: 'Date Range',
+    contentType: 'Content Type',
+    sources: 'Sources',
+    category: 'Category',
+    all: 'All',
+    educational: 'Educational',
+    news: 'News',
+    reference: 'Reference',
+    title: 'Filters',
+    reset: 'Clear filters',
+    anyTime: 'Any time',
+    pastDay: 'Past 24 hours',
+    pastWeek: 'Past week',
+    pastMonth: 'Past month',
+    pastYear: 'Past year',
+    anyFileType: 'Any file type',
+    filePdf: 'PDF',
+    fileDoc: 'Word documents',
+    filePpt: 'Presentations',
+    fileXls: 'Spreadsheets',
+    categoryAny: 'All categories',
+    tutorial: 'Tutorial',
+    general: 'General information',
+    includeSites: 'Only these sites',
+    excludeSites: 'Exclude sites',
+    sitesPlaceholder: 'e.g. bbc.co.uk, nasa.gov',
+  },
+  suggestions: {
+    history: 'Recent',
+    popular: 'Popular',
+    quickLink: 'Quick link',
+    correction: 'Spelling',
+    didYouMean: 'Did you mean: {{query}}',
+  },
+  auth: {
+    signIn: 'Sign In',
+    signOut: 'Sign Out',
+    welcome: 'Welcome',
+    student: 'Student',
+    staff: 'Staff',
+    guest: 'Guest',
+    role: 'Role: {{role}}',
+    dialogTitle: 'Sign in to Horizon Christian School',
+    dialogIntro: 'Access your personalized dashboard with assignments, resources, and tools.',
+    signInWithMicrosoft: 'Sign in with Microsoft',
+    signingIn: 'Signing in...',
+    rememberMe: 'Remember me for 30 days',
+    benefitsTitle: "What you'll get:",
+    benefitSearch: 'Personalized search results',
+    benefitAssignments: 'Access to assignments and grades',
+    benefitLinks: 'Role-specific quick links',
+    benefitAssistance: 'AI-powered learning assistance',
+    loginFailed: 'Login failed. Please try again.',
+    redirectSigningIn: 'Signing you in...',
+    redirectWait: 'Please wait while we complete your authentication.',
+    redirectError: 'Authentication Error',
+    redirectErrorBack: 'Redirecting you back to the main page...',
+    redirectComplete: 'Authentication Complete',
+    redirectCompleteBack: 'Redirecting you to the main page...',
+    authFailed: 'Authentication failed. Please try again.',
+  },
+  header: {
+    schoolName: 'Horizon Christian School',
+    tagline: 'A Transforming Christian Education for All',
+    analytics: 'Analytics',
+    moderation: 'Moderation',
+    wellbeing: 'Wellbeing',
+    bookmarks: 'Bookmarks',
+    support: 'Support',
+    login: 'Login',
+    logout: 'Logout',
+    language: 'Language',
+    bibliography: 'Bibliography',
+  },
+  sidePanel: {
+    enhanced: 'Enhanced',
+    standard: 'Standard',
+    active: 'Active',
+    quickLinks: 'Quick Links',
+    noLinks: 'No links available for your role.',
+    readingLevel: 'Reading level',
+    grade: 'Grade {{grade}}',
+    gradeCollege: 'College',
+    gradeAdult: 'Adult',
+  },
+  bookmarks: {
+    title: 'My Bookmarks',
+    exportAll: 'Export all bookmarks',
+    allBookmarks: 'All bookmarks ({{count}})',
+    favourites: 'Favourites ({{count}})',
+    filterByTag: 'Filter by tag',
+    selectedCount: '{{count}} selected',
+    bookmarkCount: '{{count}} bookmarks',
+    deleteSelected: 'Delete selected',
+    empty: 'No bookmarks yet. Use the bookmark button on an answer or result to save it here.',
+    noMatches: 'No bookmarks match the current filters.',
+    addFavourite: 'Add to favourites',
+    removeFavourite: 'Remove from favourites',
+    editNotes: 'Edit notes',
+    notesPlaceholder: 'Add your notes...',
+    saveNotes: 'Save notes',
+    saveTitle: 'Save to Bookmarks',
+    folder: 'Folder',
+    folderHelp: 'Use / to nest folders, e.g. Science/Photosynthesis',
+    notes: 'Notes',
+    notesPrompt: 'What was useful about this?',
+    saveFailed: 'Failed to save bookmark. Please try again.',
+  },
+  export: {
+    tooltip: 'Export',
+    pdf: 'Download PDF',
+    print: 'Print',
+    html: 'Export as HTML',
+    text: 'Export as text',
+    json: 'Export as JSON',
+    includeCitations: 'Include citations',
+    includeCitationsHint: 'Formatted references for every source',
+    exportSelected: 'Export selected bookmarks',
+    exportFolder: 'Export this folder',
+    exportChat: 'Export conversation',
+    allBookmarks: 'All bookmarks',
+    favourites: 'Favourites',
+    aiAnswer: 'AI answer',
+    resultCount: '{{count}} results',
+    query: 'Search: {{query}}',
+    bookmarkFolderTitle: 'Bookmarks: {{folder}}',
+    bookmarkCount: '{{count}} bookmarks',
+    messageCount: '{{count}} messages · started {{date}}',
+    you: 'You',
+    assistant: 'Assistant',
+    exportedOn: 'Exported on {{date}}',
+    references: 'References',
+  },
+  citations: {
+    style: 'Citation style',
+    cite: 'Cite this result',
+    citeSource: 'Cite this source',
+    citeSources: 'Cite these sources',
+    citeSourcesShort: 'Cite',
+    copy: 'Copy citation',
+    copied: 'Copied!',
+    addToBibliography: 'Add to bibliography',
+    inBibliography: 'In your bibliography',
+    addAll: 'Add all to bibliography',
+    viewBibliography: 'Bibliography ({{count}})',
+    bibliography: 'Bibliography',
+    emptyBibliography: 'Your bibliography is empty. Use the Cite button on a result to add sources.',
+    remove: 'Remove',
+    clearAll: 'Clear all',
+    copyBibliography: 'Copy bibliography',
+  },
+  support: {
+    title: 'Request Support',
+    success: 'Your support request has been submitted successfully! Our team will get back to you soon.',
+    intro: 'Need help? Our IT support team is here to assist you with technical issues and questions.',
+    email: 'Email Support',
+    phone: 'Phone Support',
+    liveChat: 'Live Chat',
+    hours: 'Mon-Fri 8AM-5PM',
+    user: 'User:',
+    role: 'Role:',
+    requestType: 'Request Type',
+    typeTechnical: 'Technical Issue',
+    typeAccount: 'Account Access',
+    typePassword: 'Password Reset',
+    typeApplication: 'Application Support',
+    typeTraining: 'Training Request',
+    typeOther: 'Other',
+    description: 'Description',
+    descriptionPlaceholder: 'Please describe your issue or question in detail...',
+    descriptionHelp: "Include any error messages, steps you've tried, or specific details",
+    submit: 'Submit Request',
+    submitting: 'Submitting...',
+  },
+  admin: {
+    verifying: 'Verifying admin access...',
+    title: 'Admin Dashboard',
+    subtitle: 'Horizon School Search Management Portal',
+    role: 'Role: {{role}}',
+    itAdministrator: 'IT Administrator',
+    tabQuickLinks: 'Quick Links',
+    tabModeration: 'Content Moderation',
+    tabAnalytics: 'Analytics',
+    tabProviders: 'Search Providers',
+    tabCache: 'Cache',
+    tabSettings: 'System Settings',
+    settingsComingSoon: 'Advanced system configuration options coming soon...',
+    footer: 'Horizon School Search Admin Portal © {{year}}',
+  },
+  providers: {
+    title: 'Search Providers',
+    description: 'Providers are tried in order. After repeated failures a provider is skipped for a cool-down. Stats cover searches made in this browser since it was opened.',
+    resetCircuits: 'Reset circuits',
+    noneConfigured: 'No search providers are configured.',
+    provider: 'Provider',
+    status: 'Status',
+    successRate: 'Success rate',
+    requests: 'Requests',
+    consecutiveFailures: 'Consecutive failures',
+    lastError: 'Last error',
+    healthy: 'Healthy',
+    degraded: 'Degraded',
+    open: 'Skipped',
+    openHint: 'Skipped for another {{seconds}}s after repeated failures',
+    halfOpen: 'Retrying',
+    unavailable: 'Unavailable',
+    noData: 'No data yet',
+  },
+  cache: {
+    title: 'Cache',
+    description: "Search results, AI answers, chat transcripts and suggestions are kept in memory and in this browser's storage so repeat requests skip the network. Stats cover this browser since it was opened.",
+    clearAll: 'Clear all',
+    clear: 'Clear',
+    hitRate: 'Hit rate',
+    hits: 'Hits',
+    stale: 'stale',
+    misses: 'Misses',
+    evictions: 'Evictions',
+    memory: 'Memory',
+    persistent: 'Browser storage',
+    unavailable: 'Unavailable',
+    persistentUnavailable: 'Browser storage is unavailable here, so the cache is memory only and empties on reload.',
+    namespace: 'Namespace',
+    entries: 'Entries',
+    size: 'Size',
+    namespaceSearch: 'Search results',
+    namespaceAnswers: 'AI answers',
+    namespaceChat: 'Chat transcripts',
+    namespaceSuggestions: 'Suggestions',
+    namespaceOffline: 'Offline copies',
+  },
+  offline: {
+    banner: "You're offline. Searches you've already done and your bookmarks are still available.",
+    queued: "{{count}} changes will sync when you're back online.",
+    syncing: 'Back online - syncing {{count}} changes...',
+    browseSaved: 'Browse saved',
+    libraryTitle: 'Available offline',
+    savedSearches: 'Recent searches',
+    savedSearchDetails: '{{count}} results · saved {{date}}',
+    noSavedSearches: 'No searches saved yet. Searches you run online are kept here for a week.',
+    savedBookmarks: 'Bookmarks',
+    noSavedBookmarks: 'No bookmarks saved yet. Open your bookmarks while online to keep a copy.',
+    updateAvailable: 'A new version of Horizon Search is available.',
+    reload: 'Reload',
+    later: 'Later',
+  },
+  config: {
+    title: "Horizon Search isn't configured correctly",
+    descriptionFile: 'The settings in env.json have problems that stop the app from starting:',
+    descriptionBuild: 'The build-time settings have problems that stop the app from starting:',
+    issueMissing: 'Required setting is missing or still a placeholder',
+    issueType: 'Wrong type - expected {{expected}}',
+    issueUrl: 'Not a valid http(s) URL',
+    issueEnum: 'Must be one of: {{expected}}',
+    issueRange: 'Must be in the range {{expected}}',
+    issueUnknown: 'Not a known setting - check the spelling',
+    issueJson: 'The file is not valid JSON',
+    help: 'Fix the settings and reload, or contact the site administrator.',
+    reload: 'Reload',
+  },
+  links: {
+    title: 'Quick Links Management',
+    add: 'Add Link',
+    category: 'Category',
+    status: 'Status',
+    role: 'Role',
+    clearFilters: 'Clear Filters',
+    empty: 'No quick links found.',
+    emptyFiltered: 'Try adjusting your filters.',
+    emptyStart: 'Create your first link to get started.',
+    columnTitle: 'Title',
+    columnUrl: 'URL',
+    columnRoles: 'Roles',
+    columnOrder: 'Order',
+    columnClicks: 'Clicks',
+    activate: 'Activate',
+    deactivate: 'Deactivate',
+    confirmDelete: 'Are you sure you want to delete this link?',
+    deleted: 'Link deleted successfully',
+    activated: 'Link activated successfully',
+    deactivated: 'Link deactivated successfully',
+    updated: 'Link updated successfully',
+    created: 'Link created successfully',
+    loadFailed: 'Failed to load quick links',
+    deleteFailed: 'Failed to delete link',
+    toggleFailed: 'Failed to toggle link',
+    saveFailed: 'Failed to save link',
+    editTitle: 'Edit Quick Link',
+    createTitle: 'Create Quick Link',
+    description: 'Description',
+    descriptionPlaceholder: 'Brief description of this link',
+    icon: 'Icon',
+    orderHelp: 'Lower numbers appear first',
+    titleRequired: 'Title is required',
+    urlRequired: 'URL is required',
+    urlInvalid: 'Invalid URL format',
+    rolesRequired: 'At least one role must be selected',
+  },
+  moderation: {
+    title: 'Content Moderation',
+    addRule: 'Add Rule',
+    totalRules: 'Total Rules',
+    activeCount: '{{count}} active',
+    blockedDomains: 'Blocked Domains',
+    blockedKeywords: 'Blocked Keywords',
+    allowedDomains: 'Allowed Domains',
+    allRules: 'All Rules',
+    columnType: 'Type',
+    columnAction: 'Action',
+    columnValue: 'Value',
+    columnReason: 'Reason',
+    columnSeverity: 'Severity',
+    columnHits: 'Hits',
+    lastHit: 'Last matched {{date}}',
+    editRule: 'Edit Rule',
+    createRule: 'Create New Rule',
+    ruleType: 'Rule Type',
+    typeKeyword: 'Keyword',
+    typeDomain: 'Domain',
+    typeUrl: 'URL',
+    typePattern: 'Pattern (Regex)',
+    actionBlock: 'Block',
+    actionAllow: 'Allow',
+    actionFlag: 'Flag for Review',
+    keywordPlaceholder: 'inappropriate word',
+    regexPattern: 'Regex Pattern',
+    reasonPlaceholder: 'Why is this rule needed?',
+    severityLow: 'Low',
+    severityMedium: 'Medium',
+    severityHigh: 'High',
+    severityCritical: 'Critical',
+    caseSensitive: 'Case Sensitive',
+    createFailed: 'Failed to create rule',
+    updateFailed: 'Failed to update rule',
+    deleteFailed: 'Failed to delete rule',
+    confirmDelete: 'Are you sure you want to delete this rule?',
+    subscriptions: 'Subscriptions',
+    import: 'Import',
+    export: 'Export',
+    exportCsv: 'Export as CSV',
+    exportJson: 'Export as JSON',
+    showSubscribed: 'Show subscribed rules ({{count}})',
+    subscribedRule: 'From subscription',
+    importTitle: 'Import Rules',
+    importDescription: 'Choose a CSV file with a header row, or a JSON list of rules such as an export. Columns: ruleType, action, value, pattern, reason, severity, caseSensitive, isActive.',
+    importChooseFile: 'Choose File',
+    importDone: 'Imported {{created}} rules ({{skipped}} already existed)',
+    importFailed: 'Failed to import rules',
+    importEmpty: 'The file has no rules',
+    importUnreadable: "The file couldn't be read - check it is a CSV file with a header row or a JSON list of rules",
+    importCountNew: '{{count}} new',
+    importCountDuplicate: '{{count}} duplicates',
+    importCountInvalid: '{{count}} invalid',
+    importColumnRow: 'Row',
+    importColumnStatus: 'Status',
+    importStatusNew: 'New',
+    importStatusDuplicate: 'Duplicate',
+    importStatusInvalid: 'Invalid',
+    importIssueMissing: 'required',
+    importIssueValue: '{{value}} is not valid',
+    importIssuePattern: 'not a valid regular expression',
+    importMoreRows: '...and {{count}} more rows',
+    importConfirm: 'Import {{count}} rules',
+    subscriptionsTitle: 'Blocklist Subscriptions',
+    subscriptionsDescription: 'Subscribe to a public blocklist to keep its domains as rules. URL lists are fetched by the server on every sync; uploaded files are synced by choosing a newer copy. Unsubscribing removes all of its rules.',
+    subscriptionsEmpty: 'No blocklist subscriptions yet',
+    subscriptionName: 'Name',
+    subscriptionRules: 'Rules',
+    subscriptionLastSync: 'Last synced',
+    subscriptionAdd: 'Add Subscription',
+    subscriptionSource: 'Source',
+    subscriptionSourceUrl: 'URL (fetched by the server)',
+    subscriptionSourceFile: 'Local file',
+    subscriptionUrl: 'Blocklist URL',
+    subscriptionUrlHelp: 'Hosts files, Adblock domain lists and plain lists of domains are supported',
+    subscriptionDomainsFound: '{{name}}: {{count}} domains found',
+    subscribe: 'Subscribe',
+    subscribeFailed: 'Failed to add the subscription',
+    syncUrl: 'Sync now',
+    syncFile: 'Sync from a newer copy of the file',
+    syncFailed: 'Failed to sync {{name}}',
+    confirmUnsubscribe: 'Unsubscribe from {{name}} and remove its {{count}} rules?',
+    unsubscribeFailed: 'Failed to remove {{name}}',
+  },
+  wellbeing: {
+    title: 'Support is available',
+    titleYoung: "You're not alone",
+    selfHarm: "It sounds like you might be going through something really hard. You don't have to deal with it on your own - talking to someone you trust can help, and the people below are there to listen at any time.",
+    selfHarmYoung: 'It sounds like you might be feeling really sad or hurting. You are important, and there are kind people who want to help you. Please talk to a grown-up you trust, or call one of the helpers below.',
+    abuse: 'If someone is hurting you or making you feel unsafe, it is not your fault and you deserve to be safe. The people below can help, and what you tell them is private.',
+    abuseYoung: 'If someone is hurting you or making you feel scared, it is not your fault. Tell a grown-up you trust, or call one of the helpers below.',
+    bullying: 'Being bullied, online or in person, is never okay and it is not your fault. You can get support, and report online bullying, through the services below.',
+    bullyingYoung: 'Nobody should be mean to you or leave you out. Tell a teacher or a grown-up you trust, or call one of the helpers below.',
+    resourcesTitle: 'People you can talk to',
+    counsellor: 'School counsellor',
+    counsellorDescription: 'Talk to someone at school in confidence.',
+    kidsHelpline: 'Kids Helpline',
+    kidsHelplineDescription: 'Free, private counselling for young people, any time of the day or night.',
+    headspace: 'headspace',
+    headspaceDescription: 'Mental health support for young people, online or by phone.',
+    eSafety: 'eSafety Commissioner',
+    eSafetyDescription: 'Report cyberbullying and get harmful content taken down.',
+    emergency: 'Emergency',
+    emergencyDescription: 'If you or someone else is in danger right now, call 000.',
+    call: 'Call {{phone}}',
+    email: 'Email',
+    visit: 'Visit website',
+    continueHint: 'Looking this up for schoolwork?',
+    continue: 'Show search results',
+    alertNotSent: "We couldn't let the school's wellbeing team know just now. If you need help, talk to a teacher you trust or use one of the contacts below.",
+    queueTitle: 'Wellbeing Alerts',
+    queueDescription: "Confidential alerts raised when a student's search suggested they may need support. Only the wellbeing team can see this page.",
+    queueEmpty: 'No alerts here.',
+    accessDenied: 'Access Denied - Wellbeing Staff Only',
+    statusNew: 'New',
+    statusInProgress: 'In progress',
+    statusResolved: 'Resolved',
+    categorySelfHarm: 'Self-harm',
+    categoryAbuse: 'Abuse',
+    categoryBullying: 'Bullying',
+    columnCategory: 'Concern',
+    columnStudent: 'Student',
+    columnQuery: 'Search',
+    columnRaised: 'Raised',
+    columnNotes: 'Notes',
+    unknownStudent: 'Unknown student',
+    grade: 'Grade {{grade}}',
+    handledBy: 'Handled by {{name}}',
+    acknowledge: 'Acknowledge',
+    resolve: 'Resolve',
+    resolveTitle: 'Resolve alert',
+    notes: 'Follow-up notes',
+    notesHelp: 'Visible to the wellbeing team only.',
+    updateFailed: 'Failed to update the alert',
+  },
+  analytics: {
+    title: 'Search Analytics & Moderation',
+    needsAttention: 'Needs Attention',
+    needsAttentionHint: 'Unmoderated "bad" searches',
+    badTriggers: 'Bad Triggers',
+    badTriggersHint: 'Flagged as inappropriate',
+    questionable: 'Questionable',
+    questionableHint: 'Needs review',
+    safeSearches: 'Safe Searches',
+    safeSearchesHint: 'Approved content',
+    tabNeedsReview: 'Needs Review',
+    tabFlagged: 'Flagged',
+    tabBlocked: 'Blocked',
+    tabApproved: 'Approved',
+    filterByTrigger: 'Filter by Trigger',
+    allTriggers: 'All Triggers',
+    triggerBad: 'Bad',
+    triggerQuestionable: 'Questionable',
+    triggerSafe: 'Safe',
+    columnTrigger: 'Trigger',
+    columnQuery: 'Query',
+    columnUser: 'User',
+    columnDate: 'Date',
+    columnRating: 'Rating',
+    columnResults: 'Results',
+    columnAiAnswer: 'AI Answer',
+    noSearches: 'No searches found',
+    none: 'None',
+    noTrigger: 'No Trigger',
+    contentRatingTooltip: 'Content Rating: {{rating}}/100',
+    details: 'Search Details',
+    contentRating: 'Content Rating',
+    triggerReason: 'Trigger Reason',
+    detailsHeading: 'Details',
+    detailDate: 'Date: {{date}}',
+    detailCategory: 'Category: {{category}}',
+    detailResults: 'Results: {{count}}',
+    detailAiAnswer: 'AI Answer: {{value}}',
+    notModerated: 'This search has not been moderated yet. Take action below.',
+    moderatedAs: 'This search was {{action}} by a moderator.',
+    statusApproved: 'approved',
+    statusBlocked: 'blocked',
+    statusFlagged: 'flagged',
+    approve: 'Approve',
+    flag: 'Flag',
+    block: 'Block',
+    moderateFailed: 'Failed to moderate search',
+  },
+};
+
+export default en;
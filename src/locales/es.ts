@@ -0,0 +1,617 @@
+import type { Translation } from '.';
+
+const es: Translation = {
+  common: {
+    search: 'Buscar',
+    loading: 'Cargando...',
+    error: 'Error',
+    retry: 'Reintentar',
+    cancel: 'Cancelar',
+    save: 'Guardar',
+    delete: 'Eliminar',
+    edit: 'Editar',
+    close: 'Cerrar',
+    yes: 'Sí',
+    no: 'No',
+    create: 'Crear',
+    update: 'Actualizar',
+    refresh: 'Actualizar',
+    saving: 'Guardando...',
+    actions: 'Acciones',
+    active: 'Activo',
+    inactive: 'Inactivo',
+    all: 'Todos',
+    unknown: 'Desconocido',
+    accessDenied: 'Acceso denegado - Solo personal',
+  },
+  search: {
+    placeholder: 'Buscar contenido educativo...',
+    voiceSearch: 'Búsqueda por Voz',
+    advancedFilters: 'Filtros Avanzados',
+    results: 'resultados',
+    noResults: 'No se encontraron resultados',
+    aiAnswer: 'Respuesta IA',
+    webResults: 'Resultados Web',
+    export: 'Exportar Resultados',
+    bookmark: 'Marcar',
+    titleSearch: 'Búsqueda IA de Horizon',
+    titleChat: 'Asistente IA de Horizon',
+    modeSearch: 'Modo búsqueda - Resultados en tiempo real',
+    modeChat: 'Modo chat - Pulsa Enter para enviar',
+    welcomeBack: '¡Bienvenido de nuevo, {{name}}!',
+    introChat: 'Chatea con tu asistente docente de IA para recibir apoyo personalizado.',
+    introStaff: 'Accede a herramientas docentes con IA y recursos educativos.',
+    introStudent: 'Descubre tus tareas, materiales de estudio y recursos académicos.',
+    introGuest: 'Descubre todo sobre Horizon Christian School con nuestra búsqueda inteligente.',
+    placeholderChat: 'Escribe tu pregunta y pulsa Enter para chatear con el asistente IA...',
+    placeholderGuest: 'Buscar información del colegio...',
+    placeholderStaff: 'Busca recursos docentes, crea rúbricas, planes de clase...',
+    placeholderStudent: 'Busca tareas, materiales de estudio, recursos...',
+    recentSearches: 'Búsquedas recientes:',
+    resultsHeading: 'Resultados de búsqueda ({{count}})',
+    saveToBookmarks: 'Guardar en marcadores',
+    noResultsFor: 'No se encontraron resultados para "{{query}}"',
+    noResponseFor: 'No se generó respuesta para "{{query}}"',
+    tryRephrasing: 'Intenta reformular tu pregunta o pregunta otra cosa.',
+    tryAdjusting: 'Intenta ajustar los términos de búsqueda o explora los enlaces rápidos.',
+    readyToChat: '¿Listo para chatear?',
+    readyToExplore: '¿Listo para explorar?',
+    chatPrompt: 'Pregunta a tu asistente IA sobre enseñanza, planificación de clases o apoyo al estudiante.',
+    explorePrompt: 'Empieza a escribir para descubrir recursos y herramientas increíbles.',
+    blocked: 'Búsqueda bloqueada: {{reasons}}. Modifica tu consulta.',
+    inappropriateContent: 'Se detectó contenido inapropiado',
+    failed: 'La búsqueda falló. Inténtalo de nuevo.',
+    continueTyping: 'Sigue escribiendo para buscar...',
+    analyzing: 'La IA está analizando tu búsqueda...',
+    recent: 'Recientes:',
+    refreshRecent: 'Actualizar elementos recientes',
+    viaProviders: 'vía {{providers}}',
+    foundBy: 'Encontrado por: {{providers}}',
+    flagged: 'Marcado',
+    flaggedReason: 'Marcado por la moderación escolar: {{reason}}',
+    flaggedNoReason: 'Marcado por la moderación escolar: úselo con precaución',
+    aiCaution: 'IA: precaución',
+    aiCautionReason: 'Idoneidad según la IA {{score}} %: {{reason}}',
+    loadMore: 'Cargar más resultados',
+    loadingMore: 'Cargando más...',
+    operatorPhrase: 'Frase exacta: {{value}}',
+    operatorExclude: 'Excluyendo resultados que mencionan "{{value}}"',
+    operatorSite: 'Solo resultados de {{value}}',
+    operatorExcludeSite: 'Sin resultados de {{value}}',
+    operatorFileType: 'Solo archivos {{value}}',
+    didYouMean: 'Quisiste decir:',
+    showingResultsFor: 'Mostrando resultados de',
+    searchInsteadFor: 'Buscar en su lugar',
+  },
+  answer: {
+    label: 'RESPUESTA IA',
+    quickAnswerFor: 'Respuesta rápida para "{{query}}"',
+    writing: 'Escribiendo...',
+    confidenceHigh: 'Confianza alta',
+    confidenceMedium: 'Confianza media',
+    confidenceLow: 'Confianza baja',
+    sourcesUsed: 'Fuentes usadas para esta respuesta:',
+    moreSources: '+{{count}} más',
+    disclaimer: 'Esta respuesta fue generada por IA. Verifica la información importante y consulta las fuentes a continuación para más detalles.',
+    aiInfo: 'Esta respuesta la genera la IA a partir de los resultados de búsqueda. Verifica siempre la información importante.',
+    readAloud: 'Leer en voz alta',
+    stopReading: 'Dejar de leer',
+  },
+  voice: {
+    start: 'Iniciar búsqueda por voz',
+    stop: 'Detener búsqueda por voz',
+    unsupported: 'La búsqueda por voz no es compatible con este navegador',
+    listening: 'Escuchando...',
+    clickToStop: 'Haz clic de nuevo en el micrófono para detener',
+    errorNoSpeech: 'No se detectó voz. Inténtalo de nuevo.',
+    errorAudioCapture: 'No se encontró ningún micrófono. Revisa tu micrófono.',
+    errorNotAllowed: 'Permiso de micrófono denegado. Permite el acceso al micrófono.',
+    errorNetwork: 'Se produjo un error de red. Revisa tu conexión.',
+    errorAborted: 'Se canceló el reconocimiento de voz.',
+    errorGeneric: 'Se produjo un error en el reconocimiento de voz.',
+    startFailed: 'No se pudo iniciar el reconocimiento de voz',
+  },
+  chat: {
+    mode: 'Chat',
+    failed: 'El chat falló. Inténtalo de nuevo.',
+    openFailed: 'No se pudo abrir esa conversación. Puede que se haya eliminado.',
+    newConversation: 'Nueva conversación',
+    conversations: 'Conversaciones',
+    newChat: 'Nuevo chat',
+    stop: 'Detener',
+    thinking: 'El asistente IA está pensando...',
+    processing: 'Procesando tu solicitud',
+    noConversations: 'Aún no hay conversaciones guardadas. Empieza a chatear y aparecerán aquí.',
+    title: 'Título',
+    tags: 'Etiquetas',
+    tagPlaceholder: 'Escribe una etiqueta y pulsa Enter',
+    renameTag: 'Renombrar / etiquetar',
+    messageCount: '{{count}} mensajes',
+  },
+  filters: {
+    dateRange: 'Rango de Fechas',
+    contentType: 'Tipo de Contenido',
+    sources: 'Fuentes',
+    category: 'Categoría',
+    all: 'Todos',
+    educational: 'Educativo',
+    news: 'Noticias',
+    reference: 'Referencia',
+    title: 'Filtros',
+    reset: 'Borrar filtros',
+    anyTime: 'Cualquier fecha',
+    pastDay: 'Últimas 24 horas',
+    pastWeek: 'Última semana',
+    pastMonth: 'Último mes',
+    pastYear: 'Último año',
+    anyFileType: 'Cualquier tipo',
+    filePdf: 'PDF',
+    fileDoc: 'Documentos de Word',
+    filePpt: 'Presentaciones',
+    fileXls: 'Hojas de cálculo',
+    categoryAny: 'Todas las categorías',
+    tutorial: 'Tutorial',
+    general: 'Información general',
+    includeSites: 'Solo estos sitios',
+    excludeSites: 'Excluir sitios',
+    sitesPlaceholder: 'p. ej. bbc.co.uk, nasa.gov',
+  },
+  suggestions: {
+    history: 'Reciente',
+    popular: 'Popular',
+    quickLink: 'Enlace rápido',
+    correction: 'Ortografía',
+    didYouMean: 'Quisiste decir: {{query}}',
+  },
+  auth: {
+    signIn: 'Iniciar Sesión',
+    signOut: 'Cerrar Sesión',
+    welcome: 'Bienvenido',
+    student: 'Estudiante',
+    staff: 'Personal',
+    guest: 'Invitado',
+    role: 'Rol: {{role}}',
+    dialogTitle: 'Inicia sesión en Horizon Christian School',
+    dialogIntro: 'Accede a tu panel personalizado con tareas, recursos y herramientas.',
+    signInWithMicrosoft: 'Iniciar sesión con Microsoft',
+    signingIn: 'Iniciando sesión...',
+    rememberMe: 'Recordarme durante 30 días',
+    benefitsTitle: 'Lo que obtendrás:',
+    benefitSearch: 'Resultados de búsqueda personalizados',
+    benefitAssignments: 'Acceso a tareas y calificaciones',
+    benefitLinks: 'Enlaces rápidos según tu rol',
+    benefitAssistance: 'Asistencia de aprendizaje con IA',
+    loginFailed: 'Error al iniciar sesión. Inténtalo de nuevo.',
+    redirectSigningIn: 'Iniciando tu sesión...',
+    redirectWait: 'Espera mientras completamos tu autenticación.',
+    redirectError: 'Error de autenticación',
+    redirectErrorBack: 'Volviendo a la página principal...',
+    redirectComplete: 'Autenticación completada',
+    redirectCompleteBack: 'Redirigiendo a la página principal...',
+    authFailed: 'La autenticación falló. Inténtalo de nuevo.',
+  },
+  header: {
+    schoolName: 'Horizon Christian School',
+    tagline: 'Una educación cristiana transformadora para todos',
+    analytics: 'Analíticas',
+    moderation: 'Moderación',
+    wellbeing: 'Bienestar',
+    bookmarks: 'Marcadores',
+    support: 'Soporte',
+    login: 'Iniciar sesión',
+    logout: 'Cerrar sesión',
+    language: 'Idioma',
+    bibliography: 'Bibliografía',
+  },
+  sidePanel: {
+    enhanced: 'Mejorado',
+    standard: 'Estándar',
+    active: 'Activo',
+    quickLinks: 'Enlaces rápidos',
+    noLinks: 'No hay enlaces disponibles para tu rol.',
+    readingLevel: 'Nivel de lectura',
+    grade: 'Grado {{grade}}',
+    gradeCollege: 'Universidad',
+    gradeAdult: 'Adulto',
+  },
+  bookmarks: {
+    title: 'Mis marcadores',
+    exportAll: 'Exportar todos los marcadores',
+    allBookmarks: 'Todos los marcadores ({{count}})',
+    favourites: 'Favoritos ({{count}})',
+    filterByTag: 'Filtrar por etiqueta',
+    selectedCount: '{{count}} seleccionados',
+    bookmarkCount: '{{count}} marcadores',
+    deleteSelected: 'Eliminar seleccionados',
+    empty: 'Aún no hay marcadores. Usa el botón de marcador en una respuesta o resultado para guardarlo aquí.',
+    noMatches: 'Ningún marcador coincide con los filtros actuales.',
+    addFavourite: 'Añadir a favoritos',
+    removeFavourite: 'Quitar de favoritos',
+    editNotes: 'Editar notas',
+    notesPlaceholder: 'Añade tus notas...',
+    saveNotes: 'Guardar notas',
+    saveTitle: 'Guardar en marcadores',
+    folder: 'Carpeta',
+    folderHelp: 'Usa / para anidar carpetas, p. ej. Ciencias/Fotosíntesis',
+    notes: 'Notas',
+    notesPrompt: '¿Qué te resultó útil?',
+    saveFailed: 'No se pudo guardar el marcador. Inténtalo de nuevo.',
+  },
+  export: {
+    tooltip: 'Exportar',
+    pdf: 'Descargar PDF',
+    print: 'Imprimir',
+    html: 'Exportar como HTML',
+    text: 'Exportar como texto',
+    json: 'Exportar como JSON',
+    includeCitations: 'Incluir citas',
+    includeCitationsHint: 'Referencias con formato para cada fuente',
+    exportSelected: 'Exportar marcadores seleccionados',
+    exportFolder: 'Exportar esta carpeta',
+    exportChat: 'Exportar conversación',
+    allBookmarks: 'Todos los marcadores',
+    favourites: 'Favoritos',
+    aiAnswer: 'Respuesta de IA',
+    resultCount: '{{count}} resultados',
+    query: 'Búsqueda: {{query}}',
+    bookmarkFolderTitle: 'Marcadores: {{folder}}',
+    bookmarkCount: '{{count}} marcadores',
+    messageCount: '{{count}} mensajes · iniciada el {{date}}',
+    you: 'Tú',
+    assistant: 'Asistente',
+    exportedOn: 'Exportado el {{date}}',
+    references: 'Referencias',
+  },
+  citations: {
+    style: 'Estilo de cita',
+    cite: 'Citar este resultado',
+    citeSource: 'Citar esta fuente',
+    citeSources: 'Citar estas fuentes',
+    citeSourcesShort: 'Citar',
+    copy: 'Copiar cita',
+    copied: '¡Copiado!',
+    addToBibliography: 'Añadir a la bibliografía',
+    inBibliography: 'En tu bibliografía',
+    addAll: 'Añadir todo a la bibliografía',
+    viewBibliography: 'Bibliografía ({{count}})',
+    bibliography: 'Bibliografía',
+    emptyBibliography: 'Tu bibliografía está vacía. Usa el botón Citar en un resultado para añadir fuentes.',
+    remove: 'Quitar',
+    clearAll: 'Borrar todo',
+    copyBibliography: 'Copiar bibliografía',
+  },
+  support: {
+    title: 'Solicitar soporte',
+    success: '¡Tu solicitud de soporte se envió correctamente! Nuestro equipo te responderá pronto.',
+    intro: '¿Necesitas ayuda? Nuestro equipo de soporte informático está aquí para ayudarte con problemas técnicos y preguntas.',
+    email: 'Soporte por correo',
+    phone: 'Soporte telefónico',
+    liveChat: 'Chat en vivo',
+    hours: 'Lun-Vie 8:00-17:00',
+    user: 'Usuario:',
+    role: 'Rol:',
+    requestType: 'Tipo de solicitud',
+    typeTechnical: 'Problema técnico',
+    typeAccount: 'Acceso a la cuenta',
+    typePassword: 'Restablecer contraseña',
+    typeApplication: 'Soporte de aplicaciones',
+    typeTraining: 'Solicitud de formación',
+    typeOther: 'Otro',
+    description: 'Descripción',
+    descriptionPlaceholder: 'Describe tu problema o pregunta en detalle...',
+    descriptionHelp: 'Incluye mensajes de error, pasos que hayas probado o detalles específicos',
+    submit: 'Enviar solicitud',
+    submitting: 'Enviando...',
+  },
+  admin: {
+    verifying: 'Verificando acceso de administrador...',
+    title: 'Panel de administración',
+    subtitle: 'Portal de gestión de Horizon School Search',
+    role: 'Rol: {{role}}',
+    itAdministrator: 'Administrador de TI',
+    tabQuickLinks: 'Enlaces rápidos',
+    tabModeration: 'Moderación de contenido',
+    tabAnalytics: 'Analíticas',
+    tabProviders: 'Proveedores de búsqueda',
+    tabCache: 'Caché',
+    tabSettings: 'Configuración del sistema',
+    settingsComingSoon: 'Próximamente más opciones de configuración del sistema...',
+    footer: 'Portal de administración de Horizon School Search © {{year}}',
+  },
+  providers: {
+    title: 'Proveedores de búsqueda',
+    description: 'Los proveedores se prueban en orden. Tras varios fallos seguidos, un proveedor se omite durante un tiempo de espera. Las estadísticas cubren las búsquedas hechas en este navegador desde que se abrió.',
+    resetCircuits: 'Restablecer circuitos',
+    noneConfigured: 'No hay proveedores de búsqueda configurados.',
+    provider: 'Proveedor',
+    status: 'Estado',
+    successRate: 'Tasa de éxito',
+    requests: 'Solicitudes',
+    consecutiveFailures: 'Fallos consecutivos',
+    lastError: 'Último error',
+    healthy: 'Correcto',
+    degraded: 'Degradado',
+    open: 'Omitido',
+    openHint: 'Omitido durante {{seconds}} s más tras varios fallos',
+    halfOpen: 'Reintentando',
+    unavailable: 'No disponible',
+    noData: 'Sin datos aún',
+  },
+  cache: {
+    title: 'Caché',
+    description: 'Los resultados de búsqueda, las respuestas de IA, las conversaciones y las sugerencias se guardan en memoria y en el almacenamiento del navegador para evitar peticiones repetidas. Las estadísticas cubren este navegador desde que se abrió.',
+    clearAll: 'Borrar todo',
+    clear: 'Borrar',
+    hitRate: 'Tasa de aciertos',
+    hits: 'Aciertos',
+    stale: 'obsoletos',
+    misses: 'Fallos',
+    evictions: 'Expulsiones',
+    memory: 'Memoria',
+    persistent: 'Almacenamiento del navegador',
+    unavailable: 'No disponible',
+    persistentUnavailable: 'El almacenamiento del navegador no está disponible, así que la caché solo usa memoria y se vacía al recargar.',
+    namespace: 'Espacio de nombres',
+    entries: 'Entradas',
+    size: 'Tamaño',
+    namespaceSearch: 'Resultados de búsqueda',
+    namespaceAnswers: 'Respuestas de IA',
+    namespaceChat: 'Conversaciones',
+    namespaceSuggestions: 'Sugerencias',
+    namespaceOffline: 'Copias sin conexión',
+  },
+  offline: {
+    banner: 'Estás sin conexión. Las búsquedas que ya hiciste y tus marcadores siguen disponibles.',
+    queued: '{{count}} cambios se sincronizarán cuando vuelvas a estar en línea.',
+    syncing: 'De nuevo en línea: sincronizando {{count}} cambios...',
+    browseSaved: 'Ver guardados',
+    libraryTitle: 'Disponible sin conexión',
+    savedSearches: 'Búsquedas recientes',
+    savedSearchDetails: '{{count}} resultados · guardado el {{date}}',
+    noSavedSearches: 'Aún no hay búsquedas guardadas. Las búsquedas que hagas en línea se guardan aquí durante una semana.',
+    savedBookmarks: 'Marcadores',
+    noSavedBookmarks: 'Aún no hay marcadores guardados. Abre tus marcadores con conexión para guardar una copia.',
+    updateAvailable: 'Hay una nueva versión de Horizon Search disponible.',
+    reload: 'Recargar',
+    later: 'Más tarde',
+  },
+  config: {
+    title: 'Horizon Search no está configurado correctamente',
+    descriptionFile: 'La configuración de env.json tiene problemas que impiden iniciar la aplicación:',
+    descriptionBuild: 'La configuración de compilación tiene problemas que impiden iniciar la aplicación:',
+    issueMissing: 'Falta un ajuste obligatorio o sigue siendo un marcador de posición',
+    issueType: 'Tipo incorrecto: se esperaba {{expected}}',
+    issueUrl: 'No es una URL http(s) válida',
+    issueEnum: 'Debe ser uno de: {{expected}}',
+    issueRange: 'Debe estar en el rango {{expected}}',
+    issueUnknown: 'No es un ajuste conocido: revise la ortografía',
+    issueJson: 'El archivo no es JSON válido',
+    help: 'Corrija la configuración y recargue, o contacte con el administrador del sitio.',
+    reload: 'Recargar',
+  },
+  links: {
+    title: 'Gestión de enlaces rápidos',
+    add: 'Añadir enlace',
+    category: 'Categoría',
+    status: 'Estado',
+    role: 'Rol',
+    clearFilters: 'Borrar filtros',
+    empty: 'No se encontraron enlaces rápidos.',
+    emptyFiltered: 'Intenta ajustar los filtros.',
+    emptyStart: 'Crea tu primer enlace para empezar.',
+    columnTitle: 'Título',
+    columnUrl: 'URL',
+    columnRoles: 'Roles',
+    columnOrder: 'Orden',
+    columnClicks: 'Clics',
+    activate: 'Activar',
+    deactivate: 'Desactivar',
+    confirmDelete: '¿Seguro que quieres eliminar este enlace?',
+    deleted: 'Enlace eliminado correctamente',
+    activated: 'Enlace activado correctamente',
+    deactivated: 'Enlace desactivado correctamente',
+    updated: 'Enlace actualizado correctamente',
+    created: 'Enlace creado correctamente',
+    loadFailed: 'No se pudieron cargar los enlaces rápidos',
+    deleteFailed: 'No se pudo eliminar el enlace',
+    toggleFailed: 'No se pudo cambiar el estado del enlace',
+    saveFailed: 'No se pudo guardar el enlace',
+    editTitle: 'Editar enlace rápido',
+    createTitle: 'Crear enlace rápido',
+    description: 'Descripción',
+    descriptionPlaceholder: 'Breve descripción de este enlace',
+    icon: 'Icono',
+    orderHelp: 'Los números más bajos aparecen primero',
+    titleRequired: 'El título es obligatorio',
+    urlRequired: 'La URL es obligatoria',
+    urlInvalid: 'Formato de URL no válido',
+    rolesRequired: 'Debes seleccionar al menos un rol',
+  },
+  moderation: {
+    title: 'Moderación de contenido',
+    addRule: 'Añadir regla',
+    totalRules: 'Reglas totales',
+    activeCount: '{{count}} activas',
+    blockedDomains: 'Dominios bloqueados',
+    blockedKeywords: 'Palabras clave bloqueadas',
+    allowedDomains: 'Dominios permitidos',
+    allRules: 'Todas las reglas',
+    columnType: 'Tipo',
+    columnAction: 'Acción',
+    columnValue: 'Valor',
+    columnReason: 'Motivo',
+    columnSeverity: 'Gravedad',
+    columnHits: 'Coincidencias',
+    lastHit: 'Última coincidencia: {{date}}',
+    editRule: 'Editar regla',
+    createRule: 'Crear nueva regla',
+    ruleType: 'Tipo de regla',
+    typeKeyword: 'Palabra clave',
+    typeDomain: 'Dominio',
+    typeUrl: 'URL',
+    typePattern: 'Patrón (Regex)',
+    actionBlock: 'Bloquear',
+    actionAllow: 'Permitir',
+    actionFlag: 'Marcar para revisión',
+    keywordPlaceholder: 'palabra inapropiada',
+    regexPattern: 'Patrón regex',
+    reasonPlaceholder: '¿Por qué se necesita esta regla?',
+    severityLow: 'Baja',
+    severityMedium: 'Media',
+    severityHigh: 'Alta',
+    severityCritical: 'Crítica',
+    caseSensitive: 'Distinguir mayúsculas',
+    createFailed: 'No se pudo crear la regla',
+    updateFailed: 'No se pudo actualizar la regla',
+    deleteFailed: 'No se pudo eliminar la regla',
+    confirmDelete: '¿Seguro que quieres eliminar esta regla?',
+    subscriptions: 'Suscripciones',
+    import: 'Importar',
+    export: 'Exportar',
+    exportCsv: 'Exportar como CSV',
+    exportJson: 'Exportar como JSON',
+    showSubscribed: 'Mostrar reglas suscritas ({{count}})',
+    subscribedRule: 'De una suscripción',
+    importTitle: 'Importar reglas',
+    importDescription: 'Elige un archivo CSV con fila de encabezado o una lista JSON de reglas, como una exportación. Columnas: ruleType, action, value, pattern, reason, severity, caseSensitive, isActive.',
+    importChooseFile: 'Elegir archivo',
+    importDone: 'Se importaron {{created}} reglas ({{skipped}} ya existían)',
+    importFailed: 'No se pudieron importar las reglas',
+    importEmpty: 'El archivo no contiene reglas',
+    importUnreadable: 'No se pudo leer el archivo: comprueba que sea un CSV con fila de encabezado o una lista JSON de reglas',
+    importCountNew: '{{count}} nuevas',
+    importCountDuplicate: '{{count}} duplicadas',
+    importCountInvalid: '{{count}} no válidas',
+    importColumnRow: 'Fila',
+    importColumnStatus: 'Estado',
+    importStatusNew: 'Nueva',
+    importStatusDuplicate: 'Duplicada',
+    importStatusInvalid: 'No válida',
+    importIssueMissing: 'obligatorio',
+    importIssueValue: '{{value}} no es válido',
+    importIssuePattern: 'no es una expresión regular válida',
+    importMoreRows: '...y {{count}} filas más',
+    importConfirm: 'Importar {{count}} reglas',
+    subscriptionsTitle: 'Suscripciones a listas de bloqueo',
+    subscriptionsDescription: 'Suscríbete a una lista de bloqueo pública para mantener sus dominios como reglas. Las listas por URL las descarga el servidor en cada sincronización; los archivos subidos se sincronizan eligiendo una copia más reciente. Al cancelar la suscripción se eliminan todas sus reglas.',
+    subscriptionsEmpty: 'Aún no hay suscripciones a listas de bloqueo',
+    subscriptionName: 'Nombre',
+    subscriptionRules: 'Reglas',
+    subscriptionLastSync: 'Última sincronización',
+    subscriptionAdd: 'Añadir suscripción',
+    subscriptionSource: 'Origen',
+    subscriptionSourceUrl: 'URL (la descarga el servidor)',
+    subscriptionSourceFile: 'Archivo local',
+    subscriptionUrl: 'URL de la lista de bloqueo',
+    subscriptionUrlHelp: 'Se admiten archivos hosts, listas de dominios de Adblock y listas simples de dominios',
+    subscriptionDomainsFound: '{{name}}: {{count}} dominios encontrados',
+    subscribe: 'Suscribirse',
+    subscribeFailed: 'No se pudo añadir la suscripción',
+    syncUrl: 'Sincronizar ahora',
+    syncFile: 'Sincronizar desde una copia más reciente del archivo',
+    syncFailed: 'No se pudo sincronizar {{name}}',
+    confirmUnsubscribe: '¿Cancelar la suscripción a {{name}} y eliminar sus {{count}} reglas?',
+    unsubscribeFailed: 'No se pudo eliminar {{name}}',
+  },
+  wellbeing: {
+    title: 'Hay ayuda disponible',
+    titleYoung: 'No estás solo',
+    selfHarm: 'Parece que estás pasando por algo muy difícil. No tienes que afrontarlo solo: hablar con alguien de confianza puede ayudar, y las personas de abajo están para escucharte en cualquier momento.',
+    selfHarmYoung: 'Parece que te sientes muy triste o que algo te duele. Eres importante y hay personas amables que quieren ayudarte. Habla con un adulto de confianza o llama a alguno de los servicios de abajo.',
+    abuse: 'Si alguien te hace daño o te hace sentir inseguro, no es tu culpa y mereces estar a salvo. Las personas de abajo pueden ayudarte y lo que les cuentes es privado.',
+    abuseYoung: 'Si alguien te hace daño o te da miedo, no es tu culpa. Cuéntaselo a un adulto de confianza o llama a alguno de los servicios de abajo.',
+    bullying: 'Sufrir acoso, en línea o en persona, nunca está bien y no es tu culpa. Puedes recibir apoyo y denunciar el ciberacoso a través de los servicios de abajo.',
+    bullyingYoung: 'Nadie debería ser malo contigo ni dejarte de lado. Cuéntaselo a un profesor o a un adulto de confianza, o llama a alguno de los servicios de abajo.',
+    resourcesTitle: 'Personas con las que puedes hablar',
+    counsellor: 'Orientador escolar',
+    counsellorDescription: 'Habla en confianza con alguien del colegio.',
+    kidsHelpline: 'Kids Helpline',
+    kidsHelplineDescription: 'Orientación gratuita y privada para jóvenes, a cualquier hora del día o de la noche.',
+    headspace: 'headspace',
+    headspaceDescription: 'Apoyo de salud mental para jóvenes, en línea o por teléfono.',
+    eSafety: 'Comisionado de eSafety',
+    eSafetyDescription: 'Denuncia el ciberacoso y solicita la retirada de contenido dañino.',
+    emergency: 'Emergencias',
+    emergencyDescription: 'Si tú u otra persona estáis en peligro ahora mismo, llama al 000.',
+    call: 'Llamar al {{phone}}',
+    email: 'Correo electrónico',
+    visit: 'Visitar sitio web',
+    continueHint: '¿Lo buscas para un trabajo escolar?',
+    continue: 'Mostrar resultados de búsqueda',
+    alertNotSent: 'No hemos podido avisar ahora al equipo de bienestar del colegio. Si necesitas ayuda, habla con un profesor de confianza o usa uno de los contactos de abajo.',
+    queueTitle: 'Alertas de bienestar',
+    queueDescription: 'Alertas confidenciales generadas cuando la búsqueda de un estudiante sugería que podría necesitar apoyo. Solo el equipo de bienestar puede ver esta página.',
+    queueEmpty: 'No hay alertas aquí.',
+    accessDenied: 'Acceso denegado - Solo personal de bienestar',
+    statusNew: 'Nuevas',
+    statusInProgress: 'En curso',
+    statusResolved: 'Resueltas',
+    categorySelfHarm: 'Autolesiones',
+    categoryAbuse: 'Abuso',
+    categoryBullying: 'Acoso',
+    columnCategory: 'Motivo',
+    columnStudent: 'Estudiante',
+    columnQuery: 'Búsqueda',
+    columnRaised: 'Generada',
+    columnNotes: 'Notas',
+    unknownStudent: 'Estudiante desconocido',
+    grade: 'Curso {{grade}}',
+    handledBy: 'Atendida por {{name}}',
+    acknowledge: 'Atender',
+    resolve: 'Resolver',
+    resolveTitle: 'Resolver alerta',
+    notes: 'Notas de seguimiento',
+    notesHelp: 'Solo visible para el equipo de bienestar.',
+    updateFailed: 'No se pudo actualizar la alerta',
+  },
+  analytics: {
+    title: 'Analíticas y moderación de búsquedas',
+    needsAttention: 'Requiere atención',
+    needsAttentionHint: 'Búsquedas "malas" sin moderar',
+    badTriggers: 'Alertas graves',
+    badTriggersHint: 'Marcadas como inapropiadas',
+    questionable: 'Dudosas',
+    questionableHint: 'Requiere revisión',
+    safeSearches: 'Búsquedas seguras',
+    safeSearchesHint: 'Contenido aprobado',
+    tabNeedsReview: 'Por revisar',
+    tabFlagged: 'Marcadas',
+    tabBlocked: 'Bloqueadas',
+    tabApproved: 'Aprobadas',
+    filterByTrigger: 'Filtrar por alerta',
+    allTriggers: 'Todas las alertas',
+    triggerBad: 'Mala',
+    triggerQuestionable: 'Dudosa',
+    triggerSafe: 'Segura',
+    columnTrigger: 'Alerta',
+    columnQuery: 'Consulta',
+    columnUser: 'Usuario',
+    columnDate: 'Fecha',
+    columnRating: 'Valoración',
+    columnResults: 'Resultados',
+    columnAiAnswer: 'Respuesta IA',
+    noSearches: 'No se encontraron búsquedas',
+    none: 'Ninguna',
+    noTrigger: 'Sin alerta',
+    contentRatingTooltip: 'Valoración del contenido: {{rating}}/100',
+    details: 'Detalles de la búsqueda',
+    contentRating: 'Valoración del contenido',
+    triggerReason: 'Motivo de la alerta',
+    detailsHeading: 'Detalles',
+    detailDate: 'Fecha: {{date}}',
+    detailCategory: 'Categoría: {{category}}',
+    detailResults: 'Resultados: {{count}}',
+    detailAiAnswer: 'Respuesta IA: {{value}}',
+    notModerated: 'Esta búsqueda aún no ha sido moderada. Elige una acción abajo.',
+    moderatedAs: 'Esta búsqueda fue {{action}} por un moderador.',
+    statusApproved: 'aprobada',
+    statusBlocked: 'bloqueada',
+    statusFlagged: 'marcada',
+    approve: 'Aprobar',
+    flag: 'Marcar',
+    block: 'Bloquear',
+    moderateFailed: 'No se pudo moderar la búsqueda',
+  },
+};
+
+export default es;
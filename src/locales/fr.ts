@@ -0,0 +1,617 @@
+import type { Translation } from '.';
+
+const fr: Translation = {
+  common: {
+    search: 'Rechercher',
+    loading: 'Chargement...',
+    error: 'Erreur',
+    retry: 'Réessayer',
+    cancel: 'Annuler',
+    save: 'Enregistrer',
+    delete: 'Supprimer',
+    edit: 'Modifier',
+    close: 'Fermer',
+    yes: 'Oui',
+    no: 'Non',
+    create: 'Créer',
+    update: 'Mettre à jour',
+    refresh: 'Actualiser',
+    saving: 'Enregistrement...',
+    actions: 'Actions',
+    active: 'Actif',
+    inactive: 'Inactif',
+    all: 'Tous',
+    unknown: 'Inconnu',
+    accessDenied: 'Accès refusé - Personnel uniquement',
+  },
+  search: {
+    placeholder: 'Rechercher du contenu éducatif...',
+    voiceSearch: 'Recherche Vocale',
+    advancedFilters: 'Filtres Avancés',
+    results: 'résultats',
+    noResults: 'Aucun résultat trouvé',
+    aiAnswer: 'Réponse IA',
+    webResults: 'Résultats Web',
+    export: 'Exporter les Résultats',
+    bookmark: 'Marquer',
+    titleSearch: 'Recherche IA Horizon',
+    titleChat: 'Assistant IA Horizon',
+    modeSearch: 'Mode recherche - Résultats en temps réel',
+    modeChat: 'Mode discussion - Appuyez sur Entrée pour envoyer',
+    welcomeBack: 'Bon retour, {{name}} !',
+    introChat: 'Discutez avec votre assistant pédagogique IA pour un accompagnement personnalisé.',
+    introStaff: 'Accédez aux outils pédagogiques IA et aux ressources éducatives.',
+    introStudent: "Découvrez vos devoirs, supports d'étude et ressources scolaires.",
+    introGuest: 'Découvrez tout sur Horizon Christian School grâce à notre recherche intelligente.',
+    placeholderChat: "Tapez votre question et appuyez sur Entrée pour discuter avec l'assistant IA...",
+    placeholderGuest: "Rechercher des informations sur l'école...",
+    placeholderStaff: 'Rechercher des ressources pédagogiques, créer des grilles, des plans de cours...',
+    placeholderStudent: "Rechercher des devoirs, supports d'étude, ressources...",
+    recentSearches: 'Recherches récentes :',
+    resultsHeading: 'Résultats de recherche ({{count}})',
+    saveToBookmarks: 'Ajouter aux favoris',
+    noResultsFor: 'Aucun résultat trouvé pour « {{query}} »',
+    noResponseFor: 'Aucune réponse générée pour « {{query}} »',
+    tryRephrasing: 'Essayez de reformuler votre question ou demandez autre chose.',
+    tryAdjusting: 'Essayez de modifier vos termes de recherche ou parcourez les liens rapides.',
+    readyToChat: 'Prêt à discuter ?',
+    readyToExplore: 'Prêt à explorer ?',
+    chatPrompt: "Interrogez votre assistant IA sur l'enseignement, la préparation de cours ou l'accompagnement des élèves.",
+    explorePrompt: 'Commencez à taper pour découvrir des ressources et des outils formidables.',
+    blocked: 'Recherche bloquée : {{reasons}}. Veuillez modifier votre requête.',
+    inappropriateContent: 'Contenu inapproprié détecté',
+    failed: 'La recherche a échoué. Veuillez réessayer.',
+    continueTyping: 'Continuez à taper pour rechercher...',
+    analyzing: "L'IA analyse votre recherche...",
+    recent: 'Récents :',
+    refreshRecent: 'Actualiser les éléments récents',
+    viaProviders: 'via {{providers}}',
+    foundBy: 'Trouvé par : {{providers}}',
+    flagged: 'Signalé',
+    flaggedReason: 'Signalé par la modération de l’école : {{reason}}',
+    flaggedNoReason: 'Signalé par la modération de l’école - à utiliser avec prudence',
+    aiCaution: 'IA : prudence',
+    aiCautionReason: 'Pertinence selon l’IA {{score}} % : {{reason}}',
+    loadMore: 'Charger plus de résultats',
+    loadingMore: 'Chargement...',
+    operatorPhrase: 'Expression exacte : {{value}}',
+    operatorExclude: 'Résultats mentionnant « {{value}} » exclus',
+    operatorSite: 'Uniquement les résultats de {{value}}',
+    operatorExcludeSite: 'Aucun résultat de {{value}}',
+    operatorFileType: 'Uniquement les fichiers {{value}}',
+    didYouMean: 'Vouliez-vous dire :',
+    showingResultsFor: 'Résultats pour',
+    searchInsteadFor: 'Rechercher plutôt',
+  },
+  answer: {
+    label: 'RÉPONSE IA',
+    quickAnswerFor: 'Réponse rapide pour « {{query}} »',
+    writing: 'Rédaction...',
+    confidenceHigh: 'Confiance élevée',
+    confidenceMedium: 'Confiance moyenne',
+    confidenceLow: 'Confiance faible',
+    sourcesUsed: 'Sources utilisées pour cette réponse :',
+    moreSources: '+{{count}} de plus',
+    disclaimer: "Cette réponse a été générée par l'IA. Veuillez vérifier les informations importantes et consulter les sources ci-dessous pour plus de détails.",
+    aiInfo: "Cette réponse est générée par l'IA à partir des résultats de recherche. Vérifiez toujours les informations importantes.",
+    readAloud: 'Lire à voix haute',
+    stopReading: 'Arrêter la lecture',
+  },
+  voice: {
+    start: 'Démarrer la recherche vocale',
+    stop: 'Arrêter la recherche vocale',
+    unsupported: "La recherche vocale n'est pas prise en charge par ce navigateur",
+    listening: 'Écoute...',
+    clickToStop: 'Cliquez à nouveau sur le micro pour arrêter',
+    errorNoSpeech: 'Aucune parole détectée. Veuillez réessayer.',
+    errorAudioCapture: 'Aucun micro trouvé. Veuillez vérifier votre micro.',
+    errorNotAllowed: 'Accès au micro refusé. Veuillez autoriser le micro.',
+    errorNetwork: 'Une erreur réseau est survenue. Veuillez vérifier votre connexion.',
+    errorAborted: 'La reconnaissance vocale a été interrompue.',
+    errorGeneric: 'Une erreur est survenue avec la reconnaissance vocale.',
+    startFailed: 'Impossible de démarrer la reconnaissance vocale',
+  },
+  chat: {
+    mode: 'Discussion',
+    failed: 'La discussion a échoué. Veuillez réessayer.',
+    openFailed: "Impossible d'ouvrir cette conversation. Elle a peut-être été supprimée.",
+    newConversation: 'Nouvelle conversation',
+    conversations: 'Conversations',
+    newChat: 'Nouvelle discussion',
+    stop: 'Arrêter',
+    thinking: "L'assistant IA réfléchit...",
+    processing: 'Traitement de votre demande',
+    noConversations: 'Aucune conversation enregistrée. Commencez à discuter et vos conversations apparaîtront ici.',
+    title: 'Titre',
+    tags: 'Étiquettes',
+    tagPlaceholder: 'Saisissez une étiquette et appuyez sur Entrée',
+    renameTag: 'Renommer / étiqueter',
+    messageCount: '{{count}} messages',
+  },
+  filters: {
+    dateRange: 'Plage de Dates',
+    contentType: 'Type de Contenu',
+    sources: 'Sources',
+    category: 'Catégorie',
+    all: 'Tous',
+    educational: 'Éducatif',
+    news: 'Actualités',
+    reference: 'Référence',
+    title: 'Filtres',
+    reset: 'Effacer les filtres',
+    anyTime: 'Toutes les dates',
+    pastDay: 'Dernières 24 heures',
+    pastWeek: 'Semaine dernière',
+    pastMonth: 'Mois dernier',
+    pastYear: 'Année dernière',
+    anyFileType: 'Tous les types',
+    filePdf: 'PDF',
+    fileDoc: 'Documents Word',
+    filePpt: 'Présentations',
+    fileXls: 'Tableurs',
+    categoryAny: 'Toutes les catégories',
+    tutorial: 'Tutoriel',
+    general: 'Informations générales',
+    includeSites: 'Uniquement ces sites',
+    excludeSites: 'Exclure des sites',
+    sitesPlaceholder: 'ex. bbc.co.uk, nasa.gov',
+  },
+  suggestions: {
+    history: 'Récent',
+    popular: 'Populaire',
+    quickLink: 'Lien rapide',
+    correction: 'Orthographe',
+    didYouMean: 'Vouliez-vous dire : {{query}}',
+  },
+  auth: {
+    signIn: 'Se Connecter',
+    signOut: 'Se Déconnecter',
+    welcome: 'Bienvenue',
+    student: 'Étudiant',
+    staff: 'Personnel',
+    guest: 'Invité',
+    role: 'Rôle : {{role}}',
+    dialogTitle: 'Connectez-vous à Horizon Christian School',
+    dialogIntro: 'Accédez à votre tableau de bord personnalisé avec devoirs, ressources et outils.',
+    signInWithMicrosoft: 'Se connecter avec Microsoft',
+    signingIn: 'Connexion...',
+    rememberMe: 'Se souvenir de moi pendant 30 jours',
+    benefitsTitle: 'Ce que vous obtiendrez :',
+    benefitSearch: 'Résultats de recherche personnalisés',
+    benefitAssignments: 'Accès aux devoirs et aux notes',
+    benefitLinks: 'Liens rapides adaptés à votre rôle',
+    benefitAssistance: "Aide à l'apprentissage par IA",
+    loginFailed: 'La connexion a échoué. Veuillez réessayer.',
+    redirectSigningIn: 'Connexion en cours...',
+    redirectWait: 'Veuillez patienter pendant que nous finalisons votre authentification.',
+    redirectError: "Erreur d'authentification",
+    redirectErrorBack: 'Retour à la page principale...',
+    redirectComplete: 'Authentification terminée',
+    redirectCompleteBack: 'Redirection vers la page principale...',
+    authFailed: "L'authentification a échoué. Veuillez réessayer.",
+  },
+  header: {
+    schoolName: 'Horizon Christian School',
+    tagline: 'Une éducation chrétienne transformatrice pour tous',
+    analytics: 'Statistiques',
+    moderation: 'Modération',
+    wellbeing: 'Bien-être',
+    bookmarks: 'Favoris',
+    support: 'Assistance',
+    login: 'Connexion',
+    logout: 'Déconnexion',
+    language: 'Langue',
+    bibliography: 'Bibliographie',
+  },
+  sidePanel: {
+    enhanced: 'Avancé',
+    standard: 'Standard',
+    active: 'Actif',
+    quickLinks: 'Liens rapides',
+    noLinks: 'Aucun lien disponible pour votre rôle.',
+    readingLevel: 'Niveau de lecture',
+    grade: 'Niveau {{grade}}',
+    gradeCollege: 'Université',
+    gradeAdult: 'Adulte',
+  },
+  bookmarks: {
+    title: 'Mes favoris',
+    exportAll: 'Exporter tous les favoris',
+    allBookmarks: 'Tous les favoris ({{count}})',
+    favourites: 'Préférés ({{count}})',
+    filterByTag: 'Filtrer par étiquette',
+    selectedCount: '{{count}} sélectionnés',
+    bookmarkCount: '{{count}} favoris',
+    deleteSelected: 'Supprimer la sélection',
+    empty: "Aucun favori pour l'instant. Utilisez le bouton favori sur une réponse ou un résultat pour l'enregistrer ici.",
+    noMatches: 'Aucun favori ne correspond aux filtres actuels.',
+    addFavourite: 'Ajouter aux préférés',
+    removeFavourite: 'Retirer des préférés',
+    editNotes: 'Modifier les notes',
+    notesPlaceholder: 'Ajoutez vos notes...',
+    saveNotes: 'Enregistrer les notes',
+    saveTitle: 'Ajouter aux favoris',
+    folder: 'Dossier',
+    folderHelp: 'Utilisez / pour imbriquer des dossiers, ex. Sciences/Photosynthèse',
+    notes: 'Notes',
+    notesPrompt: "Qu'est-ce qui vous a été utile ?",
+    saveFailed: "Impossible d'enregistrer le favori. Veuillez réessayer.",
+  },
+  export: {
+    tooltip: 'Exporter',
+    pdf: 'Télécharger le PDF',
+    print: 'Imprimer',
+    html: 'Exporter en HTML',
+    text: 'Exporter en texte',
+    json: 'Exporter en JSON',
+    includeCitations: 'Inclure les citations',
+    includeCitationsHint: 'Références mises en forme pour chaque source',
+    exportSelected: 'Exporter les favoris sélectionnés',
+    exportFolder: 'Exporter ce dossier',
+    exportChat: 'Exporter la conversation',
+    allBookmarks: 'Tous les favoris',
+    favourites: 'Favoris',
+    aiAnswer: 'Réponse de l’IA',
+    resultCount: '{{count}} résultats',
+    query: 'Recherche : {{query}}',
+    bookmarkFolderTitle: 'Favoris : {{folder}}',
+    bookmarkCount: '{{count}} favoris',
+    messageCount: '{{count}} messages · commencée le {{date}}',
+    you: 'Vous',
+    assistant: 'Assistant',
+    exportedOn: 'Exporté le {{date}}',
+    references: 'Références',
+  },
+  citations: {
+    style: 'Style de citation',
+    cite: 'Citer ce résultat',
+    citeSource: 'Citer cette source',
+    citeSources: 'Citer ces sources',
+    citeSourcesShort: 'Citer',
+    copy: 'Copier la citation',
+    copied: 'Copié !',
+    addToBibliography: 'Ajouter à la bibliographie',
+    inBibliography: 'Dans votre bibliographie',
+    addAll: 'Tout ajouter à la bibliographie',
+    viewBibliography: 'Bibliographie ({{count}})',
+    bibliography: 'Bibliographie',
+    emptyBibliography: 'Votre bibliographie est vide. Utilisez le bouton Citer sur un résultat pour ajouter des sources.',
+    remove: 'Retirer',
+    clearAll: 'Tout effacer',
+    copyBibliography: 'Copier la bibliographie',
+  },
+  support: {
+    title: "Demander de l'assistance",
+    success: "Votre demande d'assistance a bien été envoyée ! Notre équipe vous répondra rapidement.",
+    intro: "Besoin d'aide ? Notre équipe informatique est là pour vous aider avec vos problèmes techniques et vos questions.",
+    email: 'Assistance par e-mail',
+    phone: 'Assistance téléphonique',
+    liveChat: 'Discussion en direct',
+    hours: 'Lun-Ven 8h-17h',
+    user: 'Utilisateur :',
+    role: 'Rôle :',
+    requestType: 'Type de demande',
+    typeTechnical: 'Problème technique',
+    typeAccount: 'Accès au compte',
+    typePassword: 'Réinitialisation du mot de passe',
+    typeApplication: 'Assistance applicative',
+    typeTraining: 'Demande de formation',
+    typeOther: 'Autre',
+    description: 'Description',
+    descriptionPlaceholder: 'Décrivez votre problème ou votre question en détail...',
+    descriptionHelp: "Indiquez les messages d'erreur, les étapes déjà essayées ou tout détail utile",
+    submit: 'Envoyer la demande',
+    submitting: 'Envoi...',
+  },
+  admin: {
+    verifying: "Vérification de l'accès administrateur...",
+    title: "Tableau de bord d'administration",
+    subtitle: 'Portail de gestion de Horizon School Search',
+    role: 'Rôle : {{role}}',
+    itAdministrator: 'Administrateur informatique',
+    tabQuickLinks: 'Liens rapides',
+    tabModeration: 'Modération du contenu',
+    tabAnalytics: 'Statistiques',
+    tabProviders: 'Fournisseurs de recherche',
+    tabCache: 'Cache',
+    tabSettings: 'Paramètres système',
+    settingsComingSoon: 'Des options de configuration avancées arrivent bientôt...',
+    footer: "Portail d'administration Horizon School Search © {{year}}",
+  },
+  providers: {
+    title: 'Fournisseurs de recherche',
+    description: 'Les fournisseurs sont essayés dans l’ordre. Après des échecs répétés, un fournisseur est ignoré pendant un délai de refroidissement. Les statistiques couvrent les recherches faites dans ce navigateur depuis son ouverture.',
+    resetCircuits: 'Réinitialiser les circuits',
+    noneConfigured: 'Aucun fournisseur de recherche n’est configuré.',
+    provider: 'Fournisseur',
+    status: 'État',
+    successRate: 'Taux de réussite',
+    requests: 'Requêtes',
+    consecutiveFailures: 'Échecs consécutifs',
+    lastError: 'Dernière erreur',
+    healthy: 'Opérationnel',
+    degraded: 'Dégradé',
+    open: 'Ignoré',
+    openHint: 'Ignoré encore {{seconds}} s après des échecs répétés',
+    halfOpen: 'Nouvel essai',
+    unavailable: 'Indisponible',
+    noData: 'Pas encore de données',
+  },
+  cache: {
+    title: 'Cache',
+    description: 'Les résultats de recherche, les réponses IA, les conversations et les suggestions sont conservés en mémoire et dans le stockage du navigateur pour éviter les requêtes répétées. Les statistiques couvrent ce navigateur depuis son ouverture.',
+    clearAll: 'Tout vider',
+    clear: 'Vider',
+    hitRate: 'Taux de réussite',
+    hits: 'Succès',
+    stale: 'périmés',
+    misses: 'Échecs',
+    evictions: 'Évictions',
+    memory: 'Mémoire',
+    persistent: 'Stockage du navigateur',
+    unavailable: 'Indisponible',
+    persistentUnavailable: 'Le stockage du navigateur est indisponible ici : le cache reste en mémoire et se vide au rechargement.',
+    namespace: 'Espace de noms',
+    entries: 'Entrées',
+    size: 'Taille',
+    namespaceSearch: 'Résultats de recherche',
+    namespaceAnswers: 'Réponses IA',
+    namespaceChat: 'Conversations',
+    namespaceSuggestions: 'Suggestions',
+    namespaceOffline: 'Copies hors ligne',
+  },
+  offline: {
+    banner: 'Vous êtes hors ligne. Vos recherches précédentes et vos favoris restent disponibles.',
+    queued: '{{count}} modifications seront synchronisées à votre retour en ligne.',
+    syncing: 'De retour en ligne - synchronisation de {{count}} modifications...',
+    browseSaved: 'Parcourir les éléments enregistrés',
+    libraryTitle: 'Disponible hors ligne',
+    savedSearches: 'Recherches récentes',
+    savedSearchDetails: '{{count}} résultats · enregistré le {{date}}',
+    noSavedSearches: 'Aucune recherche enregistrée. Les recherches effectuées en ligne sont conservées ici pendant une semaine.',
+    savedBookmarks: 'Favoris',
+    noSavedBookmarks: 'Aucun favori enregistré. Ouvrez vos favoris en ligne pour en garder une copie.',
+    updateAvailable: 'Une nouvelle version de Horizon Search est disponible.',
+    reload: 'Recharger',
+    later: 'Plus tard',
+  },
+  config: {
+    title: "Horizon Search n'est pas configuré correctement",
+    descriptionFile: "Les paramètres de env.json présentent des problèmes qui empêchent le démarrage de l'application :",
+    descriptionBuild: "Les paramètres de compilation présentent des problèmes qui empêchent le démarrage de l'application :",
+    issueMissing: 'Paramètre obligatoire manquant ou encore un espace réservé',
+    issueType: 'Type incorrect - {{expected}} attendu',
+    issueUrl: "Ce n'est pas une URL http(s) valide",
+    issueEnum: "Doit être l'une des valeurs : {{expected}}",
+    issueRange: 'Doit être dans la plage {{expected}}',
+    issueUnknown: "Paramètre inconnu - vérifiez l'orthographe",
+    issueJson: "Le fichier n'est pas un JSON valide",
+    help: "Corrigez les paramètres et rechargez, ou contactez l'administrateur du site.",
+    reload: 'Recharger',
+  },
+  links: {
+    title: 'Gestion des liens rapides',
+    add: 'Ajouter un lien',
+    category: 'Catégorie',
+    status: 'Statut',
+    role: 'Rôle',
+    clearFilters: 'Effacer les filtres',
+    empty: 'Aucun lien rapide trouvé.',
+    emptyFiltered: 'Essayez de modifier vos filtres.',
+    emptyStart: 'Créez votre premier lien pour commencer.',
+    columnTitle: 'Titre',
+    columnUrl: 'URL',
+    columnRoles: 'Rôles',
+    columnOrder: 'Ordre',
+    columnClicks: 'Clics',
+    activate: 'Activer',
+    deactivate: 'Désactiver',
+    confirmDelete: 'Voulez-vous vraiment supprimer ce lien ?',
+    deleted: 'Lien supprimé',
+    activated: 'Lien activé',
+    deactivated: 'Lien désactivé',
+    updated: 'Lien mis à jour',
+    created: 'Lien créé',
+    loadFailed: 'Impossible de charger les liens rapides',
+    deleteFailed: 'Impossible de supprimer le lien',
+    toggleFailed: "Impossible de modifier l'état du lien",
+    saveFailed: "Impossible d'enregistrer le lien",
+    editTitle: 'Modifier le lien rapide',
+    createTitle: 'Créer un lien rapide',
+    description: 'Description',
+    descriptionPlaceholder: 'Brève description de ce lien',
+    icon: 'Icône',
+    orderHelp: "Les plus petits nombres s'affichent en premier",
+    titleRequired: 'Le titre est obligatoire',
+    urlRequired: "L'URL est obligatoire",
+    urlInvalid: "Format d'URL invalide",
+    rolesRequired: 'Sélectionnez au moins un rôle',
+  },
+  moderation: {
+    title: 'Modération du contenu',
+    addRule: 'Ajouter une règle',
+    totalRules: 'Règles au total',
+    activeCount: '{{count}} actives',
+    blockedDomains: 'Domaines bloqués',
+    blockedKeywords: 'Mots-clés bloqués',
+    allowedDomains: 'Domaines autorisés',
+    allRules: 'Toutes les règles',
+    columnType: 'Type',
+    columnAction: 'Action',
+    columnValue: 'Valeur',
+    columnReason: 'Motif',
+    columnSeverity: 'Gravité',
+    columnHits: 'Déclenchements',
+    lastHit: 'Dernière correspondance : {{date}}',
+    editRule: 'Modifier la règle',
+    createRule: 'Créer une règle',
+    ruleType: 'Type de règle',
+    typeKeyword: 'Mot-clé',
+    typeDomain: 'Domaine',
+    typeUrl: 'URL',
+    typePattern: 'Motif (Regex)',
+    actionBlock: 'Bloquer',
+    actionAllow: 'Autoriser',
+    actionFlag: 'Signaler pour examen',
+    keywordPlaceholder: 'mot inapproprié',
+    regexPattern: 'Motif regex',
+    reasonPlaceholder: 'Pourquoi cette règle est-elle nécessaire ?',
+    severityLow: 'Faible',
+    severityMedium: 'Moyenne',
+    severityHigh: 'Élevée',
+    severityCritical: 'Critique',
+    caseSensitive: 'Sensible à la casse',
+    createFailed: 'Impossible de créer la règle',
+    updateFailed: 'Impossible de mettre à jour la règle',
+    deleteFailed: 'Impossible de supprimer la règle',
+    confirmDelete: 'Voulez-vous vraiment supprimer cette règle ?',
+    subscriptions: 'Abonnements',
+    import: 'Importer',
+    export: 'Exporter',
+    exportCsv: 'Exporter en CSV',
+    exportJson: 'Exporter en JSON',
+    showSubscribed: 'Afficher les règles abonnées ({{count}})',
+    subscribedRule: 'Issue d’un abonnement',
+    importTitle: 'Importer des règles',
+    importDescription: 'Choisissez un fichier CSV avec une ligne d’en-tête, ou une liste JSON de règles comme un export. Colonnes : ruleType, action, value, pattern, reason, severity, caseSensitive, isActive.',
+    importChooseFile: 'Choisir un fichier',
+    importDone: '{{created}} règles importées ({{skipped}} existaient déjà)',
+    importFailed: 'Échec de l’importation des règles',
+    importEmpty: 'Le fichier ne contient aucune règle',
+    importUnreadable: 'Impossible de lire le fichier - vérifiez qu’il s’agit d’un CSV avec une ligne d’en-tête ou d’une liste JSON de règles',
+    importCountNew: '{{count}} nouvelles',
+    importCountDuplicate: '{{count}} doublons',
+    importCountInvalid: '{{count}} invalides',
+    importColumnRow: 'Ligne',
+    importColumnStatus: 'Statut',
+    importStatusNew: 'Nouvelle',
+    importStatusDuplicate: 'Doublon',
+    importStatusInvalid: 'Invalide',
+    importIssueMissing: 'obligatoire',
+    importIssueValue: '{{value}} n’est pas valide',
+    importIssuePattern: 'expression régulière invalide',
+    importMoreRows: '...et {{count}} lignes de plus',
+    importConfirm: 'Importer {{count}} règles',
+    subscriptionsTitle: 'Abonnements aux listes de blocage',
+    subscriptionsDescription: 'Abonnez-vous à une liste de blocage publique pour conserver ses domaines sous forme de règles. Les listes par URL sont téléchargées par le serveur à chaque synchronisation ; les fichiers importés se synchronisent en choisissant une copie plus récente. Se désabonner supprime toutes ses règles.',
+    subscriptionsEmpty: 'Aucun abonnement à une liste de blocage',
+    subscriptionName: 'Nom',
+    subscriptionRules: 'Règles',
+    subscriptionLastSync: 'Dernière synchronisation',
+    subscriptionAdd: 'Ajouter un abonnement',
+    subscriptionSource: 'Source',
+    subscriptionSourceUrl: 'URL (téléchargée par le serveur)',
+    subscriptionSourceFile: 'Fichier local',
+    subscriptionUrl: 'URL de la liste de blocage',
+    subscriptionUrlHelp: 'Les fichiers hosts, les listes de domaines Adblock et les listes simples de domaines sont pris en charge',
+    subscriptionDomainsFound: '{{name}} : {{count}} domaines trouvés',
+    subscribe: 'S’abonner',
+    subscribeFailed: 'Échec de l’ajout de l’abonnement',
+    syncUrl: 'Synchroniser',
+    syncFile: 'Synchroniser depuis une copie plus récente du fichier',
+    syncFailed: 'Échec de la synchronisation de {{name}}',
+    confirmUnsubscribe: 'Se désabonner de {{name}} et supprimer ses {{count}} règles ?',
+    unsubscribeFailed: 'Échec de la suppression de {{name}}',
+  },
+  wellbeing: {
+    title: "De l'aide est disponible",
+    titleYoung: "Tu n'es pas seul",
+    selfHarm: "On dirait que tu traverses quelque chose de très difficile. Tu n'as pas à y faire face seul : parler à quelqu'un en qui tu as confiance peut aider, et les personnes ci-dessous sont là pour t'écouter à tout moment.",
+    selfHarmYoung: "On dirait que tu te sens très triste ou que tu as mal. Tu es important, et des personnes bienveillantes veulent t'aider. Parle à un adulte de confiance ou appelle l'un des services ci-dessous.",
+    abuse: "Si quelqu'un te fait du mal ou te fait sentir en danger, ce n'est pas ta faute et tu mérites d'être en sécurité. Les personnes ci-dessous peuvent t'aider, et ce que tu leur dis reste privé.",
+    abuseYoung: "Si quelqu'un te fait du mal ou te fait peur, ce n'est pas ta faute. Parles-en à un adulte de confiance ou appelle l'un des services ci-dessous.",
+    bullying: "Être harcelé, en ligne ou en personne, n'est jamais acceptable et ce n'est pas ta faute. Tu peux obtenir de l'aide et signaler le cyberharcèlement grâce aux services ci-dessous.",
+    bullyingYoung: "Personne ne devrait être méchant avec toi ou te mettre à l'écart. Parles-en à un enseignant ou à un adulte de confiance, ou appelle l'un des services ci-dessous.",
+    resourcesTitle: 'Des personnes à qui parler',
+    counsellor: 'Conseiller scolaire',
+    counsellorDescription: "Parle en toute confiance à quelqu'un de l'école.",
+    kidsHelpline: 'Kids Helpline',
+    kidsHelplineDescription: 'Écoute gratuite et confidentielle pour les jeunes, jour et nuit.',
+    headspace: 'headspace',
+    headspaceDescription: 'Soutien en santé mentale pour les jeunes, en ligne ou par téléphone.',
+    eSafety: 'Commissaire eSafety',
+    eSafetyDescription: 'Signale le cyberharcèlement et fais retirer les contenus préjudiciables.',
+    emergency: 'Urgences',
+    emergencyDescription: "Si toi ou quelqu'un d'autre êtes en danger en ce moment, appelle le 000.",
+    call: 'Appeler le {{phone}}',
+    email: 'E-mail',
+    visit: 'Visiter le site',
+    continueHint: 'Tu cherches cela pour un travail scolaire ?',
+    continue: 'Afficher les résultats',
+    alertNotSent: "Nous n'avons pas pu prévenir l'équipe de bien-être de l'école pour le moment. Si tu as besoin d'aide, parle à un enseignant de confiance ou utilise l'un des contacts ci-dessous.",
+    queueTitle: 'Alertes bien-être',
+    queueDescription: "Alertes confidentielles créées lorsque la recherche d'un élève suggérait qu'il pourrait avoir besoin d'aide. Seule l'équipe bien-être peut voir cette page.",
+    queueEmpty: 'Aucune alerte ici.',
+    accessDenied: 'Accès refusé - Équipe bien-être uniquement',
+    statusNew: 'Nouvelles',
+    statusInProgress: 'En cours',
+    statusResolved: 'Résolues',
+    categorySelfHarm: 'Automutilation',
+    categoryAbuse: 'Maltraitance',
+    categoryBullying: 'Harcèlement',
+    columnCategory: 'Motif',
+    columnStudent: 'Élève',
+    columnQuery: 'Recherche',
+    columnRaised: 'Créée',
+    columnNotes: 'Notes',
+    unknownStudent: 'Élève inconnu',
+    grade: 'Niveau {{grade}}',
+    handledBy: 'Prise en charge par {{name}}',
+    acknowledge: 'Prendre en charge',
+    resolve: 'Résoudre',
+    resolveTitle: "Résoudre l'alerte",
+    notes: 'Notes de suivi',
+    notesHelp: "Visible uniquement par l'équipe bien-être.",
+    updateFailed: "Échec de la mise à jour de l'alerte",
+  },
+  analytics: {
+    title: 'Statistiques et modération des recherches',
+    needsAttention: 'À traiter',
+    needsAttentionHint: 'Recherches « dangereuses » non modérées',
+    badTriggers: 'Alertes graves',
+    badTriggersHint: 'Signalées comme inappropriées',
+    questionable: 'Douteuses',
+    questionableHint: 'À examiner',
+    safeSearches: 'Recherches sûres',
+    safeSearchesHint: 'Contenu approuvé',
+    tabNeedsReview: 'À examiner',
+    tabFlagged: 'Signalées',
+    tabBlocked: 'Bloquées',
+    tabApproved: 'Approuvées',
+    filterByTrigger: 'Filtrer par alerte',
+    allTriggers: 'Toutes les alertes',
+    triggerBad: 'Dangereuse',
+    triggerQuestionable: 'Douteuse',
+    triggerSafe: 'Sûre',
+    columnTrigger: 'Alerte',
+    columnQuery: 'Requête',
+    columnUser: 'Utilisateur',
+    columnDate: 'Date',
+    columnRating: 'Note',
+    columnResults: 'Résultats',
+    columnAiAnswer: 'Réponse IA',
+    noSearches: 'Aucune recherche trouvée',
+    none: 'Aucune',
+    noTrigger: 'Aucune alerte',
+    contentRatingTooltip: 'Note du contenu : {{rating}}/100',
+    details: 'Détails de la recherche',
+    contentRating: 'Note du contenu',
+    triggerReason: "Motif de l'alerte",
+    detailsHeading: 'Détails',
+    detailDate: 'Date : {{date}}',
+    detailCategory: 'Catégorie : {{category}}',
+    detailResults: 'Résultats : {{count}}',
+    detailAiAnswer: 'Réponse IA : {{value}}',
+    notModerated: "Cette recherche n'a pas encore été modérée. Choisissez une action ci-dessous.",
+    moderatedAs: 'Cette recherche a été {{action}} par un modérateur.',
+    statusApproved: 'approuvée',
+    statusBlocked: 'bloquée',
+    statusFlagged: 'signalée',
+    approve: 'Approuver',
+    flag: 'Signaler',
+    block: 'Bloquer',
+    moderateFailed: 'Impossible de modérer la recherche',
+  },
+};
+
+export default fr;
@@ -0,0 +1,26 @@
+/**
+ * Translation tables for every supported language
+ * English is the reference locale - every other locale must define the same keys
+ */
+
+import ar from './ar';
+import de from './de';
+import en from './en';
+import es from './es';
+import fr from './fr';
+import zh from './zh';
+
+export type SupportedLanguage = 'en' | 'es' | 'fr' | 'de' | 'zh' | 'ar';
+
+export interface Translation {
+  [key: string]: string | Translation;
+}
+
+export const translations: Record<SupportedLanguage, Translation> = {
+  en,
+  es,
+  fr,
+  de,
+  zh,
+  ar,
+};
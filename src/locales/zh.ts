@@ -0,0 +1,617 @@
+import type { Translation } from '.';
+
+const zh: Translation = {
+  common: {
+    search: '搜索',
+    loading: '加载中...',
+    error: '错误',
+    retry: '重试',
+    cancel: '取消',
+    save: '保存',
+    delete: '删除',
+    edit: '编辑',
+    close: '关闭',
+    yes: '是',
+    no: '否',
+    create: '创建',
+    update: '更新',
+    refresh: '刷新',
+    saving: '保存中...',
+    actions: '操作',
+    active: '启用',
+    inactive: '停用',
+    all: '全部',
+    unknown: '未知',
+    accessDenied: '拒绝访问 - 仅限教职员工',
+  },
+  search: {
+    placeholder: '搜索教育内容...',
+    voiceSearch: '语音搜索',
+    advancedFilters: '高级筛选',
+    results: '结果',
+    noResults: '未找到结果',
+    aiAnswer: 'AI 回答',
+    webResults: '网络结果',
+    export: '导出结果',
+    bookmark: '书签',
+    titleSearch: 'Horizon AI 搜索',
+    titleChat: 'Horizon AI 助手',
+    modeSearch: '搜索模式 - 实时结果',
+    modeChat: '聊天模式 - 按回车发送',
+    welcomeBack: '欢迎回来，{{name}}！',
+    introChat: '与你的 AI 教学助手聊天，获得个性化支持。',
+    introStaff: '使用 AI 驱动的教学工具和教育资源。',
+    introStudent: '查找你的作业、学习资料和学术资源。',
+    introGuest: '通过智能搜索了解 Horizon Christian School 的一切。',
+    placeholderChat: '输入你的问题并按回车与 AI 助手聊天...',
+    placeholderGuest: '搜索学校信息...',
+    placeholderStaff: '搜索教学资源、创建评分量规、教案...',
+    placeholderStudent: '搜索作业、学习资料、资源...',
+    recentSearches: '最近搜索：',
+    resultsHeading: '搜索结果（{{count}}）',
+    saveToBookmarks: '保存到书签',
+    noResultsFor: '未找到与“{{query}}”相关的结果',
+    noResponseFor: '未能为“{{query}}”生成回复',
+    tryRephrasing: '试着换个说法提问，或者问点别的。',
+    tryAdjusting: '试着调整搜索词，或浏览快捷链接。',
+    readyToChat: '准备好聊天了吗？',
+    readyToExplore: '准备好探索了吗？',
+    chatPrompt: '向 AI 助手询问教学、备课或学生支持相关的问题。',
+    explorePrompt: '开始输入，发现精彩的资源和工具。',
+    blocked: '搜索已被拦截：{{reasons}}。请修改你的搜索内容。',
+    inappropriateContent: '检测到不当内容',
+    failed: '搜索失败，请重试。',
+    continueTyping: '继续输入以搜索...',
+    analyzing: 'AI 正在分析你的搜索...',
+    recent: '最近：',
+    refreshRecent: '刷新最近记录',
+    viaProviders: '来自 {{providers}}',
+    foundBy: '结果来源：{{providers}}',
+    flagged: '已标记',
+    flaggedReason: '已被学校审核标记：{{reason}}',
+    flaggedNoReason: '已被学校审核标记 - 请谨慎使用',
+    aiCaution: 'AI：需注意',
+    aiCautionReason: 'AI 适宜度 {{score}}%：{{reason}}',
+    loadMore: '加载更多结果',
+    loadingMore: '正在加载更多...',
+    operatorPhrase: '精确短语：{{value}}',
+    operatorExclude: '排除提及“{{value}}”的结果',
+    operatorSite: '仅显示来自 {{value}} 的结果',
+    operatorExcludeSite: '不显示来自 {{value}} 的结果',
+    operatorFileType: '仅 {{value}} 文件',
+    didYouMean: '您是不是要找：',
+    showingResultsFor: '显示以下内容的结果：',
+    searchInsteadFor: '仍然搜索',
+  },
+  answer: {
+    label: 'AI 回答',
+    quickAnswerFor: '“{{query}}”的快速回答',
+    writing: '正在生成...',
+    confidenceHigh: '高可信度',
+    confidenceMedium: '中等可信度',
+    confidenceLow: '低可信度',
+    sourcesUsed: '此回答引用的来源：',
+    moreSources: '另外 {{count}} 个',
+    disclaimer: '此答案由 AI 生成。请核实重要信息，并查看下方来源以获取更多详情。',
+    aiInfo: '此答案由 AI 根据搜索结果生成。请务必核实重要信息。',
+    readAloud: '朗读',
+    stopReading: '停止朗读',
+  },
+  voice: {
+    start: '开始语音搜索',
+    stop: '停止语音搜索',
+    unsupported: '此浏览器不支持语音搜索',
+    listening: '正在聆听...',
+    clickToStop: '再次点击麦克风即可停止',
+    errorNoSpeech: '未检测到语音，请重试。',
+    errorAudioCapture: '未找到麦克风，请检查你的麦克风。',
+    errorNotAllowed: '麦克风权限被拒绝，请允许访问麦克风。',
+    errorNetwork: '发生网络错误，请检查你的网络连接。',
+    errorAborted: '语音识别已中止。',
+    errorGeneric: '语音识别出现错误。',
+    startFailed: '无法启动语音识别',
+  },
+  chat: {
+    mode: '聊天',
+    failed: '聊天失败，请重试。',
+    openFailed: '无法打开该对话，它可能已被删除。',
+    newConversation: '新对话',
+    conversations: '对话记录',
+    newChat: '新聊天',
+    stop: '停止',
+    thinking: 'AI 助手正在思考...',
+    processing: '正在处理你的请求',
+    noConversations: '还没有保存的对话。开始聊天后，对话会显示在这里。',
+    title: '标题',
+    tags: '标签',
+    tagPlaceholder: '输入标签后按回车',
+    renameTag: '重命名 / 添加标签',
+    messageCount: '{{count}} 条消息',
+  },
+  filters: {
+    dateRange: '日期范围',
+    contentType: '内容类型',
+    sources: '来源',
+    category: '类别',
+    all: '全部',
+    educational: '教育',
+    news: '新闻',
+    reference: '参考',
+    title: '筛选',
+    reset: '清除筛选',
+    anyTime: '任何时间',
+    pastDay: '过去 24 小时',
+    pastWeek: '过去一周',
+    pastMonth: '过去一个月',
+    pastYear: '过去一年',
+    anyFileType: '任何文件类型',
+    filePdf: 'PDF',
+    fileDoc: 'Word 文档',
+    filePpt: '演示文稿',
+    fileXls: '电子表格',
+    categoryAny: '所有类别',
+    tutorial: '教程',
+    general: '一般信息',
+    includeSites: '仅限这些网站',
+    excludeSites: '排除网站',
+    sitesPlaceholder: '例如 bbc.co.uk, nasa.gov',
+  },
+  suggestions: {
+    history: '最近',
+    popular: '热门',
+    quickLink: '快速链接',
+    correction: '拼写',
+    didYouMean: '您是不是要找：{{query}}',
+  },
+  auth: {
+    signIn: '登录',
+    signOut: '退出',
+    welcome: '欢迎',
+    student: '学生',
+    staff: '员工',
+    guest: '访客',
+    role: '角色：{{role}}',
+    dialogTitle: '登录 Horizon Christian School',
+    dialogIntro: '访问包含作业、资源和工具的个性化主页。',
+    signInWithMicrosoft: '使用 Microsoft 登录',
+    signingIn: '正在登录...',
+    rememberMe: '30 天内记住我',
+    benefitsTitle: '登录后你将获得：',
+    benefitSearch: '个性化搜索结果',
+    benefitAssignments: '查看作业和成绩',
+    benefitLinks: '按角色定制的快捷链接',
+    benefitAssistance: 'AI 驱动的学习辅助',
+    loginFailed: '登录失败，请重试。',
+    redirectSigningIn: '正在为你登录...',
+    redirectWait: '请稍候，我们正在完成身份验证。',
+    redirectError: '身份验证错误',
+    redirectErrorBack: '正在返回主页...',
+    redirectComplete: '身份验证完成',
+    redirectCompleteBack: '正在跳转到主页...',
+    authFailed: '身份验证失败，请重试。',
+  },
+  header: {
+    schoolName: 'Horizon Christian School',
+    tagline: '为所有人提供变革性的基督教教育',
+    analytics: '数据分析',
+    moderation: '内容审核',
+    wellbeing: '身心健康',
+    bookmarks: '书签',
+    support: '支持',
+    login: '登录',
+    logout: '退出登录',
+    language: '语言',
+    bibliography: '参考文献',
+  },
+  sidePanel: {
+    enhanced: '增强版',
+    standard: '标准版',
+    active: '活跃',
+    quickLinks: '快捷链接',
+    noLinks: '你的角色暂无可用链接。',
+    readingLevel: '阅读水平',
+    grade: '{{grade}} 年级',
+    gradeCollege: '大学',
+    gradeAdult: '成人',
+  },
+  bookmarks: {
+    title: '我的书签',
+    exportAll: '导出所有书签',
+    allBookmarks: '全部书签（{{count}}）',
+    favourites: '收藏（{{count}}）',
+    filterByTag: '按标签筛选',
+    selectedCount: '已选择 {{count}} 个',
+    bookmarkCount: '{{count}} 个书签',
+    deleteSelected: '删除所选',
+    empty: '还没有书签。点击回答或结果上的书签按钮即可保存到这里。',
+    noMatches: '没有符合当前筛选条件的书签。',
+    addFavourite: '加入收藏',
+    removeFavourite: '取消收藏',
+    editNotes: '编辑备注',
+    notesPlaceholder: '添加备注...',
+    saveNotes: '保存备注',
+    saveTitle: '保存到书签',
+    folder: '文件夹',
+    folderHelp: '使用 / 创建子文件夹，例如 科学/光合作用',
+    notes: '备注',
+    notesPrompt: '这条内容哪里有用？',
+    saveFailed: '书签保存失败，请重试。',
+  },
+  export: {
+    tooltip: '导出',
+    pdf: '下载 PDF',
+    print: '打印',
+    html: '导出为 HTML',
+    text: '导出为文本',
+    json: '导出为 JSON',
+    includeCitations: '包含引用',
+    includeCitationsHint: '为每个来源生成格式化的参考文献',
+    exportSelected: '导出所选书签',
+    exportFolder: '导出此文件夹',
+    exportChat: '导出对话',
+    allBookmarks: '所有书签',
+    favourites: '收藏',
+    aiAnswer: 'AI 回答',
+    resultCount: '{{count}} 个结果',
+    query: '搜索：{{query}}',
+    bookmarkFolderTitle: '书签：{{folder}}',
+    bookmarkCount: '{{count}} 个书签',
+    messageCount: '{{count}} 条消息 · 开始于 {{date}}',
+    you: '你',
+    assistant: '助手',
+    exportedOn: '导出于 {{date}}',
+    references: '参考文献',
+  },
+  citations: {
+    style: '引用格式',
+    cite: '引用此结果',
+    citeSource: '引用此来源',
+    citeSources: '引用这些来源',
+    citeSourcesShort: '引用',
+    copy: '复制引用',
+    copied: '已复制！',
+    addToBibliography: '添加到参考文献',
+    inBibliography: '已在参考文献中',
+    addAll: '全部添加到参考文献',
+    viewBibliography: '参考文献（{{count}}）',
+    bibliography: '参考文献',
+    emptyBibliography: '你的参考文献为空。点击结果上的“引用”按钮即可添加来源。',
+    remove: '移除',
+    clearAll: '全部清除',
+    copyBibliography: '复制参考文献',
+  },
+  support: {
+    title: '请求支持',
+    success: '你的支持请求已成功提交！我们的团队会尽快回复你。',
+    intro: '需要帮助？我们的 IT 支持团队可以协助你解决技术问题和疑问。',
+    email: '邮件支持',
+    phone: '电话支持',
+    liveChat: '在线聊天',
+    hours: '周一至周五 8:00-17:00',
+    user: '用户：',
+    role: '角色：',
+    requestType: '请求类型',
+    typeTechnical: '技术问题',
+    typeAccount: '账户访问',
+    typePassword: '重置密码',
+    typeApplication: '应用支持',
+    typeTraining: '培训申请',
+    typeOther: '其他',
+    description: '描述',
+    descriptionPlaceholder: '请详细描述你的问题...',
+    descriptionHelp: '请附上错误信息、已尝试的步骤或具体细节',
+    submit: '提交请求',
+    submitting: '提交中...',
+  },
+  admin: {
+    verifying: '正在验证管理员权限...',
+    title: '管理后台',
+    subtitle: 'Horizon School Search 管理门户',
+    role: '角色：{{role}}',
+    itAdministrator: 'IT 管理员',
+    tabQuickLinks: '快捷链接',
+    tabModeration: '内容审核',
+    tabAnalytics: '数据分析',
+    tabProviders: '搜索提供商',
+    tabCache: '缓存',
+    tabSettings: '系统设置',
+    settingsComingSoon: '高级系统配置选项即将推出...',
+    footer: 'Horizon School Search 管理门户 © {{year}}',
+  },
+  providers: {
+    title: '搜索提供商',
+    description: '系统按顺序尝试各提供商。连续多次失败后，该提供商会在冷却期内被跳过。统计数据仅涵盖此浏览器自打开以来的搜索。',
+    resetCircuits: '重置熔断',
+    noneConfigured: '未配置任何搜索提供商。',
+    provider: '提供商',
+    status: '状态',
+    successRate: '成功率',
+    requests: '请求数',
+    consecutiveFailures: '连续失败',
+    lastError: '最近错误',
+    healthy: '正常',
+    degraded: '性能下降',
+    open: '已跳过',
+    openHint: '连续失败后将再跳过 {{seconds}} 秒',
+    halfOpen: '正在重试',
+    unavailable: '不可用',
+    noData: '暂无数据',
+  },
+  cache: {
+    title: '缓存',
+    description: '搜索结果、AI 回答、聊天记录和建议会保存在内存和浏览器存储中，重复请求无需再次联网。统计数据涵盖此浏览器自打开以来的情况。',
+    clearAll: '全部清除',
+    clear: '清除',
+    hitRate: '命中率',
+    hits: '命中',
+    stale: '过期',
+    misses: '未命中',
+    evictions: '淘汰',
+    memory: '内存',
+    persistent: '浏览器存储',
+    unavailable: '不可用',
+    persistentUnavailable: '此处无法使用浏览器存储，缓存仅保存在内存中，刷新后会清空。',
+    namespace: '命名空间',
+    entries: '条目',
+    size: '大小',
+    namespaceSearch: '搜索结果',
+    namespaceAnswers: 'AI 回答',
+    namespaceChat: '聊天记录',
+    namespaceSuggestions: '建议',
+    namespaceOffline: '离线副本',
+  },
+  offline: {
+    banner: '您已离线。之前的搜索和书签仍然可用。',
+    queued: '{{count}} 项更改将在您恢复联网后同步。',
+    syncing: '已恢复联网 - 正在同步 {{count}} 项更改...',
+    browseSaved: '浏览已保存内容',
+    libraryTitle: '离线可用',
+    savedSearches: '最近的搜索',
+    savedSearchDetails: '{{count}} 条结果 · 保存于 {{date}}',
+    noSavedSearches: '尚未保存任何搜索。联网时进行的搜索会在此保留一周。',
+    savedBookmarks: '书签',
+    noSavedBookmarks: '尚未保存任何书签。请在联网时打开书签以保留副本。',
+    updateAvailable: 'Horizon Search 有新版本可用。',
+    reload: '重新加载',
+    later: '稍后',
+  },
+  config: {
+    title: 'Horizon Search 配置不正确',
+    descriptionFile: 'env.json 中的设置存在问题，导致应用无法启动：',
+    descriptionBuild: '构建时设置存在问题，导致应用无法启动：',
+    issueMissing: '缺少必需的设置，或仍为占位符',
+    issueType: '类型错误 - 应为 {{expected}}',
+    issueUrl: '不是有效的 http(s) URL',
+    issueEnum: '必须是以下值之一：{{expected}}',
+    issueRange: '必须在 {{expected}} 范围内',
+    issueUnknown: '未知设置 - 请检查拼写',
+    issueJson: '文件不是有效的 JSON',
+    help: '请修正设置后重新加载，或联系网站管理员。',
+    reload: '重新加载',
+  },
+  links: {
+    title: '快捷链接管理',
+    add: '添加链接',
+    category: '类别',
+    status: '状态',
+    role: '角色',
+    clearFilters: '清除筛选',
+    empty: '未找到快捷链接。',
+    emptyFiltered: '试着调整筛选条件。',
+    emptyStart: '创建第一个链接开始使用。',
+    columnTitle: '标题',
+    columnUrl: '网址',
+    columnRoles: '角色',
+    columnOrder: '排序',
+    columnClicks: '点击量',
+    activate: '启用',
+    deactivate: '停用',
+    confirmDelete: '确定要删除此链接吗？',
+    deleted: '链接已删除',
+    activated: '链接已启用',
+    deactivated: '链接已停用',
+    updated: '链接已更新',
+    created: '链接已创建',
+    loadFailed: '加载快捷链接失败',
+    deleteFailed: '删除链接失败',
+    toggleFailed: '切换链接状态失败',
+    saveFailed: '保存链接失败',
+    editTitle: '编辑快捷链接',
+    createTitle: '创建快捷链接',
+    description: '描述',
+    descriptionPlaceholder: '此链接的简要描述',
+    icon: '图标',
+    orderHelp: '数字越小越靠前',
+    titleRequired: '标题为必填项',
+    urlRequired: '网址为必填项',
+    urlInvalid: '网址格式无效',
+    rolesRequired: '至少选择一个角色',
+  },
+  moderation: {
+    title: '内容审核',
+    addRule: '添加规则',
+    totalRules: '规则总数',
+    activeCount: '{{count}} 条启用',
+    blockedDomains: '已屏蔽域名',
+    blockedKeywords: '已屏蔽关键词',
+    allowedDomains: '允许的域名',
+    allRules: '全部规则',
+    columnType: '类型',
+    columnAction: '动作',
+    columnValue: '值',
+    columnReason: '原因',
+    columnSeverity: '严重程度',
+    columnHits: '命中次数',
+    lastHit: '最近匹配：{{date}}',
+    editRule: '编辑规则',
+    createRule: '创建新规则',
+    ruleType: '规则类型',
+    typeKeyword: '关键词',
+    typeDomain: '域名',
+    typeUrl: '网址',
+    typePattern: '模式（正则）',
+    actionBlock: '屏蔽',
+    actionAllow: '允许',
+    actionFlag: '标记待审核',
+    keywordPlaceholder: '不当词语',
+    regexPattern: '正则表达式',
+    reasonPlaceholder: '为什么需要这条规则？',
+    severityLow: '低',
+    severityMedium: '中',
+    severityHigh: '高',
+    severityCritical: '严重',
+    caseSensitive: '区分大小写',
+    createFailed: '创建规则失败',
+    updateFailed: '更新规则失败',
+    deleteFailed: '删除规则失败',
+    confirmDelete: '确定要删除这条规则吗？',
+    subscriptions: '订阅',
+    import: '导入',
+    export: '导出',
+    exportCsv: '导出为 CSV',
+    exportJson: '导出为 JSON',
+    showSubscribed: '显示订阅规则（{{count}}）',
+    subscribedRule: '来自订阅',
+    importTitle: '导入规则',
+    importDescription: '请选择带标题行的 CSV 文件，或规则的 JSON 列表（例如导出文件）。列：ruleType、action、value、pattern、reason、severity、caseSensitive、isActive。',
+    importChooseFile: '选择文件',
+    importDone: '已导入 {{created}} 条规则（{{skipped}} 条已存在）',
+    importFailed: '导入规则失败',
+    importEmpty: '文件中没有规则',
+    importUnreadable: '无法读取文件 - 请确认它是带标题行的 CSV 文件或规则的 JSON 列表',
+    importCountNew: '{{count}} 条新规则',
+    importCountDuplicate: '{{count}} 条重复',
+    importCountInvalid: '{{count}} 条无效',
+    importColumnRow: '行',
+    importColumnStatus: '状态',
+    importStatusNew: '新',
+    importStatusDuplicate: '重复',
+    importStatusInvalid: '无效',
+    importIssueMissing: '必填',
+    importIssueValue: '{{value}} 无效',
+    importIssuePattern: '不是有效的正则表达式',
+    importMoreRows: '...还有 {{count}} 行',
+    importConfirm: '导入 {{count}} 条规则',
+    subscriptionsTitle: '屏蔽列表订阅',
+    subscriptionsDescription: '订阅公共屏蔽列表，将其中的域名保存为规则。URL 列表在每次同步时由服务器获取；上传的文件通过选择更新的副本进行同步。取消订阅会删除其所有规则。',
+    subscriptionsEmpty: '尚无屏蔽列表订阅',
+    subscriptionName: '名称',
+    subscriptionRules: '规则',
+    subscriptionLastSync: '上次同步',
+    subscriptionAdd: '添加订阅',
+    subscriptionSource: '来源',
+    subscriptionSourceUrl: 'URL（由服务器获取）',
+    subscriptionSourceFile: '本地文件',
+    subscriptionUrl: '屏蔽列表 URL',
+    subscriptionUrlHelp: '支持 hosts 文件、Adblock 域名列表和纯域名列表',
+    subscriptionDomainsFound: '{{name}}：找到 {{count}} 个域名',
+    subscribe: '订阅',
+    subscribeFailed: '添加订阅失败',
+    syncUrl: '立即同步',
+    syncFile: '从更新的文件副本同步',
+    syncFailed: '同步 {{name}} 失败',
+    confirmUnsubscribe: '取消订阅 {{name}} 并删除其 {{count}} 条规则？',
+    unsubscribeFailed: '删除 {{name}} 失败',
+  },
+  wellbeing: {
+    title: '你可以获得帮助',
+    titleYoung: '你并不孤单',
+    selfHarm: '你现在可能正经历一段非常艰难的时期。你不必独自面对——和你信任的人聊一聊会有帮助，下面的人随时愿意倾听。',
+    selfHarmYoung: '你可能感到非常难过或受到了伤害。你很重要，有很多善良的人想帮助你。请告诉你信任的大人，或者打电话给下面的求助热线。',
+    abuse: '如果有人伤害你或让你感到不安全，这不是你的错，你应该得到安全。下面的人可以帮助你，你告诉他们的内容都会保密。',
+    abuseYoung: '如果有人伤害你或让你害怕，这不是你的错。请告诉你信任的大人，或者打电话给下面的求助热线。',
+    bullying: '无论是在网上还是现实中被欺凌，都是不对的，也不是你的错。你可以通过下面的服务获得支持并举报网络欺凌。',
+    bullyingYoung: '没有人应该对你刻薄或排挤你。请告诉老师或你信任的大人，或者打电话给下面的求助热线。',
+    resourcesTitle: '可以倾诉的人',
+    counsellor: '学校辅导员',
+    counsellorDescription: '在学校里找人私下谈谈。',
+    kidsHelpline: 'Kids Helpline',
+    kidsHelplineDescription: '为青少年提供免费、保密的心理咨询，全天候服务。',
+    headspace: 'headspace',
+    headspaceDescription: '为青少年提供心理健康支持，可在线或电话联系。',
+    eSafety: 'eSafety 专员',
+    eSafetyDescription: '举报网络欺凌并要求删除有害内容。',
+    emergency: '紧急求助',
+    emergencyDescription: '如果你或他人现在有危险，请拨打 000。',
+    call: '拨打 {{phone}}',
+    email: '电子邮件',
+    visit: '访问网站',
+    continueHint: '是为了完成作业而搜索吗？',
+    continue: '显示搜索结果',
+    alertNotSent: '我们暂时无法通知学校的心理关怀团队。如果你需要帮助，请告诉你信任的老师，或使用下方的联系方式。',
+    queueTitle: '身心健康提醒',
+    queueDescription: '当学生的搜索表明其可能需要帮助时生成的保密提醒。只有身心健康团队可以查看此页面。',
+    queueEmpty: '暂无提醒。',
+    accessDenied: '访问被拒绝 - 仅限身心健康团队',
+    statusNew: '新建',
+    statusInProgress: '处理中',
+    statusResolved: '已解决',
+    categorySelfHarm: '自我伤害',
+    categoryAbuse: '虐待',
+    categoryBullying: '欺凌',
+    columnCategory: '关注类别',
+    columnStudent: '学生',
+    columnQuery: '搜索内容',
+    columnRaised: '时间',
+    columnNotes: '备注',
+    unknownStudent: '未知学生',
+    grade: '{{grade}} 年级',
+    handledBy: '由 {{name}} 处理',
+    acknowledge: '开始处理',
+    resolve: '解决',
+    resolveTitle: '解决提醒',
+    notes: '跟进备注',
+    notesHelp: '仅身心健康团队可见。',
+    updateFailed: '更新提醒失败',
+  },
+  analytics: {
+    title: '搜索分析与审核',
+    needsAttention: '待处理',
+    needsAttentionHint: '未审核的“不良”搜索',
+    badTriggers: '不良触发',
+    badTriggersHint: '被标记为不当内容',
+    questionable: '可疑',
+    questionableHint: '需要审核',
+    safeSearches: '安全搜索',
+    safeSearchesHint: '已批准的内容',
+    tabNeedsReview: '待审核',
+    tabFlagged: '已标记',
+    tabBlocked: '已屏蔽',
+    tabApproved: '已批准',
+    filterByTrigger: '按触发类型筛选',
+    allTriggers: '全部触发类型',
+    triggerBad: '不良',
+    triggerQuestionable: '可疑',
+    triggerSafe: '安全',
+    columnTrigger: '触发类型',
+    columnQuery: '搜索内容',
+    columnUser: '用户',
+    columnDate: '日期',
+    columnRating: '评分',
+    columnResults: '结果数',
+    columnAiAnswer: 'AI 回答',
+    noSearches: '未找到搜索记录',
+    none: '无',
+    noTrigger: '无触发',
+    contentRatingTooltip: '内容评分：{{rating}}/100',
+    details: '搜索详情',
+    contentRating: '内容评分',
+    triggerReason: '触发原因',
+    detailsHeading: '详情',
+    detailDate: '日期：{{date}}',
+    detailCategory: '类别：{{category}}',
+    detailResults: '结果数：{{count}}',
+    detailAiAnswer: 'AI 回答：{{value}}',
+    notModerated: '此搜索尚未审核，请在下方选择操作。',
+    moderatedAs: '此搜索已被审核员{{action}}。',
+    statusApproved: '批准',
+    statusBlocked: '屏蔽',
+    statusFlagged: '标记',
+    approve: '批准',
+    flag: '标记',
+    block: '屏蔽',
+    moderateFailed: '审核搜索失败',
+  },
+};
+
+export default zh;
@@ -20,13 +20,18 @@ import {
   BarChart as BarChartIcon,
   Settings as SettingsIcon,
   Person as PersonIcon,
+  Hub as HubIcon,
+  Storage as StorageIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
+import { useTranslation } from '../hooks/useTranslation';
 import QuickLinksManager from '../components/Admin/QuickLinksManager';
 import ModerationPanel from '../components/Moderation/ModerationPanel';
 import AnalyticsDashboard from '../components/Analytics/AnalyticsDashboard';
+import ProviderStatusPanel from '../components/Admin/ProviderStatusPanel';
+import CachePanel from '../components/Admin/CachePanel';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -52,6 +57,7 @@ function TabPanel(props: TabPanelProps) {
 
 const AdminPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const { user, isAuthenticated } = useSelector((state: RootState) => state.auth);
   const [currentTab, setCurrentTab] = useState(0);
   const [loading, setLoading] = useState(true);
@@ -91,7 +97,7 @@ const AdminPage: React.FC = () => {
       <Container maxWidth="lg" sx={{ py: 4, textAlign: 'center' }}>
         <CircularProgress />
         <Typography variant="body1" sx={{ mt: 2 }}>
-          Verifying admin access...
+          {t('admin.verifying')}
         </Typography>
       </Container>
     );
@@ -130,10 +136,10 @@ const AdminPage: React.FC = () => {
               </Avatar>
               <Box>
                 <Typography variant="h3" component="h1" fontWeight="bold">
-                  Admin Dashboard
+                  {t('admin.title')}
                 </Typography>
                 <Typography variant="subtitle1" sx={{ opacity: 0.9 }}>
-                  Horizon School Search Management Portal
+                  {t('admin.subtitle')}
                 </Typography>
               </Box>
             </Box>
@@ -144,7 +150,7 @@ const AdminPage: React.FC = () => {
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
               <Chip
                 icon={<PersonIcon />}
-                label={user?.name || 'Unknown'}
+                label={user?.name || t('common.unknown')}
                 sx={{
                   bgcolor: 'rgba(255, 255, 255, 0.2)',
                   color: 'white',
@@ -160,7 +166,7 @@ const AdminPage: React.FC = () => {
                 }}
               />
               <Chip
-                label={`Role: ${user?.role?.toUpperCase()}`}
+                label={t('admin.role', { role: t(`auth.${user?.role || 'guest'}`).toUpperCase() })}
                 sx={{
                   bgcolor: 'rgba(255, 255, 255, 0.25)',
                   color: 'white',
@@ -169,7 +175,7 @@ const AdminPage: React.FC = () => {
               />
               {user?.groups && user.groups.includes('SG_WF_IT') && (
                 <Chip
-                  label="IT Administrator"
+                  label={t('admin.itAdministrator')}
                   sx={{
                     bgcolor: '#4caf50',
                     color: 'white',
@@ -212,10 +218,12 @@ const AdminPage: React.FC = () => {
                 },
               }}
             >
-              <Tab icon={<LinkIcon />} iconPosition="start" label="Quick Links" />
-              <Tab icon={<ShieldIcon />} iconPosition="start" label="Content Moderation" />
-              <Tab icon={<BarChartIcon />} iconPosition="start" label="Analytics" />
-              <Tab icon={<SettingsIcon />} iconPosition="start" label="System Settings" disabled />
+              <Tab icon={<LinkIcon />} iconPosition="start" label={t('admin.tabQuickLinks')} />
+              <Tab icon={<ShieldIcon />} iconPosition="start" label={t('admin.tabModeration')} />
+              <Tab icon={<BarChartIcon />} iconPosition="start" label={t('admin.tabAnalytics')} />
+              <Tab icon={<HubIcon />} iconPosition="start" label={t('admin.tabProviders')} />
+              <Tab icon={<StorageIcon />} iconPosition="start" label={t('admin.tabCache')} />
+              <Tab icon={<SettingsIcon />} iconPosition="start" label={t('admin.tabSettings')} disabled />
             </Tabs>
           </Paper>
 
@@ -234,13 +242,21 @@ const AdminPage: React.FC = () => {
             </TabPanel>
 
             <TabPanel value={currentTab} index={3}>
+              <ProviderStatusPanel />
+            </TabPanel>
+
+            <TabPanel value={currentTab} index={4}>
+              <CachePanel />
+            </TabPanel>
+
+            <TabPanel value={currentTab} index={5}>
               <Box sx={{ p: 4, textAlign: 'center' }}>
                 <SettingsIcon sx={{ fontSize: 80, color: 'text.secondary', mb: 2 }} />
                 <Typography variant="h5" gutterBottom>
-                  System Settings
+                  {t('admin.tabSettings')}
                 </Typography>
                 <Typography color="text.secondary">
-                  Advanced system configuration options coming soon...
+                  {t('admin.settingsComingSoon')}
                 </Typography>
               </Box>
             </TabPanel>
@@ -250,7 +266,7 @@ const AdminPage: React.FC = () => {
         {/* Footer */}
         <Box sx={{ mt: 4, textAlign: 'center' }}>
           <Typography variant="body2" sx={{ color: 'white', opacity: 0.8 }}>
-            Horizon School Search Admin Portal &copy; {new Date().getFullYear()}
+            {t('admin.footer', { year: new Date().getFullYear() })}
           </Typography>
         </Box>
       </Container>
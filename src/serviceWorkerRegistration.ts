@@ -0,0 +1,100 @@
+// Registers public/service-worker.js, which caches the app shell and shared API
+// responses for offline use and replays writes queued while offline.
+// Only registered in production builds - in development it would serve stale bundles
+
+type RegistrationConfig = {
+  onSuccess?: (registration: ServiceWorkerRegistration) => void;
+  onUpdate?: (registration: ServiceWorkerRegistration) => void;
+};
+
+const SERVICE_WORKER_URL = `${process.env.PUBLIC_URL}/service-worker.js`;
+
+// How often an open tab checks for a new deployment
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export const SERVICE_WORKER_UPDATE_EVENT = 'service-worker-update';
+
+// Matches OFFLINE_CACHE in public/service-worker.js, whatever its version
+const API_CACHE_PREFIX = 'horizon-search-offline';
+
+export function register(config?: RegistrationConfig): void {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      console.log('🛠️ Service worker registered:', registration.scope);
+
+      // A new version may have finished installing while no tab was open
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        config?.onUpdate?.(registration);
+      }
+
+      registration.onupdatefound = () => {
+        const installing = registration.installing;
+        if (!installing) return;
+
+        installing.onstatechange = () => {
+          if (installing.state !== 'installed') return;
+
+          if (navigator.serviceWorker.controller) {
+            // The old worker still controls this page - the new one waits until the user reloads
+            console.log('🛠️ New version available');
+            config?.onUpdate?.(registration);
+          } else {
+            console.log('🛠️ App cached for offline use');
+            config?.onSuccess?.(registration);
+          }
+        };
+      };
+
+      setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL);
+    } catch (error) {
+      console.error('Failed to register service worker:', error);
+    }
+  });
+}
+
+/**
+ * Activate a waiting worker and reload once it has taken over, so the page
+ * and the cache it is served from come from the same deployment
+ */
+export function applyUpdate(registration: ServiceWorkerRegistration): void {
+  if (!registration.waiting) {
+    window.location.reload();
+    return;
+  }
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+  registration.waiting.postMessage({ type: 'SKIP_WAITING' });
+}
+
+export function unregister(): void {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then((registration) => registration.unregister())
+      .catch((error) => console.error('Failed to unregister service worker:', error));
+  }
+}
+
+/**
+ * Drop the worker's cached copies of API responses at sign-out, so the next
+ * person on a shared device is never served them
+ */
+export async function clearCachedResponses(): Promise<void> {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.controller?.postMessage({ type: 'CLEAR_CACHE' });
+  }
+
+  if ('caches' in window) {
+    const cacheNames = await caches.keys();
+    await Promise.all(cacheNames.filter((name) => name.startsWith(API_CACHE_PREFIX)).map((name) => caches.delete(name)));
+  }
+}
@@ -1,15 +1,18 @@
 import { SearchResult } from '../store/slices/searchSlice';
 import { AuthService } from './authService';
-import { openAIService, type ChatMessage } from './openAiService';
+import { openAIService, REASONING_TOKEN_ALLOWANCE, type ChatCompletionResult, type ChatMessage, type StreamOptions } from './openAiService';
+import { readingLevelService } from './readingLevelService';
+import { hasActiveFilters, type SearchFilters } from './searchProviders';
+import type { SearchResultsPage } from './webSearchService';
 
-export type { ChatMessage };
+export type { ChatCompletionResult, ChatMessage, StreamOptions };
 
 export class AISearchService {
   private static modeChangeListeners: Array<(mode: 'search' | 'chat') => void> = [];
 
   static async searchForStudent(query: string): Promise<SearchResult[]> {
     try {
-      const results = await openAIService.searchWithAI(query, 'student');
+      const { results } = await openAIService.searchWithAI(query, 'student');
       if (results.length > 0) {
         return results.map(result => ({ ...result, relevance: 0.9 }));
       }
@@ -52,7 +55,7 @@ export class AISearchService {
 
   static async searchForStaff(query: string): Promise<SearchResult[]> {
     try {
-      const results = await openAIService.searchWithAI(query, 'staff');
+      const { results } = await openAIService.searchWithAI(query, 'staff');
       if (results.length > 0) {
         return results.map(result => ({ ...result, relevance: 0.9 }));
       }
@@ -103,7 +106,7 @@ export class AISearchService {
 
   static async searchGuest(query: string): Promise<SearchResult[]> {
     try {
-      const results = await openAIService.searchWithAI(query, 'guest');
+      const { results } = await openAIService.searchWithAI(query, 'guest');
       if (results.length > 0) {
         return results.map(result => ({ ...result, relevance: 0.9 }));
       }
@@ -145,13 +148,26 @@ export class AISearchService {
   }
 
   // New chat functionality for staff
-  static async chatWithAI(messages: ChatMessage[]): Promise<string> {
-    return await openAIService.chatWithAI(messages);
+  static async chatWithAI(messages: ChatMessage[], streamOptions?: StreamOptions): Promise<ChatCompletionResult> {
+    // Pitch replies at the user's reading level
+    const levelMessage: ChatMessage = {
+      role: 'system',
+      content: readingLevelService.adjustPromptForLevel('You are a school assistant helping with questions about learning and teaching.')
+    };
+    const maxTokens = readingLevelService.getMaxTokensForLevel() + REASONING_TOKEN_ALLOWANCE;
+
+    return await openAIService.chatCompletion([levelMessage, ...messages], maxTokens, streamOptions);
   }
 
   // Unified search method that uses role detection
-  static async performSearch(query: string, userRole?: 'guest' | 'student' | 'staff'): Promise<SearchResult[]> {
-    console.log('🚀 AISearchService.performSearch called:', { query, userRole });
+  static async performSearch(
+    query: string,
+    userRole?: 'guest' | 'student' | 'staff',
+    page: number = 1,
+    filters?: SearchFilters,
+    autoCorrect: boolean = true
+  ): Promise<SearchResultsPage> {
+    console.log('🚀 AISearchService.performSearch called:', { query, userRole, page, filters });
 
     // If no role provided, try to get from current user
     if (!userRole) {
@@ -162,13 +178,18 @@ export class AISearchService {
 
     try {
       // Use the updated openAIService directly
-      const results = await openAIService.searchWithAI(query, userRole);
+      const resultsPage = await openAIService.searchWithAI(query, userRole, page, filters, autoCorrect);
       
       // Add relevance scores and ensure they match the expected interface
-      const searchResults = results.map((result, index) => ({
+      const searchResults = resultsPage.results.map((result, index) => ({
         ...result,
         relevance: 0.9 - (index * 0.1) // Decreasing relevance for sorting
       }));
+
+      // Loading more results is the same search - it was already tracked with the first page
+      if (page > 1) {
+        return { ...resultsPage, results: searchResults };
+      }
       
       // Track search in backend if user is authenticated
       let backendSearchId: string | null = null;
@@ -180,7 +201,8 @@ export class AISearchService {
             query,
             resultCount: searchResults.length,
             category: this.categorizeQuery(query),
-            userRole
+            userRole,
+            filters: hasActiveFilters(filters) ? filters : undefined
           });
           console.log('📊 Search tracked in backend:', backendSearchId);
         }
@@ -215,11 +237,11 @@ export class AISearchService {
       }
       
       console.log('✅ Search completed successfully:', searchResults.length, 'results');
-      return searchResults;
+      return { ...resultsPage, results: searchResults };
     } catch (error) {
       console.error('❌ Search failed:', error);
-      // Return empty array instead of old fallback methods
-      return [];
+      // Return an empty page instead of old fallback methods
+      return { results: [], page, hasMore: false };
     }
   }
 
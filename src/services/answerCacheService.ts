@@ -0,0 +1,146 @@
+/**
+ * Instant Answer Cache
+ * Answers are cached under the normalised intent of the question, so rewordings
+ * like "what's photosynthesis?" and "What is photosynthesis" share one OpenAI
+ * call. With semantic matching on, a question that normalises differently can
+ * still reuse a recent answer whose embedding is similar enough. Everything is
+ * scoped by role and reading level, since answers are written for both
+ */
+
+import { getConfig } from '../config/app-config';
+import { normalizeQueryIntent } from '../utils/queryNormalizer';
+import { cacheService } from './cacheService';
+import { openAIService } from './openAiService';
+import type { ReadingLevel } from './readingLevelService';
+import type { AIInstantAnswer } from './webSearchService';
+
+interface IndexedIntent {
+  intent: string;
+  embedding: number[];
+}
+
+const ANSWER_TTL = 15 * 60 * 1000; // 15 minutes to reduce API usage
+const MAX_INDEXED_INTENTS = 50; // recent questions compared against, per role and reading level
+const MAX_REMEMBERED_EMBEDDINGS = 200;
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+class AnswerCacheService {
+  // Intent -> embedding request, so a question is embedded once for the lookup and the store
+  private embeddings = new Map<string, Promise<number[] | null>>();
+
+  /**
+   * A cached answer for this question or one that means the same, if any
+   */
+  async get(query: string, userRole: string, readingLevel: ReadingLevel): Promise<AIInstantAnswer | null> {
+    const intent = normalizeQueryIntent(query);
+    if (!intent) return null;
+
+    const exact = await cacheService.get<AIInstantAnswer>('answers', this.answerKey(readingLevel, intent), userRole);
+    if (exact) {
+      return exact;
+    }
+
+    const config = await getConfig();
+    if (!config.instantAnswers.semanticCache) {
+      return null;
+    }
+
+    try {
+      const embedding = await this.embed(intent);
+      if (!embedding) return null;
+
+      let best: { intent: string; similarity: number } | null = null;
+      for (const entry of await this.loadIndex(userRole, readingLevel)) {
+        const similarity = cosineSimilarity(embedding, entry.embedding);
+        if (similarity >= config.instantAnswers.similarityThreshold && (!best || similarity > best.similarity)) {
+          best = { intent: entry.intent, similarity };
+        }
+      }
+      if (!best) return null;
+
+      const answer = await cacheService.get<AIInstantAnswer>('answers', this.answerKey(readingLevel, best.intent), userRole);
+      if (answer) {
+        console.log('🧠 Semantic answer cache HIT:', { query, matched: best.intent, similarity: best.similarity.toFixed(3) });
+      }
+      return answer;
+    } catch (error) {
+      console.error('Failed to look up similar cached answers:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache an answer under the question's intent and, with semantic matching
+   * on, add the question to the recent ones later questions are compared with
+   */
+  async set(query: string, userRole: string, readingLevel: ReadingLevel, answer: AIInstantAnswer): Promise<void> {
+    const intent = normalizeQueryIntent(query);
+    if (!intent) return;
+
+    cacheService.set('answers', this.answerKey(readingLevel, intent), answer, userRole, ANSWER_TTL);
+
+    const config = await getConfig();
+    if (!config.instantAnswers.semanticCache) {
+      return;
+    }
+
+    try {
+      const embedding = await this.embed(intent);
+      if (!embedding) return;
+
+      const index = (await this.loadIndex(userRole, readingLevel)).filter((entry) => entry.intent !== intent);
+      index.unshift({ intent, embedding });
+      cacheService.set('answers', this.indexKey(readingLevel), index.slice(0, MAX_INDEXED_INTENTS), userRole, ANSWER_TTL);
+    } catch (error) {
+      console.error('Failed to index cached answer:', error);
+    }
+  }
+
+  private answerKey(readingLevel: ReadingLevel, intent: string): string {
+    return `${readingLevel}:${intent}`;
+  }
+
+  // "#" can't appear in a normalised intent, so the index never collides with an answer
+  private indexKey(readingLevel: ReadingLevel): string {
+    return `${readingLevel}#intents`;
+  }
+
+  private async loadIndex(userRole: string, readingLevel: ReadingLevel): Promise<IndexedIntent[]> {
+    return (await cacheService.get<IndexedIntent[]>('answers', this.indexKey(readingLevel), userRole)) || [];
+  }
+
+  private embed(intent: string): Promise<number[] | null> {
+    const known = this.embeddings.get(intent);
+    if (known) {
+      return known;
+    }
+
+    if (this.embeddings.size >= MAX_REMEMBERED_EMBEDDINGS) {
+      this.embeddings.clear();
+    }
+
+    const request = openAIService.createEmbedding(intent).then((embedding) => {
+      // Don't remember failures - the next question should try again
+      if (!embedding) this.embeddings.delete(intent);
+      return embedding;
+    });
+    this.embeddings.set(intent, request);
+    return request;
+  }
+}
+
+export const answerCacheService = new AnswerCacheService();
+export default answerCacheService;
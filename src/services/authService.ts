@@ -44,6 +44,31 @@ export class AuthService {
       this.clearRememberMeCookie();
       this.clearUserSettings();
 
+      // Chat transcripts, personal suggestions and offline copies of searches and bookmarks
+      // shouldn't outlive the session on a shared device
+      try {
+        const { cacheService } = await import('./cacheService');
+        await Promise.all([cacheService.clear('chat'), cacheService.clear('suggestions'), cacheService.clear('offline')]);
+      } catch (cacheError) {
+        console.warn('Failed to clear personal caches:', cacheError);
+      }
+
+      // The saved bibliography is the student's own work too
+      try {
+        const { citationService } = await import('./citationService');
+        citationService.clearBibliography();
+      } catch (importError) {
+        console.warn('Failed to clear bibliography:', importError);
+      }
+
+      // And the service worker's offline copies of API responses
+      try {
+        const { clearCachedResponses } = await import('../serviceWorkerRegistration');
+        await clearCachedResponses();
+      } catch (cacheError) {
+        console.warn('Failed to clear cached API responses:', cacheError);
+      }
+
       // Clear breadcrumb cache
       try {
         const { breadcrumbService } = await import('./breadcrumbService');
@@ -1,6 +1,12 @@
 // Backend API Service for Horizon Search
 // Handles all communication with the Node.js backend server
 
+import { getConfig } from '../config/app-config';
+import { cacheService } from './cacheService';
+import { offlineService, type QueuedWriteKind } from './offlineService';
+import type { GradeLevel } from './readingLevelService';
+import type { SearchFilters } from './searchProviders';
+
 export interface BackendUser {
   id: string;
   azureId: string;
@@ -17,6 +23,7 @@ export interface BackendUser {
     rememberMe: boolean;
     theme: 'light' | 'dark' | 'system';
     language: string;
+    gradeLevel?: GradeLevel;
   };
   lastLogin: string;
   lastActivity?: string;
@@ -64,6 +71,7 @@ export interface SearchHistoryItem {
   hasAiAnswer: boolean;
   resultCount: number;
   responseTime?: number;
+  filters?: SearchFilters; // advanced filters active for this search, if any
   isBookmarked?: boolean;
   isFavorite?: boolean;
   // NEW: Trigger/Moderation fields
@@ -112,10 +120,54 @@ export interface ModerationRule {
   isActive: boolean;
   hitCount?: number;
   lastHitAt?: string;
+  source?: string; // _id of the blocklist subscription that created the rule; absent for rules added by staff
   createdAt?: string;
   updatedAt?: string;
 }
 
+// The fields staff supply for a rule - what import files and exports contain
+export type ModerationRuleInput = Omit<ModerationRule, '_id' | 'hitCount' | 'lastHitAt' | 'createdAt' | 'updatedAt'>;
+
+// A public blocklist kept in sync as a group of domain rules tagged with the subscription's _id
+export interface BlocklistSubscription {
+  _id: string;
+  name: string;
+  sourceType: 'url' | 'file';
+  url?: string; // fetched by the backend on every sync
+  fileName?: string; // file subscriptions are re-synced by uploading the file again
+  action: 'block' | 'flag';
+  severity: NonNullable<ModerationRule['severity']>;
+  ruleCount: number;
+  lastSyncedAt?: string;
+  lastSyncError?: string;
+  createdAt?: string;
+}
+
+// Times a rule matched web results since the last report, for hitCount/lastHitAt
+export interface ModerationRuleHit {
+  ruleId: string;
+  count: number;
+  lastHitAt: string;
+}
+
+export type WellbeingCategory = 'selfHarm' | 'abuse' | 'bullying';
+export type WellbeingAlertStatus = 'new' | 'inProgress' | 'resolved';
+
+// A confidential alert for wellbeing staff - never shown in the general moderation views
+export interface WellbeingAlert {
+  _id: string;
+  category: WellbeingCategory;
+  query: string;
+  status: WellbeingAlertStatus;
+  userName?: string; // filled in by the backend from the signed-in student
+  userEmail?: string;
+  gradeLevel?: string;
+  notes?: string;
+  handledBy?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
 // NEW: Content Rating interface
 export interface ContentRating {
   score: number;
@@ -198,6 +250,9 @@ export interface ModerationStats {
   }>;
 }
 
+// Bookmarks created offline use this id prefix until the server assigns a real id
+const OFFLINE_BOOKMARK_PREFIX = 'offline-';
+
 class BackendService {
   private baseUrl: string = 'https://search-api.horizon.sa.edu.au'; // Default fallback for production
   private accessToken: string | null = null;
@@ -209,24 +264,26 @@ class BackendService {
     this.loadTokensFromStorage();
     // Initialize base URL from config
     this.initializeBaseUrl();
+
+    // Send anything queued while offline. The service worker only sends writes
+    // that need no token, and not at all without Background Sync, so the page
+    // sends the rest whenever the connection returns
+    window.addEventListener('online', () => {
+      this.flushOfflineQueue();
+    });
+    this.flushOfflineQueue();
   }
 
   private async initializeBaseUrl(): Promise<void> {
     if (this.initialized) return;
     
     try {
-      // Try to get backend URL from runtime config
-      const response = await fetch('/env.json');
-      if (response.ok) {
-        const config = await response.json();
-        this.baseUrl = config.BACKEND_URL || 'https://search-api.horizon.sa.edu.au';
-      } else {
-        // Fallback to environment variable or production default
-        this.baseUrl = process.env.REACT_APP_BACKEND_URL || 'https://search-api.horizon.sa.edu.au';
-      }
+      // Same validated runtime config as the rest of the app
+      const config = await getConfig();
+      this.baseUrl = config.api.backendUrl;
     } catch (error) {
+      // App shows the configuration error screen - keep the production default meanwhile
       console.warn('Failed to load backend URL from config, using default:', error);
-      this.baseUrl = process.env.REACT_APP_BACKEND_URL || 'https://search-api.horizon.sa.edu.au';
     }
     
     this.initialized = true;
@@ -354,6 +411,60 @@ class BackendService {
     }
   }
 
+  /**
+   * Send a write, or queue it for Background Sync when there is no connection.
+   * Returns null when the write was queued
+   */
+  private async sendOrQueue<T>(
+    kind: QueuedWriteKind,
+    endpoint: string,
+    options: RequestInit,
+    requireAuth: boolean = true,
+    localId?: string
+  ): Promise<T | null> {
+    if (offlineService.isOnline()) {
+      try {
+        return await this.makeRequest<T>(endpoint, options, requireAuth);
+      } catch (error) {
+        // fetch rejects with a TypeError when the network is unreachable - anything else is the server's answer
+        if (!(error instanceof TypeError)) throw error;
+      }
+    }
+
+    // No token in the queue - it would sit on the device, and the user's current one is added when the write is sent
+    await this.initializeBaseUrl();
+    const queued = await offlineService.enqueue({
+      kind,
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      method: options.method || 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof options.body === 'string' ? options.body : undefined,
+      requireAuth,
+      localId,
+    });
+    if (queued === null) {
+      throw new Error('Offline and unable to queue the request');
+    }
+    return null;
+  }
+
+  /**
+   * Send writes queued while offline, through makeRequest so an expired token
+   * is refreshed first
+   */
+  async flushOfflineQueue(): Promise<void> {
+    await offlineService.replay(async (write) => {
+      try {
+        await this.makeRequest(write.endpoint, { method: write.method, body: write.body }, write.requireAuth);
+        return 'sent';
+      } catch (error) {
+        // A network failure is worth retrying; anything else is the server refusing the write
+        return error instanceof TypeError ? 'retry' : 'drop';
+      }
+    });
+  }
+
   // Authentication Methods
   async login(userData: {
     azureId: string;
@@ -472,6 +583,8 @@ class BackendService {
   async logout(): Promise<void> {
     try {
       if (this.accessToken) {
+        // Writes queued offline belong to this user - send them while the token is still theirs
+        await this.flushOfflineQueue();
         await this.makeRequest('/auth/logout', { method: 'POST' });
       }
     } catch (error) {
@@ -479,6 +592,7 @@ class BackendService {
       // Continue with local logout even if backend request fails
     } finally {
       this.clearTokensFromStorage();
+      await offlineService.clearQueue();
       console.log('🚪 Logged out from backend');
     }
   }
@@ -524,13 +638,14 @@ class BackendService {
           lastMessageAt: string;
           messageCount: number;
           category: string;
+          tags?: string[];
         }>;
       }>(`/chats/recent?limit=${limit}`);
       
       return response.success ? response.recentChats.map(chat => ({
         ...chat,
         messages: [], // Will be loaded separately when needed
-        tags: [],
+        tags: chat.tags || [],
         totalTokens: 0,
         createdAt: chat.lastMessageAt
       })) : [];
@@ -540,10 +655,20 @@ class BackendService {
     }
   }
 
+  // Transcripts are cached until a message, rename or delete changes them
   async getChatSession(sessionId: string): Promise<ChatSession | null> {
+    const cached = await cacheService.get<ChatSession>('chat', sessionId);
+    if (cached) {
+      return cached;
+    }
+
     try {
       const response = await this.makeRequest<{ success: boolean; chat: ChatSession }>(`/chats/${sessionId}`);
-      return response.success ? response.chat : null;
+      if (!response.success) {
+        return null;
+      }
+      cacheService.set('chat', sessionId, response.chat, undefined, 30 * 60 * 1000);
+      return response.chat;
     } catch (error) {
       console.error('Failed to get chat session:', error);
       return null;
@@ -574,6 +699,7 @@ class BackendService {
     tokens?: { input: number; output: number }
   ): Promise<boolean> {
     try {
+      await cacheService.delete('chat', sessionId);
       const response = await this.makeRequest<{ success: boolean }>(`/chats/${sessionId}/messages`, {
         method: 'POST',
         body: JSON.stringify({ role, content, tokens }),
@@ -586,6 +712,38 @@ class BackendService {
     }
   }
 
+  async updateChatSession(
+    sessionId: string,
+    data: { title?: string; tags?: string[]; category?: string }
+  ): Promise<boolean> {
+    try {
+      await cacheService.delete('chat', sessionId);
+      const response = await this.makeRequest<{ success: boolean }>(`/chats/${sessionId}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      });
+
+      return response.success;
+    } catch (error) {
+      console.error('Failed to update chat session:', error);
+      return false;
+    }
+  }
+
+  async deleteChatSession(sessionId: string): Promise<boolean> {
+    try {
+      await cacheService.delete('chat', sessionId);
+      const response = await this.makeRequest<{ success: boolean }>(`/chats/${sessionId}`, {
+        method: 'DELETE',
+      });
+
+      return response.success;
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+      return false;
+    }
+  }
+
   // Search History Methods
   async getRecentSearches(limit: number = 10): Promise<SearchHistoryItem[]> {
     try {
@@ -612,10 +770,10 @@ class BackendService {
     aiAnswerSummary?: string;
   }): Promise<string | null> {
     try {
-      const response = await this.makeRequest<{ 
+      const response = await this.sendOrQueue<{ 
         success: boolean; 
         searchId: string | null;
-      }>('/searches', {
+      }>('saveSearch', '/searches', {
         method: 'POST',
         body: JSON.stringify({
           ...searchData,
@@ -624,7 +782,8 @@ class BackendService {
         }),
       }, false); // Don't require auth - endpoint handles optional auth
       
-      return response.success ? response.searchId : null;
+      // Queued offline - the id comes when it syncs
+      return response?.success ? response.searchId : null;
     } catch (error) {
       console.error('Failed to save search:', error);
       return null;
@@ -650,6 +809,7 @@ class BackendService {
     userRole?: 'guest' | 'student' | 'staff';
     searchType?: 'web' | 'ai' | 'hybrid';
     responseTime?: number;
+    filters?: SearchFilters;
   }): Promise<string | null> {
     try {
       console.log('📊 Tracking search with auth:', {
@@ -659,10 +819,10 @@ class BackendService {
         hasToken: !!this.accessToken
       });
 
-      const response = await this.makeRequest<{
+      const response = await this.sendOrQueue<{
         success: boolean;
         searchId: string | null;
-      }>('/searches/track', {
+      }>('trackSearch', '/searches/track', {
         method: 'POST',
         body: JSON.stringify({
           ...searchData,
@@ -673,7 +833,7 @@ class BackendService {
       }, true); // Require auth for proper search tracking
 
       console.log('📊 Backend track response:', response);
-      return response.success ? response.searchId : null;
+      return response?.success ? response.searchId : null;
     } catch (error) {
       console.error('📊 Failed to track search:', error);
       return null;
@@ -723,6 +883,10 @@ class BackendService {
     limit?: number;
     skip?: number;
   }): Promise<{ bookmarks: Bookmark[]; total: number }> {
+    if (!offlineService.isOnline()) {
+      return this.getSavedBookmarks(filters);
+    }
+
     try {
       const params = new URLSearchParams();
       if (filters?.category) params.append('category', filters.category);
@@ -734,10 +898,16 @@ class BackendService {
       const response = await this.makeRequest<{ bookmarks: Bookmark[]; total: number }>(
         `/bookmarks?${params.toString()}`
       );
+
+      // Keep a copy of the whole list to browse offline
+      if (!filters?.category && !filters?.folder && filters?.favorite === undefined && !filters?.skip) {
+        offlineService.saveBookmarks(response.bookmarks);
+      }
       return response;
     } catch (error) {
       console.error('Failed to get bookmarks:', error);
-      return { bookmarks: [], total: 0 };
+      // The last copy loaded (empty if there isn't one) beats an empty drawer
+      return this.getSavedBookmarks(filters);
     }
   }
 
@@ -752,13 +922,40 @@ class BackendService {
     folder?: string;
   }): Promise<Bookmark | null> {
     try {
-      const response = await this.makeRequest<{ success: boolean; bookmark: Bookmark }>(
+      const localId = `${OFFLINE_BOOKMARK_PREFIX}${Date.now()}`;
+      const response = await this.sendOrQueue<{ success: boolean; bookmark: Bookmark }>(
+        'createBookmark',
         '/bookmarks',
         {
           method: 'POST',
           body: JSON.stringify(data),
-        }
+        },
+        true,
+        localId
       );
+
+      if (!response) {
+        // Queued - show it straight away; the server gives it a real id when it syncs
+        const now = new Date().toISOString();
+        const bookmark: Bookmark = {
+          bookmarkId: localId,
+          userId: '',
+          title: data.title,
+          query: data.query,
+          category: data.category || 'general',
+          searchType: data.searchType || 'web',
+          resultSnapshot: data.resultSnapshot,
+          tags: data.tags || [],
+          notes: data.notes,
+          folder: data.folder || '',
+          isFavorite: false,
+          createdAt: now,
+          lastAccessedAt: now,
+          accessCount: 0,
+        };
+        await this.updateSavedBookmarks((bookmarks) => [bookmark, ...bookmarks]);
+        return bookmark;
+      }
       return response.success ? response.bookmark : null;
     } catch (error) {
       console.error('Failed to create bookmark:', error);
@@ -767,14 +964,27 @@ class BackendService {
   }
 
   async updateBookmark(bookmarkId: string, data: Partial<Bookmark>): Promise<boolean> {
+    // Not on the server until its creation syncs
+    if (bookmarkId.startsWith(OFFLINE_BOOKMARK_PREFIX)) {
+      return false;
+    }
+
     try {
-      const response = await this.makeRequest<{ success: boolean }>(
+      const response = await this.sendOrQueue<{ success: boolean }>(
+        'updateBookmark',
         `/bookmarks/${bookmarkId}`,
         {
           method: 'PUT',
           body: JSON.stringify(data),
         }
       );
+
+      if (!response) {
+        await this.updateSavedBookmarks((bookmarks) =>
+          bookmarks.map((bookmark) => (bookmark.bookmarkId === bookmarkId ? { ...bookmark, ...data } : bookmark))
+        );
+        return true;
+      }
       return response.success;
     } catch (error) {
       console.error('Failed to update bookmark:', error);
@@ -784,10 +994,25 @@ class BackendService {
 
   async deleteBookmark(bookmarkId: string): Promise<boolean> {
     try {
-      const response = await this.makeRequest<{ success: boolean }>(
+      if (bookmarkId.startsWith(OFFLINE_BOOKMARK_PREFIX)) {
+        // Never reached the server - cancel the queued creation instead
+        const cancelled = await offlineService.removeByLocalId(bookmarkId);
+        if (cancelled) {
+          await this.updateSavedBookmarks((bookmarks) => bookmarks.filter((bookmark) => bookmark.bookmarkId !== bookmarkId));
+        }
+        return cancelled;
+      }
+
+      const response = await this.sendOrQueue<{ success: boolean }>(
+        'deleteBookmark',
         `/bookmarks/${bookmarkId}`,
         { method: 'DELETE' }
       );
+
+      if (!response) {
+        await this.updateSavedBookmarks((bookmarks) => bookmarks.filter((bookmark) => bookmark.bookmarkId !== bookmarkId));
+        return true;
+      }
       return response.success;
     } catch (error) {
       console.error('Failed to delete bookmark:', error);
@@ -797,20 +1022,54 @@ class BackendService {
 
   async bulkDeleteBookmarks(bookmarkIds: string[]): Promise<number> {
     try {
-      const response = await this.makeRequest<{ success: boolean; deletedCount: number }>(
+      const offlineIds = bookmarkIds.filter((id) => id.startsWith(OFFLINE_BOOKMARK_PREFIX));
+      const serverIds = bookmarkIds.filter((id) => !id.startsWith(OFFLINE_BOOKMARK_PREFIX));
+
+      let cancelled = 0;
+      for (const id of offlineIds) {
+        if (await this.deleteBookmark(id)) cancelled++;
+      }
+      if (serverIds.length === 0) {
+        return cancelled;
+      }
+
+      const response = await this.sendOrQueue<{ success: boolean; deletedCount: number }>(
+        'deleteBookmarks',
         '/bookmarks/bulk-delete',
         {
           method: 'POST',
-          body: JSON.stringify({ bookmarkIds }),
+          body: JSON.stringify({ bookmarkIds: serverIds }),
         }
       );
-      return response.deletedCount || 0;
+
+      if (!response) {
+        await this.updateSavedBookmarks((bookmarks) => bookmarks.filter((bookmark) => !serverIds.includes(bookmark.bookmarkId)));
+        return cancelled + serverIds.length;
+      }
+      return cancelled + (response.deletedCount || 0);
     } catch (error) {
       console.error('Failed to bulk delete bookmarks:', error);
       return 0;
     }
   }
 
+  private async getSavedBookmarks(filters?: {
+    category?: string;
+    folder?: string;
+    favorite?: boolean;
+  }): Promise<{ bookmarks: Bookmark[]; total: number }> {
+    const bookmarks = (await offlineService.getSavedBookmarks()).filter((bookmark) =>
+      (!filters?.category || bookmark.category === filters.category)
+      && (!filters?.folder || bookmark.folder === filters.folder)
+      && (filters?.favorite === undefined || bookmark.isFavorite === filters.favorite)
+    );
+    return { bookmarks, total: bookmarks.length };
+  }
+
+  private async updateSavedBookmarks(change: (bookmarks: Bookmark[]) => Bookmark[]): Promise<void> {
+    offlineService.saveBookmarks(change(await offlineService.getSavedBookmarks()));
+  }
+
   async getBookmarkFolders(): Promise<string[]> {
     try {
       const response = await this.makeRequest<{ folders: string[] }>('/bookmarks/folders');
@@ -985,6 +1244,123 @@ class BackendService {
     }
   }
 
+  // Active rules are applied to every user's web results, so they can be read signed out
+  async getActiveModerationRules(): Promise<ModerationRule[] | null> {
+    try {
+      const response = await this.makeRequest<{ success: boolean; rules: ModerationRule[] }>(
+        '/moderation/rules/active',
+        {},
+        false
+      );
+      return response.success ? response.rules || [] : null;
+    } catch (error) {
+      console.error('Failed to get active moderation rules:', error);
+      return null;
+    }
+  }
+
+  async reportModerationRuleHits(hits: ModerationRuleHit[]): Promise<boolean> {
+    try {
+      const response = await this.makeRequest<{ success: boolean }>(
+        '/moderation/rules/hits',
+        {
+          method: 'POST',
+          body: JSON.stringify({ hits }),
+        },
+        false
+      );
+      return response.success;
+    } catch (error) {
+      console.error('Failed to report moderation rule hits:', error);
+      return false;
+    }
+  }
+
+  // Rules the backend already has (same type, action and value) are skipped rather than duplicated
+  async importModerationRules(rules: ModerationRuleInput[]): Promise<{ created: number; skipped: number } | null> {
+    try {
+      const response = await this.makeRequest<{ success: boolean; created: number; skipped: number }>(
+        '/moderation/rules/import',
+        {
+          method: 'POST',
+          body: JSON.stringify({ rules }),
+        }
+      );
+      return response.success ? { created: response.created, skipped: response.skipped } : null;
+    } catch (error) {
+      console.error('Failed to import moderation rules:', error);
+      return null;
+    }
+  }
+
+  async getBlocklistSubscriptions(): Promise<BlocklistSubscription[]> {
+    try {
+      const response = await this.makeRequest<{ success: boolean; subscriptions: BlocklistSubscription[] }>(
+        '/moderation/subscriptions'
+      );
+      return response.subscriptions || [];
+    } catch (error) {
+      console.error('Failed to get blocklist subscriptions:', error);
+      return [];
+    }
+  }
+
+  // URL subscriptions are fetched by the backend; file subscriptions send the domains read from the file
+  async createBlocklistSubscription(subscription: {
+    name: string;
+    sourceType: BlocklistSubscription['sourceType'];
+    url?: string;
+    fileName?: string;
+    domains?: string[];
+    action: BlocklistSubscription['action'];
+    severity: BlocklistSubscription['severity'];
+  }): Promise<BlocklistSubscription | null> {
+    try {
+      const response = await this.makeRequest<{ success: boolean; subscription: BlocklistSubscription }>(
+        '/moderation/subscriptions',
+        {
+          method: 'POST',
+          body: JSON.stringify(subscription),
+        }
+      );
+      return response.success ? response.subscription : null;
+    } catch (error) {
+      console.error('Failed to create blocklist subscription:', error);
+      return null;
+    }
+  }
+
+  // Replaces the subscription's rules with the list's current domains
+  async syncBlocklistSubscription(subscriptionId: string, domains?: string[]): Promise<BlocklistSubscription | null> {
+    try {
+      const response = await this.makeRequest<{ success: boolean; subscription: BlocklistSubscription }>(
+        `/moderation/subscriptions/${subscriptionId}/sync`,
+        {
+          method: 'POST',
+          body: JSON.stringify(domains ? { domains } : {}),
+        }
+      );
+      return response.success ? response.subscription : null;
+    } catch (error) {
+      console.error('Failed to sync blocklist subscription:', error);
+      return null;
+    }
+  }
+
+  // Removes the subscription together with every rule it created
+  async deleteBlocklistSubscription(subscriptionId: string): Promise<boolean> {
+    try {
+      const response = await this.makeRequest<{ success: boolean }>(
+        `/moderation/subscriptions/${subscriptionId}`,
+        { method: 'DELETE' }
+      );
+      return response.success;
+    } catch (error) {
+      console.error('Failed to delete blocklist subscription:', error);
+      return false;
+    }
+  }
+
   async getSearchesByTrigger(trigger?: string, options?: {
     limit?: number;
     skip?: number;
@@ -1101,6 +1477,58 @@ class BackendService {
     }
   }
 
+  // ============= Wellbeing Alerts =============
+  // Kept apart from the moderation endpoints - only designated wellbeing staff can read them
+
+  // Never queued offline - a queued alert would be discarded at sign-out and the
+  // student's query would be left on the device. The student is told it wasn't sent
+  async createWellbeingAlert(alert: { category: WellbeingCategory; query: string; gradeLevel?: string }): Promise<boolean> {
+    try {
+      const response = await this.makeRequest<{ success: boolean }>('/wellbeing/alerts', {
+        method: 'POST',
+        body: JSON.stringify(alert),
+      });
+      return response.success;
+    } catch (error) {
+      console.error('Failed to create wellbeing alert:', error);
+      return false;
+    }
+  }
+
+  async getWellbeingAlerts(status?: WellbeingAlertStatus): Promise<WellbeingAlert[]> {
+    try {
+      const params = new URLSearchParams();
+      if (status) params.append('status', status);
+
+      const response = await this.makeRequest<{ success: boolean; alerts: WellbeingAlert[] }>(
+        `/wellbeing/alerts?${params.toString()}`
+      );
+      return response.alerts || [];
+    } catch (error) {
+      console.error('Failed to get wellbeing alerts:', error);
+      return [];
+    }
+  }
+
+  async updateWellbeingAlert(
+    alertId: string,
+    updates: { status?: WellbeingAlertStatus; notes?: string }
+  ): Promise<WellbeingAlert | null> {
+    try {
+      const response = await this.makeRequest<{ success: boolean; alert: WellbeingAlert }>(
+        `/wellbeing/alerts/${alertId}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(updates),
+        }
+      );
+      return response.alert || null;
+    } catch (error) {
+      console.error('Failed to update wellbeing alert:', error);
+      return null;
+    }
+  }
+
   // QuickLinks Management Methods
 
   async getQuickLinks(options?: { category?: string; grouped?: boolean; role?: string }): Promise<any> {
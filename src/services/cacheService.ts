@@ -1,141 +1,500 @@
 /**
- * In-memory caching service for AI responses
- * Provides fast response times for repeated queries
+ * Tiered caching service for search results, AI answers and chat transcripts
+ * A small in-memory LRU answers repeat lookups instantly; IndexedDB behind it
+ * keeps entries across reloads. Both tiers evict least recently used entries
+ * once over their size budget
  */
 
+export type CacheNamespace = 'search' | 'answers' | 'chat' | 'suggestions' | 'offline';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['search', 'answers', 'chat', 'suggestions', 'offline'];
+
 interface CacheEntry<T> {
+  key: string;
+  namespace: CacheNamespace;
   data: T;
   timestamp: number;
   ttl: number;
+  staleTtl: number; // how long past ttl the entry may still be served while it is refreshed
+  size: number; // approximate bytes
+  lastAccess: number;
 }
 
-class CacheService {
-  private cache = new Map<string, CacheEntry<any>>();
-  private maxSize = 100; // Maximum number of cached entries
-  private defaultTTL = 15 * 60 * 1000; // 15 minutes in milliseconds (increased to reduce API usage)
+type EntryInfo = Pick<CacheEntry<unknown>, 'namespace' | 'size' | 'lastAccess'>;
 
-  /**
-   * Generate cache key from query and user role
-   */
-  private generateKey(query: string, userRole?: string): string {
-    const normalizedQuery = query.toLowerCase().trim();
-    return userRole ? `${normalizedQuery}:${userRole}` : normalizedQuery;
+export interface CacheNamespaceStats {
+  entries: number;
+  bytes: number;
+}
+
+export interface CacheStats {
+  memoryEntries: number;
+  memoryBytes: number;
+  maxMemoryEntries: number;
+  maxMemoryBytes: number;
+  persistentAvailable: boolean;
+  persistentEntries: number;
+  persistentBytes: number;
+  maxPersistentBytes: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number | null; // null until something has been looked up
+  namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+}
+
+const DB_NAME = 'horizon-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const MAX_MEMORY_ENTRIES = 100;
+const MAX_MEMORY_BYTES = 2 * 1024 * 1024;
+const MAX_PERSISTENT_BYTES = 20 * 1024 * 1024;
+const DEFAULT_TTL = 15 * 60 * 1000; // 15 minutes in milliseconds (increased to reduce API usage)
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const isFresh = (entry: CacheEntry<unknown>, now = Date.now()) => now - entry.timestamp < entry.ttl;
+const isUsable = (entry: CacheEntry<unknown>, now = Date.now()) => now - entry.timestamp < entry.ttl + entry.staleTtl;
+
+// Strings are UTF-16 in memory, so roughly two bytes per character
+const estimateSize = (data: unknown): number => {
+  try {
+    return (JSON.stringify(data) || '').length * 2;
+  } catch {
+    return 0;
   }
+};
 
-  /**
-   * Check if cache entry is still valid
-   */
-  private isValid(entry: CacheEntry<any>): boolean {
-    return Date.now() - entry.timestamp < entry.ttl;
+/**
+ * IndexedDB tier. Keeps an in-memory index of what is stored (sizes and last
+ * access) so eviction and stats never have to read the entries back
+ */
+class PersistentStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private index = new Map<string, EntryInfo>();
+  private bytes = 0;
+
+  constructor(private maxBytes: number, private onEvict: (count: number) => void) {}
+
+  isAvailable(): Promise<boolean> {
+    return this.open().then((db) => db !== null);
   }
 
-  /**
-   * Clean up expired entries
-   */
-  private cleanup(): void {
-    const keysToDelete: string[] = [];
-    this.cache.forEach((entry, key) => {
-      if (!this.isValid(entry)) {
-        keysToDelete.push(key);
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    // Everything stored was indexed when the database opened, so misses need no read
+    const db = await this.open();
+    if (!db || !this.index.has(key)) {
+      return null;
+    }
+
+    const entry = await this.run<CacheEntry<T> | undefined>('readonly', (store) => store.get(key));
+    if (!entry) return null;
+
+    if (!isUsable(entry)) {
+      this.delete(key);
+      return null;
+    }
+
+    const info = this.index.get(key);
+    if (info) info.lastAccess = Date.now();
+    return entry;
+  }
+
+  async put(entry: CacheEntry<unknown>): Promise<void> {
+    if (!(await this.open())) return;
+
+    try {
+      await this.run('readwrite', (store) => store.put(entry));
+      this.track(entry.key, entry);
+      await this.evictIfNeeded();
+    } catch (error) {
+      // Usually the browser's storage quota - the memory tier still has the entry
+      console.error('Failed to persist cache entry:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.untrack(key);
+    try {
+      await this.run('readwrite', (store) => store.delete(key));
+    } catch (error) {
+      console.error('Failed to delete cache entry:', error);
+    }
+  }
+
+  async clear(namespace?: CacheNamespace): Promise<void> {
+    await this.open();
+    try {
+      if (!namespace) {
+        await this.run('readwrite', (store) => store.clear());
+        this.index.clear();
+        this.bytes = 0;
+        return;
       }
+
+      const keys = this.keysIn(namespace);
+      await Promise.all(keys.map((key) => this.delete(key)));
+    } catch (error) {
+      console.error('Failed to clear persistent cache:', error);
+    }
+  }
+
+  getEntries(): Map<string, EntryInfo> {
+    return this.index;
+  }
+
+  getBytes(): number {
+    return this.bytes;
+  }
+
+  private keysIn(namespace: CacheNamespace): string[] {
+    const keys: string[] = [];
+    this.index.forEach((info, key) => {
+      if (info.namespace === namespace) keys.push(key);
     });
-    keysToDelete.forEach(key => this.cache.delete(key));
+    return keys;
   }
 
-  /**
-   * Evict oldest entries if cache is full
-   */
-  private evictIfNeeded(): void {
-    if (this.cache.size >= this.maxSize) {
-      // Remove 20% of oldest entries
-      const entriesToRemove = Math.floor(this.maxSize * 0.2);
-      const entries: [string, CacheEntry<any>][] = [];
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = this.connect();
+    }
+    return this.db;
+  }
 
-      this.cache.forEach((entry, key) => {
-        entries.push([key, entry]);
-      });
+  private async connect(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return null;
+    }
 
-      entries.sort(([, a], [, b]) => a.timestamp - b.timestamp);
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      const db = await requestToPromise(request);
+      await this.loadIndex(db);
+      console.log('💾 Persistent cache opened:', this.index.size, 'entries');
+      return db;
+    } catch (error) {
+      // Private browsing and some school-managed browsers disable IndexedDB
+      console.error('Failed to open persistent cache:', error);
+      return null;
+    }
+  }
 
-      for (let i = 0; i < entriesToRemove; i++) {
-        this.cache.delete(entries[i][0]);
-      }
+  // Index what is stored and drop anything that expired while the app was closed
+  private loadIndex(db: IDBDatabase): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).openCursor();
+      const now = Date.now();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const entry = cursor.value as CacheEntry<unknown>;
+        if (isUsable(entry, now)) {
+          this.track(entry.key, entry);
+        } else {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<any>): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+    return requestToPromise<T>(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  }
+
+  private track(key: string, entry: EntryInfo) {
+    this.untrack(key);
+    this.index.set(key, { namespace: entry.namespace, size: entry.size, lastAccess: entry.lastAccess });
+    this.bytes += entry.size;
+  }
+
+  private untrack(key: string) {
+    const existing = this.index.get(key);
+    if (existing) {
+      this.bytes -= existing.size;
+      this.index.delete(key);
+    }
+  }
+
+  private async evictIfNeeded(): Promise<void> {
+    if (this.bytes <= this.maxBytes) return;
+
+    const oldestFirst = Array.from(this.index.entries()).sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    const toRemove: string[] = [];
+    let bytes = this.bytes;
+    for (const [key, info] of oldestFirst) {
+      if (bytes <= this.maxBytes) break;
+      toRemove.push(key);
+      bytes -= info.size;
     }
+
+    await Promise.all(toRemove.map((key) => this.delete(key)));
+    this.onEvict(toRemove.length);
   }
+}
+
+class CacheService {
+  // Map iteration order doubles as the LRU order - reads move an entry to the end
+  private memory = new Map<string, CacheEntry<any>>();
+  private memoryBytes = 0;
+  private persistent = new PersistentStore(MAX_PERSISTENT_BYTES, (count) => {
+    this.evictions += count;
+  });
+  private revalidating = new Set<string>();
+
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
 
   /**
-   * Get cached data if available and valid
+   * Generate cache key from namespace, query and user role
    */
-  get<T>(query: string, userRole?: string): T | null {
-    const key = this.generateKey(query, userRole);
-    const entry = this.cache.get(key);
+  private generateKey(namespace: CacheNamespace, query: string, userRole?: string): string {
+    const normalizedQuery = query.toLowerCase().trim();
+    return `${namespace}|${userRole ? `${normalizedQuery}:${userRole}` : normalizedQuery}`;
+  }
 
-    if (!entry || !this.isValid(entry)) {
-      if (entry) {
-        this.cache.delete(key);
-      }
+  /**
+   * Get cached data if available and fresh
+   */
+  async get<T>(namespace: CacheNamespace, query: string, userRole?: string): Promise<T | null> {
+    const entry = await this.lookup<T>(this.generateKey(namespace, query, userRole));
+
+    if (!entry || !isFresh(entry)) {
+      this.misses++;
       return null;
     }
 
+    this.hits++;
     console.log('🎯 Cache HIT for query:', query);
     return entry.data;
   }
 
   /**
-   * Store data in cache
+   * Stale-while-revalidate: fresh data is returned as is; stale data is returned
+   * straight away while load() refreshes it in the background; on a miss load()
+   * is awaited. A null from load() is returned but not cached
    */
-  set<T>(query: string, data: T, userRole?: string, ttl?: number): void {
-    this.cleanup();
-    this.evictIfNeeded();
+  async getOrRevalidate<T>(
+    namespace: CacheNamespace,
+    query: string,
+    userRole: string | undefined,
+    load: () => Promise<T | null>,
+    ttl: number = DEFAULT_TTL,
+    staleTtl: number = 0
+  ): Promise<T | null> {
+    const key = this.generateKey(namespace, query, userRole);
+    const entry = await this.lookup<T>(key);
 
-    const key = this.generateKey(query, userRole);
+    if (entry && isFresh(entry)) {
+      this.hits++;
+      console.log('🎯 Cache HIT for query:', query);
+      return entry.data;
+    }
+
+    const refresh = async () => {
+      const data = await load();
+      if (data !== null) {
+        this.set(namespace, query, data, userRole, ttl, staleTtl);
+      }
+      return data;
+    };
+
+    if (entry) {
+      this.staleHits++;
+      if (!this.revalidating.has(key)) {
+        console.log('♻️ Cache STALE for query, refreshing in background:', query);
+        this.revalidating.add(key);
+        refresh()
+          .catch((error) => console.error('Failed to revalidate cache entry:', error))
+          .finally(() => this.revalidating.delete(key));
+      }
+      return entry.data;
+    }
+
+    this.misses++;
+    return refresh();
+  }
+
+  /**
+   * Store data in cache
+   */
+  set<T>(
+    namespace: CacheNamespace,
+    query: string,
+    data: T,
+    userRole?: string,
+    ttl?: number,
+    staleTtl: number = 0
+  ): void {
+    const now = Date.now();
     const entry: CacheEntry<T> = {
+      key: this.generateKey(namespace, query, userRole),
+      namespace,
       data,
-      timestamp: Date.now(),
-      ttl: ttl || this.defaultTTL
+      timestamp: now,
+      ttl: ttl || DEFAULT_TTL,
+      staleTtl,
+      size: estimateSize(data),
+      lastAccess: now,
     };
 
-    this.cache.set(key, entry);
-    console.log('💾 Cache SET for query:', query, '(TTL:', (ttl || this.defaultTTL) / 1000, 'seconds)');
+    this.remember(entry);
+    this.persistent.put(entry);
+    console.log('💾 Cache SET for query:', query, '(TTL:', entry.ttl / 1000, 'seconds)');
+  }
+
+  /**
+   * Remove specific entry from cache
+   */
+  async delete(namespace: CacheNamespace, query: string, userRole?: string): Promise<void> {
+    const key = this.generateKey(namespace, query, userRole);
+    this.forget(key);
+    await this.persistent.delete(key);
   }
 
   /**
-   * Clear all cache entries
+   * Clear one namespace, or every cache entry
    */
-  clear(): void {
-    this.cache.clear();
-    console.log('🗑️ Cache cleared');
+  async clear(namespace?: CacheNamespace): Promise<void> {
+    Array.from(this.memory.values())
+      .filter((entry) => !namespace || entry.namespace === namespace)
+      .forEach((entry) => this.forget(entry.key));
+    await this.persistent.clear(namespace);
+    console.log('🗑️ Cache cleared:', namespace || 'all');
   }
 
   /**
    * Get cache statistics
    */
-  getStats() {
-    this.cleanup();
+  async getStats(): Promise<CacheStats> {
+    const persistentAvailable = await this.persistent.isAvailable();
+    this.removeExpiredFromMemory();
+
+    // An entry is usually in both tiers - count each key once, at its stored size
+    const all = new Map<string, EntryInfo>();
+    this.memory.forEach((entry, key) => all.set(key, entry));
+    this.persistent.getEntries().forEach((info, key) => all.set(key, info));
+
+    const namespaces = CACHE_NAMESPACES.reduce((stats, namespace) => {
+      stats[namespace] = { entries: 0, bytes: 0 };
+      return stats;
+    }, {} as Record<CacheNamespace, CacheNamespaceStats>);
+    all.forEach((info) => {
+      const stats = namespaces[info.namespace];
+      if (!stats) return; // left behind by a namespace that no longer exists
+      stats.entries++;
+      stats.bytes += info.size;
+    });
+
+    const lookups = this.hits + this.staleHits + this.misses;
+
     return {
-      size: this.cache.size,
-      maxSize: this.maxSize,
-      hitRate: 0, // Would need hit/miss counters for accurate stats
+      memoryEntries: this.memory.size,
+      memoryBytes: this.memoryBytes,
+      maxMemoryEntries: MAX_MEMORY_ENTRIES,
+      maxMemoryBytes: MAX_MEMORY_BYTES,
+      persistentAvailable,
+      persistentEntries: this.persistent.getEntries().size,
+      persistentBytes: this.persistent.getBytes(),
+      maxPersistentBytes: MAX_PERSISTENT_BYTES,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? (this.hits + this.staleHits) / lookups : null,
+      namespaces,
     };
   }
 
+  resetStats(): void {
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
   /**
-   * Check if query exists in cache
+   * Find a fresh or stale entry, promoting it from IndexedDB into memory
    */
-  has(query: string, userRole?: string): boolean {
-    const key = this.generateKey(query, userRole);
-    const entry = this.cache.get(key);
-    return entry ? this.isValid(entry) : false;
+  private async lookup<T>(key: string): Promise<CacheEntry<T> | null> {
+    const cached = this.memory.get(key) as CacheEntry<T> | undefined;
+    if (cached) {
+      if (isUsable(cached)) {
+        cached.lastAccess = Date.now();
+        this.memory.delete(key);
+        this.memory.set(key, cached);
+        return cached;
+      }
+      this.forget(key);
+    }
+
+    try {
+      const stored = await this.persistent.get<T>(key);
+      if (stored) {
+        this.remember({ ...stored, lastAccess: Date.now() });
+      }
+      return stored;
+    } catch (error) {
+      console.error('Failed to read persistent cache:', error);
+      return null;
+    }
+  }
+
+  private remember(entry: CacheEntry<any>) {
+    this.forget(entry.key);
+    this.memory.set(entry.key, entry);
+    this.memoryBytes += entry.size;
+    this.evictFromMemory();
+  }
+
+  private forget(key: string) {
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memoryBytes -= existing.size;
+      this.memory.delete(key);
+    }
   }
 
   /**
-   * Remove specific entry from cache
+   * Evict least recently used entries once over the entry or size limit
+   * (they stay in IndexedDB, so this only costs a slower next read)
    */
-  delete(query: string, userRole?: string): boolean {
-    const key = this.generateKey(query, userRole);
-    return this.cache.delete(key);
+  private evictFromMemory() {
+    this.removeExpiredFromMemory();
+
+    while (this.memory.size > MAX_MEMORY_ENTRIES || (this.memoryBytes > MAX_MEMORY_BYTES && this.memory.size > 1)) {
+      const oldestKey = this.memory.keys().next().value as string;
+      this.forget(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  private removeExpiredFromMemory() {
+    const now = Date.now();
+    Array.from(this.memory.values())
+      .filter((entry) => !isUsable(entry, now))
+      .forEach((entry) => this.forget(entry.key));
   }
 }
 
 // Export singleton instance
-export const cacheService = new CacheService();
\ No newline at end of file
+export const cacheService = new CacheService();
@@ -0,0 +1,223 @@
+/**
+ * Citation Service
+ * Formats web sources as APA, MLA, Harvard and Chicago references and keeps
+ * a bibliography that accumulates across searches
+ */
+
+import type { SearchResult } from '../store/slices/searchSlice';
+
+export type CitationStyle = 'apa' | 'mla' | 'harvard' | 'chicago';
+
+export interface CitationSource {
+  title: string;
+  url: string;
+  datePublished?: string;
+}
+
+export const CITATION_STYLES: Array<{ style: CitationStyle; label: string }> = [
+  { style: 'apa', label: 'APA' },
+  { style: 'mla', label: 'MLA' },
+  { style: 'harvard', label: 'Harvard' },
+  { style: 'chicago', label: 'Chicago' },
+];
+
+const BIBLIOGRAPHY_KEY = 'bibliography';
+const STYLE_KEY = 'citationStyle';
+
+// Citation styles are English conventions, so dates are never localized
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+class CitationService {
+  private bibliography: CitationSource[] = [];
+  private preferredStyle: CitationStyle = 'apa';
+  private listeners: Array<(bibliography: CitationSource[]) => void> = [];
+
+  constructor() {
+    try {
+      const saved = localStorage.getItem(BIBLIOGRAPHY_KEY);
+      if (saved) {
+        this.bibliography = JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Failed to load bibliography:', error);
+    }
+
+    const savedStyle = localStorage.getItem(STYLE_KEY) as CitationStyle;
+    if (savedStyle && CITATION_STYLES.some((s) => s.style === savedStyle)) {
+      this.preferredStyle = savedStyle;
+    }
+  }
+
+  /**
+   * Build a citation source from a search result
+   */
+  fromSearchResult(result: SearchResult): CitationSource {
+    return { title: result.title, url: result.url, datePublished: result.datePublished };
+  }
+
+  /**
+   * Build a citation source from a bare URL, such as an instant-answer source,
+   * using the matching search result when there is one
+   */
+  fromUrl(url: string, results: SearchResult[] = []): CitationSource {
+    const match = results.find((result) => result.url === url);
+    if (match) {
+      return this.fromSearchResult(match);
+    }
+
+    return { title: this.getTitleFromUrl(url), url };
+  }
+
+  /**
+   * Format a source in the given style
+   */
+  format(source: CitationSource, style: CitationStyle, accessed: Date = new Date()): string {
+    const title = source.title.trim().replace(/[.\s]+$/, '');
+    const site = this.getSiteName(source.url);
+    const published = this.parseDate(source.datePublished);
+
+    switch (style) {
+      case 'apa': {
+        const date = published
+          ? `${published.getFullYear()}, ${MONTHS[published.getMonth()]} ${published.getDate()}`
+          : 'n.d.';
+        const retrieved = published ? '' : `Retrieved ${this.formatLongDate(accessed)}, from `;
+        return `${title}. (${date}). ${site}. ${retrieved}${source.url}`;
+      }
+      case 'mla': {
+        const date = published ? ` ${this.formatMlaDate(published)},` : '';
+        const url = source.url.replace(/^https?:\/\//, '');
+        return `"${title}." ${site},${date} ${url}. Accessed ${this.formatMlaDate(accessed)}.`;
+      }
+      case 'harvard': {
+        const year = published ? published.getFullYear() : 'no date';
+        const accessedOn = `${accessed.getDate()} ${MONTHS[accessed.getMonth()]} ${accessed.getFullYear()}`;
+        return `${site} (${year}) ${title}. Available at: ${source.url} (Accessed: ${accessedOn}).`;
+      }
+      case 'chicago': {
+        const date = published
+          ? `Published ${this.formatLongDate(published)}`
+          : `Accessed ${this.formatLongDate(accessed)}`;
+        return `${site}. "${title}." ${date}. ${source.url}.`;
+      }
+    }
+  }
+
+  getPreferredStyle(): CitationStyle {
+    return this.preferredStyle;
+  }
+
+  setPreferredStyle(style: CitationStyle) {
+    this.preferredStyle = style;
+    localStorage.setItem(STYLE_KEY, style);
+    this.notifyListeners();
+  }
+
+  getBibliography(): CitationSource[] {
+    return this.bibliography;
+  }
+
+  isInBibliography(url: string): boolean {
+    return this.bibliography.some((source) => source.url === url);
+  }
+
+  addToBibliography(source: CitationSource) {
+    if (this.isInBibliography(source.url)) return;
+
+    this.bibliography = [...this.bibliography, source];
+    this.saveBibliography();
+  }
+
+  removeFromBibliography(url: string) {
+    this.bibliography = this.bibliography.filter((source) => source.url !== url);
+    this.saveBibliography();
+  }
+
+  clearBibliography() {
+    this.bibliography = [];
+    this.saveBibliography();
+  }
+
+  /**
+   * Format the bibliography in the given style, sorted alphabetically as all four styles expect
+   */
+  formatBibliography(style: CitationStyle): Array<{ source: CitationSource; citation: string }> {
+    const sortKey = (citation: string) => citation.replace(/^"/, '');
+    return this.bibliography
+      .map((source) => ({ source, citation: this.format(source, style) }))
+      .sort((a, b) => sortKey(a.citation).localeCompare(sortKey(b.citation)));
+  }
+
+  /**
+   * Copy citation text to the clipboard
+   */
+  async copyToClipboard(text: string): Promise<boolean> {
+    try {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch (error) {
+      console.error('Failed to copy citation:', error);
+      return false;
+    }
+  }
+
+  subscribe(callback: (bibliography: CitationSource[]) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach((callback) => callback(this.bibliography));
+  }
+
+  private saveBibliography() {
+    localStorage.setItem(BIBLIOGRAPHY_KEY, JSON.stringify(this.bibliography));
+    this.notifyListeners();
+  }
+
+  private parseDate(value?: string): Date | null {
+    if (!value) return null;
+
+    // Some providers report relative ages ("3 days ago"), which can't be cited
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private formatLongDate(date: Date): string {
+    return `${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
+  }
+
+  private formatMlaDate(date: Date): string {
+    return `${date.getDate()} ${MLA_MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+  }
+
+  private getSiteName(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return url;
+    }
+  }
+
+  private getTitleFromUrl(url: string): string {
+    try {
+      const segments = new URL(url).pathname.split('/').filter(Boolean);
+      const last = segments[segments.length - 1];
+      if (last) {
+        return decodeURIComponent(last)
+          .replace(/\.[a-z0-9]+$/i, '')
+          .replace(/[-_]+/g, ' ')
+          .trim();
+      }
+    } catch {
+      // Fall through to the site name
+    }
+    return this.getSiteName(url);
+  }
+}
+
+export const citationService = new CitationService();
+export default citationService;
@@ -0,0 +1,67 @@
+import type { SearchResult } from '../store/slices/searchSlice';
+import exportService from './exportService';
+import i18nService from './i18nService';
+
+const env = {
+  BACKEND_URL: 'https://search-api.horizon.sa.edu.au',
+  AZURE_CLIENT_ID: '00000000-0000-0000-0000-000000000000',
+  AZURE_AUTHORITY: 'https://login.microsoftonline.com/horizon',
+  ENVIRONMENT: 'production',
+};
+
+const result = (title: string): SearchResult => ({
+  id: 'web-1',
+  title,
+  description: 'Molten rock that reaches the surface.',
+  url: 'https://example.org/volcano',
+  category: 'Educational',
+  relevance: 0.9,
+});
+
+const options = { includeCitations: true, citationStyle: 'apa' as const };
+
+describe('PDF export', () => {
+  let printWindow: { document: { write: jest.Mock; close: jest.Mock }; focus: jest.Mock; print: jest.Mock; close: jest.Mock };
+
+  beforeEach(() => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve({ ok: true, status: 200, text: () => Promise.resolve(JSON.stringify(env)) })
+    ) as jest.Mock;
+    printWindow = { document: { write: jest.fn(), close: jest.fn() }, focus: jest.fn(), print: jest.fn(), close: jest.fn() };
+    window.open = jest.fn(() => printWindow as unknown as Window);
+    URL.createObjectURL = jest.fn(() => 'blob:export');
+    URL.revokeObjectURL = jest.fn();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    i18nService.setLanguage('en');
+    jest.restoreAllMocks();
+  });
+
+  test('downloads a PDF file when every label and result is Latin-1', async () => {
+    const document = exportService.fromSearch('volcanoes', [result('Volcanoes – how they form')]);
+
+    await expect(exportService.export(document, 'pdf', options)).resolves.toBe(true);
+    expect(URL.createObjectURL).toHaveBeenCalledTimes(1);
+    expect(window.open).not.toHaveBeenCalled();
+  });
+
+  test.each(['zh', 'ar'] as const)('an export in %s goes through the print dialog rather than losing its labels', async (language) => {
+    i18nService.setLanguage(language);
+    const document = exportService.fromSearch('volcanoes', [result('Volcanoes')]);
+
+    await expect(exportService.export(document, 'pdf', options)).resolves.toBe(true);
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+    expect(printWindow.document.write).toHaveBeenCalledWith(expect.stringContaining(i18nService.t('export.references')));
+  });
+
+  test('results in another script go through the print dialog too', async () => {
+    const document = exportService.fromSearch('火山', [result('火山是如何形成的')]);
+
+    await expect(exportService.export(document, 'pdf', options)).resolves.toBe(true);
+    expect(URL.createObjectURL).not.toHaveBeenCalled();
+    expect(printWindow.document.write).toHaveBeenCalledWith(expect.stringContaining('火山是如何形成的'));
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Export Service
+ * Turns search results, bookmark folders and chat sessions into downloadable
+ * PDF, HTML, text or JSON documents, with optional formatted citations
+ */
+
+import { getConfig } from '../config/app-config';
+import type { SearchResult } from '../store/slices/searchSlice';
+import type { AIInstantAnswer } from './webSearchService';
+import type { Bookmark, ChatSession } from './backendService';
+import citationService, { type CitationSource, type CitationStyle } from './citationService';
+import i18nService from './i18nService';
+import { PdfBuilder, isPdfSafeText } from '../utils/pdfGenerator';
+
+export type ExportFormat = 'pdf' | 'html' | 'text' | 'json' | 'print';
+
+export interface ExportSection {
+  heading: string;
+  body: string;
+  url?: string;
+  meta?: string;
+}
+
+export interface ExportDocument {
+  kind: 'search' | 'bookmarks' | 'chat';
+  title: string;
+  subtitle?: string;
+  sections: ExportSection[];
+  sources: CitationSource[];
+}
+
+export interface ExportOptions {
+  includeCitations: boolean;
+  citationStyle: CitationStyle;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s)\]>"']+/g;
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+class ExportService {
+  /**
+   * Build an export document from the current search
+   */
+  fromSearch(query: string, results: SearchResult[], aiAnswer?: AIInstantAnswer | null): ExportDocument {
+    const t = i18nService.t;
+    const sections: ExportSection[] = [];
+
+    if (aiAnswer?.answer) {
+      sections.push({ heading: t('export.aiAnswer'), body: aiAnswer.answer });
+    }
+
+    results.forEach((result, index) => {
+      sections.push({
+        heading: `${index + 1}. ${result.title}`,
+        body: result.description,
+        url: result.url,
+        meta: result.category,
+      });
+    });
+
+    const sources = results.map((result) => citationService.fromSearchResult(result));
+    (aiAnswer?.sources || []).forEach((url) => sources.push(citationService.fromUrl(url, results)));
+
+    return {
+      kind: 'search',
+      title: query,
+      subtitle: t('export.resultCount', { count: results.length }),
+      sections,
+      sources: this.uniqueSources(sources),
+    };
+  }
+
+  /**
+   * Build an export document from the bookmarks in a folder
+   */
+  fromBookmarks(folder: string, bookmarks: Bookmark[]): ExportDocument {
+    const t = i18nService.t;
+    const sources: CitationSource[] = [];
+
+    const sections = bookmarks.map((bookmark) => {
+      const topResults = bookmark.resultSnapshot?.topResults || [];
+      topResults.forEach((result) => sources.push({ title: result.title, url: result.url }));
+
+      const body = [
+        bookmark.notes,
+        bookmark.resultSnapshot?.aiAnswer,
+        ...topResults.map((result) => `- ${result.title} (${result.url})`),
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+
+      return {
+        heading: bookmark.title,
+        body,
+        meta: [t('export.query', { query: bookmark.query }), bookmark.category, ...bookmark.tags].join(' · '),
+      };
+    });
+
+    return {
+      kind: 'bookmarks',
+      title: t('export.bookmarkFolderTitle', { folder }),
+      subtitle: t('export.bookmarkCount', { count: bookmarks.length }),
+      sections,
+      sources: this.uniqueSources(sources),
+    };
+  }
+
+  /**
+   * Build an export document from a full chat session transcript
+   */
+  fromChatSession(session: ChatSession): ExportDocument {
+    const t = i18nService.t;
+    const messages = session.messages.filter((message) => message.role !== 'system');
+
+    const sections = messages.map((message) => ({
+      heading: message.role === 'user' ? t('export.you') : t('export.assistant'),
+      body: message.content,
+      meta: new Date(message.timestamp).toLocaleString(),
+    }));
+
+    const sources = messages.flatMap((message) =>
+      (message.content.match(URL_PATTERN) || []).map((url) => citationService.fromUrl(url))
+    );
+
+    return {
+      kind: 'chat',
+      title: session.title,
+      subtitle: t('export.messageCount', {
+        count: messages.length,
+        date: new Date(session.createdAt).toLocaleDateString(),
+      }),
+      sections,
+      sources: this.uniqueSources(sources),
+    };
+  }
+
+  /**
+   * Export a document in the requested format
+   */
+  async export(document: ExportDocument, format: ExportFormat, options: ExportOptions): Promise<boolean> {
+    try {
+      const config = await getConfig();
+      const schoolName = config.app.schoolName;
+      const citations = options.includeCitations
+        ? document.sources.map((source) => citationService.format(source, options.citationStyle))
+        : [];
+
+      switch (format) {
+        case 'pdf':
+          // The PDF fonts only cover Latin-1, so Chinese, Arabic and the like go through the
+          // print dialog, which saves a PDF in any script
+          if (!this.fitsPdfFonts(document, citations, schoolName)) {
+            console.log('📄 Text outside Latin-1 - exporting the PDF through the print dialog');
+            return this.print(this.toHtml(document, citations, schoolName));
+          }
+          this.downloadBlob(this.toPdf(document, citations, schoolName), this.getFileName(document, 'pdf'));
+          break;
+        case 'html':
+          this.downloadBlob(
+            new Blob([this.toHtml(document, citations, schoolName)], { type: 'text/html' }),
+            this.getFileName(document, 'html')
+          );
+          break;
+        case 'text':
+          this.downloadBlob(
+            new Blob([this.toText(document, citations, schoolName)], { type: 'text/plain' }),
+            this.getFileName(document, 'txt')
+          );
+          break;
+        case 'json':
+          this.downloadBlob(
+            new Blob([this.toJson(document, citations, schoolName)], { type: 'application/json' }),
+            this.getFileName(document, 'json')
+          );
+          break;
+        case 'print':
+          return this.print(this.toHtml(document, citations, schoolName));
+      }
+
+      console.log(`📄 Exported ${document.kind} as ${format}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to export document:', error);
+      return false;
+    }
+  }
+
+  private toPdf(document: ExportDocument, citations: string[], schoolName: string): Blob {
+    const t = i18nService.t;
+    const pdf = new PdfBuilder({
+      title: document.title,
+      header: schoolName,
+      subheader: t('export.exportedOn', { date: new Date().toLocaleString() }),
+      footer: `${schoolName} - ${document.title}`,
+    });
+
+    pdf.heading(document.title);
+    if (document.subtitle) {
+      pdf.paragraph(document.subtitle, { size: 9.5, color: '#6b7280' });
+    }
+    pdf.rule('#FFC72C');
+
+    document.sections.forEach((section) => {
+      pdf.heading(section.heading, 2);
+      if (section.meta) pdf.paragraph(section.meta, { size: 8.5, font: 'italic', color: '#6b7280', spaceAfter: 4 });
+      if (section.url) pdf.link(section.url, section.url, { size: 9 });
+      if (section.body) pdf.paragraph(section.body);
+    });
+
+    if (citations.length > 0) {
+      pdf.rule('#FFC72C');
+      pdf.heading(t('export.references'));
+      citations.forEach((citation, index) => {
+        pdf.link(citation, document.sources[index].url, { size: 9.5, color: '#1f2937', indent: 12, spaceAfter: 6 });
+      });
+    }
+
+    return pdf.toBlob();
+  }
+
+  // Every piece of text toPdf draws
+  private fitsPdfFonts(document: ExportDocument, citations: string[], schoolName: string): boolean {
+    const t = i18nService.t;
+    return [
+      schoolName,
+      t('export.exportedOn', { date: new Date().toLocaleString() }),
+      t('export.references'),
+      document.title,
+      document.subtitle || '',
+      ...document.sections.flatMap((section) => [section.heading, section.body, section.meta || '', section.url || '']),
+      ...citations,
+    ].every(isPdfSafeText);
+  }
+
+  private toHtml(document: ExportDocument, citations: string[], schoolName: string): string {
+    const t = i18nService.t;
+    const sections = document.sections
+      .map(
+        (section) => `
+    <section class="section">
+      <h2>${escapeHtml(section.heading)}</h2>
+      ${section.meta ? `<div class="meta">${escapeHtml(section.meta)}</div>` : ''}
+      ${section.url ? `<a class="url" href="${escapeHtml(section.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(section.url)}</a>` : ''}
+      ${section.body ? `<p>${escapeHtml(section.body).replace(/\n/g, '<br>')}</p>` : ''}
+    </section>`
+      )
+      .join('');
+
+    const references = citations.length
+      ? `
+    <section class="references">
+      <h2>${escapeHtml(t('export.references'))}</h2>
+      <ol>${citations.map((citation) => `<li>${escapeHtml(citation)}</li>`).join('')}</ol>
+    </section>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="${i18nService.getLanguage()}" dir="${i18nService.isRTL() ? 'rtl' : 'ltr'}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(document.title)} - ${escapeHtml(schoolName)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 900px; margin: 0 auto; padding: 0 20px 40px; line-height: 1.6; color: #1f2937; }
+    .brand { background: #115740; color: white; padding: 16px 20px; border-bottom: 4px solid #FFC72C; margin: 0 -20px 24px; }
+    .brand strong { font-size: 20px; display: block; }
+    .brand span { font-size: 13px; opacity: 0.85; }
+    h1 { color: #115740; margin-bottom: 4px; }
+    h2 { color: #115740; font-size: 17px; margin-bottom: 4px; }
+    .subtitle, .meta { color: #6b7280; font-size: 13px; }
+    .url { color: #22a06b; font-size: 13px; word-break: break-all; }
+    .section { padding: 12px 0; border-bottom: 1px solid #e5e7eb; page-break-inside: avoid; }
+    .references li { margin-bottom: 8px; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <header class="brand">
+    <strong>${escapeHtml(schoolName)}</strong>
+    <span>${escapeHtml(t('export.exportedOn', { date: new Date().toLocaleString() }))}</span>
+  </header>
+  <h1>${escapeHtml(document.title)}</h1>
+  ${document.subtitle ? `<div class="subtitle">${escapeHtml(document.subtitle)}</div>` : ''}
+  ${sections}
+  ${references}
+</body>
+</html>
+`;
+  }
+
+  private toText(document: ExportDocument, citations: string[], schoolName: string): string {
+    const t = i18nService.t;
+    const divider = `\n${'='.repeat(60)}\n\n`;
+    let text = `${schoolName}\n${document.title}\n`;
+    if (document.subtitle) text += `${document.subtitle}\n`;
+    text += `${t('export.exportedOn', { date: new Date().toLocaleString() })}\n`;
+    text += divider;
+
+    document.sections.forEach((section) => {
+      text += `${section.heading}\n`;
+      if (section.meta) text += `${section.meta}\n`;
+      if (section.url) text += `${section.url}\n`;
+      if (section.body) text += `\n${section.body}\n`;
+      text += '\n';
+    });
+
+    if (citations.length > 0) {
+      text += divider;
+      text += `${t('export.references')}\n\n`;
+      citations.forEach((citation, index) => {
+        text += `${index + 1}. ${citation}\n`;
+      });
+    }
+
+    return text;
+  }
+
+  private toJson(document: ExportDocument, citations: string[], schoolName: string): string {
+    return JSON.stringify(
+      {
+        school: schoolName,
+        exportDate: new Date().toISOString(),
+        ...document,
+        ...(citations.length > 0 ? { citations } : {}),
+      },
+      null,
+      2
+    );
+  }
+
+  private print(html: string): boolean {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 250);
+
+    return true;
+  }
+
+  private downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  private getFileName(document: ExportDocument, extension: string): string {
+    const slug = document.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 50);
+    return `${document.kind}-${slug || 'export'}-${Date.now()}.${extension}`;
+  }
+
+  private uniqueSources(sources: CitationSource[]): CitationSource[] {
+    const seen = new Set<string>();
+    return sources.filter((source) => {
+      if (!source.url || seen.has(source.url)) return false;
+      seen.add(source.url);
+      return true;
+    });
+  }
+}
+
+export const exportService = new ExportService();
+export default exportService;
@@ -0,0 +1,67 @@
+import { translations, type Translation } from '../locales';
+import i18nService from './i18nService';
+
+const flattenKeys = (table: Translation, prefix = ''): string[] =>
+  Object.entries(table).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return typeof value === 'string' ? [path] : flattenKeys(value, path);
+  });
+
+const lookup = (table: Translation, key: string): string | Translation | undefined =>
+  key.split('.').reduce<string | Translation | undefined>(
+    (node, part) => (node && typeof node === 'object' ? node[part] : undefined),
+    table
+  );
+
+const placeholders = (text: string) => (text.match(/\{\{\s*\w+\s*\}\}/g) || []).sort();
+
+const englishKeys = flattenKeys(translations.en).sort();
+const otherLocales = Object.entries(translations).filter(([lang]) => lang !== 'en');
+
+describe('i18n translation tables', () => {
+  test.each(otherLocales)('%s defines every English key', (_, table) => {
+    const missing = englishKeys.filter((key) => typeof lookup(table, key) !== 'string');
+    expect(missing).toEqual([]);
+  });
+
+  test.each(otherLocales)('%s has no keys that English lacks', (_, table) => {
+    const extra = flattenKeys(table).filter((key) => !englishKeys.includes(key));
+    expect(extra).toEqual([]);
+  });
+
+  test.each(Object.entries(translations))('%s has no empty strings', (_, table) => {
+    const empty = flattenKeys(table).filter((key) => !(lookup(table, key) as string).trim());
+    expect(empty).toEqual([]);
+  });
+
+  test.each(otherLocales)('%s keeps the English placeholders', (_, table) => {
+    const mismatched = englishKeys.filter((key) => {
+      const translated = lookup(table, key);
+      return (
+        typeof translated === 'string' &&
+        placeholders(translated).join() !== placeholders(lookup(translations.en, key) as string).join()
+      );
+    });
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('i18nService.translate', () => {
+  afterEach(() => {
+    i18nService.setLanguage('en');
+  });
+
+  test('interpolates parameters', () => {
+    i18nService.setLanguage('en');
+    expect(i18nService.t('search.welcomeBack', { name: 'Sam' })).toBe('Welcome back, Sam!');
+  });
+
+  test('returns the key when it does not exist', () => {
+    expect(i18nService.t('missing.key')).toBe('missing.key');
+  });
+
+  test('switches tables with the language', () => {
+    i18nService.setLanguage('es');
+    expect(i18nService.t('common.search')).toBe(lookup(translations.es, 'common.search'));
+  });
+});
@@ -3,282 +3,9 @@
  * Provides multilingual support for the application
  */
 
-export type SupportedLanguage = 'en' | 'es' | 'fr' | 'de' | 'zh' | 'ar';
+import { translations, type SupportedLanguage, type Translation } from '../locales';
 
-interface Translation {
-  [key: string]: string | Translation;
-}
-
-interface Translations {
-  [lang: string]: Translation;
-}
-
-const translations: Translations = {
-  en: {
-    common: {
-      search: 'Search',
-      loading: 'Loading...',
-      error: 'Error',
-      retry: 'Retry',
-      cancel: 'Cancel',
-      save: 'Save',
-      delete: 'Delete',
-      edit: 'Edit',
-      close: 'Close',
-      yes: 'Yes',
-      no: 'No',
-    },
-    search: {
-      placeholder: 'Search for educational content...',
-      voiceSearch: 'Voice Search',
-      advancedFilters: 'Advanced Filters',
-      results: 'results',
-      noResults: 'No results found',
-      aiAnswer: 'AI Answer',
-      webResults: 'Web Results',
-      export: 'Export Results',
-      bookmark: 'Bookmark',
-    },
-    filters: {
-      dateRange: 'Date Range',
-      contentType: 'Content Type',
-      sources: 'Sources',
-      category: 'Category',
-      all: 'All',
-      educational: 'Educational',
-      news: 'News',
-      reference: 'Reference',
-    },
-    auth: {
-      signIn: 'Sign In',
-      signOut: 'Sign Out',
-      welcome: 'Welcome',
-      student: 'Student',
-      staff: 'Staff',
-      guest: 'Guest',
-    },
-  },
-  es: {
-    common: {
-      search: 'Buscar',
-      loading: 'Cargando...',
-      error: 'Error',
-      retry: 'Reintentar',
-      cancel: 'Cancelar',
-      save: 'Guardar',
-      delete: 'Eliminar',
-      edit: 'Editar',
-      close: 'Cerrar',
-      yes: 'Sí',
-      no: 'No',
-    },
-    search: {
-      placeholder: 'Buscar contenido educativo...',
-      voiceSearch: 'Búsqueda por Voz',
-      advancedFilters: 'Filtros Avanzados',
-      results: 'resultados',
-      noResults: 'No se encontraron resultados',
-      aiAnswer: 'Respuesta IA',
-      webResults: 'Resultados Web',
-      export: 'Exportar Resultados',
-      bookmark: 'Marcar',
-    },
-    filters: {
-      dateRange: 'Rango de Fechas',
-      contentType: 'Tipo de Contenido',
-      sources: 'Fuentes',
-      category: 'Categoría',
-      all: 'Todos',
-      educational: 'Educativo',
-      news: 'Noticias',
-      reference: 'Referencia',
-    },
-    auth: {
-      signIn: 'Iniciar Sesión',
-      signOut: 'Cerrar Sesión',
-      welcome: 'Bienvenido',
-      student: 'Estudiante',
-      staff: 'Personal',
-      guest: 'Invitado',
-    },
-  },
-  fr: {
-    common: {
-      search: 'Rechercher',
-      loading: 'Chargement...',
-      error: 'Erreur',
-      retry: 'Réessayer',
-      cancel: 'Annuler',
-      save: 'Enregistrer',
-      delete: 'Supprimer',
-      edit: 'Modifier',
-      close: 'Fermer',
-      yes: 'Oui',
-      no: 'Non',
-    },
-    search: {
-      placeholder: 'Rechercher du contenu éducatif...',
-      voiceSearch: 'Recherche Vocale',
-      advancedFilters: 'Filtres Avancés',
-      results: 'résultats',
-      noResults: 'Aucun résultat trouvé',
-      aiAnswer: 'Réponse IA',
-      webResults: 'Résultats Web',
-      export: 'Exporter les Résultats',
-      bookmark: 'Marquer',
-    },
-    filters: {
-      dateRange: 'Plage de Dates',
-      contentType: 'Type de Contenu',
-      sources: 'Sources',
-      category: 'Catégorie',
-      all: 'Tous',
-      educational: 'Éducatif',
-      news: 'Actualités',
-      reference: 'Référence',
-    },
-    auth: {
-      signIn: 'Se Connecter',
-      signOut: 'Se Déconnecter',
-      welcome: 'Bienvenue',
-      student: 'Étudiant',
-      staff: 'Personnel',
-      guest: 'Invité',
-    },
-  },
-  de: {
-    common: {
-      search: 'Suchen',
-      loading: 'Laden...',
-      error: 'Fehler',
-      retry: 'Wiederholen',
-      cancel: 'Abbrechen',
-      save: 'Speichern',
-      delete: 'Löschen',
-      edit: 'Bearbeiten',
-      close: 'Schließen',
-      yes: 'Ja',
-      no: 'Nein',
-    },
-    search: {
-      placeholder: 'Suche nach Bildungsinhalten...',
-      voiceSearch: 'Sprachsuche',
-      advancedFilters: 'Erweiterte Filter',
-      results: 'Ergebnisse',
-      noResults: 'Keine Ergebnisse gefunden',
-      aiAnswer: 'KI-Antwort',
-      webResults: 'Web-Ergebnisse',
-      export: 'Ergebnisse Exportieren',
-      bookmark: 'Lesezeichen',
-    },
-    filters: {
-      dateRange: 'Datumsbereich',
-      contentType: 'Inhaltstyp',
-      sources: 'Quellen',
-      category: 'Kategorie',
-      all: 'Alle',
-      educational: 'Bildung',
-      news: 'Nachrichten',
-      reference: 'Referenz',
-    },
-    auth: {
-      signIn: 'Anmelden',
-      signOut: 'Abmelden',
-      welcome: 'Willkommen',
-      student: 'Student',
-      staff: 'Personal',
-      guest: 'Gast',
-    },
-  },
-  zh: {
-    common: {
-      search: '搜索',
-      loading: '加载中...',
-      error: '错误',
-      retry: '重试',
-      cancel: '取消',
-      save: '保存',
-      delete: '删除',
-      edit: '编辑',
-      close: '关闭',
-      yes: '是',
-      no: '否',
-    },
-    search: {
-      placeholder: '搜索教育内容...',
-      voiceSearch: '语音搜索',
-      advancedFilters: '高级筛选',
-      results: '结果',
-      noResults: '未找到结果',
-      aiAnswer: 'AI 回答',
-      webResults: '网络结果',
-      export: '导出结果',
-      bookmark: '书签',
-    },
-    filters: {
-      dateRange: '日期范围',
-      contentType: '内容类型',
-      sources: '来源',
-      category: '类别',
-      all: '全部',
-      educational: '教育',
-      news: '新闻',
-      reference: '参考',
-    },
-    auth: {
-      signIn: '登录',
-      signOut: '退出',
-      welcome: '欢迎',
-      student: '学生',
-      staff: '员工',
-      guest: '访客',
-    },
-  },
-  ar: {
-    common: {
-      search: 'بحث',
-      loading: 'جاري التحميل...',
-      error: 'خطأ',
-      retry: 'إعادة المحاولة',
-      cancel: 'إلغاء',
-      save: 'حفظ',
-      delete: 'حذف',
-      edit: 'تعديل',
-      close: 'إغلاق',
-      yes: 'نعم',
-      no: 'لا',
-    },
-    search: {
-      placeholder: 'البحث عن محتوى تعليمي...',
-      voiceSearch: 'البحث الصوتي',
-      advancedFilters: 'فلاتر متقدمة',
-      results: 'نتائج',
-      noResults: 'لم يتم العثور على نتائج',
-      aiAnswer: 'إجابة الذكاء الاصطناعي',
-      webResults: 'نتائج الويب',
-      export: 'تصدير النتائج',
-      bookmark: 'إضافة إلى المفضلة',
-    },
-    filters: {
-      dateRange: 'نطاق التاريخ',
-      contentType: 'نوع المحتوى',
-      sources: 'المصادر',
-      category: 'الفئة',
-      all: 'الكل',
-      educational: 'تعليمي',
-      news: 'أخبار',
-      reference: 'مرجع',
-    },
-    auth: {
-      signIn: 'تسجيل الدخول',
-      signOut: 'تسجيل الخروج',
-      welcome: 'مرحباً',
-      student: 'طالب',
-      staff: 'موظف',
-      guest: 'ضيف',
-    },
-  },
-};
+export type { SupportedLanguage };
 
 class I18nService {
   private currentLang: SupportedLanguage = 'en';
@@ -286,14 +13,18 @@ class I18nService {
 
   constructor() {
     // Get saved language or browser language
-    const saved = localStorage.getItem('language') as SupportedLanguage;
-    const browserLang = navigator.language.split('-')[0] as SupportedLanguage;
+    const saved = localStorage.getItem('language');
+    const browserLang = navigator.language.split('-')[0];
 
-    this.currentLang = saved || (this.isSupported(browserLang) ? browserLang : 'en');
+    if (saved && this.isSupported(saved)) {
+      this.currentLang = saved;
+    } else if (this.isSupported(browserLang)) {
+      this.currentLang = browserLang;
+    }
     this.applyDirection();
   }
 
-  private isSupported(lang: string): lang is SupportedLanguage {
+  isSupported(lang: string): lang is SupportedLanguage {
     return ['en', 'es', 'fr', 'de', 'zh', 'ar'].includes(lang);
   }
 
@@ -315,19 +46,48 @@ class I18nService {
     return this.currentLang;
   }
 
-  translate(key: string): string {
-    const keys = key.split('.');
-    let value: any = translations[this.currentLang];
+  // BCP 47 locale for the Web Speech APIs (recognition and synthesis)
+  getSpeechLocale(): string {
+    const speechLocales: Record<SupportedLanguage, string> = {
+      en: 'en-US',
+      es: 'es-ES',
+      fr: 'fr-FR',
+      de: 'de-DE',
+      zh: 'zh-CN',
+      ar: 'ar-SA',
+    };
+    return speechLocales[this.currentLang];
+  }
+
+  translate(key: string, params?: Record<string, string | number>): string {
+    // Fall back to English so a missing translation never shows a raw key
+    const value = this.lookup(translations[this.currentLang], key) ?? this.lookup(translations.en, key);
+    if (value === undefined) {
+      return key; // Return key if translation not found
+    }
+
+    if (!params) {
+      return value;
+    }
+
+    // Replace {{name}} placeholders with the supplied values
+    return value.replace(/\{\{(\w+)\}\}/g, (match, name) =>
+      params[name] !== undefined ? String(params[name]) : match
+    );
+  }
+
+  private lookup(table: Translation, key: string): string | undefined {
+    let value: string | Translation | undefined = table;
 
-    for (const k of keys) {
+    for (const k of key.split('.')) {
       if (value && typeof value === 'object') {
         value = value[k];
       } else {
-        return key; // Return key if translation not found
+        return undefined;
       }
     }
 
-    return typeof value === 'string' ? value : key;
+    return typeof value === 'string' ? value : undefined;
   }
 
   t = this.translate.bind(this);
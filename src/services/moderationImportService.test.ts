@@ -0,0 +1,121 @@
+import type { ModerationRule } from './backendService';
+import { moderationImportService } from './moderationImportService';
+
+const existing: ModerationRule[] = [
+  { _id: '1', ruleType: 'domain', action: 'block', value: 'blocked.example.com', isActive: true },
+  { _id: '2', ruleType: 'keyword', action: 'flag', value: 'Gambling', isActive: true, hitCount: 4, source: 'sub-1' },
+];
+
+describe('moderation rule import', () => {
+  test('reads CSV with quoted cells and columns in any order', () => {
+    const csv = [
+      'Value,ACTION,ruleType,reason,severity,isActive',
+      'games.example.org,block,domain,"Games, not homework",high,yes',
+      '"say ""hello""",flag,keyword,,,0',
+    ].join('\r\n');
+
+    const preview = moderationImportService.preview(csv, 'rules.csv', []);
+
+    expect(preview.invalid).toBe(0);
+    expect(preview.rules).toEqual([
+      { ruleType: 'domain', action: 'block', value: 'games.example.org', severity: 'high', caseSensitive: false, isActive: true, reason: 'Games, not homework' },
+      { ruleType: 'keyword', action: 'flag', value: 'say "hello"', severity: 'medium', caseSensitive: false, isActive: false },
+    ]);
+  });
+
+  test('reads a JSON list or an export', () => {
+    const rule = { ruleType: 'url', action: 'allow', value: 'https://example.org/safe', isActive: true };
+
+    expect(moderationImportService.preview(JSON.stringify([rule]), 'rules.json', []).rules).toHaveLength(1);
+    expect(moderationImportService.preview(JSON.stringify({ rules: [rule] }), 'rules.json', []).rules).toHaveLength(1);
+  });
+
+  test('reports every issue on an invalid row', () => {
+    const json = JSON.stringify([
+      { ruleType: 'website', action: 'block', value: 'x' },
+      { ruleType: 'pattern', action: 'block', pattern: '(unclosed' },
+      { ruleType: 'domain', action: 'remove', value: 'not a domain', severity: 'extreme', isActive: 'maybe' },
+      { action: 'block' },
+    ]);
+
+    const preview = moderationImportService.preview(json, 'rules.json', []);
+
+    expect(preview.invalid).toBe(4);
+    expect(preview.rows.map((row) => row.issues.map((issue) => `${issue.field}:${issue.kind}`))).toEqual([
+      ['ruleType:invalidValue'],
+      ['pattern:invalidPattern'],
+      ['action:invalidValue', 'severity:invalidValue', 'isActive:invalidValue', 'value:invalidValue'],
+      ['ruleType:missing', 'value:missing'],
+    ]);
+  });
+
+  test('skips rules that already exist or appear earlier in the file', () => {
+    const csv = [
+      'ruleType,action,value',
+      'domain,block,www.Blocked.example.com',
+      'keyword,flag,gambling',
+      'keyword,block,gambling',
+      'domain,flag,new.example.com',
+      'domain,flag,new.example.com',
+    ].join('\n');
+
+    const preview = moderationImportService.preview(csv, 'rules.csv', existing);
+
+    expect(preview.rows.map((row) => row.status)).toEqual(['duplicate', 'duplicate', 'new', 'new', 'duplicate']);
+    expect(preview.duplicates).toBe(3);
+    expect(preview.rules.map((rule) => `${rule.action}:${rule.value}`)).toEqual(['block:gambling', 'flag:new.example.com']);
+  });
+
+  test('reports files it cannot read', () => {
+    expect(moderationImportService.preview('{ not json', 'rules.json', []).fileError).toBe('unreadable');
+    expect(moderationImportService.preview('name,colour\nfoo,red', 'rules.csv', []).fileError).toBe('unreadable');
+    expect(moderationImportService.preview('\n\n', 'rules.csv', []).fileError).toBe('empty');
+  });
+
+  test.each(['csv', 'json'] as const)('a %s export imports back as the same rules', (format) => {
+    const rules: ModerationRule[] = [
+      ...existing,
+      { _id: '3', ruleType: 'pattern', action: 'block', value: 'bad', pattern: '\\bbad,\\s"word"', reason: 'Line one\nline two', severity: 'critical', caseSensitive: true, isActive: false },
+    ];
+
+    const preview = moderationImportService.preview(moderationImportService.serialize(rules, format), `export.${format}`, []);
+
+    expect(preview.invalid).toBe(0);
+    expect(preview.rules).toEqual([
+      { ruleType: 'domain', action: 'block', value: 'blocked.example.com', severity: 'medium', caseSensitive: false, isActive: true },
+      { ruleType: 'keyword', action: 'flag', value: 'Gambling', severity: 'medium', caseSensitive: false, isActive: true },
+      { ruleType: 'pattern', action: 'block', value: 'bad', pattern: '\\bbad,\\s"word"', reason: 'Line one\nline two', severity: 'critical', caseSensitive: true, isActive: false },
+    ]);
+  });
+});
+
+describe('blocklist parsing', () => {
+  test('reads hosts, Adblock and plain lists, skipping comments and local names', () => {
+    const blocklist = [
+      '# Title: Example list',
+      '! Adblock comment',
+      '[Adblock Plus 2.0]',
+      '127.0.0.1 localhost',
+      '0.0.0.0 0.0.0.0',
+      '0.0.0.0 ads.example.com # trackers',
+      '::1 ip6-localhost',
+      '||Tracker.Example.net^',
+      '||cdn.example.net^$third-party',
+      '@@||allowed.example.org^',
+      'example.org/path/ad.js',
+      'www.casino.example',
+      'casino.example',
+      'plain.example.io.',
+      'not_a_domain',
+      '',
+    ].join('\n');
+
+    expect(moderationImportService.parseBlocklist(blocklist)).toEqual([
+      'ads.example.com',
+      'tracker.example.net',
+      'cdn.example.net',
+      'casino.example',
+      'plain.example.io',
+    ]);
+  });
+});
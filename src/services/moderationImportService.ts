@@ -0,0 +1,339 @@
+// Moderation Import Service
+// Reads moderation rules from CSV or JSON files into a preview - each row checked
+// against ModerationRule and against the rules that already exist - exports the
+// current rule set in the same formats, and reads public blocklist files
+// (hosts, Adblock or one domain per line) into the domains a subscription syncs
+
+import type { ModerationRule, ModerationRuleInput } from './backendService';
+
+export type RuleFileFormat = 'csv' | 'json';
+
+export type RuleIssueKind = 'missing' | 'invalidValue' | 'invalidPattern';
+
+export interface RuleIssue {
+  field: keyof ModerationRuleInput;
+  kind: RuleIssueKind;
+  value?: string; // the rejected value, for display
+}
+
+export interface RuleImportRow {
+  row: number; // 1-based position in the file, after any CSV header
+  rule: ModerationRuleInput | null; // null when the row has issues
+  status: 'new' | 'duplicate' | 'invalid';
+  issues: RuleIssue[];
+}
+
+export interface RuleImportPreview {
+  rows: RuleImportRow[];
+  rules: ModerationRuleInput[]; // the new, valid rules - what an import sends
+  duplicates: number;
+  invalid: number;
+  fileError?: 'empty' | 'unreadable'; // the file as a whole could not be read
+}
+
+const RULE_TYPES: ReadonlyArray<ModerationRule['ruleType']> = ['domain', 'keyword', 'url', 'pattern'];
+const ACTIONS: ReadonlyArray<ModerationRule['action']> = ['allow', 'block', 'flag'];
+const SEVERITIES: ReadonlyArray<NonNullable<ModerationRule['severity']>> = ['low', 'medium', 'high', 'critical'];
+
+// Columns in export order; imports accept them in any order and in any case
+const FIELDS: Array<keyof ModerationRuleInput> = [
+  'ruleType',
+  'action',
+  'value',
+  'pattern',
+  'reason',
+  'severity',
+  'caseSensitive',
+  'isActive',
+  'source',
+];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Hosts-file entries that point at the machine itself rather than name a site
+const LOCAL_HOSTS = ['localhost', 'localhost.localdomain', 'local', 'broadcasthost', 'ip6-localhost', 'ip6-loopback', '0.0.0.0'];
+const DOMAIN_PATTERN = /^(?=.{4,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+(?:[a-z]{2,63}|xn--[a-z0-9-]{2,59})$/;
+
+const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^(\*\.|www\.)/, '');
+
+class ModerationImportService {
+  /**
+   * Check every rule in a file and sort it into new, duplicate (of an existing
+   * rule or of an earlier row) or invalid
+   */
+  preview(text: string, fileName: string, existing: ModerationRule[]): RuleImportPreview {
+    const format = this.detectFormat(text, fileName);
+    const records = format === 'json' ? this.readJson(text) : this.readCsv(text);
+
+    if (records === null) {
+      return { rows: [], rules: [], duplicates: 0, invalid: 0, fileError: 'unreadable' };
+    }
+    if (records.length === 0) {
+      return { rows: [], rules: [], duplicates: 0, invalid: 0, fileError: 'empty' };
+    }
+
+    const seen = new Set(existing.map((rule) => this.ruleKey(rule)));
+    const rows = records.map((record, index): RuleImportRow => {
+      const { rule, issues } = this.validate(record);
+      if (!rule) {
+        return { row: index + 1, rule: null, status: 'invalid', issues };
+      }
+
+      const key = this.ruleKey(rule);
+      if (seen.has(key)) {
+        return { row: index + 1, rule, status: 'duplicate', issues };
+      }
+      seen.add(key);
+      return { row: index + 1, rule, status: 'new', issues };
+    });
+
+    return {
+      rows,
+      rules: rows.filter((row) => row.status === 'new').map((row) => row.rule as ModerationRuleInput),
+      duplicates: rows.filter((row) => row.status === 'duplicate').length,
+      invalid: rows.filter((row) => row.status === 'invalid').length,
+    };
+  }
+
+  /**
+   * A rule file in either format. JSON is the same shape the import reads back
+   */
+  serialize(rules: ModerationRule[], format: RuleFileFormat): string {
+    const inputs = rules.map((rule) => this.toInput(rule));
+
+    if (format === 'json') {
+      return JSON.stringify({ exportedAt: new Date().toISOString(), rules: inputs }, null, 2);
+    }
+
+    const lines = inputs.map((rule) => FIELDS.map((field) => this.csvCell(rule[field])).join(','));
+    return [FIELDS.join(','), ...lines].join('\r\n');
+  }
+
+  /**
+   * Download the rule set as moderation-rules-<date>.csv or .json
+   */
+  download(rules: ModerationRule[], format: RuleFileFormat): void {
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const blob = new Blob([this.serialize(rules, format)], { type });
+    const url = URL.createObjectURL(blob);
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `moderation-rules-${new Date().toISOString().slice(0, 10)}.${format}`;
+    window.document.body.appendChild(a);
+    a.click();
+    window.document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * The distinct domains in a blocklist file. Understands hosts files
+   * ("0.0.0.0 example.com"), Adblock domain rules ("||example.com^") and plain
+   * lists; comments, exceptions and anything that isn't a whole domain are skipped
+   */
+  parseBlocklist(text: string): string[] {
+    const domains = new Set<string>();
+
+    text.split(/\r?\n/).forEach((rawLine) => {
+      const line = rawLine.replace(/\s#.*$/, '').trim();
+      if (!line || line.startsWith('#') || line.startsWith('!') || line.startsWith('[') || line.startsWith('@@')) {
+        return;
+      }
+
+      let candidate: string | undefined;
+      const adblock = line.match(/^\|\|([^/^$]+)\^(\$.*)?$/);
+      if (adblock) {
+        candidate = adblock[1];
+      } else {
+        const parts = line.split(/\s+/);
+        // hosts format: an address, then one or more names
+        candidate = parts.length > 1 && /^[\d.:a-f]+$/i.test(parts[0]) ? parts[1] : parts.length === 1 ? parts[0] : undefined;
+      }
+
+      const domain = candidate ? normalizeDomain(candidate.replace(/\.$/, '')) : '';
+      if (domain && !LOCAL_HOSTS.includes(domain) && DOMAIN_PATTERN.test(domain)) {
+        domains.add(domain);
+      }
+    });
+
+    return Array.from(domains);
+  }
+
+  private detectFormat(text: string, fileName: string): RuleFileFormat {
+    if (/\.json$/i.test(fileName)) return 'json';
+    if (/\.csv$/i.test(fileName)) return 'csv';
+    return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+  }
+
+  // Accepts an array of rules or an export ({ rules: [...] })
+  private readJson(text: string): Array<Record<string, unknown>> | null {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return null;
+    }
+
+    const list = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+    if (!Array.isArray(list)) {
+      return null;
+    }
+    return list.map((item) => (item && typeof item === 'object' ? (item as Record<string, unknown>) : {}));
+  }
+
+  // Header row required; column names are matched case-insensitively and unknown columns ignored
+  private readCsv(text: string): Array<Record<string, unknown>> | null {
+    const rows = this.parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ''));
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const header = rows[0].map((name) => FIELDS.find((field) => field.toLowerCase() === name.trim().toLowerCase()));
+    if (!header.includes('ruleType') && !header.includes('value')) {
+      return null;
+    }
+
+    return rows.slice(1).map((row) => {
+      const record: Record<string, unknown> = {};
+      header.forEach((field, index) => {
+        if (field && row[index] !== undefined && row[index].trim() !== '') {
+          record[field] = row[index].trim();
+        }
+      });
+      return record;
+    });
+  }
+
+  // RFC 4180: quoted cells may contain commas, line breaks and doubled quotes
+  private parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private validate(record: Record<string, unknown>): { rule: ModerationRuleInput | null; issues: RuleIssue[] } {
+    const issues: RuleIssue[] = [];
+    const text = (field: keyof ModerationRuleInput) => {
+      const value = record[field];
+      return value === undefined || value === null ? '' : String(value).trim();
+    };
+    const oneOf = <T extends string>(field: keyof ModerationRuleInput, allowed: ReadonlyArray<T>, fallback?: T): T | undefined => {
+      const value = text(field);
+      if (!value) {
+        if (!fallback) issues.push({ field, kind: 'missing' });
+        return fallback;
+      }
+      const match = allowed.find((option) => option === value.toLowerCase());
+      if (!match) issues.push({ field, kind: 'invalidValue', value });
+      return match;
+    };
+    const flag = (field: keyof ModerationRuleInput, fallback: boolean): boolean => {
+      const value = record[field];
+      if (typeof value === 'boolean') return value;
+      const normalized = text(field).toLowerCase();
+      if (!normalized) return fallback;
+      if (TRUE_VALUES.includes(normalized)) return true;
+      if (FALSE_VALUES.includes(normalized)) return false;
+      issues.push({ field, kind: 'invalidValue', value: text(field) });
+      return fallback;
+    };
+
+    const ruleType = oneOf('ruleType', RULE_TYPES);
+    const action = oneOf('action', ACTIONS);
+    const severity = oneOf('severity', SEVERITIES, 'medium');
+    const caseSensitive = flag('caseSensitive', false);
+    const isActive = flag('isActive', true);
+    const pattern = text('pattern') || undefined;
+    let value = text('value');
+
+    if (ruleType === 'pattern') {
+      try {
+        new RegExp(pattern || value);
+      } catch {
+        issues.push({ field: pattern ? 'pattern' : 'value', kind: 'invalidPattern', value: pattern || value });
+      }
+      if (!value && pattern) value = pattern;
+    }
+    if (!value) {
+      issues.push({ field: 'value', kind: 'missing' });
+    } else if (ruleType === 'domain') {
+      value = normalizeDomain(value);
+      if (!DOMAIN_PATTERN.test(value)) issues.push({ field: 'value', kind: 'invalidValue', value });
+    }
+
+    if (issues.length > 0 || !ruleType || !action) {
+      return { rule: null, issues };
+    }
+
+    const rule: ModerationRuleInput = { ruleType, action, value, severity, caseSensitive, isActive };
+    if (pattern) rule.pattern = pattern;
+    if (text('reason')) rule.reason = text('reason');
+    // source is exported for reference but never imported - subscription rules only change through a sync
+    return { rule, issues };
+  }
+
+  // Two rules are the same when they take the same action on the same thing
+  private ruleKey(rule: Pick<ModerationRule, 'ruleType' | 'action' | 'value' | 'pattern' | 'caseSensitive'>): string {
+    const target = rule.ruleType === 'domain' ? normalizeDomain(rule.value) : rule.pattern || rule.value;
+    return `${rule.ruleType}:${rule.action}:${rule.caseSensitive ? target : target.toLowerCase()}`;
+  }
+
+  private toInput(rule: ModerationRule): ModerationRuleInput {
+    const input: ModerationRuleInput = {
+      ruleType: rule.ruleType,
+      action: rule.action,
+      value: rule.value,
+      severity: rule.severity || 'medium',
+      caseSensitive: !!rule.caseSensitive,
+      isActive: rule.isActive,
+    };
+    if (rule.pattern) input.pattern = rule.pattern;
+    if (rule.reason) input.reason = rule.reason;
+    if (rule.source) input.source = rule.source;
+    return input;
+  }
+
+  private csvCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+// Create singleton instance
+export const moderationImportService = new ModerationImportService();
+export default moderationImportService;
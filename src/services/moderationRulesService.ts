@@ -0,0 +1,219 @@
+// Moderation Rules Service
+// Applies the staff-maintained moderation rules to web results: allow rules win
+// over everything (including the built-in social media block), then block, then
+// flag. Matches are counted and reported in batches so each rule's hitCount and
+// lastHitAt reflect how often it actually fires. Domain rules are looked up by
+// host, since blocklist subscriptions add them by the thousand
+
+import backendService, { type ModerationRule, type ModerationRuleHit } from './backendService';
+import { cacheService } from './cacheService';
+
+export type ModerationAction = ModerationRule['action'];
+
+// The parts of a search result rules are matched against
+export interface ModerationTarget {
+  url: string;
+  domain: string;
+  title: string;
+  description: string;
+}
+
+export interface ModerationVerdict {
+  action: ModerationAction | null; // null when no rule matches
+  rules: ModerationRule[]; // the matching rules that decided the action
+}
+
+interface CompiledRule {
+  rule: ModerationRule;
+  matches: (target: ModerationTarget) => boolean;
+}
+
+const RULES_TTL = 5 * 60 * 1000; // rules are reloaded in the background after 5 minutes
+const HIT_REPORT_DELAY = 10 * 1000; // hits from a burst of searches go in one request
+
+// Strongest first - the first action with a matching rule decides
+const ACTION_PRECEDENCE: ModerationAction[] = ['allow', 'block', 'flag'];
+
+const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^(\*\.|www\.)/, '');
+
+class ModerationRulesService {
+  private rules: CompiledRule[] = [];
+  private domainRules = new Map<string, ModerationRule[]>(); // by normalised domain
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private pendingHits = new Map<string, ModerationRuleHit>();
+  private reportTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Drop blocked results and record the verdict of the rest, so allowed results
+   * skip the built-in domain block and flagged ones can be badged
+   */
+  async apply<T extends ModerationTarget>(results: T[]): Promise<Array<T & { verdict: ModerationVerdict }>> {
+    await this.ensureLoaded();
+
+    const kept: Array<T & { verdict: ModerationVerdict }> = [];
+    results.forEach((result) => {
+      const verdict = this.evaluate(result);
+      if (verdict.action === 'block') {
+        console.log('🚫 Blocked by moderation rule:', result.url, verdict.rules.map((rule) => rule.value));
+        return;
+      }
+      kept.push({ ...result, verdict });
+    });
+
+    return kept;
+  }
+
+  /**
+   * The action the loaded rules take on one result. Every rule that decided it is counted as a hit
+   */
+  evaluate(target: ModerationTarget): ModerationVerdict {
+    const matched = [
+      ...this.matchDomainRules(target.domain),
+      ...this.rules.filter((compiled) => compiled.matches(target)).map((compiled) => compiled.rule),
+    ];
+
+    const action = ACTION_PRECEDENCE.find((candidate) => matched.some((rule) => rule.action === candidate)) || null;
+    const rules = matched.filter((rule) => rule.action === action);
+    rules.forEach((rule) => this.recordHit(rule));
+
+    return { action, rules };
+  }
+
+  /**
+   * Reload the rules on the next search - call after staff change them. Cached
+   * searches were filtered by the old rules, so they go too
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+    cacheService.clear('search');
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < RULES_TTL) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    // Only the first load holds up a search; afterwards stale rules are used while they refresh
+    if (this.loadedAt === 0) {
+      await this.loading;
+    }
+  }
+
+  private async load(): Promise<void> {
+    const rules = await backendService.getActiveModerationRules();
+
+    // Keep the rules we have when the backend can't be reached
+    if (rules === null) {
+      if (this.loadedAt === 0) {
+        // Retry on a later search rather than on every one
+        this.loadedAt = Date.now() - RULES_TTL + 60 * 1000;
+      }
+      return;
+    }
+
+    const active = rules.filter((rule) => rule.isActive);
+    this.domainRules = new Map();
+    active
+      .filter((rule) => rule.ruleType === 'domain' && rule.value?.trim())
+      .forEach((rule) => {
+        const domain = normalizeDomain(rule.value);
+        this.domainRules.set(domain, [...(this.domainRules.get(domain) || []), rule]);
+      });
+    this.rules = active
+      .filter((rule) => rule.ruleType !== 'domain')
+      .map((rule) => this.compile(rule))
+      .filter((compiled): compiled is CompiledRule => compiled !== null);
+    this.loadedAt = Date.now();
+    console.log('🛡️ Loaded', active.length, 'moderation rules for web results');
+  }
+
+  // Rules for the host itself and for each domain it is a subdomain of
+  private matchDomainRules(host: string): ModerationRule[] {
+    const labels = normalizeDomain(host).split('.');
+    const matched: ModerationRule[] = [];
+    for (let i = 0; i < labels.length; i++) {
+      matched.push(...(this.domainRules.get(labels.slice(i).join('.')) || []));
+    }
+    return matched;
+  }
+
+  private compile(rule: ModerationRule): CompiledRule | null {
+    const value = rule.value?.trim();
+    if (!value && !rule.pattern) {
+      return null;
+    }
+
+    const contains = (text: string) =>
+      rule.caseSensitive ? text.includes(value) : text.toLowerCase().includes(value.toLowerCase());
+
+    switch (rule.ruleType) {
+      case 'url':
+        return { rule, matches: (target) => contains(target.url) };
+
+      case 'keyword':
+        return { rule, matches: (target) => contains(`${target.title} ${target.description}`) };
+
+      case 'pattern':
+        try {
+          const pattern = new RegExp(rule.pattern || value, rule.caseSensitive ? '' : 'i');
+          return {
+            rule,
+            matches: (target) => [target.url, target.title, target.description].some((text) => pattern.test(text)),
+          };
+        } catch (error) {
+          // An invalid pattern can't match anything
+          console.warn('⚠️ Skipping moderation rule with an invalid pattern:', rule.pattern || value, error);
+          return null;
+        }
+
+      default:
+        return null;
+    }
+  }
+
+  private recordHit(rule: ModerationRule): void {
+    if (!rule._id) return;
+
+    const existing = this.pendingHits.get(rule._id);
+    this.pendingHits.set(rule._id, {
+      ruleId: rule._id,
+      count: (existing?.count || 0) + 1,
+      lastHitAt: new Date().toISOString(),
+    });
+
+    if (!this.reportTimer) {
+      this.reportTimer = setTimeout(() => this.reportHits(), HIT_REPORT_DELAY);
+    }
+  }
+
+  private async reportHits(): Promise<void> {
+    this.reportTimer = null;
+    const hits = Array.from(this.pendingHits.values());
+    this.pendingHits.clear();
+    if (hits.length === 0) return;
+
+    const reported = await backendService.reportModerationRuleHits(hits);
+    if (!reported) {
+      // Fold the unreported hits back in, to go with the next batch
+      hits.forEach((hit) => {
+        const newer = this.pendingHits.get(hit.ruleId);
+        this.pendingHits.set(hit.ruleId, {
+          ruleId: hit.ruleId,
+          count: hit.count + (newer?.count || 0),
+          lastHitAt: newer?.lastHitAt || hit.lastHitAt,
+        });
+      });
+    }
+  }
+}
+
+// Create singleton instance
+export const moderationRulesService = new ModerationRulesService();
+export default moderationRulesService;
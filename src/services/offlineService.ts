@@ -0,0 +1,297 @@
+/**
+ * Offline Service
+ * Queues backend writes made without a connection (search tracking, saved
+ * searches, bookmark changes) in IndexedDB so the service worker can replay
+ * them through Background Sync, and keeps copies of recent searches and
+ * bookmarks that can be browsed while offline
+ */
+
+import type { SearchResult } from '../store/slices/searchSlice';
+import type { Bookmark } from './backendService';
+import { cacheService } from './cacheService';
+
+export type QueuedWriteKind =
+  | 'trackSearch'
+  | 'saveSearch'
+  | 'createBookmark'
+  | 'updateBookmark'
+  | 'deleteBookmark'
+  | 'deleteBookmarks';
+
+export interface QueuedWrite {
+  id?: number;
+  kind: QueuedWriteKind;
+  endpoint: string;
+  url: string; // absolute, so the service worker can send it without the app's config
+  method: string;
+  headers: Record<string, string>; // never the Authorization header - writes that need it are sent by the page
+  body?: string;
+  requireAuth: boolean;
+  localId?: string; // id handed out for something created offline, such as a bookmark
+  queuedAt: number;
+}
+
+export type ReplayOutcome = 'sent' | 'retry' | 'drop';
+
+export interface SavedSearch {
+  query: string;
+  results: SearchResult[];
+  savedAt: number;
+}
+
+// Must match public/service-worker.js, which replays the same queue
+const DB_NAME = 'horizon-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'requests';
+export const SYNC_TAG = 'sync-writes';
+
+const MAX_SAVED_SEARCHES = 30;
+const SAVED_TTL = 7 * 24 * 60 * 60 * 1000; // a week - long enough to cover a weekend without wifi
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OfflineService {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private listeners = new Set<() => void>();
+  private replaying = false;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.notify);
+      window.addEventListener('offline', this.notify);
+    }
+
+    // The service worker reports when Background Sync has drained the queue
+    if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        if (event.data?.type === 'WRITES_SYNCED') {
+          this.notify();
+        }
+      });
+    }
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * Called whenever the connection or the queue changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ---------- Write queue ----------
+
+  /**
+   * Queue a write and ask the service worker to send it once back online.
+   * Returns the queue id, or null when IndexedDB isn't available
+   */
+  async enqueue(write: Omit<QueuedWrite, 'id' | 'queuedAt'>): Promise<number | null> {
+    try {
+      const id = await this.run<IDBValidKey>('readwrite', (store) => store.add({ ...write, queuedAt: Date.now() }));
+      if (id === null) return null;
+
+      console.log('📥 Queued offline write:', write.kind, write.endpoint);
+      this.notify();
+      await this.requestSync();
+      return id as number;
+    } catch (error) {
+      console.error('Failed to queue offline write:', error);
+      return null;
+    }
+  }
+
+  async getQueueSize(): Promise<number> {
+    try {
+      return (await this.run<number>('readonly', (store) => store.count())) || 0;
+    } catch (error) {
+      console.error('Failed to count queued writes:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Drop a queued write by the local id it handed out - deleting a bookmark
+   * that was only ever created offline just cancels its creation
+   */
+  async removeByLocalId(localId: string): Promise<boolean> {
+    try {
+      const writes = (await this.run<QueuedWrite[]>('readonly', (store) => store.getAll())) || [];
+      const write = writes.find((entry) => entry.localId === localId);
+      if (write?.id === undefined) return false;
+
+      await this.run('readwrite', (store) => store.delete(write.id as number));
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error('Failed to remove queued write:', error);
+      return false;
+    }
+  }
+
+  async clearQueue(): Promise<void> {
+    try {
+      await this.run('readwrite', (store) => store.clear());
+      this.notify();
+    } catch (error) {
+      console.error('Failed to clear queued writes:', error);
+    }
+  }
+
+  /**
+   * Send queued writes oldest first. Each one is taken off the queue before it
+   * is sent, so the page and the service worker never both send it; writes that
+   * should be retried go back in place and stop the replay
+   */
+  async replay(send: (write: QueuedWrite) => Promise<ReplayOutcome>): Promise<void> {
+    if (this.replaying || !this.isOnline()) return;
+    this.replaying = true;
+
+    try {
+      let write = await this.takeNext();
+      while (write) {
+        const outcome = await send(write).catch((): ReplayOutcome => 'retry');
+        if (outcome === 'retry') {
+          const retry = write;
+          await this.run('readwrite', (store) => store.put(retry));
+          break;
+        }
+        if (outcome === 'drop') {
+          console.warn('🗑️ Dropped queued write the server rejected:', write.kind, write.endpoint);
+        }
+        write = await this.takeNext();
+      }
+    } catch (error) {
+      console.error('Failed to replay queued writes:', error);
+    } finally {
+      this.replaying = false;
+      this.notify();
+    }
+  }
+
+  /**
+   * Whether the service worker can replay the queue itself. Without Background
+   * Sync (Firefox, Safari) the page replays it when the connection returns
+   */
+  isBackgroundSyncSupported(): boolean {
+    return typeof window !== 'undefined'
+      && 'serviceWorker' in navigator
+      && !!navigator.serviceWorker.controller
+      && 'SyncManager' in window;
+  }
+
+  private async requestSync(): Promise<void> {
+    if (!this.isBackgroundSyncSupported()) return;
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      // Not in TypeScript's DOM types yet
+      const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+      await sync?.register(SYNC_TAG);
+    } catch (error) {
+      console.warn('Failed to register background sync:', error);
+    }
+  }
+
+  private async takeNext(): Promise<QueuedWrite | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).openCursor();
+      let taken: QueuedWrite | null = null;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          taken = cursor.value as QueuedWrite;
+          cursor.delete();
+        }
+      };
+      transaction.oncomplete = () => resolve(taken);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = this.connect();
+    }
+    return this.db;
+  }
+
+  private async connect(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return null;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      return await requestToPromise(request);
+    } catch (error) {
+      console.error('Failed to open offline queue:', error);
+      return null;
+    }
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<any>): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+    return requestToPromise<T>(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  }
+
+  private notify = () => {
+    this.listeners.forEach((listener) => listener());
+  };
+
+  // ---------- Saved copies for offline browsing ----------
+
+  /**
+   * Keep the first page of a search that found results, most recent first
+   */
+  async saveSearch(query: string, userRole: string, results: SearchResult[]): Promise<void> {
+    if (results.length === 0) return;
+
+    const key = query.trim().toLowerCase();
+    const saved = (await this.getSavedSearches(userRole)).filter((search) => search.query.trim().toLowerCase() !== key);
+    saved.unshift({ query: query.trim(), results, savedAt: Date.now() });
+    cacheService.set('offline', 'searches', saved.slice(0, MAX_SAVED_SEARCHES), userRole, SAVED_TTL);
+  }
+
+  async getSavedSearches(userRole: string): Promise<SavedSearch[]> {
+    return (await cacheService.get<SavedSearch[]>('offline', 'searches', userRole)) || [];
+  }
+
+  async getSavedSearch(query: string, userRole: string): Promise<SavedSearch | null> {
+    const key = query.trim().toLowerCase();
+    return (await this.getSavedSearches(userRole)).find((search) => search.query.toLowerCase() === key) || null;
+  }
+
+  /**
+   * Bookmarks are saved whole each time they load, then patched by changes
+   * made while offline
+   */
+  saveBookmarks(bookmarks: Bookmark[]): void {
+    cacheService.set('offline', 'bookmarks', bookmarks, undefined, SAVED_TTL);
+  }
+
+  async getSavedBookmarks(): Promise<Bookmark[]> {
+    return (await cacheService.get<Bookmark[]>('offline', 'bookmarks')) || [];
+  }
+}
+
+export const offlineService = new OfflineService();
+export default offlineService;
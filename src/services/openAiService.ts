@@ -1,5 +1,7 @@
 import type { AppConfig } from '../config/app-config';
 import { getConfig } from '../config/app-config';
+import type { SearchFilters } from './searchProviders';
+import type { SearchResultsPage } from './webSearchService';
 
 export interface SearchResult {
   id: string;
@@ -20,13 +22,41 @@ export interface OpenAIResponse {
       content: string;
     };
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
 }
 
+// Reasoning models (o1/o3) spend completion tokens before they answer, so
+// reading-level answer budgets are added on top of this allowance
+export const REASONING_TOKEN_ALLOWANCE = 1300;
+
+export interface StreamOptions {
+  // Called with each new chunk and the text assembled so far
+  onToken?: (token: string, fullText: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  tokens?: {
+    input: number;
+    output: number;
+  };
+}
+
+// Short vectors are plenty for matching reworded questions and keep cached indexes small
+const EMBEDDING_DIMENSIONS = 256;
+
 class OpenAIService {
   private baseUrl = 'https://api.openai.com/v1/chat/completions';
+  private embeddingsUrl = 'https://api.openai.com/v1/embeddings';
   private config: AppConfig | null = null;
   private apiDisabled = false;
 
+  // The shared config promise - env.json placeholders are already blanked by its validation
   private async ensureConfig(): Promise<AppConfig> {
     if (!this.config) {
       this.config = await getConfig();
@@ -34,16 +64,29 @@ class OpenAIService {
     return this.config;
   }
 
-  async searchWithAI(query: string, userRole: 'guest' | 'student' | 'staff'): Promise<SearchResult[]> {
-    console.log('🔍 Search initiated:', { query, userRole, apiDisabled: this.apiDisabled });
+  async searchWithAI(
+    query: string,
+    userRole: 'guest' | 'student' | 'staff',
+    page: number = 1,
+    filters?: SearchFilters,
+    autoCorrect: boolean = true
+  ): Promise<SearchResultsPage> {
+    console.log('🔍 Search initiated:', { query, userRole, page, filters, apiDisabled: this.apiDisabled });
 
     // Use new web search + AI filtering approach for real search results
     console.log('🌐 Using DuckDuckGo + AI filtering for real search results');
     const { WebSearchService } = await import('./webSearchService');
-    return WebSearchService.searchWeb(query, userRole);
+    return WebSearchService.searchWeb(query, userRole, page, filters, autoCorrect);
   }
 
-  async chatWithAI(messages: ChatMessage[], maxTokens?: number): Promise<string> {
+  async chatWithAI(messages: ChatMessage[], maxTokens?: number, options?: StreamOptions): Promise<string> {
+    const result = await this.chatCompletion(messages, maxTokens, options);
+    return result.content;
+  }
+
+  // Same as chatWithAI but also reports token usage when the API returns it.
+  // Passing options.onToken switches to the streaming endpoint; an aborted signal is rethrown.
+  async chatCompletion(messages: ChatMessage[], maxTokens?: number, options?: StreamOptions): Promise<ChatCompletionResult> {
     console.log('🤖 ChatWithAI called:', { 
       messagesCount: messages.length, 
       maxTokens, 
@@ -53,7 +96,7 @@ class OpenAIService {
     // If API is disabled due to previous errors, return fallback message
     if (this.apiDisabled) {
       console.log('🚫 API disabled, returning fallback message');
-      return 'I apologize, but AI chat is currently unavailable. The service will use mock data for search results instead.';
+      return { content: 'I apologize, but AI chat is currently unavailable. The service will use mock data for search results instead.' };
     }
 
     try {
@@ -65,10 +108,10 @@ class OpenAIService {
       });
 
       // Check if API key is properly configured
-      if (!config.openAi.apiKey || config.openAi.apiKey === 'your-openai-api-key-here' || config.openAi.apiKey.length < 10) {
+      if (!config.openAi.apiKey || config.openAi.apiKey.length < 10) {
         console.log('❌ API key not configured properly');
         this.apiDisabled = true;
-        return 'I apologize, but AI chat is not properly configured. Please check your OpenAI API settings.';
+        return { content: 'I apologize, but AI chat is not properly configured. Please check your OpenAI API settings.' };
       }
 
       // Use a simpler system prompt for instant answers
@@ -79,7 +122,9 @@ class OpenAIService {
 
       console.log('📤 Calling OpenAI with messages:', messages.length);
       console.log('📤 Messages being sent:', messages.map(m => ({ role: m.role, contentLength: m.content.length })));
-      const response = await this.callOpenAI([systemMessage, ...messages], maxTokens);
+      const response = options?.onToken
+        ? await this.streamOpenAI([systemMessage, ...messages], maxTokens, options)
+        : await this.callOpenAI([systemMessage, ...messages], maxTokens);
       console.log('📨 Full OpenAI response:', response);
       console.log('📨 OpenAI response received:', { 
         hasContent: !!response.choices?.[0]?.message?.content,
@@ -90,31 +135,85 @@ class OpenAIService {
       const content = response.choices[0]?.message?.content;
       if (!content) {
         console.log('⚠️ Empty content from OpenAI - full response:', JSON.stringify(response, null, 2));
-        return 'I apologize, but I was unable to process your request at this time.';
+        return { content: 'I apologize, but I was unable to process your request at this time.' };
       }
 
-      return content;
+      return {
+        content,
+        tokens: response.usage
+          ? { input: response.usage.prompt_tokens, output: response.usage.completion_tokens }
+          : undefined
+      };
     } catch (error: unknown) {
+      // Cancellation is not a failure - let the caller decide what to do
+      if (options?.signal?.aborted) {
+        console.log('🛑 AI request cancelled');
+        throw error;
+      }
+
       console.error('❌ AI Chat failed:', error);
 
       // Provide specific error messages based on error type
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       if (errorMessage.includes('timeout')) {
-        return 'I apologize, but the AI service is taking longer than expected to respond. This might be due to high demand. Please try asking your question again, or try a shorter, more specific question.';
+        return { content: 'I apologize, but the AI service is taking longer than expected to respond. This might be due to high demand. Please try asking your question again, or try a shorter, more specific question.' };
       } else if (errorMessage.includes('network')) {
-        return 'I\'m having trouble connecting to the AI service right now. Please check your internet connection and try again.';
+        return { content: 'I\'m having trouble connecting to the AI service right now. Please check your internet connection and try again.' };
       } else {
-        return 'I apologize, but I am experiencing technical difficulties with the AI service. Please try again later or contact IT support if this issue persists.';
+        return { content: 'I apologize, but I am experiencing technical difficulties with the AI service. Please try again later or contact IT support if this issue persists.' };
       }
     }
   }
 
+  /**
+   * Embedding vector for a short piece of text, or null when the API isn't
+   * configured or the request fails - callers treat that as "no match"
+   */
+  async createEmbedding(text: string): Promise<number[] | null> {
+    if (this.apiDisabled) {
+      return null;
+    }
+
+    try {
+      const config = await this.ensureConfig();
+      if (!config.openAi.apiKey) {
+        return null;
+      }
+
+      const model = config.openAi.embeddingModel;
+      const response = await fetch(this.embeddingsUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.openAi.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          input: text,
+          // Only the text-embedding-3 models can shorten their vectors
+          ...(model.startsWith('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        console.error('OpenAI embeddings error:', { status: response.status, error: await response.text(), model });
+        return null;
+      }
+
+      const data = await response.json();
+      return data.data?.[0]?.embedding || null;
+    } catch (error) {
+      console.error('Failed to create embedding:', error);
+      return null;
+    }
+  }
+
   private async callOpenAI(messages: ChatMessage[], maxTokens?: number): Promise<OpenAIResponse> {
     const config = await this.ensureConfig();
 
     // Check if API key is configured
-    if (!config.openAi.apiKey || config.openAi.apiKey === 'your-openai-api-key-here') {
+    if (!config.openAi.apiKey) {
       console.warn('OpenAI API key not configured, using fallback results');
       throw new Error('OpenAI API key not configured');
     }
@@ -157,6 +256,125 @@ class OpenAIService {
     return await response.json();
   }
 
+  /**
+   * Streams a chat completion using server-sent events and assembles the final response.
+   * Instead of a fixed overall timeout, the request is aborted if no chunk arrives for 30 seconds.
+   */
+  private async streamOpenAI(messages: ChatMessage[], maxTokens: number | undefined, options: StreamOptions): Promise<OpenAIResponse> {
+    const config = await this.ensureConfig();
+
+    if (!config.openAi.apiKey) {
+      console.warn('OpenAI API key not configured, using fallback results');
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const requestBody = {
+      model: config.openAi.model,
+      messages,
+      max_completion_tokens: maxTokens || 2000,
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+
+    // Internal controller so both the caller's signal and the idle timeout can cancel the request
+    const controller = new AbortController();
+    let timedOut = false;
+    const abortFromCaller = () => controller.abort();
+    if (options.signal?.aborted) {
+      controller.abort();
+    } else {
+      options.signal?.addEventListener('abort', abortFromCaller);
+    }
+
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, 30000); // 30 seconds without a chunk
+    };
+
+    try {
+      resetIdleTimer();
+
+      const response = await fetch(this.baseUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.openAi.apiKey}`,
+        },
+        body: JSON.stringify(requestBody),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        console.error('OpenAI API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText,
+          model: config.openAi.model
+        });
+        throw new Error(`OpenAI API request failed: ${response.status} - ${errorText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let usage: OpenAIResponse['usage'];
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        resetIdleTimer();
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are newline-delimited; keep any partial line for the next chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') continue;
+
+          try {
+            const chunk = JSON.parse(data);
+            const token: string | undefined = chunk.choices?.[0]?.delta?.content;
+            if (token) {
+              content += token;
+              options.onToken?.(token, content);
+            }
+            if (chunk.usage) {
+              usage = chunk.usage;
+            }
+          } catch (parseError) {
+            console.warn('⚠️ Skipping malformed stream chunk:', data);
+          }
+        }
+      }
+
+      console.log('📨 OpenAI stream complete:', { contentLength: content.length, usage });
+      return {
+        choices: [{ message: { content } }],
+        usage
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw new Error('Request timeout - AI response taking too long');
+      }
+      throw error;
+    } finally {
+      if (idleTimer) clearTimeout(idleTimer);
+      options.signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
 
 
   private buildDirectSearchPrompt(query: string, userRole: 'guest' | 'student' | 'staff'): string {
@@ -72,6 +72,7 @@ const readingLevelConfigs: ReadingLevelConfig[] = [
 class ReadingLevelService {
   private currentLevel: ReadingLevel = 'middle';
   private userGrade: number = 7;
+  private listeners: Array<(grade: GradeLevel) => void> = [];
 
   constructor() {
     // Load saved preference
@@ -88,7 +89,8 @@ class ReadingLevelService {
     }
   }
 
-  setGradeLevel(grade: GradeLevel) {
+  // Defaults applied for a role (not chosen by the user) pass persist = false
+  setGradeLevel(grade: GradeLevel, persist: boolean = true) {
     if (grade === 'college') {
       this.userGrade = 13;
     } else if (grade === 'adult') {
@@ -98,8 +100,20 @@ class ReadingLevelService {
     }
 
     this.currentLevel = this.getReadingLevelFromGrade(this.userGrade);
-    localStorage.setItem('gradeLevel', this.userGrade.toString());
-    localStorage.setItem('readingLevel', this.currentLevel);
+    if (persist) {
+      localStorage.setItem('gradeLevel', this.userGrade.toString());
+      localStorage.setItem('readingLevel', this.currentLevel);
+    }
+    this.notifyListeners();
+  }
+
+  // Forget the saved level so the next person on a shared device starts from the default
+  reset() {
+    this.userGrade = 7;
+    this.currentLevel = 'middle';
+    localStorage.removeItem('gradeLevel');
+    localStorage.removeItem('readingLevel');
+    this.notifyListeners();
   }
 
   setReadingLevel(level: ReadingLevel) {
@@ -108,6 +122,19 @@ class ReadingLevelService {
     this.userGrade = config.minGrade;
     localStorage.setItem('readingLevel', level);
     localStorage.setItem('gradeLevel', this.userGrade.toString());
+    this.notifyListeners();
+  }
+
+  subscribe(callback: (grade: GradeLevel) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    const grade = this.getGradeSetting();
+    this.listeners.forEach((callback) => callback(grade));
   }
 
   getReadingLevel(): ReadingLevel {
@@ -118,6 +145,12 @@ class ReadingLevelService {
     return this.userGrade;
   }
 
+  // Grade as offered in the selector - numeric grades stop at 12
+  getGradeSetting(): GradeLevel {
+    if (this.userGrade <= 12) return this.userGrade as GradeLevel;
+    return this.userGrade <= 16 ? 'college' : 'adult';
+  }
+
   private getReadingLevelFromGrade(grade: number): ReadingLevel {
     if (grade <= 5) return 'elementary';
     if (grade <= 8) return 'middle';
@@ -240,6 +273,13 @@ class ReadingLevelService {
     return Math.max(1, syllableCount);
   }
 
+  // True when the text reads more than `tolerance` levels above the current target
+  isAboveLevel(text: string, tolerance: number = 1): boolean {
+    const levels = readingLevelConfigs.map((config) => config.level);
+    const textLevel = levels.indexOf(this.getReadingLevelRecommendation(text));
+    return textLevel - levels.indexOf(this.currentLevel) > tolerance;
+  }
+
   getReadingLevelRecommendation(text: string): ReadingLevel {
     const score = this.getSentenceComplexityScore(text);
 
@@ -0,0 +1,194 @@
+/**
+ * AI Result Safety Classification
+ * When enabled, asks the AI how suitable each web result is for the user's role
+ * and reading level. Unsafe results are removed and the rest carry the verdict
+ * and its reason. Students and guests are judged as no older than high school,
+ * whatever reading level they chose. The check runs within a strict time
+ * budget - when the AI is slow the results are shown as the moderation rules
+ * left them, and the verdicts that arrive late are still cached for the next
+ * search. Verdicts are cached per URL, role and audience
+ */
+
+import { getConfig } from '../config/app-config';
+import type { SafetyVerdict, SearchResult } from '../store/slices/searchSlice';
+import { cacheService } from './cacheService';
+import { openAIService } from './openAiService';
+import type { ReadingLevel } from './readingLevelService';
+
+export interface SafetyContext {
+  query: string;
+  userRole: 'guest' | 'student' | 'staff';
+  readingLevel: ReadingLevel;
+  trustedUrls?: Set<string>; // results a staff allow rule matched are never second-guessed
+}
+
+const VERDICT_TTL = 24 * 60 * 60 * 1000; // a page's suitability rarely changes within a day
+const TOKENS_PER_RESULT = 60;
+const VERDICTS: Array<SafetyVerdict['verdict']> = ['safe', 'caution', 'unsafe'];
+
+type SchoolLevel = Extract<ReadingLevel, 'elementary' | 'middle' | 'high'>;
+
+const AUDIENCES: Record<SchoolLevel, string> = {
+  elementary: 'a primary school child aged about 6-11',
+  middle: 'a middle school student aged about 11-14',
+  high: 'a high school student aged about 14-18',
+};
+
+class ResultSafetyService {
+  /**
+   * The results without those classified unsafe, each with its verdict when one
+   * is known. Returns the results unchanged when classification is off
+   */
+  async classify(results: SearchResult[], context: SafetyContext): Promise<SearchResult[]> {
+    const config = await getConfig();
+    const { enabled, timeoutMs } = config.search.aiClassification;
+    const candidates = results.filter((result) => !context.trustedUrls?.has(result.url));
+    if (!enabled || candidates.length === 0) {
+      return results;
+    }
+
+    const verdicts = new Map<string, SafetyVerdict>();
+    await Promise.all(
+      candidates.map(async (result) => {
+        const cached = await cacheService.get<SafetyVerdict>('search', this.verdictKey(result.url, context), context.userRole);
+        if (cached) verdicts.set(result.url, cached);
+      })
+    );
+
+    const unclassified = candidates.filter((result) => !verdicts.has(result.url));
+    if (unclassified.length > 0) {
+      const fresh = await this.withinBudget(this.requestVerdicts(unclassified, context), timeoutMs);
+      if (fresh) {
+        fresh.forEach((verdict, url) => verdicts.set(url, verdict));
+      } else {
+        console.warn(`⏱️ AI safety classification missed its ${timeoutMs}ms budget - using the moderation rules alone`);
+      }
+    }
+
+    return results
+      .filter((result) => {
+        const verdict = verdicts.get(result.url);
+        if (verdict?.verdict === 'unsafe') {
+          console.log('🚫 AI classified as unsafe:', result.url, verdict.reason);
+          return false;
+        }
+        return true;
+      })
+      .map((result) => (verdicts.has(result.url) ? { ...result, safety: verdicts.get(result.url) } : result));
+  }
+
+  private verdictKey(url: string, context: SafetyContext): string {
+    const audience = context.userRole === 'staff' ? 'staff' : this.schoolLevel(context);
+    return `verdict:${audience}:${url}`;
+  }
+
+  // A student or guest who picked a college or adult reading level is still judged as a high schooler
+  private schoolLevel(context: SafetyContext): SchoolLevel {
+    return context.readingLevel in AUDIENCES ? (context.readingLevel as SchoolLevel) : 'high';
+  }
+
+  private async withinBudget<T>(request: Promise<T>, timeoutMs: number): Promise<T | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([request, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Verdicts by URL for the results the AI answered for, cached as they arrive.
+   * Resolves to null when the AI is unavailable or its answer can't be read
+   */
+  private async requestVerdicts(results: SearchResult[], context: SafetyContext): Promise<Map<string, SafetyVerdict> | null> {
+    try {
+      const response = await openAIService.chatWithAI(
+        [
+          {
+            role: 'system',
+            content: 'You are a content safety classifier for a school search engine. Reply with JSON only.',
+          },
+          {
+            role: 'user',
+            content: this.buildPrompt(results, context),
+          },
+        ],
+        results.length * TOKENS_PER_RESULT
+      );
+
+      const verdicts = this.parseVerdicts(response, results);
+      if (!verdicts) {
+        console.warn('⚠️ Could not read the AI safety classification:', response);
+        return null;
+      }
+
+      verdicts.forEach((verdict, url) => {
+        cacheService.set('search', this.verdictKey(url, context), verdict, context.userRole, VERDICT_TTL);
+      });
+      console.log('🤖 AI classified', verdicts.size, 'of', results.length, 'results');
+      return verdicts;
+    } catch (error) {
+      console.error('Failed to classify results with AI:', error);
+      return null;
+    }
+  }
+
+  private buildPrompt(results: SearchResult[], context: SafetyContext): string {
+    const guidance = context.userRole === 'staff'
+      ? `The searcher is a member of school staff. Only mark a result "unsafe" for explicit adult content, graphic violence, scams or malware; anything else is "safe".`
+      : `The searcher is ${AUDIENCES[this.schoolLevel(context)]}. Mark a result "unsafe" if it is inappropriate for that age (adult or sexual content, dating, graphic violence, self-harm, drugs, gambling, hate), "caution" if it is suitable but needs supervision or is aimed at older readers, and "safe" otherwise. Social media sites are "caution" at most unless the content itself is unsafe.`;
+
+    return `Classify these search results for the query "${context.query}".
+
+${guidance}
+
+RESULTS:
+${results.map((result, index) => `${index + 1}. ${result.title}
+   ${result.description.replace(/\s+/g, ' ').trim().substring(0, 200)}
+   URL: ${result.url}`).join('\n\n')}
+
+Reply with a JSON array with one entry per result:
+[{"id": 1, "verdict": "safe" | "caution" | "unsafe", "score": <0-1, how suitable for this searcher>, "reason": "<under 15 words>"}]`;
+  }
+
+  private parseVerdicts(response: string, results: SearchResult[]): Map<string, SafetyVerdict> | null {
+    const start = response.indexOf('[');
+    const end = response.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+      return null;
+    }
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(response.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+    if (!Array.isArray(entries)) {
+      return null;
+    }
+
+    const verdicts = new Map<string, SafetyVerdict>();
+    entries.forEach((entry) => {
+      const result = results[Number(entry?.id) - 1];
+      if (!result || !VERDICTS.includes(entry.verdict)) return;
+
+      const score = Number(entry.score);
+      verdicts.set(result.url, {
+        verdict: entry.verdict,
+        score: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : entry.verdict === 'safe' ? 1 : 0,
+        reason: typeof entry.reason === 'string' ? entry.reason.substring(0, 200) : '',
+      });
+    });
+
+    return verdicts;
+  }
+}
+
+// Create singleton instance
+export const resultSafetyService = new ResultSafetyService();
+export default resultSafetyService;
@@ -0,0 +1,214 @@
+import {
+  BraveSearchProvider,
+  DuckDuckGoProvider,
+  LangSearchProvider,
+  SearXNGProvider,
+  SearchFallbackManager,
+  safeSearchForRole,
+  type RawSearchResult,
+  type SafeSearchLevel,
+  type SearchProvider,
+} from './searchProviders';
+
+type Role = 'guest' | 'student' | 'staff';
+
+interface CapturedRequest {
+  url: URL;
+  init: RequestInit;
+}
+
+// An empty but valid response for each provider's format
+const EMPTY_BODIES: Record<string, string> = {
+  LangSearch: JSON.stringify({ data: { webPages: { value: [] } } }),
+  'Brave Search': JSON.stringify({ web: { results: [] } }),
+  DuckDuckGo: '<html><body></body></html>',
+  SearXNG: JSON.stringify({ results: [] }),
+};
+
+const providers: Array<[string, () => SearchProvider]> = [
+  ['LangSearch', () => new LangSearchProvider('test-key')],
+  ['Brave Search', () => new BraveSearchProvider('test-key')],
+  ['DuckDuckGo', () => new DuckDuckGoProvider()],
+  ['SearXNG', () => new SearXNGProvider(['https://searx.example.org'])],
+];
+
+// The parameter each provider uses and the value expected for each level
+const EXPECTED: Record<string, { read: (request: CapturedRequest) => string | null; values: Record<SafeSearchLevel, string> | null }> = {
+  LangSearch: {
+    // No SafeSearch option - the request body must not invent one
+    read: (request) => JSON.parse(String(request.init.body)).safeSearch ?? null,
+    values: null,
+  },
+  'Brave Search': {
+    read: (request) => request.url.searchParams.get('safesearch'),
+    values: { strict: 'strict', moderate: 'moderate', off: 'off' },
+  },
+  DuckDuckGo: {
+    read: (request) => new URLSearchParams(String(request.init.body)).get('kp'),
+    values: { strict: '1', moderate: '-1', off: '-2' },
+  },
+  SearXNG: {
+    read: (request) => request.url.searchParams.get('safesearch'),
+    values: { strict: '2', moderate: '1', off: '0' },
+  },
+};
+
+const STAFF_LEVELS: SafeSearchLevel[] = ['strict', 'moderate', 'off'];
+const ROLES: Role[] = ['guest', 'student', 'staff'];
+
+// Every provider with every role, and staff with every configurable level
+const combinations = providers.flatMap(([name, create]) =>
+  ROLES.flatMap((role) =>
+    (role === 'staff' ? STAFF_LEVELS : ['moderate' as SafeSearchLevel]).map((staffLevel) => ({
+      name,
+      create,
+      role,
+      staffLevel,
+    }))
+  )
+);
+
+describe('provider SafeSearch', () => {
+  let requests: CapturedRequest[];
+
+  beforeEach(() => {
+    requests = [];
+    global.fetch = jest.fn((input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = new URL(String(input));
+      requests.push({ url, init });
+      const name = providers.find(([provider]) => url.hostname.includes(provider.split(' ')[0].toLowerCase()))?.[0];
+      const body = EMPTY_BODIES[name || ''] ?? EMPTY_BODIES.SearXNG;
+      return Promise.resolve(new Response(body, { status: 200 }));
+    }) as jest.Mock;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test.each([
+    ['guest', 'moderate', 'strict'],
+    ['student', 'off', 'strict'],
+    ['staff', 'moderate', 'moderate'],
+    ['staff', 'off', 'off'],
+    ['staff', 'strict', 'strict'],
+  ] as Array<[Role, SafeSearchLevel, SafeSearchLevel]>)('%s with staff level %s searches with %s', (role, staffLevel, expected) => {
+    expect(safeSearchForRole(role, staffLevel)).toBe(expected);
+  });
+
+  test.each(combinations)('$name sends the right SafeSearch for $role (staff level $staffLevel)', async ({ name, create, role, staffLevel }) => {
+    const level = safeSearchForRole(role, staffLevel);
+    await create().search('volcanoes', 8, 0, undefined, level);
+
+    expect(requests).toHaveLength(1);
+    const { read, values } = EXPECTED[name];
+    expect(read(requests[0])).toBe(values ? values[level] : null);
+  });
+
+  test.each(providers.filter(([name]) => EXPECTED[name].values))('%s is strict when no level is given', async (name, create) => {
+    await create().search('volcanoes');
+
+    expect(EXPECTED[name].read(requests[0])).toBe(EXPECTED[name].values!.strict);
+  });
+
+  test.each(['search', 'searchFederated'] as const)('the fallback manager passes the level to providers (%s)', async (method) => {
+    const provider: SearchProvider = {
+      name: 'Stub',
+      isAvailable: () => Promise.resolve(true),
+      search: jest.fn(() => Promise.resolve([{ title: 'Volcano', url: 'https://example.org/volcano', snippet: '', domain: 'example.org' }])),
+    };
+    const manager = new SearchFallbackManager();
+    manager.addProvider(provider);
+
+    if (method === 'search') {
+      await manager.search('volcanoes', 8, 0, undefined, 'off');
+    } else {
+      await manager.searchFederated('volcanoes', 8, 1000, 0, undefined, 'off');
+    }
+
+    expect(provider.search).toHaveBeenCalledWith('volcanoes', 8, 0, undefined, 'off');
+  });
+});
+
+describe('provider circuit breaker', () => {
+  const volcano = { title: 'Volcano', url: 'https://example.org/volcano', snippet: '', domain: 'example.org' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('lets a single trial request through once the cool-down is over', async () => {
+    let finishTrial: (results: RawSearchResult[]) => void = () => {};
+    const search = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('down'))
+      .mockReturnValueOnce(new Promise<RawSearchResult[]>((resolve) => (finishTrial = resolve)))
+      .mockResolvedValue([volcano]);
+    const manager = new SearchFallbackManager({ failureThreshold: 1, cooldownMs: 0 });
+    manager.addProvider({ name: 'Stub', isAvailable: () => Promise.resolve(true), search });
+
+    await expect(manager.search('volcanoes')).rejects.toThrow('All search providers failed');
+
+    const trial = manager.search('volcanoes');
+    await expect(manager.search('volcanoes')).rejects.toThrow('All search providers failed');
+    await expect(manager.searchFederated('volcanoes')).rejects.toThrow('All search providers failed');
+
+    finishTrial([volcano]);
+    await expect(trial).resolves.toHaveLength(1);
+    await expect(manager.search('volcanoes')).resolves.toHaveLength(1);
+    expect(search).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('SearXNG paging', () => {
+  const PAGE_SIZE = 20;
+  const TOTAL = 50;
+  let pagesRequested: number[];
+
+  beforeEach(() => {
+    pagesRequested = [];
+    global.fetch = jest.fn((input: RequestInfo | URL) => {
+      const pageno = Number(new URL(String(input)).searchParams.get('pageno'));
+      pagesRequested.push(pageno);
+      const first = (pageno - 1) * PAGE_SIZE + 1;
+      const results = Array.from({ length: Math.max(0, Math.min(PAGE_SIZE, TOTAL - first + 1)) }, (_, index) => ({
+        title: `Result ${first + index}`,
+        url: `https://example.org/${first + index}`,
+        content: '',
+      }));
+      return Promise.resolve(new Response(JSON.stringify({ results }), { status: 200 }));
+    }) as jest.Mock;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const titles = (results: RawSearchResult[]) => results.map((result) => Number(result.title.split(' ')[1]));
+
+  test('pages of ours follow on from each other whatever the instance page size', async () => {
+    const provider = new SearXNGProvider(['https://searx.example.org']);
+    const pages: number[][] = [];
+    for (let offset = 0; offset < TOTAL; offset += 8) {
+      pages.push(titles(await provider.search('volcanoes', 8, offset)));
+    }
+
+    expect(pages.flat()).toEqual(Array.from({ length: TOTAL }, (_, index) => index + 1));
+  });
+
+  test('a page that crosses an instance page boundary reads both', async () => {
+    const provider = new SearXNGProvider(['https://searx.example.org']);
+    await provider.search('volcanoes', 8, 0);
+    pagesRequested = [];
+
+    expect(titles(await provider.search('volcanoes', 8, 16))).toEqual([17, 18, 19, 20, 21, 22, 23, 24]);
+    expect(pagesRequested).toEqual([1, 2]);
+  });
+});
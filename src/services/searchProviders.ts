@@ -1,320 +1,1017 @@
-/**
- * Multi-Provider Search Fallback System
- * Provides reliable search with automatic fallback to multiple free APIs
- *
- * Provider Priority:
- * 1. LangSearch (primary) - Free tier available
- * 2. Brave Search API - 2,000 free queries/month
- * 3. DuckDuckGo HTML Scraping - Unlimited, free
- * 4. SearXNG Public Instance - Unlimited, free
- */
-
-export interface RawSearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-  domain: string;
-  favicon?: string;
-  datePublished?: string;
-}
-
-export interface SearchProvider {
-  name: string;
-  search(query: string, count?: number): Promise<RawSearchResult[]>;
-  isAvailable(): Promise<boolean>;
-}
-
-/**
- * LangSearch Provider (Primary)
- */
-export class LangSearchProvider implements SearchProvider {
-  name = 'LangSearch';
-  private apiKey: string;
-  private baseUrl = 'https://api.langsearch.com/v1/web-search';
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
-  async isAvailable(): Promise<boolean> {
-    // Quick availability check - just verify we have an API key
-    return !!this.apiKey;
-  }
-
-  async search(query: string, count: number = 8): Promise<RawSearchResult[]> {
-    console.log('🔍 Fetching from LangSearch:', this.baseUrl);
-
-    const requestBody = {
-      query,
-      freshness: 'noLimit',
-      summary: false,
-      count
-    };
-
-    console.log('📤 LangSearch request:', JSON.stringify(requestBody, null, 2));
-
-    const response = await fetch(this.baseUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`LangSearch API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    console.log('📊 Total LangSearch results collected:', data.data?.webPages?.value?.length || 0);
-
-    const results = data.data?.webPages?.value || [];
-    return results.map((result: any) => ({
-      title: result.name,
-      url: result.url,
-      snippet: result.snippet,
-      domain: new URL(result.url).hostname,
-      favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`,
-      datePublished: result.datePublished
-    }));
-  }
-}
-
-/**
- * Brave Search API Provider (Fallback 1)
- * Free tier: 2,000 queries/month, no credit card required
- * Sign up: https://brave.com/search/api/
- */
-export class BraveSearchProvider implements SearchProvider {
-  name = 'Brave Search';
-  private apiKey: string;
-  private baseUrl = 'https://api.search.brave.com/res/v1/web/search';
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
-  async isAvailable(): Promise<boolean> {
-    return !!this.apiKey;
-  }
-
-  async search(query: string, count: number = 8): Promise<RawSearchResult[]> {
-    console.log('🦁 Fetching from Brave Search API');
-
-    const params = new URLSearchParams({
-      q: query,
-      count: count.toString(),
-      text_decorations: 'false',
-      search_lang: 'en'
-    });
-
-    const response = await fetch(`${this.baseUrl}?${params}`, {
-      headers: {
-        'Accept': 'application/json',
-        'Accept-Encoding': 'gzip',
-        'X-Subscription-Token': this.apiKey
-      }
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Brave Search API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    console.log('📊 Brave Search results:', data.web?.results?.length || 0);
-
-    const results = data.web?.results || [];
-    return results.map((result: any) => ({
-      title: result.title,
-      url: result.url,
-      snippet: result.description,
-      domain: new URL(result.url).hostname,
-      favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`,
-      datePublished: result.age
-    }));
-  }
-}
-
-/**
- * DuckDuckGo HTML Scraping Provider (Fallback 2)
- * Completely free, unlimited - scrapes HTML results
- */
-export class DuckDuckGoProvider implements SearchProvider {
-  name = 'DuckDuckGo';
-  private baseUrl = 'https://html.duckduckgo.com/html/';
-
-  async isAvailable(): Promise<boolean> {
-    return true; // Always available
-  }
-
-  async search(query: string, count: number = 8): Promise<RawSearchResult[]> {
-    console.log('🦆 Fetching from DuckDuckGo HTML');
-
-    const formData = new URLSearchParams({
-      q: query,
-      kl: 'us-en'
-    });
-
-    const response = await fetch(this.baseUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData
-    });
-
-    if (!response.ok) {
-      throw new Error(`DuckDuckGo error: ${response.status}`);
-    }
-
-    const html = await response.text();
-    return this.parseResults(html, count);
-  }
-
-  private parseResults(html: string, maxResults: number): RawSearchResult[] {
-    const results: RawSearchResult[] = [];
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-
-    const resultDivs = doc.querySelectorAll('.result');
-
-    for (let i = 0; i < Math.min(resultDivs.length, maxResults); i++) {
-      const resultDiv = resultDivs[i];
-
-      const titleElement = resultDiv.querySelector('.result__a');
-      const snippetElement = resultDiv.querySelector('.result__snippet');
-      const urlElement = resultDiv.querySelector('.result__url');
-
-      if (titleElement && urlElement) {
-        try {
-          const url = urlElement.getAttribute('href') || '';
-          const domain = new URL(url).hostname;
-
-          results.push({
-            title: titleElement.textContent?.trim() || '',
-            url: url,
-            snippet: snippetElement?.textContent?.trim() || '',
-            domain: domain,
-            favicon: `https://www.google.com/s2/favicons?domain=${domain}&sz=32`
-          });
-        } catch (e) {
-          // Skip invalid URLs
-          continue;
-        }
-      }
-    }
-
-    console.log('📊 DuckDuckGo results:', results.length);
-    return results;
-  }
-}
-
-/**
- * SearXNG Public Instance Provider (Fallback 3)
- * Free, unlimited - uses public SearXNG instances
- */
-export class SearXNGProvider implements SearchProvider {
-  name = 'SearXNG';
-  private instances = [
-    'https://searx.be',
-    'https://searx.work',
-    'https://search.bus-hit.me',
-  ];
-  private currentInstance = 0;
-
-  async isAvailable(): Promise<boolean> {
-    return true; // Always available
-  }
-
-  async search(query: string, count: number = 8): Promise<RawSearchResult[]> {
-    const instance = this.instances[this.currentInstance];
-    console.log(`🔍 Fetching from SearXNG: ${instance}`);
-
-    try {
-      const params = new URLSearchParams({
-        q: query,
-        format: 'json',
-        categories: 'general',
-        language: 'en'
-      });
-
-      const response = await fetch(`${instance}/search?${params}`, {
-        headers: {
-          'Accept': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`SearXNG error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      console.log('📊 SearXNG results:', data.results?.length || 0);
-
-      const results = (data.results || []).slice(0, count);
-      return results.map((result: any) => ({
-        title: result.title,
-        url: result.url,
-        snippet: result.content || result.title,
-        domain: new URL(result.url).hostname,
-        favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`,
-        datePublished: result.publishedDate
-      }));
-    } catch (error) {
-      // Try next instance on failure
-      this.currentInstance = (this.currentInstance + 1) % this.instances.length;
-      throw error;
-    }
-  }
-}
-
-/**
- * Fallback Manager - Tries providers in order until one succeeds
- */
-export class SearchFallbackManager {
-  private providers: SearchProvider[] = [];
-
-  addProvider(provider: SearchProvider) {
-    this.providers.push(provider);
-  }
-
-  async search(query: string, count: number = 8): Promise<RawSearchResult[]> {
-    const errors: Array<{ provider: string; error: string }> = [];
-
-    for (const provider of this.providers) {
-      try {
-        const isAvailable = await provider.isAvailable();
-        if (!isAvailable) {
-          console.log(`⏭️ Skipping ${provider.name} - not available`);
-          continue;
-        }
-
-        console.log(`🔄 Trying ${provider.name}...`);
-        const results = await provider.search(query, count);
-
-        if (results && results.length > 0) {
-          console.log(`✅ ${provider.name} succeeded with ${results.length} results`);
-          return results;
-        }
-      } catch (error: any) {
-        const errorMsg = error.message || String(error);
-        console.warn(`⚠️ ${provider.name} failed:`, errorMsg);
-        errors.push({ provider: provider.name, error: errorMsg });
-
-        // Continue to next provider
-        continue;
-      }
-    }
-
-    // All providers failed
-    const errorSummary = errors.map(e => `${e.provider}: ${e.error}`).join('; ');
-    throw new Error(`All search providers failed: ${errorSummary}`);
-  }
-
-  getProviderNames(): string[] {
-    return this.providers.map(p => p.name);
-  }
-}
+/**
+ * Multi-Provider Search Fallback System
+ * Provides reliable search with automatic fallback to multiple free APIs
+ *
+ * Default Provider Priority (override with SEARCH_PROVIDERS in env.json):
+ * 1. LangSearch (primary) - Free tier available
+ * 2. Brave Search API - 2,000 free queries/month
+ * 3. DuckDuckGo HTML Scraping - Unlimited, free
+ * 4. SearXNG Public Instance - Unlimited, free
+ *
+ * Additional providers can be registered with searchProviderRegistry.register()
+ * and then enabled by adding an entry with the same type to SEARCH_PROVIDERS.
+ */
+
+import type { SearchProviderConfig } from '../config/app-config';
+
+export interface RawSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  domain: string;
+  favicon?: string;
+  datePublished?: string;
+  providers?: string[]; // names of the providers that returned this result
+}
+
+export type SearchFreshness = 'any' | 'day' | 'week' | 'month' | 'year';
+// How much explicit content the provider itself filters out - strict unless the searcher is staff
+export type SafeSearchLevel = 'strict' | 'moderate' | 'off';
+export type SearchFileType = 'any' | 'pdf' | 'doc' | 'ppt' | 'xls';
+
+export interface SearchFilters {
+  freshness: SearchFreshness;
+  includeSites: string[]; // only results from these domains (and their subdomains)
+  excludeSites: string[];
+  fileType: SearchFileType;
+  category: string; // 'any' or a result category, applied after categorisation
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  freshness: 'any',
+  includeSites: [],
+  excludeSites: [],
+  fileType: 'any',
+  category: 'any',
+};
+
+export interface SearchProvider {
+  name: string;
+  // offset is the 0-based rank of the first result wanted, for paging.
+  // Filters the provider can't express natively are enforced by applySearchFilters afterwards.
+  // safeSearch defaults to 'strict', so a caller that forgets it can't loosen filtering
+  search(
+    query: string,
+    count?: number,
+    offset?: number,
+    filters?: SearchFilters,
+    safeSearch?: SafeSearchLevel
+  ): Promise<RawSearchResult[]>;
+  isAvailable(): Promise<boolean>;
+}
+
+const FRESHNESS_DAYS: Record<Exclude<SearchFreshness, 'any'>, number> = {
+  day: 1,
+  week: 7,
+  month: 31,
+  year: 366,
+};
+
+const FILE_EXTENSIONS: Record<Exclude<SearchFileType, 'any'>, string[]> = {
+  pdf: ['pdf'],
+  doc: ['doc', 'docx', 'odt', 'rtf'],
+  ppt: ['ppt', 'pptx', 'odp'],
+  xls: ['xls', 'xlsx', 'ods', 'csv'],
+};
+
+/**
+ * Map a file extension such as "docx" to the file type filter that covers it
+ */
+export const fileTypeFromExtension = (extension: string): SearchFileType | null => {
+  const normalized = extension.toLowerCase().replace(/^\./, '');
+  const match = (Object.keys(FILE_EXTENSIONS) as Array<Exclude<SearchFileType, 'any'>>)
+    .find((fileType) => FILE_EXTENSIONS[fileType].includes(normalized));
+  return match || null;
+};
+
+/**
+ * The SafeSearch level for a role - guests and students are always strict,
+ * staff get the configured level (SEARCH_STAFF_SAFESEARCH)
+ */
+export const safeSearchForRole = (
+  userRole: 'guest' | 'student' | 'staff',
+  staffLevel: SafeSearchLevel = 'moderate'
+): SafeSearchLevel => (userRole === 'staff' ? staffLevel : 'strict');
+
+export const hasActiveFilters = (filters?: SearchFilters): boolean =>
+  !!filters &&
+  (filters.freshness !== 'any' ||
+    filters.includeSites.length > 0 ||
+    filters.excludeSites.length > 0 ||
+    filters.fileType !== 'any' ||
+    filters.category !== 'any');
+
+/**
+ * Stable string form of the filters for cache keys - the same filters always give the same key
+ */
+export const serializeFilters = (filters?: SearchFilters): string => {
+  if (!hasActiveFilters(filters)) return 'none';
+  const { freshness, includeSites, excludeSites, fileType, category } = filters!;
+  return [
+    freshness,
+    [...includeSites].sort().join(','),
+    [...excludeSites].sort().join(','),
+    fileType,
+    category,
+  ].join('|');
+};
+
+/**
+ * Append site:, -site: and filetype: operators for providers whose query syntax supports them
+ */
+export const buildFilteredQuery = (query: string, filters?: SearchFilters): string => {
+  if (!filters) return query;
+
+  const operators: string[] = [];
+  if (filters.includeSites.length === 1) {
+    operators.push(`site:${filters.includeSites[0]}`);
+  } else if (filters.includeSites.length > 1) {
+    operators.push(`(${filters.includeSites.map((site) => `site:${site}`).join(' OR ')})`);
+  }
+  filters.excludeSites.forEach((site) => operators.push(`-site:${site}`));
+  if (filters.fileType !== 'any') {
+    operators.push(`filetype:${FILE_EXTENSIONS[filters.fileType][0]}`);
+  }
+
+  return operators.length > 0 ? `${query} ${operators.join(' ')}` : query;
+};
+
+const matchesSite = (domain: string, site: string) => {
+  const host = domain.toLowerCase().replace(/^www\./, '');
+  const target = site.toLowerCase().replace(/^www\./, '');
+  return host === target || host.endsWith(`.${target}`);
+};
+
+/**
+ * Client-side fallback for filters a provider ignored or only partly supports.
+ * Results without a parseable date are kept - providers that filter by date
+ * natively often omit it, and dropping them would empty the page
+ */
+export const applySearchFilters = (results: RawSearchResult[], filters?: SearchFilters): RawSearchResult[] => {
+  if (!hasActiveFilters(filters)) return results;
+  const { freshness, includeSites, excludeSites, fileType } = filters!;
+  const oldest = freshness === 'any' ? null : Date.now() - FRESHNESS_DAYS[freshness] * 24 * 60 * 60 * 1000;
+
+  return results.filter((result) => {
+    if (includeSites.length > 0 && !includeSites.some((site) => matchesSite(result.domain, site))) return false;
+    if (excludeSites.some((site) => matchesSite(result.domain, site))) return false;
+
+    if (fileType !== 'any') {
+      let path = result.url.toLowerCase();
+      try {
+        path = new URL(result.url).pathname.toLowerCase();
+      } catch {
+        // Keep the raw URL
+      }
+      if (!FILE_EXTENSIONS[fileType].some((extension) => path.endsWith(`.${extension}`))) return false;
+    }
+
+    if (oldest !== null && result.datePublished) {
+      const published = new Date(result.datePublished).getTime();
+      if (!isNaN(published) && published < oldest) return false;
+    }
+
+    return true;
+  });
+};
+
+export type SearchProviderFactory = (options: SearchProviderConfig) => SearchProvider;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Largest count the LangSearch API accepts, which also caps how deep it can page
+const LANGSEARCH_MAX_COUNT = 10;
+
+const LANGSEARCH_FRESHNESS: Record<SearchFreshness, string> = {
+  any: 'noLimit',
+  day: 'oneDay',
+  week: 'oneWeek',
+  month: 'oneMonth',
+  year: 'oneYear',
+};
+
+// Brave, DuckDuckGo and SearXNG freshness codes, in that order
+const BRAVE_FRESHNESS: Record<Exclude<SearchFreshness, 'any'>, string> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+const DUCKDUCKGO_FRESHNESS: Record<Exclude<SearchFreshness, 'any'>, string> = { day: 'd', week: 'w', month: 'm', year: 'y' };
+const SEARXNG_TIME_RANGE: Record<Exclude<SearchFreshness, 'any'>, string> = { day: 'day', week: 'week', month: 'month', year: 'year' };
+
+// Brave's safesearch, DuckDuckGo's kp and SearXNG's safesearch values for each level
+const BRAVE_SAFESEARCH: Record<SafeSearchLevel, string> = { strict: 'strict', moderate: 'moderate', off: 'off' };
+const DUCKDUCKGO_SAFESEARCH: Record<SafeSearchLevel, string> = { strict: '1', moderate: '-1', off: '-2' };
+const SEARXNG_SAFESEARCH: Record<SafeSearchLevel, string> = { strict: '2', moderate: '1', off: '0' };
+
+export const DEFAULT_SEARXNG_INSTANCES = [
+  'https://searx.be',
+  'https://searx.work',
+  'https://search.bus-hit.me',
+];
+
+/**
+ * fetch() that aborts after timeoutMs so a slow provider falls through to the next one
+ */
+const fetchWithTimeout = async (url: string, init: RequestInit, timeoutMs: number): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw new Error(`Request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * LangSearch Provider (Primary)
+ */
+export class LangSearchProvider implements SearchProvider {
+  name = 'LangSearch';
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(apiKey: string, timeoutMs: number = DEFAULT_TIMEOUT_MS, endpoint?: string) {
+    this.apiKey = apiKey;
+    this.timeoutMs = timeoutMs;
+    this.baseUrl = endpoint || 'https://api.langsearch.com/v1/web-search';
+  }
+
+  async isAvailable(): Promise<boolean> {
+    // Quick availability check - just verify we have an API key
+    return !!this.apiKey;
+  }
+
+  async search(
+    query: string,
+    count: number = 8,
+    offset: number = 0,
+    filters?: SearchFilters
+  ): Promise<RawSearchResult[]> {
+    console.log('🔍 Fetching from LangSearch:', this.baseUrl);
+
+    // LangSearch has no offset - ask for everything up to the page and drop the earlier results.
+    // Only freshness is native; site and file type filters are applied client-side.
+    // It has no SafeSearch option either - its results rely on the moderation rules and domain filtering
+    const requestBody = {
+      query,
+      freshness: LANGSEARCH_FRESHNESS[filters?.freshness || 'any'],
+      summary: false,
+      count: Math.min(offset + count, LANGSEARCH_MAX_COUNT)
+    };
+
+    console.log('📤 LangSearch request:', JSON.stringify(requestBody, null, 2));
+
+    const response = await fetchWithTimeout(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(requestBody),
+    }, this.timeoutMs);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`LangSearch API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    console.log('📊 Total LangSearch results collected:', data.data?.webPages?.value?.length || 0);
+
+    const results = (data.data?.webPages?.value || []).slice(offset, offset + count);
+    return results.map((result: any) => ({
+      title: result.name,
+      url: result.url,
+      snippet: result.snippet,
+      domain: new URL(result.url).hostname,
+      favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`,
+      datePublished: result.datePublished
+    }));
+  }
+}
+
+/**
+ * Brave Search API Provider (Fallback 1)
+ * Free tier: 2,000 queries/month, no credit card required
+ * Sign up: https://brave.com/search/api/
+ */
+export class BraveSearchProvider implements SearchProvider {
+  name = 'Brave Search';
+  private apiKey: string;
+  private baseUrl = 'https://api.search.brave.com/res/v1/web/search';
+  private timeoutMs: number;
+
+  constructor(apiKey: string, timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    this.apiKey = apiKey;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !!this.apiKey;
+  }
+
+  async search(
+    query: string,
+    count: number = 8,
+    offset: number = 0,
+    filters?: SearchFilters,
+    safeSearch: SafeSearchLevel = 'strict'
+  ): Promise<RawSearchResult[]> {
+    console.log('🦁 Fetching from Brave Search API');
+
+    // Brave's offset counts pages of `count` results, not individual results
+    const params = new URLSearchParams({
+      q: buildFilteredQuery(query, filters),
+      count: count.toString(),
+      offset: Math.floor(offset / count).toString(),
+      text_decorations: 'false',
+      search_lang: 'en',
+      safesearch: BRAVE_SAFESEARCH[safeSearch]
+    });
+    if (filters && filters.freshness !== 'any') {
+      params.set('freshness', BRAVE_FRESHNESS[filters.freshness]);
+    }
+
+    const response = await fetchWithTimeout(`${this.baseUrl}?${params}`, {
+      headers: {
+        'Accept': 'application/json',
+        'Accept-Encoding': 'gzip',
+        'X-Subscription-Token': this.apiKey
+      }
+    }, this.timeoutMs);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Brave Search API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    console.log('📊 Brave Search results:', data.web?.results?.length || 0);
+
+    const results = data.web?.results || [];
+    return results.map((result: any) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.description,
+      domain: new URL(result.url).hostname,
+      favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`,
+      datePublished: result.age
+    }));
+  }
+}
+
+/**
+ * DuckDuckGo HTML Scraping Provider (Fallback 2)
+ * Completely free, unlimited - scrapes HTML results
+ */
+export class DuckDuckGoProvider implements SearchProvider {
+  name = 'DuckDuckGo';
+  private baseUrl = 'https://html.duckduckgo.com/html/';
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true; // Always available
+  }
+
+  async search(
+    query: string,
+    count: number = 8,
+    offset: number = 0,
+    filters?: SearchFilters,
+    safeSearch: SafeSearchLevel = 'strict'
+  ): Promise<RawSearchResult[]> {
+    console.log('🦆 Fetching from DuckDuckGo HTML');
+
+    const formData = new URLSearchParams({
+      q: buildFilteredQuery(query, filters),
+      kl: 'us-en',
+      kp: DUCKDUCKGO_SAFESEARCH[safeSearch]
+    });
+    if (filters && filters.freshness !== 'any') {
+      formData.set('df', DUCKDUCKGO_FRESHNESS[filters.freshness]);
+    }
+
+    // The HTML endpoint pages with s (results to skip) and dc (rank of the first result)
+    if (offset > 0) {
+      formData.set('s', offset.toString());
+      formData.set('dc', (offset + 1).toString());
+    }
+
+    const response = await fetchWithTimeout(this.baseUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData
+    }, this.timeoutMs);
+
+    if (!response.ok) {
+      throw new Error(`DuckDuckGo error: ${response.status}`);
+    }
+
+    const html = await response.text();
+    return this.parseResults(html, count);
+  }
+
+  private parseResults(html: string, maxResults: number): RawSearchResult[] {
+    const results: RawSearchResult[] = [];
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(html, 'text/html');
+
+    const resultDivs = doc.querySelectorAll('.result');
+
+    for (let i = 0; i < Math.min(resultDivs.length, maxResults); i++) {
+      const resultDiv = resultDivs[i];
+
+      const titleElement = resultDiv.querySelector('.result__a');
+      const snippetElement = resultDiv.querySelector('.result__snippet');
+      const urlElement = resultDiv.querySelector('.result__url');
+
+      if (titleElement && urlElement) {
+        try {
+          const url = urlElement.getAttribute('href') || '';
+          const domain = new URL(url).hostname;
+
+          results.push({
+            title: titleElement.textContent?.trim() || '',
+            url: url,
+            snippet: snippetElement?.textContent?.trim() || '',
+            domain: domain,
+            favicon: `https://www.google.com/s2/favicons?domain=${domain}&sz=32`
+          });
+        } catch (e) {
+          // Skip invalid URLs
+          continue;
+        }
+      }
+    }
+
+    console.log('📊 DuckDuckGo results:', results.length);
+    return results;
+  }
+}
+
+/**
+ * SearXNG Provider (Fallback 3)
+ * Free, unlimited - uses public SearXNG instances unless configured with our own
+ */
+export class SearXNGProvider implements SearchProvider {
+  name = 'SearXNG';
+  private instances: string[];
+  private currentInstance = 0;
+  private timeoutMs: number;
+  // Results on each instance's first page - instances choose their own page size
+  private pageSizes = new Map<string, number>();
+
+  constructor(instances: string[] = DEFAULT_SEARXNG_INSTANCES, timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    this.instances = instances.map((instance) => instance.replace(/\/+$/, ''));
+    this.timeoutMs = timeoutMs;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.instances.length > 0;
+  }
+
+  async search(
+    query: string,
+    count: number = 8,
+    offset: number = 0,
+    filters?: SearchFilters,
+    safeSearch: SafeSearchLevel = 'strict'
+  ): Promise<RawSearchResult[]> {
+    const instance = this.instances[this.currentInstance];
+    console.log(`🔍 Fetching from SearXNG: ${instance}`);
+
+    try {
+      const params = new URLSearchParams({
+        q: buildFilteredQuery(query, filters),
+        format: 'json',
+        categories: 'general',
+        language: 'en',
+        safesearch: SEARXNG_SAFESEARCH[safeSearch]
+      });
+      if (filters && filters.freshness !== 'any') {
+        params.set('time_range', SEARXNG_TIME_RANGE[filters.freshness]);
+      }
+
+      // Find the instance page our offset falls on (the first one until its size is known),
+      // then read on across page boundaries until we have a page of ours
+      const pageSize = this.pageSizes.get(instance);
+      let pageno = pageSize ? Math.floor(offset / pageSize) + 1 : 1;
+      let skip = pageSize ? offset % pageSize : offset;
+      const results: any[] = [];
+
+      while (results.length < count) {
+        params.set('pageno', pageno.toString());
+        const response = await fetchWithTimeout(`${instance}/search?${params}`, {
+          headers: {
+            'Accept': 'application/json'
+          }
+        }, this.timeoutMs);
+
+        if (!response.ok) {
+          throw new Error(`SearXNG error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        const pageResults: any[] = data.results || [];
+        console.log('📊 SearXNG results:', pageResults.length, 'on page', pageno);
+
+        if (pageno === 1 && pageResults.length > 0) {
+          this.pageSizes.set(instance, pageResults.length);
+        }
+        results.push(...pageResults.slice(skip));
+        skip = Math.max(0, skip - pageResults.length);
+
+        // A short page is the last one
+        if (pageResults.length === 0 || pageResults.length < (this.pageSizes.get(instance) || 0)) break;
+        pageno++;
+      }
+
+      return results.slice(0, count).map((result: any) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.content || result.title,
+        domain: new URL(result.url).hostname,
+        favicon: `https://www.google.com/s2/favicons?domain=${new URL(result.url).hostname}&sz=32`,
+        datePublished: result.publishedDate
+      }));
+    } catch (error) {
+      // Try next instance on failure
+      this.currentInstance = (this.currentInstance + 1) % this.instances.length;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Provider Registry - Maps the "type" used in SEARCH_PROVIDERS to a factory
+ */
+export class SearchProviderRegistry {
+  private factories = new Map<string, SearchProviderFactory>();
+
+  register(type: string, factory: SearchProviderFactory) {
+    if (this.factories.has(type)) {
+      console.warn(`⚠️ Replacing registered search provider: ${type}`);
+    }
+    this.factories.set(type, factory);
+  }
+
+  unregister(type: string) {
+    this.factories.delete(type);
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  getTypes(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(options: SearchProviderConfig): SearchProvider | null {
+    const factory = this.factories.get(options.type);
+    if (!factory) {
+      console.warn(`⚠️ Unknown search provider type: ${options.type}`);
+      return null;
+    }
+
+    const provider = factory(options);
+    if (options.name) {
+      provider.name = options.name;
+    }
+    return provider;
+  }
+}
+
+export const searchProviderRegistry = new SearchProviderRegistry();
+
+searchProviderRegistry.register('langsearch', (options) =>
+  new LangSearchProvider(options.apiKey || '', options.timeoutMs, options.endpoint)
+);
+searchProviderRegistry.register('brave', (options) =>
+  new BraveSearchProvider(options.apiKey || '', options.timeoutMs)
+);
+searchProviderRegistry.register('duckduckgo', (options) =>
+  new DuckDuckGoProvider(options.timeoutMs)
+);
+searchProviderRegistry.register('searxng', (options) =>
+  new SearXNGProvider(options.instances?.length ? options.instances : DEFAULT_SEARXNG_INSTANCES, options.timeoutMs)
+);
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderHealth {
+  name: string;
+  available: boolean;
+  circuit: CircuitState;
+  totalRequests: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  successRate: number | null;
+  latency: { p50: number | null; p95: number | null; p99: number | null };
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  openUntil?: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before the circuit opens
+  cooldownMs: number; // how long an open circuit skips the provider
+  latencySamples: number; // rolling window for latency percentiles
+}
+
+interface ProviderEntry {
+  provider: SearchProvider;
+  timeoutMs: number;
+  available: boolean;
+  circuit: CircuitState;
+  openUntil: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  trialInFlight: boolean; // the half-open trial request has not settled yet
+  latencies: number[];
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+}
+
+const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60000,
+  latencySamples: 50,
+};
+
+const percentile = (samples: number[], p: number): number | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return Math.round(sorted[Math.max(0, index)]);
+};
+
+// Reciprocal rank fusion constant - dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+const TRACKING_PARAMS = /^(utm_.+|fbclid|gclid|msclkid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/**
+ * Reduce a URL to the form used for de-duplication across providers:
+ * scheme-less, lowercase host without www, no fragment, tracking params or trailing slash
+ */
+export const normalizeResultUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`;
+  } catch {
+    return url.trim().toLowerCase().replace(/\/+$/, '');
+  }
+};
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion: each result scores
+ * 1 / (k + rank) per list it appears in, so agreement between providers wins
+ */
+export const mergeRankedResults = (lists: Array<{ provider: string; results: RawSearchResult[] }>): RawSearchResult[] => {
+  const merged = new Map<string, { result: RawSearchResult; score: number; firstSeen: number }>();
+
+  lists.forEach(({ provider, results }) => {
+    const seenInList = new Set<string>();
+
+    results.forEach((result, rank) => {
+      const key = normalizeResultUrl(result.url);
+      if (seenInList.has(key)) return;
+      seenInList.add(key);
+
+      const score = 1 / (RRF_K + rank + 1);
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, {
+          result: { ...result, providers: [provider] },
+          score,
+          firstSeen: merged.size,
+        });
+        return;
+      }
+
+      existing.score += score;
+      existing.result = {
+        ...existing.result,
+        snippet: result.snippet.length > existing.result.snippet.length ? result.snippet : existing.result.snippet,
+        favicon: existing.result.favicon || result.favicon,
+        datePublished: existing.result.datePublished || result.datePublished,
+        providers: [...(existing.result.providers || []), provider],
+      };
+    });
+  });
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || a.firstSeen - b.firstSeen)
+    .map((entry) => entry.result);
+};
+
+/**
+ * Fallback Manager - Tries providers in order until one succeeds, or queries them
+ * all at once and merges the rankings in federated mode
+ * Tracks health per provider and skips providers whose circuit is open, so an
+ * outage costs its failure latency only until the breaker trips
+ */
+export class SearchFallbackManager {
+  private providers: ProviderEntry[] = [];
+  private options: CircuitBreakerOptions;
+  private listeners: Array<(health: ProviderHealth[]) => void> = [];
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_OPTIONS, ...options };
+  }
+
+  addProvider(provider: SearchProvider, timeoutMs: number = DEFAULT_TIMEOUT_MS) {
+    this.providers.push({
+      provider,
+      timeoutMs,
+      available: true,
+      circuit: 'closed',
+      openUntil: 0,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      trialInFlight: false,
+      latencies: [],
+    });
+  }
+
+  async search(
+    query: string,
+    count: number = 8,
+    offset: number = 0,
+    filters?: SearchFilters,
+    safeSearch: SafeSearchLevel = 'strict'
+  ): Promise<RawSearchResult[]> {
+    const errors: Array<{ provider: string; error: string }> = [];
+
+    for (const entry of this.providers) {
+      const { provider } = entry;
+
+      if (!this.allowRequest(entry)) {
+        console.log(`⏭️ Skipping ${provider.name} - ${this.describeCircuit(entry)}`);
+        continue;
+      }
+
+      const startedAt = Date.now();
+
+      try {
+        entry.available = await provider.isAvailable();
+        if (!entry.available) {
+          console.log(`⏭️ Skipping ${provider.name} - not available`);
+          entry.trialInFlight = false;
+          this.notifyListeners();
+          continue;
+        }
+
+        console.log(`🔄 Trying ${provider.name}...`);
+        const results = applySearchFilters(
+          await this.withTimeout(provider.search(query, count, offset, filters, safeSearch), entry.timeoutMs),
+          filters
+        );
+        this.recordSuccess(entry, Date.now() - startedAt);
+
+        if (results && results.length > 0) {
+          console.log(`✅ ${provider.name} succeeded with ${results.length} results`);
+          return results.map((result) => ({ ...result, providers: [provider.name] }));
+        }
+      } catch (error: any) {
+        const errorMsg = error.message || String(error);
+        console.warn(`⚠️ ${provider.name} failed:`, errorMsg);
+        errors.push({ provider: provider.name, error: errorMsg });
+        this.recordFailure(entry, Date.now() - startedAt, errorMsg);
+
+        // Continue to next provider
+        continue;
+      }
+    }
+
+    // All providers failed
+    const errorSummary = errors.map(e => `${e.provider}: ${e.error}`).join('; ');
+    throw new Error(`All search providers failed: ${errorSummary}`);
+  }
+
+  /**
+   * Federated search - queries every allowed provider in parallel and merges
+   * whatever has arrived by the deadline. Late responses still count towards
+   * provider health but are left out of the merged results
+   */
+  async searchFederated(
+    query: string,
+    count: number = 8,
+    deadlineMs: number = 4000,
+    offset: number = 0,
+    filters?: SearchFilters,
+    safeSearch: SafeSearchLevel = 'strict'
+  ): Promise<RawSearchResult[]> {
+    const errors: Array<{ provider: string; error: string }> = [];
+    const completed: Array<{ provider: string; results: RawSearchResult[]; order: number }> = [];
+
+    const attempts = this.providers.map(async (entry, order) => {
+      const { provider } = entry;
+
+      if (!this.allowRequest(entry)) {
+        console.log(`⏭️ Skipping ${provider.name} - ${this.describeCircuit(entry)}`);
+        return;
+      }
+
+      const startedAt = Date.now();
+
+      try {
+        entry.available = await provider.isAvailable();
+        if (!entry.available) {
+          console.log(`⏭️ Skipping ${provider.name} - not available`);
+          entry.trialInFlight = false;
+          this.notifyListeners();
+          return;
+        }
+
+        const results = applySearchFilters(
+          await this.withTimeout(provider.search(query, count, offset, filters, safeSearch), entry.timeoutMs),
+          filters
+        );
+        this.recordSuccess(entry, Date.now() - startedAt);
+        console.log(`✅ ${provider.name} returned ${results.length} results in ${Date.now() - startedAt}ms`);
+        completed.push({ provider: provider.name, results, order });
+      } catch (error: any) {
+        const errorMsg = error.message || String(error);
+        console.warn(`⚠️ ${provider.name} failed:`, errorMsg);
+        errors.push({ provider: provider.name, error: errorMsg });
+        this.recordFailure(entry, Date.now() - startedAt, errorMsg);
+      }
+    });
+
+    console.log(`🔀 Federated search across ${this.providers.length} providers (deadline ${deadlineMs}ms)`);
+
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(attempts),
+      new Promise<void>((resolve) => {
+        deadlineTimer = setTimeout(resolve, deadlineMs);
+      }),
+    ]);
+    clearTimeout(deadlineTimer);
+
+    // Snapshot so late arrivals can't change the list while it is merged; keep configured order for ties
+    const lists = [...completed].sort((a, b) => a.order - b.order);
+    const merged = mergeRankedResults(lists);
+
+    if (merged.length > 0) {
+      console.log(`✅ Merged ${merged.length} results from ${lists.map((list) => list.provider).join(', ')}`);
+      return merged;
+    }
+
+    if (lists.length > 0) {
+      return [];
+    }
+
+    const errorSummary = errors.length > 0
+      ? errors.map(e => `${e.provider}: ${e.error}`).join('; ')
+      : `no provider responded within ${deadlineMs}ms`;
+    throw new Error(`All search providers failed: ${errorSummary}`);
+  }
+
+  getProviderNames(): string[] {
+    return this.providers.map(p => p.provider.name);
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.providers.map((entry) => {
+      const total = entry.successes + entry.failures;
+      return {
+        name: entry.provider.name,
+        available: entry.available,
+        circuit: entry.circuit === 'open' && Date.now() >= entry.openUntil ? 'half-open' : entry.circuit,
+        totalRequests: total,
+        successes: entry.successes,
+        failures: entry.failures,
+        consecutiveFailures: entry.consecutiveFailures,
+        successRate: total > 0 ? entry.successes / total : null,
+        latency: {
+          p50: percentile(entry.latencies, 50),
+          p95: percentile(entry.latencies, 95),
+          p99: percentile(entry.latencies, 99),
+        },
+        lastError: entry.lastError,
+        lastSuccessAt: entry.lastSuccessAt,
+        lastFailureAt: entry.lastFailureAt,
+        openUntil: entry.circuit === 'open' ? entry.openUntil : undefined,
+      };
+    });
+  }
+
+  /**
+   * Close every circuit so all providers are tried again on the next search
+   */
+  resetCircuits() {
+    this.providers.forEach((entry) => {
+      entry.circuit = 'closed';
+      entry.openUntil = 0;
+      entry.consecutiveFailures = 0;
+      entry.trialInFlight = false;
+    });
+    this.notifyListeners();
+  }
+
+  subscribe(callback: (health: ProviderHealth[]) => void) {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    const health = this.getHealth();
+    this.listeners.forEach((callback) => callback(health));
+  }
+
+  // Once the cool-down has passed, let a single trial request through (half-open);
+  // every other request is turned away until that trial settles
+  private allowRequest(entry: ProviderEntry): boolean {
+    if (entry.circuit === 'closed') return true;
+    if (entry.trialInFlight || Date.now() < entry.openUntil) return false;
+
+    entry.circuit = 'half-open';
+    entry.trialInFlight = true;
+    console.log(`🔌 ${entry.provider.name} cool-down over - trying again`);
+    return true;
+  }
+
+  private describeCircuit(entry: ProviderEntry): string {
+    return entry.trialInFlight
+      ? 'waiting on a trial request'
+      : `circuit open for ${Math.ceil((entry.openUntil - Date.now()) / 1000)}s`;
+  }
+
+  private recordSuccess(entry: ProviderEntry, latencyMs: number) {
+    entry.successes++;
+    entry.consecutiveFailures = 0;
+    entry.circuit = 'closed';
+    entry.trialInFlight = false;
+    entry.lastSuccessAt = Date.now();
+    this.recordLatency(entry, latencyMs);
+    this.notifyListeners();
+  }
+
+  private recordFailure(entry: ProviderEntry, latencyMs: number, errorMsg: string) {
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.lastError = errorMsg;
+    entry.lastFailureAt = Date.now();
+    entry.trialInFlight = false;
+    this.recordLatency(entry, latencyMs);
+
+    if (entry.circuit === 'half-open' || entry.consecutiveFailures >= this.options.failureThreshold) {
+      entry.circuit = 'open';
+      entry.openUntil = Date.now() + this.options.cooldownMs;
+      console.warn(`🚧 ${entry.provider.name} circuit opened for ${this.options.cooldownMs / 1000}s`);
+    }
+
+    this.notifyListeners();
+  }
+
+  private recordLatency(entry: ProviderEntry, latencyMs: number) {
+    entry.latencies.push(latencyMs);
+    if (entry.latencies.length > this.options.latencySamples) {
+      entry.latencies.shift();
+    }
+  }
+
+  // Providers time out their own fetches; this also bounds registered providers that don't
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
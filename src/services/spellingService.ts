@@ -0,0 +1,225 @@
+/**
+ * Spelling Service
+ * "Did you mean" corrections for students' queries, by edit distance against
+ * curriculum vocabulary and words from past searches that found results
+ */
+
+import { parseSearchQuery } from '../utils/queryParser';
+
+// Topic words students search for across the curriculum, most often misspelled
+const CURRICULUM_VOCABULARY = [
+  // Science
+  'science', 'biology', 'chemistry', 'physics', 'photosynthesis', 'chlorophyll', 'experiment',
+  'hypothesis', 'molecule', 'molecules', 'atom', 'atoms', 'electron', 'neutron', 'proton', 'energy',
+  'electricity', 'magnet', 'magnetism', 'gravity', 'friction', 'force', 'motion', 'temperature',
+  'evaporation', 'condensation', 'precipitation', 'weather', 'climate', 'volcano', 'volcanoes',
+  'earthquake', 'earthquakes', 'tsunami', 'dinosaur', 'dinosaurs', 'fossil', 'fossils', 'skeleton',
+  'digestive', 'respiratory', 'circulatory', 'nervous', 'system', 'organism', 'organisms', 'habitat',
+  'ecosystem', 'environment', 'animals', 'mammal', 'mammals', 'reptile', 'reptiles', 'amphibian',
+  'amphibians', 'insect', 'insects', 'butterfly', 'caterpillar', 'metamorphosis', 'plants', 'flower',
+  'seeds', 'bacteria', 'virus', 'cells', 'nucleus', 'genetics', 'evolution', 'planet', 'planets',
+  'solar', 'universe', 'galaxy', 'astronaut', 'telescope', 'mercury', 'venus', 'earth', 'mars',
+  'jupiter', 'saturn', 'uranus', 'neptune', 'moon', 'eclipse', 'oxygen', 'carbon', 'dioxide',
+  'hydrogen', 'nitrogen', 'water', 'cycle', 'recycling', 'pollution', 'renewable', 'rainforest',
+  'ocean', 'oceans', 'desert', 'mountain', 'river', 'rivers',
+  // Mathematics
+  'mathematics', 'maths', 'addition', 'subtraction', 'multiplication', 'division', 'fraction',
+  'fractions', 'decimal', 'decimals', 'percentage', 'percent', 'equation', 'equations', 'algebra',
+  'geometry', 'triangle', 'rectangle', 'square', 'circle', 'circumference', 'diameter', 'radius',
+  'perimeter', 'area', 'volume', 'angle', 'angles', 'parallel', 'perpendicular', 'symmetry',
+  'polygon', 'hexagon', 'pentagon', 'octagon', 'cylinder', 'sphere', 'pyramid', 'prism', 'graph',
+  'average', 'probability', 'statistics', 'number', 'numbers', 'prime', 'factor', 'factors',
+  'multiple', 'times', 'tables', 'measurement', 'calculus', 'trigonometry',
+  // English
+  'english', 'grammar', 'spelling', 'punctuation', 'apostrophe', 'comma', 'sentence', 'sentences',
+  'paragraph', 'noun', 'nouns', 'verb', 'verbs', 'adjective', 'adjectives', 'adverb', 'adverbs',
+  'pronoun', 'conjunction', 'preposition', 'synonym', 'antonym', 'homophone', 'vocabulary',
+  'literature', 'poetry', 'poem', 'poems', 'rhyme', 'story', 'stories', 'narrative', 'persuasive',
+  'character', 'setting', 'author', 'novel', 'shakespeare', 'reading', 'writing', 'metaphor',
+  'simile', 'alliteration', 'onomatopoeia',
+  // History, geography and society
+  'history', 'ancient', 'egypt', 'egyptian', 'pharaoh', 'pyramids', 'greece', 'greek', 'rome',
+  'roman', 'romans', 'medieval', 'castle', 'knights', 'vikings', 'explorer', 'explorers', 'colony',
+  'federation', 'parliament', 'government', 'democracy', 'election', 'constitution', 'aboriginal',
+  'indigenous', 'australia', 'australian', 'continent', 'continents', 'country', 'countries',
+  'europe', 'africa', 'asia', 'america', 'antarctica', 'geography', 'population', 'culture',
+  'religion', 'christianity', 'bible', 'jesus', 'easter', 'christmas', 'world', 'war', 'anzac',
+  'gallipoli', 'revolution', 'civilisation', 'civilization', 'timeline', 'map', 'maps',
+  // Technology and the arts
+  'technology', 'computer', 'computers', 'coding', 'programming', 'algorithm', 'robot', 'robots',
+  'internet', 'cyber', 'safety', 'artificial', 'intelligence', 'design', 'music', 'instrument',
+  'instruments', 'orchestra', 'drawing', 'painting', 'sculpture', 'drama', 'dance', 'health',
+  'nutrition', 'exercise', 'sport', 'sports', 'olympics',
+];
+
+const LEARNED_WORDS_KEY = 'spellingLearnedWords';
+const MAX_LEARNED_WORDS = 500;
+
+// Providers forgive typos, so one successful search doesn't prove a spelling -
+// a word has to turn up in this many before it is offered as a correction
+const LEARNED_WORD_THRESHOLD = 2;
+
+const WORD_PATTERN = /^[a-z\u00C0-\u024F]+$/;
+
+class SpellingService {
+  private curriculum = new Set(CURRICULUM_VOCABULARY);
+  private learnedWords: Record<string, number> = {};
+
+  constructor() {
+    try {
+      const saved = localStorage.getItem(LEARNED_WORDS_KEY);
+      if (saved) {
+        this.learnedWords = JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Failed to load learned spelling words:', error);
+    }
+  }
+
+  /**
+   * Correct each misspelled search term in the query, keeping phrases and
+   * operators as typed. extraVocabulary adds words known only to the caller,
+   * such as popular searches. Returns null when nothing needs correcting
+   */
+  suggestCorrection(query: string, extraVocabulary: string[] = []): string | null {
+    const parsed = parseSearchQuery(query.trim());
+    if (!parsed.tokens.some((token) => token.type === 'term')) return null;
+
+    const vocabulary = this.buildVocabulary(extraVocabulary);
+
+    let changed = false;
+    const corrected = parsed.tokens.map((token) => {
+      if (token.type !== 'term') return token.raw;
+      const word = this.correctWord(token.raw, vocabulary);
+      if (!word) return token.raw;
+      changed = true;
+      return word;
+    });
+
+    return changed ? corrected.join(' ') : null;
+  }
+
+  /**
+   * Remember the words of a search that found results, so local topics and
+   * names that aren't in the curriculum list stop being "corrected". Words a
+   * known word is a correction for are skipped - they are typos that got lucky
+   */
+  learnFromQuery(query: string): void {
+    const parsed = parseSearchQuery(query);
+    const vocabulary = this.buildVocabulary([]);
+    const words = [...parsed.terms, ...parsed.phrases]
+      .flatMap((text) => text.toLowerCase().split(/\s+/))
+      .filter((word) => word.length >= 4 && WORD_PATTERN.test(word) && !this.curriculum.has(word))
+      .filter((word) => vocabulary.has(word) || !this.correctWord(word, vocabulary));
+
+    if (words.length === 0) return;
+
+    Array.from(new Set(words)).forEach((word) => {
+      this.learnedWords[word] = (this.learnedWords[word] || 0) + 1;
+    });
+
+    // Keep the most confirmed words once the list is full
+    const entries = Object.entries(this.learnedWords);
+    if (entries.length > MAX_LEARNED_WORDS) {
+      this.learnedWords = Object.fromEntries(
+        entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_LEARNED_WORDS)
+      );
+    }
+
+    this.saveLearnedWords();
+  }
+
+  clearLearnedWords(): void {
+    this.learnedWords = {};
+    localStorage.removeItem(LEARNED_WORDS_KEY);
+  }
+
+  // Word -> weight, used to break ties between equally close candidates
+  private buildVocabulary(extraVocabulary: string[]): Map<string, number> {
+    const vocabulary = new Map<string, number>();
+
+    this.curriculum.forEach((word) => vocabulary.set(word, LEARNED_WORD_THRESHOLD));
+    Object.entries(this.learnedWords).forEach(([word, count]) => {
+      if (count >= LEARNED_WORD_THRESHOLD) {
+        vocabulary.set(word, Math.max(vocabulary.get(word) || 0, count));
+      }
+    });
+    extraVocabulary
+      .flatMap((text) => text.toLowerCase().split(/[^a-z0-9\u00C0-\u024F]+/))
+      .filter((word) => word.length >= 3)
+      .forEach((word) => vocabulary.set(word, Math.max(vocabulary.get(word) || 0, 1)));
+
+    return vocabulary;
+  }
+
+  /**
+   * The closest known word, allowing one edit for short words and two for
+   * longer ones, or null to leave the word alone
+   */
+  private correctWord(raw: string, vocabulary: Map<string, number>): string | null {
+    const word = raw.toLowerCase();
+
+    // Short words, numbers and codes are too ambiguous to correct
+    if (word.length < 4 || !WORD_PATTERN.test(word) || vocabulary.has(word)) return null;
+
+    // A word some known word starts with is probably still being typed, not misspelled
+    const knownWords = Array.from(vocabulary.keys());
+    if (knownWords.some((known) => known.startsWith(word))) return null;
+
+    const maxDistance = word.length <= 5 ? 1 : 2;
+    let best: { word: string; distance: number; weight: number } | null = null;
+    for (const candidate of knownWords) {
+      if (Math.abs(candidate.length - word.length) > maxDistance) continue;
+      const distance = this.editDistance(word, candidate, maxDistance);
+      if (distance > maxDistance) continue;
+
+      const weight = vocabulary.get(candidate) || 0;
+      if (!best || distance < best.distance || (distance === best.distance && weight > best.weight)) {
+        best = { word: candidate, distance, weight };
+      }
+    }
+
+    if (!best) return null;
+
+    // Keep a capital the student typed ("Egpyt" -> "Egypt")
+    return raw[0] !== raw[0].toLowerCase() ? best.word[0].toUpperCase() + best.word.slice(1) : best.word;
+  }
+
+  /**
+   * Levenshtein distance that also counts swapped neighbouring letters as one
+   * edit ("freind"), giving up once every path exceeds maxDistance
+   */
+  private editDistance(a: string, b: string, maxDistance: number): number {
+    let beforePrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+        }
+        rowMin = Math.min(rowMin, current[j]);
+      }
+      if (rowMin > maxDistance) return maxDistance + 1;
+      beforePrevious = previous;
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  private saveLearnedWords() {
+    try {
+      localStorage.setItem(LEARNED_WORDS_KEY, JSON.stringify(this.learnedWords));
+    } catch (error) {
+      console.error('Failed to save learned spelling words:', error);
+    }
+  }
+}
+
+export const spellingService = new SpellingService();
+export default spellingService;
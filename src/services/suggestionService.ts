@@ -0,0 +1,170 @@
+// Suggestion Service for search-as-you-type
+// Merges the user's history, school-wide popular searches and quick links, offers
+// spelling corrections, and drops anything a blocking moderation rule matches
+
+import backendService, { type ModerationRule } from './backendService';
+import { cacheService } from './cacheService';
+import { spellingService } from './spellingService';
+
+export type SuggestionSource = 'history' | 'popular' | 'quickLink' | 'correction';
+
+export interface QuerySuggestion {
+  text: string;
+  source: SuggestionSource;
+  url?: string; // quick links open directly instead of searching
+}
+
+export interface SuggestionContext {
+  userRole: 'guest' | 'student' | 'staff';
+  userId?: string; // keeps one user's recent searches from being offered to the next
+  isAuthenticated: boolean;
+  localHistory: string[];
+  limit?: number;
+}
+
+interface SuggestionSources {
+  recent: string[];
+  popular: string[];
+  quickLinks: Array<{ title: string; url: string }>;
+  blockRules: ModerationRule[];
+}
+
+const SOURCES_TTL = 5 * 60 * 1000; // 5 minutes - popular searches and rules change slowly
+
+class SuggestionService {
+  private pending = new Map<string, Promise<SuggestionSources>>();
+
+  async getSuggestions(input: string, context: SuggestionContext): Promise<QuerySuggestion[]> {
+    const limit = context.limit || 8;
+    const typed = input.trim().toLowerCase();
+
+    try {
+      const sources = await this.loadSources(context);
+      const isAllowed = (text: string) => !this.isBlocked(text, sources.blockRules);
+
+      const history = this.unique([...context.localHistory, ...sources.recent]);
+      const candidates: QuerySuggestion[] = [
+        ...history.map((text): QuerySuggestion => ({ text, source: 'history' })),
+        ...sources.popular.map((text): QuerySuggestion => ({ text, source: 'popular' })),
+        ...sources.quickLinks.map((link): QuerySuggestion => ({ text: link.title, source: 'quickLink', url: link.url })),
+      ];
+
+      // With nothing typed, just offer what the user searched for recently
+      if (!typed) {
+        return candidates.filter((s) => s.source === 'history' && isAllowed(s.text)).slice(0, limit);
+      }
+
+      const seen = new Set<string>();
+      const matches = candidates
+        .map((suggestion) => ({ suggestion, score: this.matchScore(suggestion.text, typed) }))
+        .filter(({ suggestion, score }) => {
+          const key = `${suggestion.source === 'quickLink' ? 'link:' : ''}${suggestion.text.toLowerCase()}`;
+          if (score === 0 || seen.has(key) || suggestion.text.toLowerCase() === typed) return false;
+          seen.add(key);
+          return isAllowed(suggestion.text);
+        })
+        .sort((a, b) => b.score - a.score)
+        .map(({ suggestion }) => suggestion);
+
+      const correction = spellingService.suggestCorrection(input, candidates.map((s) => s.text));
+      if (correction && isAllowed(correction) && !seen.has(correction.toLowerCase())) {
+        matches.unshift({ text: correction, source: 'correction' });
+      }
+
+      return matches.slice(0, limit);
+    } catch (error) {
+      console.error('Failed to get search suggestions:', error);
+      return [];
+    }
+  }
+
+  clearCache(): void {
+    this.pending.clear();
+  }
+
+  private async loadSources(context: SuggestionContext): Promise<SuggestionSources> {
+    const cacheKey = context.isAuthenticated ? context.userId || 'user' : 'guest';
+    const cached = await cacheService.get<SuggestionSources>('suggestions', cacheKey, context.userRole);
+    if (cached) {
+      return cached;
+    }
+
+    // Keystrokes arrive faster than the backend answers - share one load between them
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const load = this.fetchSources(context)
+      .then((sources) => {
+        cacheService.set('suggestions', cacheKey, sources, context.userRole, SOURCES_TTL);
+        return sources;
+      })
+      .finally(() => this.pending.delete(cacheKey));
+
+    this.pending.set(cacheKey, load);
+    return load;
+  }
+
+  private async fetchSources(context: SuggestionContext): Promise<SuggestionSources> {
+    console.log('💡 Loading suggestion sources for', context.userRole);
+
+    // Each source is optional - a failed request just contributes nothing
+    const [recent, overview, quickLinks, blockRules] = await Promise.all([
+      context.isAuthenticated ? backendService.getRecentSearches(20) : Promise.resolve([]),
+      context.isAuthenticated ? backendService.getAnalyticsOverview() : Promise.resolve(null),
+      backendService.getQuickLinks({ role: context.userRole }),
+      context.isAuthenticated
+        ? backendService.getModerationRules({ action: 'block', isActive: true })
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      // Searches that found nothing are more likely typos than worth repeating
+      recent: (recent || []).filter((item) => item.resultCount !== 0).map((item) => item.query).filter(Boolean),
+      popular: (overview?.topQueries || []).map((item) => item.query).filter(Boolean),
+      quickLinks: (Array.isArray(quickLinks) ? quickLinks : [])
+        .filter((link: any) => link?.title && link?.url)
+        .map((link: any) => ({ title: link.title, url: link.url })),
+      blockRules: (blockRules || []).filter((rule) => rule.ruleType === 'keyword' || rule.ruleType === 'pattern'),
+    };
+  }
+
+  private isBlocked(text: string, rules: ModerationRule[]): boolean {
+    return rules.some((rule) => {
+      try {
+        if (rule.ruleType === 'pattern') {
+          return new RegExp(rule.pattern || rule.value, rule.caseSensitive ? '' : 'i').test(text);
+        }
+        return rule.caseSensitive
+          ? text.includes(rule.value)
+          : text.toLowerCase().includes(rule.value.toLowerCase());
+      } catch {
+        // An invalid pattern can't block anything
+        return false;
+      }
+    });
+  }
+
+  // 3 = starts with the input, 2 = a later word starts with it, 1 = contains it, 0 = no match
+  private matchScore(text: string, typed: string): number {
+    const lower = text.toLowerCase();
+    if (lower.startsWith(typed)) return 3;
+    if (lower.split(/\s+/).some((word) => word.startsWith(typed))) return 2;
+    if (typed.length >= 3 && lower.includes(typed)) return 1;
+    return 0;
+  }
+
+  private unique(texts: string[]): string[] {
+    const seen = new Set<string>();
+    return texts.filter((text) => {
+      const key = text.trim().toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+}
+
+export const suggestionService = new SuggestionService();
+export default suggestionService;
@@ -1,13 +1,24 @@
 import { getConfig } from '../config/app-config';
-import type { SearchResult } from '../store/slices/searchSlice';
-import { openAIService } from './openAiService';
+import type { ModerationFlag, SearchResult } from '../store/slices/searchSlice';
+import { openAIService, REASONING_TOKEN_ALLOWANCE, type StreamOptions } from './openAiService';
 import { cacheService } from './cacheService';
+import { answerCacheService } from './answerCacheService';
+import { moderationRulesService, type ModerationVerdict } from './moderationRulesService';
+import { offlineService } from './offlineService';
+import { readingLevelService } from './readingLevelService';
+import { resultSafetyService } from './resultSafetyService';
+import { spellingService } from './spellingService';
+import { matchesExclusions, mergeQueryFilters, parseSearchQuery, toProviderQuery } from '../utils/queryParser';
 import {
   SearchFallbackManager,
-  LangSearchProvider,
-  BraveSearchProvider,
-  DuckDuckGoProvider,
-  SearXNGProvider
+  hasActiveFilters,
+  normalizeResultUrl,
+  safeSearchForRole,
+  searchProviderRegistry,
+  serializeFilters,
+  type RawSearchResult,
+  type SafeSearchLevel,
+  type SearchFilters,
 } from './searchProviders';
 
 export interface LangSearchResult {
@@ -44,11 +55,46 @@ export interface AIInstantAnswer {
   confidence: 'high' | 'medium' | 'low';
 }
 
+// A zero-result query that was searched again with its spelling fixed
+export interface SearchCorrection {
+  original: string;
+  corrected: string;
+}
+
+export interface SearchResultsPage {
+  results: SearchResult[];
+  page: number; // 1-based
+  hasMore: boolean;
+  correction?: SearchCorrection; // set when the results are for the corrected query
+}
+
+// Results requested from the providers per page, before domain filtering
+export const RESULTS_PER_PAGE = 8;
+
+// Deeper pages are mostly noise and cost provider quota
+const MAX_PAGES = 5;
+
+// Results are fresh for 15 minutes (to reduce API usage), then served for up to
+// an hour more while a background search refreshes them
+const SEARCH_CACHE_TTL = 15 * 60 * 1000;
+const SEARCH_CACHE_STALE_TTL = 60 * 60 * 1000;
+
+// The merged federated results for a query, grown a batch at a time as pages are read
+interface FederatedResults {
+  results: RawSearchResult[];
+  batches: number; // provider pages merged so far
+  exhausted: boolean;
+}
+
+// Every category categorizeResult can assign, for the category filter
+export const RESULT_CATEGORIES = ['Reference', 'Educational', 'News', 'Tutorial', 'General Information'];
+
 export class WebSearchService {
   private static fallbackManager: SearchFallbackManager | null = null;
 
   /**
-   * Initialize the multi-provider fallback system
+   * Initialize the multi-provider fallback system from the configured provider list
+   * Providers are created through searchProviderRegistry, so custom types need no changes here
    */
   private static async initializeFallbackManager(): Promise<SearchFallbackManager> {
     if (this.fallbackManager) {
@@ -56,24 +102,23 @@ export class WebSearchService {
     }
 
     const config = await getConfig();
-    const manager = new SearchFallbackManager();
-
-    // Add LangSearch as primary provider
-    if (config.search.apiKey) {
-      manager.addProvider(new LangSearchProvider(config.search.apiKey));
-    }
 
-    // Add Brave Search as fallback (check for API key in env)
-    const braveApiKey = process.env.REACT_APP_BRAVE_API_KEY;
-    if (braveApiKey) {
-      manager.addProvider(new BraveSearchProvider(braveApiKey));
+    // The status panel and a search can both be waiting on the config - keep one manager
+    if (this.fallbackManager) {
+      return this.fallbackManager;
     }
 
-    // Add DuckDuckGo HTML scraping (always available, free)
-    manager.addProvider(new DuckDuckGoProvider());
+    const manager = new SearchFallbackManager();
 
-    // Add SearXNG public instances (always available, free)
-    manager.addProvider(new SearXNGProvider());
+    // config.search.providers is already sorted by order
+    config.search.providers
+      .filter((providerConfig) => providerConfig.enabled !== false)
+      .forEach((providerConfig) => {
+        const provider = searchProviderRegistry.create(providerConfig);
+        if (provider) {
+          manager.addProvider(provider, providerConfig.timeoutMs);
+        }
+      });
 
     console.log('🔄 Initialized search providers:', manager.getProviderNames().join(', '));
 
@@ -81,15 +126,28 @@ export class WebSearchService {
     return manager;
   }
 
+  /**
+   * Provider chain with its health stats, for the staff provider status panel
+   */
+  static async getFallbackManager(): Promise<SearchFallbackManager> {
+    return this.initializeFallbackManager();
+  }
+
   /**
    * Generates an AI instant answer based on search query and web results
+   * Pass streamOptions to receive tokens as they arrive; only the final answer is cached
    */
-  static async generateInstantAnswer(query: string, searchResults: SearchResult[], userRole: 'guest' | 'student' | 'staff' = 'guest'): Promise<AIInstantAnswer | null> {
+  static async generateInstantAnswer(
+    query: string,
+    searchResults: SearchResult[],
+    userRole: 'guest' | 'student' | 'staff' = 'guest',
+    streamOptions?: StreamOptions
+  ): Promise<AIInstantAnswer | null> {
     console.log('🤖 Generating AI instant answer for:', query);
 
-    // Check cache first
-    const cacheKey = `instant_answer:${query}`;
-    const cachedAnswer = cacheService.get<AIInstantAnswer>(cacheKey, userRole);
+    // Check cache first - answers differ per reading level, and rewordings of the same question share one
+    const readingLevel = readingLevelService.getReadingLevel();
+    const cachedAnswer = await answerCacheService.get(query, userRole, readingLevel);
     if (cachedAnswer) {
       return cachedAnswer;
     }
@@ -124,16 +182,33 @@ ${context}
 Simple answer (1-2 sentences):`;
       }
 
-      const aiResponse = await openAIService.chatWithAI([
+      const maxTokens = readingLevelService.getMaxTokensForLevel() + REASONING_TOKEN_ALLOWANCE;
+      const requestAnswer = (userPrompt: string) => openAIService.chatWithAI([
         {
           role: 'system',
           content: systemMessage
         },
         {
           role: 'user',
-          content: prompt
+          content: readingLevelService.adjustPromptForLevel(userPrompt)
+        }
+      ], maxTokens, streamOptions);
+
+      let aiResponse = await requestAnswer(prompt);
+
+      // Ask once more if the answer reads well above the user's level
+      if (aiResponse && aiResponse.length >= 10 && readingLevelService.isAboveLevel(aiResponse)) {
+        console.log('📚 Answer too complex for reading level, re-requesting:', {
+          readingLevel,
+          score: readingLevelService.getSentenceComplexityScore(aiResponse)
+        });
+        const simplerResponse = await requestAnswer(
+          `${prompt}\n\nThe previous answer was too difficult. Use simpler words and shorter sentences.`
+        );
+        if (simplerResponse && !simplerResponse.includes('unable to process') && simplerResponse.length >= 10) {
+          aiResponse = simplerResponse;
         }
-      ], userRole === 'staff' ? 2000 : 1500); // Increased for o1/o3 models with reasoning tokens
+      }
 
       console.log('🤖 Raw AI response:', aiResponse);
       console.log('🤖 AI response length:', aiResponse?.length || 0);
@@ -163,17 +238,21 @@ Simple answer (1-2 sentences):`;
       console.log('✅ AI instant answer generated successfully');
 
       const instantAnswer: AIInstantAnswer = {
-        answer: aiResponse.trim(),
+        answer: readingLevelService.formatForLevel(aiResponse.trim()),
         sources,
         confidence
       };
 
       // Cache the response for future use (15-minute TTL to reduce API usage)
-      cacheService.set(cacheKey, instantAnswer, userRole, 15 * 60 * 1000);
+      answerCacheService.set(query, userRole, readingLevel, instantAnswer);
 
       return instantAnswer;
 
     } catch (error) {
+      if (streamOptions?.signal?.aborted) {
+        console.log('🛑 AI instant answer cancelled for:', query);
+        return null;
+      }
       console.error('❌ Failed to generate AI instant answer:', error);
       return null;
     }
@@ -181,56 +260,222 @@ Simple answer (1-2 sentences):`;
 
   /**
    * Performs a web search using LangSearch and filters results through AI for child safety
+   * Pages after the first skip the educational fallbacks - an empty page just ends the list,
+   * and so does a filtered search, since unrelated fallbacks would ignore the filters.
+   * When the first page finds nothing and the query looks misspelled, the corrected
+   * query is searched instead and the page says so in `correction` - pass
+   * autoCorrect = false when the student has asked for their own spelling
    */
-  static async searchWeb(query: string, userRole: 'guest' | 'student' | 'staff'): Promise<SearchResult[]> {
-    console.log('🌐 WebSearchService: Starting multi-provider web search for:', { query, userRole });
-
-    // Check cache for search results first
-    const searchCacheKey = `search_results:${query}`;
-    const cachedResults = cacheService.get<SearchResult[]>(searchCacheKey, userRole);
-    if (cachedResults) {
-      return cachedResults;
+  static async searchWeb(
+    query: string,
+    userRole: 'guest' | 'student' | 'staff',
+    page: number = 1,
+    filters?: SearchFilters,
+    autoCorrect: boolean = true
+  ): Promise<SearchResultsPage> {
+    console.log('🌐 WebSearchService: Starting multi-provider web search for:', { query, userRole, page, filters });
+
+    // Exact-spelling searches are cached apart from the auto-corrected ones, and AI-classified
+    // results apart for each reading level, since what's suitable depends on it
+    const config = await getConfig();
+    const levelKey = config.search.aiClassification.enabled ? `:${readingLevelService.getReadingLevel()}` : '';
+    const searchCacheKey = `${query}:${serializeFilters(filters)}:page${page}${autoCorrect ? '' : ':exact'}${levelKey}`;
+
+    const parsedQuery = parseSearchQuery(query);
+    const fallbackPage = (): SearchResultsPage => ({
+      results: page === 1 && !hasActiveFilters(mergeQueryFilters(parsedQuery, filters))
+        ? this.getEducationalFallbacks(toProviderQuery(parsedQuery))
+        : [],
+      page,
+      hasMore: false,
+    });
+
+    // Offline, the copy kept of an earlier search beats educational fallbacks
+    if (!offlineService.isOnline() && page === 1 && !hasActiveFilters(filters)) {
+      const saved = await offlineService.getSavedSearch(query, userRole);
+      if (saved) {
+        console.log('📴 Offline - showing saved results for:', query);
+        return { results: saved.results, page, hasMore: false };
+      }
     }
 
     try {
-      // Step 1: Get results using fallback manager (tries multiple providers)
-      const manager = await this.initializeFallbackManager();
-      const rawResults = await manager.search(query, 8);
-      console.log('📡 Search results retrieved:', rawResults.length, 'items');
-
-      if (rawResults.length === 0) {
-        console.log('⚠️ No results from any provider, using educational fallbacks');
-        return this.getEducationalFallbacks(query);
+      // Only pages with results are cached - fallbacks are rebuilt each time
+      const resultsPage = await cacheService.getOrRevalidate<SearchResultsPage>(
+        'search',
+        searchCacheKey,
+        userRole,
+        () => this.findResultsPage(query, userRole, page, filters, autoCorrect),
+        SEARCH_CACHE_TTL,
+        SEARCH_CACHE_STALE_TTL
+      );
+
+      return resultsPage || fallbackPage();
+    } catch (error) {
+      console.error('❌ Multi-provider web search failed:', error);
+      // Always provide educational fallbacks on any error
+      return fallbackPage();
+    }
+  }
+
+  /**
+   * The results page for a query, retrying the corrected spelling when the
+   * first page finds nothing, or null when there is nothing to show
+   */
+  private static async findResultsPage(
+    query: string,
+    userRole: 'guest' | 'student' | 'staff',
+    page: number,
+    filters: SearchFilters | undefined,
+    autoCorrect: boolean
+  ): Promise<SearchResultsPage | null> {
+    const resultsPage = await this.fetchResultsPage(query, userRole, page, filters);
+
+    if (resultsPage) {
+      if (page === 1) {
+        spellingService.learnFromQuery(query);
+        // Unfiltered first pages are kept for a week to browse offline
+        if (!hasActiveFilters(filters)) {
+          offlineService.saveSearch(query, userRole, resultsPage.results);
+        }
       }
+      return resultsPage;
+    }
 
-      // Step 2: Convert raw results to intermediate format for filtering
-      const resultsForFiltering = rawResults.map((result, index) => ({
-        id: index + 1,
-        title: result.title,
-        description: result.snippet,
-        url: result.url,
-        domain: result.domain
-      }));
+    // Young students misspell constantly - rather than fallbacks, try the spelling fix once
+    const config = await getConfig();
+    if (page !== 1 || !autoCorrect || !config.search.autoCorrect) {
+      return null;
+    }
 
-      // Step 3: Apply domain filtering based on user role
-      const filteredResults = this.basicDomainFilter(resultsForFiltering, userRole);
-      console.log('🛡️ Domain filtered results:', filteredResults.length, 'safe results');
+    const corrected = spellingService.suggestCorrection(query);
+    if (!corrected) {
+      return null;
+    }
 
-      // Step 4: If no results pass the filter, provide educational fallbacks
-      if (filteredResults.length === 0) {
-        console.log('⚠️ No results passed domain filtering, using educational fallbacks');
-        return this.getEducationalFallbacks(query);
-      }
+    console.log('✏️ No results, searching the corrected spelling instead:', corrected);
+    const correctedPage = await this.fetchResultsPage(corrected, userRole, page, filters);
+    return correctedPage ? { ...correctedPage, correction: { original: query, corrected } } : null;
+  }
+
+  /**
+   * One page of filtered provider results, or null when the first page has nothing
+   * to show (later pages stay loadable - the next one may have safe results)
+   */
+  private static async fetchResultsPage(
+    query: string,
+    userRole: 'guest' | 'student' | 'staff',
+    page: number,
+    filters?: SearchFilters
+  ): Promise<SearchResultsPage | null> {
+    // Operators typed into the query (site:, filetype:) behave like the matching filters
+    const parsedQuery = parseSearchQuery(query);
+    const effectiveFilters = mergeQueryFilters(parsedQuery, filters);
+    const providerQuery = toProviderQuery(parsedQuery);
+    const offset = (page - 1) * RESULTS_PER_PAGE;
+
+    // Step 1: Get results using fallback manager (tries providers in order, or merges them when federated)
+    const manager = await this.initializeFallbackManager();
+    const config = await getConfig();
+    // Providers filter explicit content themselves too - strictly for everyone but staff
+    const safeSearch = safeSearchForRole(userRole, config.search.staffSafeSearch);
+    let rawResults: RawSearchResult[];
+    let hasMore: boolean;
+    if (config.search.mode === 'federated') {
+      const federated = await this.getFederatedResults(manager, providerQuery, offset + RESULTS_PER_PAGE, effectiveFilters, safeSearch, userRole);
+      rawResults = federated.results.slice(offset, offset + RESULTS_PER_PAGE);
+      hasMore = page < MAX_PAGES && (federated.results.length > offset + RESULTS_PER_PAGE || !federated.exhausted);
+    } else {
+      rawResults = await manager.search(providerQuery, RESULTS_PER_PAGE, offset, effectiveFilters, safeSearch);
+      // A full page from the provider means there is probably another one, however many we filter out
+      hasMore = rawResults.length >= RESULTS_PER_PAGE && page < MAX_PAGES;
+    }
+    console.log('📡 Search results retrieved:', rawResults.length, 'items');
 
-      // Cache the successful results (15-minute TTL to reduce API usage)
-      cacheService.set(searchCacheKey, filteredResults, userRole, 15 * 60 * 1000);
+    if (rawResults.length === 0) {
+      console.log('⚠️ No results from any provider');
+      return page === 1 ? null : { results: [], page, hasMore: false };
+    }
 
-      return filteredResults;
-    } catch (error) {
-      console.error('❌ Multi-provider web search failed:', error);
-      // Always provide educational fallbacks on any error
-      return this.getEducationalFallbacks(query);
+    // Step 2: Convert raw results to intermediate format for filtering
+    // Ids continue across pages so results stay unique once appended
+    const resultsForFiltering = rawResults.map((result, index) => ({
+      id: offset + index + 1,
+      title: result.title,
+      description: result.snippet,
+      url: result.url,
+      domain: result.domain,
+      datePublished: result.datePublished,
+      providers: result.providers
+    }));
+
+    // Step 3: Apply the staff moderation rules, domain filtering based on user role, then the
+    // category filter and -exclusions (providers that don't understand "-word" would otherwise return those results)
+    const moderatedResults = await moderationRulesService.apply(resultsForFiltering);
+    const domainFilteredResults = this.basicDomainFilter(moderatedResults, userRole)
+      .filter((result) => !filters || filters.category === 'any' || result.category === filters.category)
+      .filter((result) => matchesExclusions(parsedQuery, `${result.title} ${result.description}`));
+    console.log('🛡️ Domain filtered results:', domainFilteredResults.length, 'safe results');
+
+    // Step 4: Optionally have the AI check what's left for the user's age (within a time budget)
+    const filteredResults = await resultSafetyService.classify(domainFilteredResults, {
+      query,
+      userRole,
+      readingLevel: readingLevelService.getReadingLevel(),
+      trustedUrls: new Set(moderatedResults.filter((result) => result.verdict.action === 'allow').map((result) => result.url)),
+    });
+
+    // Step 5: If no results pass the filter, the caller provides educational fallbacks
+    if (filteredResults.length === 0 && page === 1) {
+      console.log('⚠️ No results passed domain filtering');
+      return null;
     }
+
+    return { results: filteredResults, page, hasMore };
+  }
+
+  /**
+   * The merged federated results for a query, holding at least `wanted` results
+   * unless the providers run out. One federated search merges up to a page from
+   * every provider, so later pages are read from the merged list, and only when
+   * it runs short is the next page fetched from the providers and appended
+   */
+  private static async getFederatedResults(
+    manager: SearchFallbackManager,
+    providerQuery: string,
+    wanted: number,
+    filters: SearchFilters | undefined,
+    safeSearch: SafeSearchLevel,
+    userRole: 'guest' | 'student' | 'staff'
+  ): Promise<FederatedResults> {
+    const config = await getConfig();
+    const cacheKey = `federated:${providerQuery}:${serializeFilters(filters)}:${safeSearch}`;
+    const cached = await cacheService.get<FederatedResults>('search', cacheKey, userRole);
+    const federated: FederatedResults = cached || { results: [], batches: 0, exhausted: false };
+    if (federated.results.length >= wanted || federated.exhausted) {
+      return federated;
+    }
+
+    const seen = new Set(federated.results.map((result) => normalizeResultUrl(result.url)));
+    while (federated.results.length < wanted && !federated.exhausted) {
+      const batch = await manager.searchFederated(
+        providerQuery,
+        RESULTS_PER_PAGE,
+        config.search.federatedDeadlineMs,
+        federated.batches * RESULTS_PER_PAGE,
+        filters,
+        safeSearch
+      );
+      const fresh = batch.filter((result) => !seen.has(normalizeResultUrl(result.url)));
+      fresh.forEach((result) => seen.add(normalizeResultUrl(result.url)));
+
+      federated.results.push(...fresh);
+      federated.batches++;
+      federated.exhausted = fresh.length === 0 || federated.batches >= MAX_PAGES;
+    }
+
+    cacheService.set('search', cacheKey, federated, userRole, SEARCH_CACHE_TTL);
+    return federated;
   }
 
   /**
@@ -290,137 +535,9 @@ Simple answer (1-2 sentences):`;
     return results;
   }
 
-  /**
-   * Filters search results through AI to ensure child safety
-   */
-  private static async filterResultsWithAI(
-    rawResults: LangSearchResult[],
-    originalQuery: string,
-    userRole: 'guest' | 'student' | 'staff'
-  ): Promise<SearchResult[]> {
-
-    // Create a concise summary of results for AI analysis
-    const resultSummary = rawResults.map((result, index) => ({
-      id: index + 1,
-      title: result.name, // LangSearch uses 'name' instead of 'title'
-      description: this.cleanText(result.snippet),
-      url: result.url,
-      domain: this.extractDomain(result.url)
-    }));
-
-    const filterPrompt = this.buildFilterPrompt(originalQuery, resultSummary, userRole);
-
-    try {
-      console.log('🤖 Sending results to AI for safety filtering...');
-      const aiResponse = await openAIService.chatWithAI([
-        {
-          role: 'system',
-          content: 'You are a content safety filter for a school. Only block social media and adult content. Allow news, blogs, and general web content.'
-        },
-        {
-          role: 'user',
-          content: filterPrompt
-        }
-      ]);
-
-      console.log('🤖 AI filter response:', aiResponse);
-
-      // Check if AI response indicates failure
-      if (!aiResponse ||
-          aiResponse.includes('unable to process') ||
-          aiResponse.includes('apologize') ||
-          aiResponse.includes('technical difficulties') ||
-          aiResponse.length < 10) {
-        console.warn('⚠️ AI returned error response, using basic domain filtering');
-        return this.basicDomainFilter(resultSummary, userRole);
-      }
-
-      // Parse AI response to get safe results
-      const safeResults = this.parseAIFilterResponse(aiResponse, resultSummary);
-
-      // If AI parsing failed or returned no results, use domain filtering
-      if (safeResults.length === 0) {
-        console.warn('⚠️ AI filtering returned no results, using basic domain filtering as backup');
-        return this.basicDomainFilter(resultSummary, userRole);
-      }
-
-      return safeResults;
-
-    } catch (error) {
-      console.warn('⚠️ AI filtering failed completely, applying basic domain filtering:', error);
-      // Fallback to basic domain filtering if AI fails
-      return this.basicDomainFilter(resultSummary);
-    }
-  }
-
-  /**
-   * Creates the AI prompt for filtering results
-   */
-  private static buildFilterPrompt(query: string, results: any[], userRole: string): string {
-    return `Filter these search results for "${query}" for child safety at a school:
-
-RESULTS:
-${results.map(r => `${r.id}. ${r.title} (${r.domain})
-   ${r.description}
-   URL: ${r.url}`).join('\n\n')}
-
-BLOCK ONLY:
-- Social media platforms (Facebook, Twitter, Instagram, TikTok, Snapchat, Discord, Reddit)
-- Adult content, nudity, bathing suits, inappropriate material
-- Dating sites and mature relationship content
-- Extreme violence or disturbing content
-
-ALLOW (these are SAFE for children):
-- News articles and blog posts
-- Technology reviews and product information
-- Educational content and reference sites
-- General web content and legitimate information
-- Shopping and commercial sites
-- Entertainment and media content (that's not adult-oriented)
-
-Return the IDs of ALL SAFE results as a comma-separated list (e.g., "1,2,3,4,5,6,7,8"). Most results should be allowed unless they specifically fall into the BLOCK categories above.`;
-  }
-
-  /**
-   * Parses AI response to extract safe result IDs
-   */
-  private static parseAIFilterResponse(aiResponse: string, originalResults: any[]): SearchResult[] {
-    try {
-      // Extract numbers from AI response
-      const safeIds = aiResponse.match(/\d+/g);
-
-      if (!safeIds || aiResponse.toLowerCase().includes('none')) {
-        console.log('🚫 AI determined no results are safe');
-        return [];
-      }
-
-      const safeResults: SearchResult[] = [];
-
-      safeIds.forEach(idStr => {
-        const id = parseInt(idStr, 10);
-        const result = originalResults.find(r => r.id === id);
-
-        if (result) {
-          safeResults.push({
-            id: `web-${result.id}`,
-            title: result.title,
-            description: result.description,
-            url: result.url,
-            category: this.categorizeResult(result.domain, result.title),
-            relevance: 0.9 - (safeResults.length * 0.1) // Decreasing relevance
-          });
-        }
-      });
-
-      return safeResults;
-    } catch (error) {
-      console.error('❌ Failed to parse AI filter response:', error);
-      return [];
-    }
-  }
-
   /**
    * Basic domain filtering with different restrictions based on user role
+   * Results a moderation rule allows are kept whatever their domain, and flagged ones carry the flag
    */
   private static basicDomainFilter(results: any[], userRole: 'guest' | 'student' | 'staff' = 'guest'): SearchResult[] {
     console.log('🛡️ Applying basic domain filtering to', results.length, 'results for', userRole);
@@ -444,7 +561,7 @@ Return the IDs of ALL SAFE results as a comma-separated list (e.g., "1,2,3,4,5,6
     const filteredResults = results
       .filter(result => {
         const domain = result.domain.toLowerCase();
-        const isBlocked = blockedDomains.some(blocked => domain.includes(blocked));
+        const isBlocked = result.verdict?.action !== 'allow' && blockedDomains.some(blocked => domain.includes(blocked));
 
         if (isBlocked) {
           console.log('🚫 Blocked domain:', domain);
@@ -452,14 +569,16 @@ Return the IDs of ALL SAFE results as a comma-separated list (e.g., "1,2,3,4,5,6
 
         return !isBlocked;
       })
-      .slice(0, 8) // Allow up to 8 results
       .map((result, index) => ({
         id: `web-${result.id}`,
         title: result.title,
         description: result.description,
         url: result.url,
         category: this.categorizeResult(result.domain, result.title),
-        relevance: 0.9 - (index * 0.1)
+        relevance: 0.9 - (index * 0.1),
+        datePublished: result.datePublished,
+        providers: result.providers,
+        ...(result.verdict?.action === 'flag' && { moderationFlag: this.toModerationFlag(result.verdict) })
       }));
 
     console.log('✅ Basic filtering passed', filteredResults.length, 'results');
@@ -468,20 +587,19 @@ Return the IDs of ALL SAFE results as a comma-separated list (e.g., "1,2,3,4,5,6
   }
 
   /**
-   * Utility functions
+   * The badge details for a flagged result - the most severe flagging rule's
    */
-
-  private static extractDomain(url: string): string {
-    try {
-      return new URL(url).hostname;
-    } catch {
-      return url;
-    }
+  private static toModerationFlag(verdict: ModerationVerdict): ModerationFlag {
+    const severities = ['low', 'medium', 'high', 'critical'];
+    const rule = [...verdict.rules].sort(
+      (a, b) => severities.indexOf(b.severity || 'low') - severities.indexOf(a.severity || 'low')
+    )[0];
+    return { reason: rule?.reason, severity: rule?.severity };
   }
 
-  private static cleanText(text: string): string {
-    return text.replace(/\s+/g, ' ').trim().substring(0, 200);
-  }
+  /**
+   * Utility functions
+   */
 
   private static categorizeResult(domain: string, title: string): string {
     const domainLower = domain.toLowerCase();
@@ -0,0 +1,202 @@
+// Wellbeing Service
+// Recognises searches that suggest a student may be at risk (self-harm, abuse,
+// bullying) so they can be shown help instead of a rejection, and raises a
+// confidential alert for the school's wellbeing staff. Classification is local
+// phrase matching - a query is never sent anywhere just to be classified
+
+import { getConfig } from '../config/app-config';
+import type { User } from '../store/slices/authSlice';
+import backendService, { type WellbeingCategory } from './backendService';
+import type { ReadingLevel } from './readingLevelService';
+
+export interface WellbeingResource {
+  id: string;
+  nameKey: string; // locale key of the resource's name
+  descriptionKey: string;
+  phone?: string;
+  url?: string;
+  email?: string;
+  name?: string; // the counsellor's configured name replaces nameKey
+}
+
+// 'duplicate' when the student's alert on the same concern was sent moments ago
+export type WellbeingAlertOutcome = 'sent' | 'duplicate' | 'failed';
+
+// Members of these groups see the wellbeing queue - the backend enforces the same list
+export const WELLBEING_STAFF_GROUPS = ['SG_WF_Wellbeing'];
+
+const ALERT_DEDUPE_WINDOW = 30 * 60 * 1000; // one alert per student and category while they keep searching
+
+// Whole phrases only, matched against the normalised query. Ordered so the most
+// serious category wins when a query matches more than one
+const CATEGORY_PATTERNS: Array<[WellbeingCategory, RegExp[]]> = [
+  [
+    'selfHarm',
+    [
+      /\b(suicide|suicidal)\b/,
+      /\bself ?harm(ing)?\b/,
+      /\b(kill|hurt|cut|harm|starve)(ing)? (myself|my self)\b/,
+      /\b(i|im) (want|wanna|going) to die\b/,
+      /\b(end|take) my (own )?life\b/,
+      /\bdont want to (live|be alive|exist)\b/,
+      /\bwant to disappear forever\b/,
+      /\bways to die\b/,
+      /\boverdose\b/,
+    ],
+  ],
+  [
+    'abuse',
+    [
+      /\b(child|sexual|physical|emotional|domestic) abuse\b/,
+      /\b(being|been|am|im) (abused|molested|groomed)\b/,
+      /\bmy (mum|mom|dad|father|mother|step ?dad|step ?mum|step ?mom|parents?|uncle|brother|coach|teacher|boyfriend|girlfriend) (hits|hurts|beats|touches|abuses|hit|hurt|beat|touched|abused) me\b/,
+      /\b(touched|touches) me (inappropriately|where)\b/,
+      /\bscared (to go|of going) home\b/,
+      /\bnot safe at home\b/,
+    ],
+  ],
+  [
+    'bullying',
+    [
+      /\b(cyber ?)?bull(y|ied|ying)\b/,
+      /\beveryone at school hates me\b/,
+      /\b(kids|people|they) (are|keep) (being )?mean to me\b/,
+      /\bno one likes me\b/,
+      /\bnobody likes me\b/,
+    ],
+  ],
+];
+
+const KIDS_HELPLINE: WellbeingResource = {
+  id: 'kidsHelpline',
+  nameKey: 'wellbeing.kidsHelpline',
+  descriptionKey: 'wellbeing.kidsHelplineDescription',
+  phone: '1800 55 1800',
+  url: 'https://kidshelpline.com.au',
+};
+
+const EMERGENCY: WellbeingResource = {
+  id: 'emergency',
+  nameKey: 'wellbeing.emergency',
+  descriptionKey: 'wellbeing.emergencyDescription',
+  phone: '000',
+};
+
+const ESAFETY: WellbeingResource = {
+  id: 'eSafety',
+  nameKey: 'wellbeing.eSafety',
+  descriptionKey: 'wellbeing.eSafetyDescription',
+  url: 'https://www.esafety.gov.au/report',
+};
+
+const HEADSPACE: WellbeingResource = {
+  id: 'headspace',
+  nameKey: 'wellbeing.headspace',
+  descriptionKey: 'wellbeing.headspaceDescription',
+  phone: '1800 650 890',
+  url: 'https://headspace.org.au/online-and-phone-support',
+};
+
+// The words every category's query is reduced to before matching: lower case,
+// no accents or punctuation, single spaces
+const normalize = (query: string) =>
+  query
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+class WellbeingService {
+  private lastAlertAt = new Map<string, number>(); // by `${userId}:${category}`
+
+  /**
+   * The wellbeing concern a query suggests, or null for ordinary searches
+   */
+  classifyQuery(query: string): WellbeingCategory | null {
+    const text = normalize(query);
+    if (!text) return null;
+
+    const match = CATEGORY_PATTERNS.find(([, patterns]) => patterns.some((pattern) => pattern.test(text)));
+    return match ? match[0] : null;
+  }
+
+  /**
+   * Whether the user is one of the designated wellbeing staff who review alerts
+   */
+  isWellbeingStaff(user: User | null | undefined): boolean {
+    return !!user && user.role === 'staff' && !!user.groups?.some((group) => WELLBEING_STAFF_GROUPS.includes(group));
+  }
+
+  /**
+   * The help to show for a concern. Younger students get the services that speak
+   * to children; older students also get youth mental health support
+   */
+  async getResources(category: WellbeingCategory, readingLevel: ReadingLevel): Promise<WellbeingResource[]> {
+    const config = await getConfig();
+    const { counsellor } = config.wellbeing;
+
+    const resources: WellbeingResource[] = [
+      {
+        id: 'counsellor',
+        nameKey: 'wellbeing.counsellor',
+        descriptionKey: 'wellbeing.counsellorDescription',
+        name: counsellor.name,
+        email: counsellor.email,
+        phone: counsellor.phone,
+      },
+      KIDS_HELPLINE,
+    ];
+
+    if (category === 'bullying') {
+      resources.push(ESAFETY);
+    } else {
+      if (category === 'selfHarm' && readingLevel !== 'elementary' && readingLevel !== 'middle') {
+        resources.push(HEADSPACE);
+      }
+      resources.push(EMERGENCY);
+    }
+
+    return resources;
+  }
+
+  /**
+   * Let the wellbeing team know. Only signed-in students can be followed up, and
+   * a student's repeated searches on the same concern raise one alert. Alerts
+   * need a connection - 'failed' means nobody was told
+   */
+  async raiseAlert(query: string, category: WellbeingCategory, userId: string, gradeLevel?: string): Promise<WellbeingAlertOutcome> {
+    if (!backendService.isAuthenticated()) {
+      return 'failed';
+    }
+
+    const key = `${userId}:${category}`;
+    const last = this.lastAlertAt.get(key);
+    if (last && Date.now() - last < ALERT_DEDUPE_WINDOW) {
+      return 'duplicate';
+    }
+
+    this.lastAlertAt.set(key, Date.now());
+    const created = await backendService.createWellbeingAlert({ category, query, gradeLevel });
+    if (!created) {
+      // Let the next search try again
+      this.lastAlertAt.delete(key);
+    } else {
+      console.log('💚 Wellbeing alert raised:', category);
+    }
+    return created ? 'sent' : 'failed';
+  }
+
+  /**
+   * Forget which alerts were raised - call on logout, so the next student on a
+   * shared device is never mistaken for the last one
+   */
+  clearAlertHistory(): void {
+    this.lastAlertAt.clear();
+  }
+}
+
+// Create singleton instance
+export const wellbeingService = new WellbeingService();
+export default wellbeingService;
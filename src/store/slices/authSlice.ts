@@ -1,4 +1,5 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { GradeLevel } from '../../services/readingLevelService';
 
 export interface User {
   id: string;
@@ -12,6 +13,8 @@ export interface User {
     aiMode: 'search' | 'chat';
     chatEnabled: boolean;
     rememberMe: boolean;
+    language?: string;
+    gradeLevel?: GradeLevel;
   };
 }
 
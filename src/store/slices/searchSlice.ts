@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import type { AIInstantAnswer } from '../../services/webSearchService';
+import { DEFAULT_SEARCH_FILTERS, type SearchFilters } from '../../services/searchProviders';
+import type { AIInstantAnswer, SearchCorrection, SearchResultsPage } from '../../services/webSearchService';
 
 export interface SearchResult {
   id: string;
@@ -8,12 +9,33 @@ export interface SearchResult {
   url: string;
   category: string;
   relevance: number;
+  datePublished?: string;
+  providers?: string[]; // search providers that returned this result
+  moderationFlag?: ModerationFlag; // set when a staff moderation rule flags the result
+  safety?: SafetyVerdict; // the AI classification, when enabled - sent along for moderation review
+}
+
+export interface ModerationFlag {
+  reason?: string;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface SafetyVerdict {
+  verdict: 'safe' | 'caution' | 'unsafe';
+  score: number; // 0 = unsuitable, 1 = entirely suitable for the user's role and reading level
+  reason: string;
 }
 
 interface SearchState {
   query: string;
   results: SearchResult[];
+  currentPage: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  filters: SearchFilters;
+  correction: SearchCorrection | null;
   aiAnswer: AIInstantAnswer | null;
+  streamingAnswer: string;
   isLoading: boolean;
   isGeneratingAnswer: boolean;
   error: string | null;
@@ -23,7 +45,13 @@ interface SearchState {
 const initialState: SearchState = {
   query: '',
   results: [],
+  currentPage: 1,
+  hasMore: false,
+  isLoadingMore: false,
+  filters: DEFAULT_SEARCH_FILTERS,
+  correction: null,
   aiAnswer: null,
+  streamingAnswer: '',
   isLoading: false,
   isGeneratingAnswer: false,
   error: null,
@@ -39,13 +67,46 @@ const searchSlice = createSlice({
     },
     setResults: (state, action: PayloadAction<SearchResult[]>) => {
       state.results = action.payload;
+      state.correction = null;
+      state.currentPage = 1;
+      state.hasMore = false;
+      state.isLoading = false;
+      state.isLoadingMore = false;
+      state.error = null;
+    },
+    // Page 1 replaces the results; later pages are appended, skipping URLs already shown
+    setResultsPage: (state, action: PayloadAction<SearchResultsPage>) => {
+      const { results, page, hasMore, correction } = action.payload;
+      if (page === 1) {
+        state.results = results;
+        state.correction = correction || null;
+      } else {
+        const seen = new Set(state.results.map((result) => result.url));
+        state.results = [...state.results, ...results.filter((result) => !seen.has(result.url))];
+      }
+      state.currentPage = page;
+      state.hasMore = hasMore;
       state.isLoading = false;
+      state.isLoadingMore = false;
       state.error = null;
     },
+    setLoadingMore: (state, action: PayloadAction<boolean>) => {
+      state.isLoadingMore = action.payload;
+    },
+    setFilters: (state, action: PayloadAction<Partial<SearchFilters>>) => {
+      state.filters = { ...state.filters, ...action.payload };
+    },
+    resetFilters: (state) => {
+      state.filters = DEFAULT_SEARCH_FILTERS;
+    },
     setAIAnswer: (state, action: PayloadAction<AIInstantAnswer | null>) => {
       state.aiAnswer = action.payload;
+      state.streamingAnswer = '';
       state.isGeneratingAnswer = false;
     },
+    setStreamingAnswer: (state, action: PayloadAction<string>) => {
+      state.streamingAnswer = action.payload;
+    },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
     },
@@ -64,11 +125,30 @@ const searchSlice = createSlice({
     },
     clearResults: (state) => {
       state.results = [];
+      state.correction = null;
+      state.currentPage = 1;
+      state.hasMore = false;
+      state.isLoadingMore = false;
       state.aiAnswer = null;
+      state.streamingAnswer = '';
       state.error = null;
     },
   },
 });
 
-export const { setQuery, setResults, setAIAnswer, setLoading, setGeneratingAnswer, setError, addToHistory, clearResults } = searchSlice.actions;
+export const {
+  setQuery,
+  setResults,
+  setResultsPage,
+  setLoadingMore,
+  setFilters,
+  resetFilters,
+  setAIAnswer,
+  setStreamingAnswer,
+  setLoading,
+  setGeneratingAnswer,
+  setError,
+  addToHistory,
+  clearResults,
+} = searchSlice.actions;
 export default searchSlice.reducer;
\ No newline at end of file
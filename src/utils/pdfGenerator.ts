@@ -0,0 +1,309 @@
+/**
+ * PDF Generation Utilities
+ * Builds simple branded A4 documents in the browser without external libraries
+ * Uses the standard Helvetica fonts, so text outside Latin-1 is replaced with "?" -
+ * check it with isPdfSafeText first and use the browser's print dialog for other scripts
+ */
+
+type FontKey = 'regular' | 'bold' | 'italic';
+
+interface TextOptions {
+  size?: number;
+  font?: FontKey;
+  color?: string;
+  indent?: number;
+  spaceAfter?: number;
+  url?: string;
+}
+
+interface PdfOptions {
+  title: string;
+  header: string;
+  subheader?: string;
+  footer?: string;
+}
+
+interface LinkAnnotation {
+  rect: [number, number, number, number];
+  url: string;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const HEADER_HEIGHT = 64;
+const FOOTER_HEIGHT = 36;
+const LINE_HEIGHT = 1.35;
+
+const FONT_RESOURCES: Record<FontKey, { name: string; base: string }> = {
+  regular: { name: 'F1', base: 'Helvetica' },
+  bold: { name: 'F2', base: 'Helvetica-Bold' },
+  italic: { name: 'F3', base: 'Helvetica-Oblique' },
+};
+
+// Glyph widths (1/1000 em) for printable ASCII, from the standard Helvetica AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters the standard fonts have no glyph for
+const UNSUPPORTED_CHARS = /[^\n -~\u00a0-\u00ff]/g;
+
+// Map common typographic characters onto Latin-1 equivalents
+const mapTypography = (text: string): string =>
+  text
+    .replace(/[\u2018\u2019\u201a]/g, "'")
+    .replace(/[\u201c\u201d\u201e]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[\u2022\u00b7]/g, '-')
+    .replace(/[\u2000-\u200a\u202f\u205f]/g, ' ') // the narrow spaces toLocaleString puts in times
+    .replace(/\t/g, '    ');
+
+const sanitize = (text: string): string => mapTypography(text).replace(UNSUPPORTED_CHARS, '?');
+
+/**
+ * Whether the text can be drawn as it is - Chinese or Arabic would come out as "?"
+ */
+export const isPdfSafeText = (text: string): boolean => !mapTypography(text).match(UNSUPPORTED_CHARS);
+
+const escapePdfString = (text: string): string =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+      if (code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+      return char;
+    })
+    .join('');
+
+const hexToRgb = (hex: string): string => {
+  const value = hex.replace('#', '');
+  const channels = [0, 2, 4].map((i) => parseInt(value.substring(i, i + 2), 16) / 255);
+  return channels.map((c) => c.toFixed(3)).join(' ');
+};
+
+const measure = (text: string, size: number, font: FontKey): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total / 1000) * size;
+};
+
+export class PdfBuilder {
+  private pages: string[][] = [];
+  private annotations: LinkAnnotation[][] = [];
+  private cursorY = 0;
+  private readonly options: PdfOptions;
+
+  constructor(options: PdfOptions) {
+    this.options = options;
+    this.addPage();
+  }
+
+  heading(text: string, level: 1 | 2 = 1): this {
+    const size = level === 1 ? 16 : 13;
+    this.space(level === 1 ? 8 : 4);
+    return this.text(text, { size, font: 'bold', color: '#115740', spaceAfter: 6 });
+  }
+
+  paragraph(text: string, options: TextOptions = {}): this {
+    return this.text(text, { spaceAfter: 8, ...options });
+  }
+
+  link(text: string, url: string, options: TextOptions = {}): this {
+    return this.text(text, { color: '#1a56db', spaceAfter: 4, ...options, url });
+  }
+
+  rule(color: string = '#d1d5db'): this {
+    this.ensureSpace(12);
+    this.cursorY -= 6;
+    this.draw(`${hexToRgb(color)} RG 0.75 w ${MARGIN} ${this.cursorY.toFixed(2)} m ${(PAGE_WIDTH - MARGIN).toFixed(2)} ${this.cursorY.toFixed(2)} l S`);
+    this.cursorY -= 6;
+    return this;
+  }
+
+  space(height: number): this {
+    this.cursorY -= height;
+    return this;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.build()], { type: 'application/pdf' });
+  }
+
+  // Wraps text to the page width, starting new pages as needed
+  private text(text: string, options: TextOptions): this {
+    const size = options.size ?? 10.5;
+    const font = options.font ?? 'regular';
+    const indent = options.indent ?? 0;
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - indent;
+    const lineHeight = size * LINE_HEIGHT;
+    const color = hexToRgb(options.color ?? '#1f2937');
+
+    this.wrap(sanitize(text), size, font, maxWidth).forEach((line) => {
+      this.ensureSpace(lineHeight);
+      this.cursorY -= lineHeight;
+      const x = MARGIN + indent;
+      const y = this.cursorY + (lineHeight - size) / 2;
+      this.draw(`BT /${FONT_RESOURCES[font].name} ${size} Tf ${color} rg ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfString(line)}) Tj ET`);
+
+      if (options.url && line.trim()) {
+        this.annotations[this.annotations.length - 1].push({
+          rect: [x, this.cursorY, x + measure(line, size, font), this.cursorY + lineHeight],
+          url: options.url,
+        });
+      }
+    });
+
+    this.cursorY -= options.spaceAfter ?? 0;
+    return this;
+  }
+
+  private wrap(text: string, size: number, font: FontKey, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    text.split('\n').forEach((paragraph) => {
+      let current = '';
+
+      paragraph.split(/ +/).forEach((word) => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (measure(candidate, size, font) <= maxWidth) {
+          current = candidate;
+          return;
+        }
+
+        if (current) lines.push(current);
+        current = word;
+
+        // Break words (usually URLs) that are wider than a whole line
+        while (measure(current, size, font) > maxWidth) {
+          let cut = current.length - 1;
+          while (cut > 1 && measure(current.substring(0, cut), size, font) > maxWidth) cut--;
+          lines.push(current.substring(0, cut));
+          current = current.substring(cut);
+        }
+      });
+
+      lines.push(current);
+    });
+
+    return lines;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.cursorY - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  private addPage() {
+    this.pages.push([]);
+    this.annotations.push([]);
+    this.cursorY = PAGE_HEIGHT - HEADER_HEIGHT - 28;
+  }
+
+  private draw(operation: string) {
+    this.pages[this.pages.length - 1].push(operation);
+  }
+
+  // Header band and page footer are drawn last so the page count is known
+  private decorate(pageIndex: number): string[] {
+    const { header, subheader, footer, title } = this.options;
+    const top = PAGE_HEIGHT - HEADER_HEIGHT;
+    const operations = [
+      `${hexToRgb('#115740')} rg 0 ${top.toFixed(2)} ${PAGE_WIDTH.toFixed(2)} ${HEADER_HEIGHT} re f`,
+      `${hexToRgb('#FFC72C')} rg 0 ${(top - 4).toFixed(2)} ${PAGE_WIDTH.toFixed(2)} 4 re f`,
+      `BT /F2 16 Tf 1 1 1 rg ${MARGIN} ${(top + 32).toFixed(2)} Td (${escapePdfString(sanitize(header))}) Tj ET`,
+    ];
+
+    if (subheader) {
+      operations.push(
+        `BT /F1 9 Tf 1 1 1 rg ${MARGIN} ${(top + 16).toFixed(2)} Td (${escapePdfString(sanitize(subheader))}) Tj ET`
+      );
+    }
+
+    const footerText = sanitize(`${footer ?? title} - ${pageIndex + 1} / ${this.pages.length}`);
+    operations.push(
+      `${hexToRgb('#e5e7eb')} RG 0.5 w ${MARGIN} ${MARGIN.toFixed(2)} m ${(PAGE_WIDTH - MARGIN).toFixed(2)} ${MARGIN.toFixed(2)} l S`,
+      `BT /F1 8 Tf ${hexToRgb('#6b7280')} rg ${MARGIN} ${(MARGIN - 14).toFixed(2)} Td (${escapePdfString(footerText)}) Tj ET`
+    );
+
+    return operations;
+  }
+
+  private build(): string {
+    const objects: string[] = [];
+    const fontIds: Record<string, number> = {};
+
+    // 1: catalog, 2: page tree - filled in once the page ids are known
+    objects.push('', '');
+
+    (Object.keys(FONT_RESOURCES) as FontKey[]).forEach((key) => {
+      objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[key].base} /Encoding /WinAnsiEncoding >>`);
+      fontIds[FONT_RESOURCES[key].name] = objects.length;
+    });
+
+    const fontDictionary = Object.entries(fontIds)
+      .map(([name, id]) => `/${name} ${id} 0 R`)
+      .join(' ');
+
+    const pageIds: number[] = [];
+    this.pages.forEach((operations, index) => {
+      const stream = [...this.decorate(index), ...operations].join('\n');
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      const contentId = objects.length;
+
+      const annotationIds = this.annotations[index].map((annotation) => {
+        const rect = annotation.rect.map((n) => n.toFixed(2)).join(' ');
+        objects.push(
+          `<< /Type /Annot /Subtype /Link /Rect [${rect}] /Border [0 0 0] /A << /S /URI /URI (${escapePdfString(sanitize(annotation.url))}) >> >>`
+        );
+        return objects.length;
+      });
+
+      const annots = annotationIds.length ? ` /Annots [${annotationIds.map((id) => `${id} 0 R`).join(' ')}]` : '';
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontDictionary} >> >> /Contents ${contentId} 0 R${annots} >>`
+      );
+      pageIds.push(objects.length);
+    });
+
+    objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects.push(`<< /Title (${escapePdfString(sanitize(this.options.title))}) /Producer (${escapePdfString(sanitize(this.options.header))}) >>`);
+    const infoId = objects.length;
+
+    // Every byte is ASCII (non-ASCII is octal-escaped), so string length equals byte offset
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return output;
+  }
+}
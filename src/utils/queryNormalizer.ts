@@ -0,0 +1,110 @@
+/**
+ * Query Intent Normalizer
+ * Reduces a question to the words that carry its meaning, so rewordings like
+ * "What's photosynthesis?" and "what is photosynthesis" share one cache key.
+ * Case and punctuation are normalised for every language; contractions,
+ * stopwords and stemming are English only
+ */
+
+const CONTRACTIONS: Record<string, string> = {
+  "what's": 'what is',
+  "who's": 'who is',
+  "where's": 'where is',
+  "when's": 'when is',
+  "how's": 'how is',
+  "why's": 'why is',
+  "it's": 'it is',
+  "that's": 'that is',
+  "there's": 'there is',
+  "isn't": 'is not',
+  "aren't": 'are not',
+  "wasn't": 'was not',
+  "weren't": 'were not',
+  "don't": 'do not',
+  "doesn't": 'does not',
+  "didn't": 'did not',
+  "can't": 'can not',
+  cannot: 'can not',
+  "won't": 'will not',
+  "couldn't": 'could not',
+  "shouldn't": 'should not',
+};
+
+// Words that don't change what is being asked. Question words other than
+// "what" stay - "why do leaves fall" and "when do leaves fall" differ - and so
+// does "not"
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'do', 'does', 'did',
+  'what', 'of', 'to', 'in', 'on', 'for', 'about', 'me', 'tell', 'please', 'explain',
+  'define', 'definition', 'meaning', 'can', 'could', 'would', 'you', 'i', 'my', 'your',
+  'and', 'with', 'by', 'as', 'at', 'from', 'this', 'that', 'these', 'those', 'it', 'its',
+  'there', 'some', 'any', 'really', 'just', 'simple', 'simply',
+]);
+
+// ASCII punctuation except the apostrophe (contractions need it), plus curly quotes,
+// the ellipsis and the inverted, CJK and Arabic marks students type
+const PUNCTUATION = /[!-&(-/:-@[-`{-~\u00A1\u00BF\u2018-\u201F\u2026\u3001\u3002\uFF01\uFF0C\uFF1F\u060C\u061F]/g;
+
+const isEnglishWord = (word: string) => /^[a-z0-9]+$/.test(word);
+
+/**
+ * Light suffix stripping - enough to fold plurals and -ing/-ed forms together
+ * ("volcanoes" / "volcano", "making" / "make") without a full Porter stemmer
+ */
+export const stemWord = (word: string): string => {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+
+  let stem = word;
+  let strippedVerbEnding = false;
+
+  if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (/(ch|sh|x|z|o)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('ing') && stem.length > 5) {
+    stem = stem.slice(0, -3);
+    strippedVerbEnding = true;
+  } else if (stem.endsWith('ed') && stem.length > 4) {
+    stem = stem.slice(0, -2);
+    strippedVerbEnding = true;
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "running" -> "runn" -> "run"
+  if (strippedVerbEnding && /([^aeioulsz])\1$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "make" and "making" both end up as "mak"
+  if (stem.length >= 4 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+};
+
+/**
+ * The normalised intent of a query: lower case, punctuation removed,
+ * contractions expanded, stopwords dropped and words stemmed, in the order
+ * they were typed (order matters - "celsius to fahrenheit" isn't the reverse)
+ */
+export const normalizeQueryIntent = (query: string): string => {
+  const words = query
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(PUNCTUATION, ' ')
+    .split(/\s+/)
+    .flatMap((word) => (CONTRACTIONS[word] || word).split(' '))
+    .map((word) => word.replace(/'/g, ''))
+    .filter(Boolean);
+
+  const meaningful = words.filter((word) => !(isEnglishWord(word) && STOPWORDS.has(word)));
+
+  // A question made only of stopwords ("what is it") keeps its words rather than becoming empty
+  return (meaningful.length > 0 ? meaningful : words)
+    .map((word) => (isEnglishWord(word) ? stemWord(word) : word))
+    .join(' ');
+};
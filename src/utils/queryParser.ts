@@ -0,0 +1,164 @@
+/**
+ * Search Query Parser
+ * Splits what was typed into terms, "exact phrases", -exclusions and
+ * site:/filetype: operators so providers, post-filtering and moderation
+ * each get the part of the query they need
+ */
+
+import {
+  DEFAULT_SEARCH_FILTERS,
+  fileTypeFromExtension,
+  type SearchFileType,
+  type SearchFilters,
+} from '../services/searchProviders';
+
+export type QueryTokenType = 'term' | 'phrase' | 'exclude' | 'site' | 'excludeSite' | 'fileType';
+
+export interface QueryToken {
+  type: QueryTokenType;
+  value: string; // the word, phrase, domain or file type without syntax
+  raw: string; // exactly as typed, so the query can be rebuilt without this token
+}
+
+export interface ParsedQuery {
+  raw: string;
+  tokens: QueryToken[];
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  sites: string[];
+  excludedSites: string[];
+  fileType: SearchFileType | null;
+}
+
+// Optional "-", optional operator, then a quoted phrase (closing quote optional while typing) or a word
+const TOKEN_PATTERN = /(-)?(?:(site|filetype|ext):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const normalizeSite = (site: string) =>
+  site.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split('/')[0];
+
+const toToken = (
+  raw: string,
+  negated: boolean,
+  operator: string | undefined,
+  phrase: string | undefined,
+  word: string | undefined
+): QueryToken | null => {
+  const value = (phrase ?? word ?? '').trim();
+  if (!value) return null;
+
+  switch (operator?.toLowerCase()) {
+    case 'site': {
+      const site = normalizeSite(value);
+      if (!site.includes('.')) break;
+      return { type: negated ? 'excludeSite' : 'site', value: site, raw };
+    }
+    case 'filetype':
+    case 'ext': {
+      const fileType = fileTypeFromExtension(value);
+      if (!fileType || negated) break;
+      return { type: 'fileType', value: fileType, raw };
+    }
+    default:
+      if (negated) return { type: 'exclude', value, raw };
+      return { type: phrase !== undefined ? 'phrase' : 'term', value, raw };
+  }
+
+  // Operators we can't honour stay in the query as ordinary text
+  return { type: 'term', value: raw.replace(/^-/, ''), raw };
+};
+
+export const parseSearchQuery = (raw: string): ParsedQuery => {
+  const tokens: QueryToken[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN.source, TOKEN_PATTERN.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const token = toToken(match[0], !!match[1], match[2], match[3], match[4]);
+    if (token) tokens.push(token);
+  }
+
+  const valuesOf = (type: QueryTokenType) => tokens.filter((token) => token.type === type).map((token) => token.value);
+  const fileTypes = valuesOf('fileType');
+
+  return {
+    raw,
+    tokens,
+    terms: valuesOf('term'),
+    phrases: valuesOf('phrase'),
+    excludedTerms: valuesOf('exclude'),
+    sites: Array.from(new Set(valuesOf('site'))),
+    excludedSites: Array.from(new Set(valuesOf('excludeSite'))),
+    fileType: fileTypes.length > 0 ? (fileTypes[fileTypes.length - 1] as SearchFileType) : null,
+  };
+};
+
+/**
+ * Tokens that change how the search runs, shown as removable chips
+ */
+export const getOperatorTokens = (parsed: ParsedQuery): QueryToken[] =>
+  parsed.tokens.filter((token) => token.type !== 'term');
+
+/**
+ * The query with one token taken out, as the user would have typed it
+ */
+export const removeQueryToken = (parsed: ParsedQuery, tokenToRemove: QueryToken): string =>
+  parsed.tokens
+    .filter((token) => token !== tokenToRemove)
+    .map((token) => token.raw)
+    .join(' ');
+
+/**
+ * Text sent to providers: terms, quoted phrases and exclusions. Site and file
+ * type operators travel as filters so each provider can use its native form
+ */
+export const toProviderQuery = (parsed: ParsedQuery): string => {
+  const parts = [
+    ...parsed.terms,
+    ...parsed.phrases.map((phrase) => `"${phrase}"`),
+    ...parsed.excludedTerms.map((term) => (term.includes(' ') ? `-"${term}"` : `-${term}`)),
+  ];
+
+  // A query that is only operators still needs something to search for
+  return parts.length > 0 && (parsed.terms.length > 0 || parsed.phrases.length > 0)
+    ? parts.join(' ')
+    : parsed.raw.trim();
+};
+
+/**
+ * The words moderation should judge - what the user is looking for, not what
+ * they excluded or which site they limited the search to
+ */
+export const getModerationText = (parsed: ParsedQuery): string => {
+  const text = [...parsed.terms, ...parsed.phrases].join(' ').trim();
+  return text || parsed.raw.trim();
+};
+
+/**
+ * Fold the query's operators into the filter bar's filters. Sites from both are
+ * combined; a filetype: operator wins over the file type select
+ */
+export const mergeQueryFilters = (parsed: ParsedQuery, filters?: SearchFilters): SearchFilters | undefined => {
+  if (parsed.sites.length === 0 && parsed.excludedSites.length === 0 && !parsed.fileType) {
+    return filters;
+  }
+
+  const base = filters || DEFAULT_SEARCH_FILTERS;
+
+  return {
+    ...base,
+    includeSites: Array.from(new Set([...base.includeSites, ...parsed.sites])),
+    excludeSites: Array.from(new Set([...base.excludeSites, ...parsed.excludedSites])),
+    fileType: parsed.fileType || base.fileType,
+  };
+};
+
+/**
+ * Drop results that mention an excluded term. Phrases aren't enforced here -
+ * snippets are cut short, so a missing phrase doesn't mean the page lacks it
+ */
+export const matchesExclusions = (parsed: ParsedQuery, text: string): boolean => {
+  if (parsed.excludedTerms.length === 0) return true;
+  const haystack = text.toLowerCase();
+  return !parsed.excludedTerms.some((term) => haystack.includes(term.toLowerCase()));
+};